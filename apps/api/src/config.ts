@@ -34,6 +34,13 @@ const configSchema = z.object({
     password: z.string().optional(),
     db: z.coerce.number().default(0),
   }),
+  tokens: z.object({
+    apiUrl: z.string().url().default('https://api.jup.ag'),
+    apiKey: z.string().optional(),
+    tokensEndpoint: z.string().default('/tokens/v2/search'),
+    timeout: z.coerce.number().default(5000),
+    rateLimit: z.coerce.number().default(1000), // Minimum delay between requests in ms (1 RPS = 1000ms)
+  }),
   metrics: z.object({
     enabled: z.coerce.boolean().default(true),
     port: z.coerce.number().default(9090),
@@ -67,6 +74,13 @@ export function getConfig(): Config {
       password: process.env.REDIS_PASSWORD,
       db: process.env.REDIS_DB,
     },
+    tokens: {
+      apiUrl: process.env.JUPITER_API_URL,
+      apiKey: process.env.JUPITER_API_KEY,
+      tokensEndpoint: process.env.JUPITER_TOKENS_ENDPOINT,
+      timeout: process.env.JUPITER_TIMEOUT,
+      rateLimit: process.env.JUPITER_RATE_LIMIT,
+    },
     metrics: {
       enabled: process.env.ENABLE_METRICS,
       port: process.env.METRICS_PORT,
@@ -72,18 +72,47 @@ await redis.connect();
 
 // Initialize services
 import { VolumeAggregationService } from './services/volume-aggregation.service.js';
+import { TokenMetadataService } from '@incur-data/token-metadata';
 import { registerAnalyticsRoutes } from './routes/analytics.routes.js';
+import { OrderService } from './services/order.service.js';
+import { registerOrderRoutes } from './routes/orders.routes.js';
+import { TransactionService } from './services/transaction.service.js';
+import { registerTransactionRoutes } from './routes/transactions.routes.js';
+import { SolverService } from './services/solver.service.js';
+import { registerSolverRoutes } from './routes/solvers.routes.js';
+import { MakerService } from './services/maker.service.js';
+import { registerMakerRoutes } from './routes/makers.routes.js';
+import { FeeService } from './services/fee.service.js';
+import { registerFeeRoutes } from './routes/fees.routes.js';
 import { healthResponseSchema } from './schemas/volume.schema.js';
 
+const tokenMetadataService = new TokenMetadataService(
+  config.tokens,
+  redis as any, // Type cast to avoid Redis type conflicts
+  fastify.log
+);
+
 const volumeService = new VolumeAggregationService({
   clickhouse,
   redis: redis as any, // Type cast to avoid Redis type conflicts
   cacheTtlSeconds: 300, // 5 minutes
   enableCache: true,
+  tokenMetadata: tokenMetadataService,
 });
 
+const orderService = new OrderService({ clickhouse });
+const transactionService = new TransactionService({ clickhouse });
+const solverService = new SolverService({ clickhouse });
+const makerService = new MakerService({ clickhouse });
+const feeService = new FeeService({ clickhouse });
+
 // Register routes
 await registerAnalyticsRoutes(fastify, { volumeService });
+await registerOrderRoutes(fastify, { orderService });
+await registerTransactionRoutes(fastify, { transactionService });
+await registerSolverRoutes(fastify, { solverService });
+await registerMakerRoutes(fastify, { makerService });
+await registerFeeRoutes(fastify, { feeService });
 
 // Health check endpoint with Zod validation
 fastify.get('/health', {
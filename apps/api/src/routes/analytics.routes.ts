@@ -4,6 +4,13 @@
  */
 
 import { FastifyInstance } from 'fastify';
+import {
+  fillLatencyQuerySchema,
+  hourlyVolumeQuerySchema,
+  topTokensQuerySchema,
+  volumeByChainQuerySchema,
+  volumeComparisonQuerySchema,
+} from '@incur-data/dtos';
 import { VolumeAggregationService } from '../services/volume-aggregation.service.js';
 import {
   volumeQuerySchema,
@@ -36,7 +43,11 @@ export async function registerAnalyticsRoutes(
         properties: {
           fromDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Start date (YYYY-MM-DD)' },
           toDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'End date (YYYY-MM-DD)' },
-          eventType: { type: 'string', enum: ['created', 'fulfilled'], description: 'Filter by event type' },
+          eventType: {
+            type: 'string',
+            enum: ['created', 'fulfilled', 'cancelled', 'claimed', 'sentUnlock', 'claimedUnlock'],
+            description: 'Filter by event type',
+          },
           giveChainId: { type: 'string', description: 'Filter by source chain' },
           takeChainId: { type: 'string', description: 'Filter by destination chain' },
           limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100, description: 'Max results' },
@@ -53,7 +64,7 @@ export async function registerAnalyticsRoutes(
                 type: 'object',
                 properties: {
                   date: { type: 'string' },
-                  eventType: { type: 'string', enum: ['created', 'fulfilled'] },
+                  eventType: { type: 'string' },
                   giveChainId: { type: 'string' },
                   takeChainId: { type: 'string' },
                   totalVolumeUsd: { type: 'string' },
@@ -164,6 +175,575 @@ export async function registerAnalyticsRoutes(
     },
   });
 
+  /**
+   * GET /api/v1/analytics/hourly-volume
+   * Get USD volume per hour / day / week / month for a datetime range
+   */
+  fastify.get('/api/v1/analytics/hourly-volume', {
+    schema: {
+      description: 'Get USD volume time series by event type with automatic granularity (hourly under 7 days)',
+      tags: ['Analytics'],
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', format: 'date-time', description: 'Start datetime (ISO 8601), default: 24h before to' },
+          to: { type: 'string', format: 'date-time', description: 'End datetime (ISO 8601), default: now' },
+          granularity: {
+            type: 'string',
+            enum: ['auto', 'hour', 'day', 'week', 'month'],
+            default: 'auto',
+            description: 'Bucket size, auto picks it from the range',
+          },
+          eventType: {
+            type: 'string',
+            enum: ['created', 'fulfilled', 'cancelled', 'claimed', 'sentUnlock', 'claimedUnlock'],
+            description: 'Filter by event type',
+          },
+          programId: { type: 'string', description: 'Filter by DLN program' },
+          limit: { type: 'integer', minimum: 1, maximum: 1000, default: 500, description: 'Max buckets' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                granularity: { type: 'string' },
+                from: { type: 'string' },
+                to: { type: 'string' },
+                buckets: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      bucket: { type: 'string' },
+                      eventType: { type: 'string' },
+                      totalVolumeUsd: { type: 'string' },
+                      txCount: { type: 'integer' },
+                      avgVolumeUsd: { type: 'string' },
+                      minVolumeUsd: { type: 'string' },
+                      maxVolumeUsd: { type: 'string' },
+                      uniqueAccounts: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+            count: { type: 'integer' },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const validatedQuery = hourlyVolumeQuerySchema.parse(request.query);
+
+        const data = await volumeService.getHourlyVolume(validatedQuery);
+
+        return {
+          success: true,
+          data,
+          count: data.buckets.length,
+          filters: {
+            ...validatedQuery,
+            from: data.from,
+            to: data.to,
+          },
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch hourly volume',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /api/v1/analytics/top-tokens
+   * Get tokens ranked by USD volume with their share of total volume
+   */
+  fastify.get('/api/v1/analytics/top-tokens', {
+    schema: {
+      description: 'Get top tokens by USD volume with rank, volume share, symbol, name and decimals',
+      tags: ['Analytics'],
+      querystring: {
+        type: 'object',
+        properties: {
+          fromDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Start date (YYYY-MM-DD)' },
+          toDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'End date (YYYY-MM-DD)' },
+          eventType: {
+            type: 'string',
+            enum: ['created', 'fulfilled', 'cancelled', 'claimed', 'sentUnlock', 'claimedUnlock'],
+            description: 'Filter by event type',
+          },
+          programId: { type: 'string', description: 'Filter by DLN program' },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 10, description: 'Number of tokens' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  rank: { type: 'integer' },
+                  tokenAddress: { type: 'string' },
+                  symbol: { type: ['string', 'null'] },
+                  name: { type: ['string', 'null'] },
+                  decimals: { type: ['integer', 'null'] },
+                  logoUri: { type: ['string', 'null'] },
+                  totalVolumeUsd: { type: 'string' },
+                  txCount: { type: 'integer' },
+                  avgVolumeUsd: { type: 'string' },
+                  uniqueAccounts: { type: 'integer' },
+                  volumeShare: { type: 'number' },
+                },
+              },
+            },
+            count: { type: 'integer' },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const validatedQuery = topTokensQuerySchema.parse(request.query);
+
+        const data = await volumeService.getTopTokens(validatedQuery);
+
+        return {
+          success: true,
+          data,
+          count: data.length,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch top tokens',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /api/v1/analytics/volume-by-chain
+   * Get USD volume per chain corridor (give chain -> take chain)
+   */
+  fastify.get('/api/v1/analytics/volume-by-chain', {
+    schema: {
+      description: 'Get USD volume per chain corridor with created vs fulfilled breakdown and volume share',
+      tags: ['Analytics'],
+      querystring: {
+        type: 'object',
+        properties: {
+          fromDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Start date (YYYY-MM-DD)' },
+          toDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'End date (YYYY-MM-DD)' },
+          programId: { type: 'string', description: 'Filter by DLN program' },
+          giveChainId: { type: 'string', description: 'Filter by source chain (DLN chain id or name)' },
+          takeChainId: { type: 'string', description: 'Filter by destination chain (DLN chain id or name)' },
+          limit: { type: 'integer', minimum: 1, maximum: 1000, default: 50, description: 'Number of corridors' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  giveChainId: { type: 'string' },
+                  takeChainId: { type: 'string' },
+                  giveChainName: { type: ['string', 'null'] },
+                  takeChainName: { type: ['string', 'null'] },
+                  totalVolumeUsd: { type: 'string' },
+                  createdVolumeUsd: { type: 'string' },
+                  fulfilledVolumeUsd: { type: 'string' },
+                  orderCount: { type: 'integer' },
+                  volumeShare: { type: 'number' },
+                },
+              },
+            },
+            count: { type: 'integer' },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const validatedQuery = volumeByChainQuerySchema.parse(request.query);
+
+        const data = await volumeService.getVolumeByChain(validatedQuery);
+
+        return {
+          success: true,
+          data,
+          count: data.length,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch volume by chain',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+
+  // Created / fulfilled / unfulfilled figures shared by the comparison days and period totals
+  const comparisonProperties = {
+    created: {
+      type: 'object',
+      properties: {
+        volumeUsd: { type: 'string' },
+        count: { type: 'integer' },
+        avgUsd: { type: 'string' },
+      },
+    },
+    fulfilled: {
+      type: 'object',
+      properties: {
+        volumeUsd: { type: 'string' },
+        count: { type: 'integer' },
+        avgUsd: { type: 'string' },
+      },
+    },
+    fulfillmentRate: { type: 'number' },
+    unfulfilled: {
+      type: 'object',
+      properties: {
+        volumeUsd: { type: 'string' },
+        count: { type: 'integer' },
+      },
+    },
+  };
+
+  const comparisonTotalsSchema = {
+    type: 'object',
+    properties: {
+      fromDate: { type: 'string' },
+      toDate: { type: 'string' },
+      ...comparisonProperties,
+    },
+  };
+
+  /**
+   * GET /api/v1/analytics/volume-comparison
+   * Compare created vs fulfilled volume per day and against the previous period
+   */
+  fastify.get('/api/v1/analytics/volume-comparison', {
+    schema: {
+      description:
+        'Get created, fulfilled and unfulfilled volume per day with deltas against the previous period of the same length',
+      tags: ['Analytics'],
+      querystring: {
+        type: 'object',
+        properties: {
+          fromDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Start date (YYYY-MM-DD), defaults to 6 days before toDate' },
+          toDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'End date (YYYY-MM-DD), defaults to today' },
+          giveChainId: { type: 'string', description: 'Filter by source chain (DLN chain id or name)' },
+          takeChainId: { type: 'string', description: 'Filter by destination chain (DLN chain id or name)' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                current: comparisonTotalsSchema,
+                previous: comparisonTotalsSchema,
+                deltas: {
+                  type: 'object',
+                  properties: {
+                    createdVolumeUsd: { type: ['number', 'null'] },
+                    createdCount: { type: ['number', 'null'] },
+                    fulfilledVolumeUsd: { type: ['number', 'null'] },
+                    fulfilledCount: { type: ['number', 'null'] },
+                    unfulfilledVolumeUsd: { type: ['number', 'null'] },
+                    unfulfilledCount: { type: ['number', 'null'] },
+                    fulfillmentRate: { type: 'number' },
+                  },
+                },
+                days: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      date: { type: 'string' },
+                      giveChainId: { type: 'string' },
+                      takeChainId: { type: 'string' },
+                      ...comparisonProperties,
+                    },
+                  },
+                },
+              },
+            },
+            count: { type: 'integer' },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const validatedQuery = volumeComparisonQuerySchema.parse(request.query);
+
+        const data = await volumeService.getVolumeComparison(validatedQuery);
+
+        return {
+          success: true,
+          data,
+          count: data.days.length,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch volume comparison',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+
+  const latencyDistributionSchema = {
+    type: 'object',
+    properties: {
+      avg: { type: 'number' },
+      p50: { type: 'number' },
+      p90: { type: 'number' },
+      p99: { type: 'number' },
+    },
+  };
+
+  /**
+   * GET /api/v1/analytics/fill-latency
+   * Get fill latency quantiles (created -> fulfilled) per day, token or corridor
+   */
+  fastify.get('/api/v1/analytics/fill-latency', {
+    schema: {
+      description: 'Get fill latency p50 / p90 / p99 in seconds and slots per fulfillment day, give token or chain corridor',
+      tags: ['Analytics'],
+      querystring: {
+        type: 'object',
+        properties: {
+          fromDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Start fulfillment date (YYYY-MM-DD)' },
+          toDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'End fulfillment date (YYYY-MM-DD)' },
+          groupBy: { type: 'string', enum: ['day', 'token', 'corridor'], default: 'day', description: 'Grouping' },
+          tokenAddress: { type: 'string', description: 'Filter by give token mint' },
+          giveChainId: { type: 'string', description: 'Filter by source chain (DLN chain id or name)' },
+          takeChainId: { type: 'string', description: 'Filter by destination chain (DLN chain id or name)' },
+          limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100, description: 'Max results' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  date: { type: ['string', 'null'] },
+                  tokenAddress: { type: ['string', 'null'] },
+                  giveChainId: { type: ['string', 'null'] },
+                  takeChainId: { type: ['string', 'null'] },
+                  orderCount: { type: 'integer' },
+                  seconds: latencyDistributionSchema,
+                  slots: { ...latencyDistributionSchema, type: ['object', 'null'] },
+                },
+              },
+            },
+            count: { type: 'integer' },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const validatedQuery = fillLatencyQuerySchema.parse(request.query);
+
+        const data = await volumeService.getFillLatency(validatedQuery);
+
+        return {
+          success: true,
+          data,
+          count: data.length,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch fill latency',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /api/v1/analytics/lifecycle
+   * Get daily order lifecycle counts with cancellation rate and unlock latency
+   */
+  fastify.get('/api/v1/analytics/lifecycle', {
+    schema: {
+      description: 'Get daily counts of created, fulfilled, cancelled, claimed and unlocked orders',
+      tags: ['Analytics'],
+      querystring: {
+        type: 'object',
+        properties: {
+          fromDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Start date (YYYY-MM-DD)' },
+          toDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'End date (YYYY-MM-DD)' },
+          limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100, description: 'Max results' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  date: { type: 'string' },
+                  createdCount: { type: 'integer' },
+                  fulfilledCount: { type: 'integer' },
+                  cancelledCount: { type: 'integer' },
+                  claimedCount: { type: 'integer' },
+                  sentUnlockCount: { type: 'integer' },
+                  claimedUnlockCount: { type: 'integer' },
+                  cancellationRate: { type: 'number' },
+                  avgUnlockLatencySeconds: { type: ['number', 'null'] },
+                  avgClaimLatencySeconds: { type: ['number', 'null'] },
+                },
+              },
+            },
+            count: { type: 'integer' },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const validatedQuery = volumeQuerySchema.parse(request.query);
+        const filters = parseQueryFilters(validatedQuery);
+
+        const data = await volumeService.getLifecycleStats(filters);
+
+        return {
+          success: true,
+          data,
+          count: data.length,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch lifecycle stats',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+
   /**
    * GET /api/v1/analytics/total-stats
    * Get total statistics for all time (created vs fulfilled)
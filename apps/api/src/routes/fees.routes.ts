@@ -0,0 +1,137 @@
+/**
+ * Fee analytics API routes with Zod validation
+ * Affiliate and protocol fee revenue per day and per affiliate
+ */
+
+import { FastifyInstance } from 'fastify';
+import { feesQuerySchema } from '@incur-data/dtos';
+import { FeeService } from '../services/fee.service.js';
+
+interface FeeRouteContext {
+  feeService: FeeService;
+}
+
+/**
+ * JSON schema of fee totals
+ */
+const feeTotalsProperties = {
+  orderCount: { type: 'integer' },
+  affiliateOrderCount: { type: 'integer' },
+  affiliateFeeUsd: { type: 'string' },
+  fixFeeUsd: { type: 'string' },
+  percentFeeUsd: { type: 'string' },
+  protocolFeeUsd: { type: 'string' },
+};
+
+/**
+ * Register fee analytics routes with Zod validation
+ */
+export async function registerFeeRoutes(
+  fastify: FastifyInstance,
+  context: FeeRouteContext
+) {
+  const { feeService } = context;
+
+  /**
+   * GET /api/v1/analytics/fees
+   * Get affiliate and protocol fees per order creation day and per affiliate
+   */
+  fastify.get('/api/v1/analytics/fees', {
+    schema: {
+      description: 'Get fee revenue: affiliate and protocol (fix / percent) fees in USD per day and affiliate fees per beneficiary',
+      tags: ['Analytics'],
+      querystring: {
+        type: 'object',
+        properties: {
+          fromDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Start order creation date (YYYY-MM-DD)' },
+          toDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'End order creation date (YYYY-MM-DD)' },
+          takeChainId: { type: 'string', description: 'Filter by destination chain (DLN chain id or name)' },
+          affiliate: { type: 'string', description: 'Filter by affiliate fee beneficiary (base58)' },
+          limit: { type: 'integer', minimum: 1, maximum: 500, default: 50, description: 'Number of affiliates' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                totals: {
+                  type: 'object',
+                  properties: feeTotalsProperties,
+                },
+                daily: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      date: { type: 'string' },
+                      ...feeTotalsProperties,
+                    },
+                  },
+                },
+                affiliates: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      beneficiary: { type: 'string' },
+                      orderCount: { type: 'integer' },
+                      volumeUsd: { type: 'string' },
+                      feeUsd: { type: 'string' },
+                      tokens: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            tokenAddress: { type: 'string' },
+                            amount: { type: 'string' },
+                            amountUsd: { type: 'string' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const validatedQuery = feesQuerySchema.parse(request.query);
+
+        const data = await feeService.getFees(validatedQuery);
+
+        return {
+          success: true,
+          data,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch fees',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+}
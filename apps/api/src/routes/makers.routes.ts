@@ -0,0 +1,122 @@
+/**
+ * Maker analytics API routes with Zod validation
+ * Maker cohorts, weekly retention and new / returning / churned makers
+ */
+
+import { FastifyInstance } from 'fastify';
+import { makerCohortsQuerySchema } from '@incur-data/dtos';
+import { MakerService } from '../services/maker.service.js';
+
+interface MakerRouteContext {
+  makerService: MakerService;
+}
+
+/**
+ * Register maker analytics routes with Zod validation
+ */
+export async function registerMakerRoutes(
+  fastify: FastifyInstance,
+  context: MakerRouteContext
+) {
+  const { makerService } = context;
+
+  /**
+   * GET /api/v1/analytics/makers/cohorts
+   * Get weekly maker cohorts with retention matrix and new / returning / churned counts
+   */
+  fastify.get('/api/v1/analytics/makers/cohorts', {
+    schema: {
+      description: 'Get weekly maker cohorts (by first order week), retention matrix and new / returning / churned makers',
+      tags: ['Analytics'],
+      querystring: {
+        type: 'object',
+        properties: {
+          toDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Last week of the range (YYYY-MM-DD), defaults to today' },
+          weeks: { type: 'integer', minimum: 1, maximum: 52, default: 12, description: 'Number of weeks' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                fromWeek: { type: 'string' },
+                toWeek: { type: 'string' },
+                cohorts: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      cohortWeek: { type: 'string' },
+                      size: { type: 'integer' },
+                      retention: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            weekOffset: { type: 'integer' },
+                            week: { type: 'string' },
+                            activeMakers: { type: 'integer' },
+                            retentionRate: { type: 'number' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+                periods: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      week: { type: 'string' },
+                      activeMakers: { type: 'integer' },
+                      newMakers: { type: 'integer' },
+                      returningMakers: { type: 'integer' },
+                      churnedMakers: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const validatedQuery = makerCohortsQuerySchema.parse(request.query);
+
+        const data = await makerService.getCohorts(validatedQuery);
+
+        return {
+          success: true,
+          data,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch maker cohorts',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+}
@@ -0,0 +1,265 @@
+/**
+ * Order API routes with Zod validation
+ * Order lookup by id and order search
+ */
+
+import { FastifyInstance } from 'fastify';
+import {
+  orderFiltersSchema,
+  orderIdParamSchema,
+  orderListQuerySchema,
+  paginationSchema,
+} from '@incur-data/dtos';
+import { OrderService } from '../services/order.service.js';
+
+interface OrderRouteContext {
+  orderService: OrderService;
+}
+
+const nullableString = { type: ['string', 'null'] };
+const nullableNumber = { type: ['number', 'null'] };
+
+/**
+ * JSON schema of an order summary (shared by list and detail responses)
+ */
+const orderSummaryProperties = {
+  orderId: { type: 'string' },
+  status: { type: 'string' },
+  maker: { type: 'string' },
+  taker: { type: 'string' },
+  receiver: { type: 'string' },
+  giveChainId: { type: 'string' },
+  takeChainId: { type: 'string' },
+  giveTokenAddress: { type: 'string' },
+  takeTokenAddress: { type: 'string' },
+  giveAmount: { type: 'string' },
+  takeAmount: { type: 'string' },
+  giveAmountUsd: { type: 'string' },
+  takeAmountUsd: { type: 'string' },
+  signatures: {
+    type: 'object',
+    properties: {
+      create: nullableString,
+      fulfill: nullableString,
+      cancel: nullableString,
+    },
+  },
+  createdSlot: nullableNumber,
+  fulfilledSlot: nullableNumber,
+  cancelledSlot: nullableNumber,
+  timing: {
+    type: 'object',
+    properties: {
+      createdAt: nullableString,
+      fulfilledAt: nullableString,
+      cancelledAt: nullableString,
+      unlockSentAt: nullableString,
+      unlockClaimedAt: nullableString,
+      cancelClaimedAt: nullableString,
+      fillDurationSeconds: nullableNumber,
+      settlementDurationSeconds: nullableNumber,
+    },
+  },
+  updatedAt: { type: 'string' },
+};
+
+/**
+ * Register order routes with Zod validation
+ */
+export async function registerOrderRoutes(
+  fastify: FastifyInstance,
+  context: OrderRouteContext
+) {
+  const { orderService } = context;
+
+  /**
+   * GET /api/v1/orders
+   * Search orders with filters and pagination
+   */
+  fastify.get('/api/v1/orders', {
+    schema: {
+      description: 'Search orders by maker, taker, status, chain, token or slot range',
+      tags: ['Orders'],
+      querystring: {
+        type: 'object',
+        properties: {
+          orderId: { type: 'string', description: 'Order ID (hex)' },
+          maker: { type: 'string', description: 'Order maker' },
+          taker: { type: 'string', description: 'Order taker (fulfiller)' },
+          status: {
+            type: 'string',
+            enum: ['created', 'fulfilled', 'cancelled', 'claimed'],
+            description: 'Order status',
+          },
+          giveChainId: { type: 'string', description: 'Filter by source chain' },
+          takeChainId: { type: 'string', description: 'Filter by destination chain' },
+          giveTokenAddress: { type: 'string', description: 'Filter by give token' },
+          takeTokenAddress: { type: 'string', description: 'Filter by take token' },
+          fromSlot: { type: 'integer', minimum: 1, description: 'First seen at or after slot' },
+          toSlot: { type: 'integer', minimum: 1, description: 'First seen at or before slot' },
+          page: { type: 'integer', minimum: 1, default: 1 },
+          pageSize: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          sortBy: {
+            type: 'string',
+            enum: ['updatedAt', 'createdSlot', 'createdAt', 'fulfilledAt', 'giveAmountUsd', 'takeAmountUsd'],
+          },
+          sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                items: {
+                  type: 'array',
+                  items: { type: 'object', properties: orderSummaryProperties },
+                },
+                total: { type: 'integer' },
+                page: { type: 'integer' },
+                pageSize: { type: 'integer' },
+                totalPages: { type: 'integer' },
+              },
+            },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const validatedQuery = orderListQuerySchema.parse(request.query);
+        const filters = orderFiltersSchema.parse(validatedQuery);
+        const pagination = paginationSchema.parse(validatedQuery);
+
+        const data = await orderService.listOrders(filters, pagination);
+
+        return {
+          success: true,
+          data,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch orders',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /api/v1/orders/:orderId
+   * Get an order with its full lifecycle (signatures, events, amounts and timing)
+   */
+  fastify.get('/api/v1/orders/:orderId', {
+    schema: {
+      description: 'Get order lifecycle: all signatures, events, amounts, USD values and timing',
+      tags: ['Orders'],
+      params: {
+        type: 'object',
+        properties: {
+          orderId: { type: 'string', description: 'Order ID (hex, with or without 0x)' },
+        },
+        required: ['orderId'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                ...orderSummaryProperties,
+                events: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      eventType: { type: 'string' },
+                      signature: { type: 'string' },
+                      slot: { type: 'integer' },
+                      blockTime: { type: 'string' },
+                      programId: { type: 'string' },
+                      status: { type: 'string' },
+                      amountUsd: { type: 'string' },
+                      transfers: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            account: { type: 'string' },
+                            tokenAddress: { type: 'string' },
+                            amount: { type: 'string' },
+                            amountUsd: { type: 'string' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const { orderId } = orderIdParamSchema.parse(request.params);
+
+        const data = await orderService.getOrder(orderId);
+
+        if (!data) {
+          reply.status(404).send({
+            success: false,
+            error: 'Order not found',
+            message: `No order with id ${orderId}`,
+            statusCode: 404,
+          });
+          return;
+        }
+
+        return {
+          success: true,
+          data,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid order id',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch order',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+}
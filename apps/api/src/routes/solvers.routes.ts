@@ -0,0 +1,231 @@
+/**
+ * Solver analytics API routes with Zod validation
+ * Solver (order fulfiller) leaderboard and per-solver detail
+ */
+
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { solanaAddressSchema, solverDetailQuerySchema, solversQuerySchema } from '@incur-data/dtos';
+import { SolverService } from '../services/solver.service.js';
+
+interface SolverRouteContext {
+  solverService: SolverService;
+}
+
+const addressParamSchema = z.object({ address: solanaAddressSchema });
+
+/**
+ * JSON schema of the solver filters (fill day range and corridor)
+ */
+const solverFilterProperties = {
+  fromDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Start fill date (YYYY-MM-DD)' },
+  toDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'End fill date (YYYY-MM-DD)' },
+  giveChainId: { type: 'string', description: 'Filter by source chain (DLN chain id or name)' },
+  takeChainId: { type: 'string', description: 'Filter by destination chain (DLN chain id or name)' },
+};
+
+/**
+ * JSON schema of solver totals
+ */
+const solverTotalsProperties = {
+  fulfiller: { type: 'string' },
+  fillCount: { type: 'integer' },
+  fillShare: { type: 'number' },
+  volumeUsd: { type: 'string' },
+  volumeShare: { type: 'number' },
+  avgFillUsd: { type: 'string' },
+};
+
+/**
+ * Register solver analytics routes with Zod validation
+ */
+export async function registerSolverRoutes(
+  fastify: FastifyInstance,
+  context: SolverRouteContext
+) {
+  const { solverService } = context;
+
+  /**
+   * GET /api/v1/analytics/solvers
+   * Get solvers ranked by filled USD volume
+   */
+  fastify.get('/api/v1/analytics/solvers', {
+    schema: {
+      description: 'Get solver leaderboard: fills, filled volume, market share and median fill latency',
+      tags: ['Analytics'],
+      querystring: {
+        type: 'object',
+        properties: {
+          ...solverFilterProperties,
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20, description: 'Number of solvers' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  rank: { type: 'integer' },
+                  ...solverTotalsProperties,
+                  medianFillLatencySeconds: { type: ['number', 'null'] },
+                },
+              },
+            },
+            count: { type: 'integer' },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const validatedQuery = solversQuerySchema.parse(request.query);
+
+        const data = await solverService.getLeaderboard(validatedQuery);
+
+        return {
+          success: true,
+          data,
+          count: data.length,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch solvers',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /api/v1/analytics/solvers/:address
+   * Get fills, fill latency, daily fills and corridors of one solver
+   */
+  fastify.get('/api/v1/analytics/solvers/:address', {
+    schema: {
+      description: 'Get solver detail: totals, fill latency quantiles, daily fills and corridors',
+      tags: ['Analytics'],
+      params: {
+        type: 'object',
+        properties: {
+          address: { type: 'string', description: 'Fulfiller address (base58)' },
+        },
+        required: ['address'],
+      },
+      querystring: {
+        type: 'object',
+        properties: solverFilterProperties,
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                ...solverTotalsProperties,
+                latencySeconds: {
+                  type: ['object', 'null'],
+                  properties: {
+                    avg: { type: 'number' },
+                    p50: { type: 'number' },
+                    p90: { type: 'number' },
+                    p99: { type: 'number' },
+                  },
+                },
+                daily: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      date: { type: 'string' },
+                      fillCount: { type: 'integer' },
+                      volumeUsd: { type: 'string' },
+                    },
+                  },
+                },
+                corridors: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      giveChainId: { type: 'string' },
+                      takeChainId: { type: 'string' },
+                      giveChainName: { type: ['string', 'null'] },
+                      takeChainName: { type: ['string', 'null'] },
+                      fillCount: { type: 'integer' },
+                      volumeUsd: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const { address } = addressParamSchema.parse(request.params);
+        const validatedQuery = solverDetailQuerySchema.parse(request.query);
+
+        const data = await solverService.getSolver(address, validatedQuery);
+
+        if (!data) {
+          reply.status(404).send({
+            success: false,
+            error: 'Solver not found',
+            message: `No fills by ${address} in the requested range`,
+            statusCode: 404,
+          });
+          return;
+        }
+
+        return {
+          success: true,
+          data,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch solver',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+}
@@ -0,0 +1,326 @@
+/**
+ * Transaction and account API routes with Zod validation
+ * Transaction lookup, account history (cursor pagination) and account stats
+ */
+
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import {
+  accountStatsQuerySchema,
+  accountTransactionsQuerySchema,
+  solanaAddressSchema,
+  solanaSignatureSchema,
+} from '@incur-data/dtos';
+import { TransactionService } from '../services/transaction.service.js';
+import { decodeTransactionCursor, encodeTransactionCursor } from '../utils/cursor.js';
+
+interface TransactionRouteContext {
+  transactionService: TransactionService;
+}
+
+const signatureParamSchema = z.object({ signature: solanaSignatureSchema });
+const addressParamSchema = z.object({ address: solanaAddressSchema });
+
+/**
+ * JSON schema of a transaction record (TransactionDto + event and transfers)
+ */
+const transactionRecordProperties = {
+  signature: { type: 'string' },
+  slot: { type: 'integer' },
+  blockTime: { type: 'integer' },
+  status: { type: 'string' },
+  fee: { type: 'string' },
+  programId: { type: 'string' },
+  accounts: { type: 'array', items: { type: 'string' } },
+  instructions: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        programId: { type: 'string' },
+        accounts: { type: 'array', items: { type: 'string' } },
+        data: { type: 'string' },
+      },
+    },
+  },
+  error: { type: 'string' },
+  processedAt: { type: 'string' },
+  createdAt: { type: 'string' },
+  updatedAt: { type: 'string' },
+  eventType: { type: 'string' },
+  orderId: { type: 'string' },
+  transfers: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        account: { type: 'string' },
+        tokenAddress: { type: 'string' },
+        amount: { type: 'string' },
+        amountUsd: { type: 'string' },
+        instructionType: { type: 'string' },
+      },
+    },
+  },
+};
+
+/**
+ * Register transaction and account routes with Zod validation
+ */
+export async function registerTransactionRoutes(
+  fastify: FastifyInstance,
+  context: TransactionRouteContext
+) {
+  const { transactionService } = context;
+
+  /**
+   * GET /api/v1/transactions/:signature
+   * Get an indexed transaction with its DLN event and token transfers
+   */
+  fastify.get('/api/v1/transactions/:signature', {
+    schema: {
+      description: 'Get an indexed transaction by signature',
+      tags: ['Transactions'],
+      params: {
+        type: 'object',
+        properties: {
+          signature: { type: 'string', description: 'Transaction signature (base58)' },
+        },
+        required: ['signature'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object', properties: transactionRecordProperties },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const { signature } = signatureParamSchema.parse(request.params);
+
+        const data = await transactionService.getTransaction(signature);
+
+        if (!data) {
+          reply.status(404).send({
+            success: false,
+            error: 'Transaction not found',
+            message: `No indexed transaction with signature ${signature}`,
+            statusCode: 404,
+          });
+          return;
+        }
+
+        return {
+          success: true,
+          data,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid signature',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch transaction',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /api/v1/accounts/:address/transactions
+   * Get transactions involving an account, newest first, with cursor pagination
+   */
+  fastify.get('/api/v1/accounts/:address/transactions', {
+    schema: {
+      description: 'Get account transaction history (cursor pagination on block time and signature)',
+      tags: ['Accounts'],
+      params: {
+        type: 'object',
+        properties: {
+          address: { type: 'string', description: 'Account address (base58)' },
+        },
+        required: ['address'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          cursor: { type: 'string', description: 'nextCursor from the previous page' },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20, description: 'Page size' },
+          programId: { type: 'string', description: 'Filter by DLN program' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: { type: 'object', properties: transactionRecordProperties },
+            },
+            count: { type: 'integer' },
+            nextCursor: { type: ['string', 'null'] },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const { address } = addressParamSchema.parse(request.params);
+        const validatedQuery = accountTransactionsQuerySchema.parse(request.query);
+
+        const cursor = validatedQuery.cursor ? decodeTransactionCursor(validatedQuery.cursor) : null;
+        if (validatedQuery.cursor && !cursor) {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: 'Malformed cursor',
+            statusCode: 400,
+          });
+          return;
+        }
+
+        const page = await transactionService.getAccountTransactions(address, {
+          limit: validatedQuery.limit,
+          cursor,
+          programId: validatedQuery.programId,
+        });
+
+        return {
+          success: true,
+          data: page.items,
+          count: page.items.length,
+          nextCursor: page.nextCursor ? encodeTransactionCursor(page.nextCursor) : null,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch account transactions',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /api/v1/accounts/:address/stats
+   * Get daily and total stats of an account
+   */
+  fastify.get('/api/v1/accounts/:address/stats', {
+    schema: {
+      description: 'Get account transaction counts and USD volume per day',
+      tags: ['Accounts'],
+      params: {
+        type: 'object',
+        properties: {
+          address: { type: 'string', description: 'Account address (base58)' },
+        },
+        required: ['address'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          fromDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Start date (YYYY-MM-DD)' },
+          toDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'End date (YYYY-MM-DD)' },
+          programId: { type: 'string', description: 'Filter by DLN program' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                account: { type: 'string' },
+                totals: {
+                  type: 'object',
+                  properties: {
+                    txCount: { type: 'integer' },
+                    totalReceivedUsd: { type: 'string' },
+                    volumeUsd: { type: 'string' },
+                    activeDays: { type: 'integer' },
+                  },
+                },
+                daily: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      date: { type: 'string' },
+                      programId: { type: 'string' },
+                      txCount: { type: 'integer' },
+                      totalReceivedUsd: { type: 'string' },
+                      volumeUsd: { type: 'string' },
+                      uniqueTokens: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+            filters: { type: 'object' },
+          },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      try {
+        const { address } = addressParamSchema.parse(request.params);
+        const validatedQuery = accountStatsQuerySchema.parse(request.query);
+
+        const data = await transactionService.getAccountStats(address, validatedQuery);
+
+        return {
+          success: true,
+          data,
+          filters: validatedQuery,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          reply.status(400).send({
+            success: false,
+            error: 'Invalid query parameters',
+            message: error.message,
+            statusCode: 400,
+          });
+          return;
+        }
+
+        fastify.log.error(error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch account stats',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: 500,
+        });
+      }
+    },
+  });
+}
@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import { resolveDlnChainId } from '@incur-data/dtos';
 
 /**
  * Query parameters schema for volume endpoints
@@ -12,12 +13,12 @@ export const volumeQuerySchema = z.object({
     .describe('Start date in YYYY-MM-DD format'),
   toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
     .describe('End date in YYYY-MM-DD format'),
-  eventType: z.enum(['created', 'fulfilled']).optional()
+  eventType: z.enum(['created', 'fulfilled', 'cancelled', 'claimed', 'sentUnlock', 'claimedUnlock']).optional()
     .describe('Filter by event type'),
-  giveChainId: z.string().optional()
-    .describe('Filter by source chain ID'),
-  takeChainId: z.string().optional()
-    .describe('Filter by destination chain ID'),
+  giveChainId: z.string().min(1).transform(resolveDlnChainId).optional()
+    .describe('Filter by source chain (DLN chain ID or name)'),
+  takeChainId: z.string().min(1).transform(resolveDlnChainId).optional()
+    .describe('Filter by destination chain (DLN chain ID or name)'),
   limit: z.coerce.number().int().positive().max(1000).default(100)
     .describe('Maximum number of results'),
 });
@@ -164,3 +165,21 @@ export const topTokenPairSchema = z.object({
 });
 
 export type TopTokenPair = z.infer<typeof topTokenPairSchema>;
+
+/**
+ * Daily lifecycle stats response schema
+ */
+export const dailyLifecycleStatsSchema = z.object({
+  date: z.string(),
+  createdCount: z.number().int(),
+  fulfilledCount: z.number().int(),
+  cancelledCount: z.number().int(),
+  claimedCount: z.number().int(),
+  sentUnlockCount: z.number().int(),
+  claimedUnlockCount: z.number().int(),
+  cancellationRate: z.number(),
+  avgUnlockLatencySeconds: z.number().nullable(),
+  avgClaimLatencySeconds: z.number().nullable(),
+});
+
+export type DailyLifecycleStats = z.infer<typeof dailyLifecycleStatsSchema>;
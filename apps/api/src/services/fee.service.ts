@@ -0,0 +1,175 @@
+/**
+ * Fee Service
+ * Affiliate and protocol (fix / percent) fee revenue from dln.orders
+ * USD values are priced by the worker at order creation
+ */
+
+import { ClickHouseClient } from '@clickhouse/client';
+import {
+  AffiliateFeesDto,
+  FeeTotalsDto,
+  FeesQueryDto,
+  FeesResult,
+} from '@incur-data/dtos';
+
+export interface FeeServiceConfig {
+  clickhouse: ClickHouseClient;
+}
+
+/**
+ * Upper bound of daily rows returned
+ */
+const MAX_DAILY_ROWS = 1000;
+
+/**
+ * Fee totals of the orders of a group
+ */
+const FEE_TOTALS_SELECT = `
+  count() AS orders,
+  countIf(affiliate_fee_beneficiary != '') AS affiliate_orders,
+  sum(affiliate_fee_usd) AS affiliate_usd,
+  sum(fix_fee_usd) AS fix_usd,
+  sum(percent_fee_usd) AS percent_usd,
+  fix_usd + percent_usd AS protocol_usd
+`;
+
+export class FeeService {
+  private clickhouse: ClickHouseClient;
+
+  constructor(config: FeeServiceConfig) {
+    this.clickhouse = config.clickhouse;
+  }
+
+  /**
+   * Get fee totals, fees per creation day and affiliate fees per beneficiary and give token
+   */
+  async getFees(query: FeesQueryDto): Promise<FeesResult> {
+    const { whereClauses, params } = this.buildFilterClauses(query);
+    const where = whereClauses.join(' AND ');
+    const queryParams = { ...params, limit: query.limit, maxRows: MAX_DAILY_ROWS };
+
+    const [totalsResult, dailyResult, affiliatesResult] = await Promise.all([
+      this.clickhouse.query({
+        query: `
+          SELECT ${FEE_TOTALS_SELECT}
+          FROM dln.orders FINAL
+          WHERE ${where}
+        `,
+        query_params: queryParams,
+        format: 'JSONEachRow',
+      }),
+      this.clickhouse.query({
+        query: `
+          SELECT
+            toString(toDate(assumeNotNull(created_time))) AS day,
+            ${FEE_TOTALS_SELECT}
+          FROM dln.orders FINAL
+          WHERE ${where}
+          GROUP BY day
+          ORDER BY day DESC
+          LIMIT {maxRows:UInt32}
+        `,
+        query_params: queryParams,
+        format: 'JSONEachRow',
+      }),
+      // Fee amounts are summed per give token first, base units of different tokens don't add up
+      this.clickhouse.query({
+        query: `
+          SELECT
+            beneficiary,
+            sum(token_orders) AS order_count,
+            sum(token_volume_usd) AS volume_usd,
+            sum(token_fee_usd) AS fee_usd,
+            arraySort(
+              t -> -toFloat64(t.3),
+              groupArray((token, toString(token_fee), toString(token_fee_usd)))
+            ) AS tokens
+          FROM (
+            SELECT
+              affiliate_fee_beneficiary AS beneficiary,
+              give_token_address AS token,
+              count() AS token_orders,
+              sum(give_amount_usd) AS token_volume_usd,
+              sum(toUInt256OrZero(affiliate_fee)) AS token_fee,
+              sum(affiliate_fee_usd) AS token_fee_usd
+            FROM dln.orders FINAL
+            WHERE ${where}
+              AND affiliate_fee_beneficiary != ''
+            GROUP BY beneficiary, token
+          )
+          GROUP BY beneficiary
+          ORDER BY fee_usd DESC, order_count DESC, beneficiary
+          LIMIT {limit:UInt32}
+        `,
+        query_params: queryParams,
+        format: 'JSONEachRow',
+      }),
+    ]);
+
+    const [totals] = await totalsResult.json<any[]>();
+    const dailyRows = await dailyResult.json<any[]>();
+    const affiliateRows = await affiliatesResult.json<any[]>();
+
+    return {
+      totals: this.buildTotals(totals),
+      daily: dailyRows.map(row => ({
+        date: row.day,
+        ...this.buildTotals(row),
+      })),
+      affiliates: affiliateRows.map(row => this.buildAffiliate(row)),
+    };
+  }
+
+  /**
+   * Build creation day, take chain and affiliate conditions
+   * Only orders created on Solana (with a creation time) carry fees
+   */
+  private buildFilterClauses(query: FeesQueryDto) {
+    const whereClauses: string[] = ['created_time IS NOT NULL'];
+    const params: Record<string, any> = {};
+
+    if (query.fromDate) {
+      whereClauses.push('toDate(assumeNotNull(created_time)) >= {fromDate:Date}');
+      params.fromDate = query.fromDate;
+    }
+    if (query.toDate) {
+      whereClauses.push('toDate(assumeNotNull(created_time)) <= {toDate:Date}');
+      params.toDate = query.toDate;
+    }
+    if (query.takeChainId) {
+      whereClauses.push('take_chain_id = {takeChainId:String}');
+      params.takeChainId = query.takeChainId;
+    }
+    if (query.affiliate) {
+      whereClauses.push('affiliate_fee_beneficiary = {affiliate:String}');
+      params.affiliate = query.affiliate;
+    }
+
+    return { whereClauses, params };
+  }
+
+  private buildTotals(row: any): FeeTotalsDto {
+    return {
+      orderCount: parseInt(row?.orders || '0'),
+      affiliateOrderCount: parseInt(row?.affiliate_orders || '0'),
+      affiliateFeeUsd: row?.affiliate_usd?.toString() || '0',
+      fixFeeUsd: row?.fix_usd?.toString() || '0',
+      percentFeeUsd: row?.percent_usd?.toString() || '0',
+      protocolFeeUsd: row?.protocol_usd?.toString() || '0',
+    };
+  }
+
+  private buildAffiliate(row: any): AffiliateFeesDto {
+    return {
+      beneficiary: row.beneficiary,
+      orderCount: parseInt(row.order_count || '0'),
+      volumeUsd: row.volume_usd?.toString() || '0',
+      feeUsd: row.fee_usd?.toString() || '0',
+      tokens: (row.tokens as [string, string, string][]).map(([tokenAddress, amount, amountUsd]) => ({
+        tokenAddress,
+        amount,
+        amountUsd,
+      })),
+    };
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Maker Service
+ * Maker cohort and retention analytics from dln.maker_first_seen and dln.maker_weekly_activity
+ * A maker's cohort is the week (Monday) of its first order
+ */
+
+import { ClickHouseClient } from '@clickhouse/client';
+import {
+  MakerActivityPeriodDto,
+  MakerCohortDto,
+  MakerCohortsQueryDto,
+  MakerCohortsResult,
+  listWeeks,
+} from '@incur-data/dtos';
+
+export interface MakerServiceConfig {
+  clickhouse: ClickHouseClient;
+}
+
+/**
+ * Cohort week of every maker
+ */
+const FIRST_SEEN_SUBQUERY = `
+  SELECT maker, toStartOfWeek(minMerge(first_seen_date), 1) AS cohort_week
+  FROM dln.maker_first_seen
+  GROUP BY maker
+`;
+
+/**
+ * Active (week, maker) pairs of a week range, bounds are given as SQL expressions
+ */
+const activitySubquery = (fromWeek: string, toWeek: string) => `
+  SELECT week, maker
+  FROM dln.maker_weekly_activity
+  WHERE week >= ${fromWeek} AND week <= ${toWeek}
+  GROUP BY week, maker
+`;
+
+export class MakerService {
+  private clickhouse: ClickHouseClient;
+
+  constructor(config: MakerServiceConfig) {
+    this.clickhouse = config.clickhouse;
+  }
+
+  /**
+   * Get the weekly retention matrix of the cohorts in the range
+   * and new / returning / churned makers per week
+   */
+  async getCohorts(query: MakerCohortsQueryDto): Promise<MakerCohortsResult> {
+    const params = { fromWeek: query.fromWeek, toWeek: query.toWeek };
+    const range = activitySubquery('{fromWeek:Date}', '{toWeek:Date}');
+
+    const [retentionResult, activityResult, churnResult] = await Promise.all([
+      this.clickhouse.query({
+        query: `
+          SELECT
+            toString(f.cohort_week) AS cohort,
+            toString(a.week) AS active_week,
+            count() AS makers
+          FROM (${range}) AS a
+          INNER JOIN (${FIRST_SEEN_SUBQUERY}) AS f ON a.maker = f.maker
+          WHERE f.cohort_week >= {fromWeek:Date}
+          GROUP BY cohort, active_week
+        `,
+        query_params: params,
+        format: 'JSONEachRow',
+      }),
+      this.clickhouse.query({
+        query: `
+          SELECT
+            toString(a.week) AS active_week,
+            count() AS active_makers,
+            countIf(f.cohort_week = a.week) AS new_makers,
+            countIf(f.cohort_week < a.week) AS returning_makers
+          FROM (${range}) AS a
+          INNER JOIN (${FIRST_SEEN_SUBQUERY}) AS f ON a.maker = f.maker
+          GROUP BY active_week
+        `,
+        query_params: params,
+        format: 'JSONEachRow',
+      }),
+      // Makers active in a week and not in the next one churn in the next week
+      this.clickhouse.query({
+        query: `
+          SELECT
+            toString(addWeeks(a.week, 1)) AS churn_week,
+            count() AS churned_makers
+          FROM (${activitySubquery('subtractWeeks({fromWeek:Date}, 1)', 'subtractWeeks({toWeek:Date}, 1)')}) AS a
+          LEFT ANTI JOIN (
+            SELECT subtractWeeks(week, 1) AS previous_week, maker
+            FROM (${range})
+          ) AS n ON a.week = n.previous_week AND a.maker = n.maker
+          GROUP BY churn_week
+        `,
+        query_params: params,
+        format: 'JSONEachRow',
+      }),
+    ]);
+
+    const retentionRows = await retentionResult.json<Array<{ cohort: string; active_week: string; makers: string }>>();
+    const activityRows = await activityResult.json<any[]>();
+    const churnRows = await churnResult.json<Array<{ churn_week: string; churned_makers: string }>>();
+
+    const weeks = listWeeks(query.fromWeek, query.toWeek);
+
+    return {
+      fromWeek: query.fromWeek,
+      toWeek: query.toWeek,
+      cohorts: this.buildCohorts(weeks, retentionRows),
+      periods: this.buildPeriods(weeks, activityRows, churnRows),
+    };
+  }
+
+  /**
+   * Build the retention matrix, weeks without activity are filled with zeros
+   */
+  private buildCohorts(
+    weeks: string[],
+    rows: Array<{ cohort: string; active_week: string; makers: string }>
+  ): MakerCohortDto[] {
+    const active = new Map(rows.map(row => [`${row.cohort}:${row.active_week}`, parseInt(row.makers || '0')]));
+
+    return weeks.map((cohortWeek, cohortIndex) => {
+      const size = active.get(`${cohortWeek}:${cohortWeek}`) ?? 0;
+
+      return {
+        cohortWeek,
+        size,
+        retention: weeks.slice(cohortIndex).map((week, weekOffset) => {
+          const activeMakers = active.get(`${cohortWeek}:${week}`) ?? 0;
+          return {
+            weekOffset,
+            week,
+            activeMakers,
+            retentionRate: size > 0 ? (activeMakers / size) * 100 : 0,
+          };
+        }),
+      };
+    });
+  }
+
+  /**
+   * Build weekly new / returning / churned counts, weeks without activity are filled with zeros
+   */
+  private buildPeriods(
+    weeks: string[],
+    activityRows: any[],
+    churnRows: Array<{ churn_week: string; churned_makers: string }>
+  ): MakerActivityPeriodDto[] {
+    const activity = new Map(activityRows.map(row => [row.active_week as string, row]));
+    const churned = new Map(churnRows.map(row => [row.churn_week, parseInt(row.churned_makers || '0')]));
+
+    return weeks.map(week => {
+      const row = activity.get(week);
+      return {
+        week,
+        activeMakers: parseInt(row?.active_makers || '0'),
+        newMakers: parseInt(row?.new_makers || '0'),
+        returningMakers: parseInt(row?.returning_makers || '0'),
+        churnedMakers: churned.get(week) ?? 0,
+      };
+    });
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * Order Service
+ * Order lookup and search on dln.orders, lifecycle events from dln.transaction_events
+ * with the transfers of their transaction from dln.transactions
+ * Not cached: support lookups need the current state of an order
+ */
+
+import { ClickHouseClient } from '@clickhouse/client';
+import {
+  OrderDetail,
+  OrderFilters,
+  OrderLifecycleEvent,
+  OrderStatus,
+  OrderSummary,
+  PaginatedResponse,
+  Pagination,
+} from '@incur-data/dtos';
+
+export interface OrderServiceConfig {
+  clickhouse: ClickHouseClient;
+}
+
+/**
+ * Sortable fields (API name -> column)
+ */
+const SORT_COLUMNS: Record<string, string> = {
+  updatedAt: 'updated_at',
+  createdSlot: 'created_slot',
+  createdAt: 'created_time',
+  fulfilledAt: 'fulfilled_time',
+  giveAmountUsd: 'give_amount_usd',
+  takeAmountUsd: 'take_amount_usd',
+};
+
+/**
+ * First slot the order was seen at (orders created on another chain have no created_slot)
+ */
+const FIRST_SLOT_EXPR =
+  'multiIf(created_slot > 0, created_slot, fulfilled_slot > 0, fulfilled_slot, cancelled_slot)';
+
+export class OrderService {
+  private clickhouse: ClickHouseClient;
+
+  constructor(config: OrderServiceConfig) {
+    this.clickhouse = config.clickhouse;
+  }
+
+  /**
+   * Get an order with its full lifecycle
+   * Returns null when neither the order row nor any of its events exist
+   */
+  async getOrder(orderId: string): Promise<OrderDetail | null> {
+    const [orderResult, eventsResult] = await Promise.all([
+      this.clickhouse.query({
+        query: `
+          SELECT *
+          FROM dln.orders FINAL
+          WHERE order_id = {orderId:String}
+          LIMIT 1
+        `,
+        query_params: { orderId },
+        format: 'JSONEachRow',
+      }),
+      this.clickhouse.query({
+        // Transaction rows only carry the first event of a batch transaction (migration 012),
+        // so events are read per order and transfers are joined by signature
+        query: `
+          SELECT
+            e.signature AS signature,
+            e.event_type AS event_type,
+            e.slot AS slot,
+            e.block_time AS block_time,
+            e.program_id AS program_id,
+            e.status AS status,
+            t.amount_usd AS amount_usd,
+            t.transfers AS transfers
+          FROM (
+            SELECT signature, event_type, slot, block_time, program_id, status
+            FROM dln.transaction_events FINAL
+            WHERE order_id = {orderId:String}
+          ) AS e
+          LEFT JOIN (
+            SELECT
+              signature,
+              sum(amount_usd) AS amount_usd,
+              groupArray((account, token_address, amount, toString(amount_usd))) AS transfers
+            FROM dln.transactions FINAL
+            WHERE signature IN (
+              SELECT signature
+              FROM dln.transaction_events
+              WHERE order_id = {orderId:String}
+            )
+            GROUP BY signature
+          ) AS t ON t.signature = e.signature
+          ORDER BY e.slot ASC, e.event_type ASC
+        `,
+        query_params: { orderId },
+        format: 'JSONEachRow',
+      }),
+    ]);
+
+    const orderRows = await orderResult.json<any[]>();
+    const eventRows = await eventsResult.json<any[]>();
+
+    if (orderRows.length === 0 && eventRows.length === 0) {
+      return null;
+    }
+
+    const events: OrderLifecycleEvent[] = eventRows.map(row => ({
+      eventType: row.event_type,
+      signature: row.signature,
+      slot: Number(row.slot),
+      blockTime: row.block_time,
+      programId: row.program_id,
+      status: row.status,
+      amountUsd: row.amount_usd?.toString() || '0',
+      transfers: (row.transfers as [string, string, string, string][])
+        // Transactions without transfers are stored as a single row with empty token_address
+        .filter(([, tokenAddress]) => tokenAddress !== '')
+        .map(([account, tokenAddress, amount, amountUsd]) => ({
+          account,
+          tokenAddress,
+          amount,
+          amountUsd,
+        })),
+    }));
+
+    // Orders indexed before dln.orders existed only have event rows
+    const summary = orderRows[0]
+      ? this.formatOrder(orderRows[0])
+      : this.summarizeEvents(orderId, events);
+
+    return { ...summary, events };
+  }
+
+  /**
+   * Search orders with filters and pagination
+   */
+  async listOrders(
+    filters: OrderFilters,
+    pagination: Pagination
+  ): Promise<PaginatedResponse<OrderSummary>> {
+    const whereClauses: string[] = ['1=1'];
+    const whereParams: Record<string, any> = {};
+
+    if (filters.orderId) {
+      whereClauses.push('order_id = {orderId:String}');
+      whereParams.orderId = filters.orderId.toLowerCase().replace(/^0x/, '');
+    }
+    if (filters.maker) {
+      whereClauses.push('maker = {maker:String}');
+      whereParams.maker = filters.maker;
+    }
+    if (filters.taker) {
+      whereClauses.push('taker = {taker:String}');
+      whereParams.taker = filters.taker;
+    }
+    if (filters.status) {
+      whereClauses.push('status = {status:String}');
+      whereParams.status = filters.status;
+    }
+    if (filters.giveChainId) {
+      whereClauses.push('give_chain_id = {giveChainId:String}');
+      whereParams.giveChainId = filters.giveChainId;
+    }
+    if (filters.takeChainId) {
+      whereClauses.push('take_chain_id = {takeChainId:String}');
+      whereParams.takeChainId = filters.takeChainId;
+    }
+    if (filters.giveTokenAddress) {
+      whereClauses.push('give_token_address = {giveTokenAddress:String}');
+      whereParams.giveTokenAddress = filters.giveTokenAddress;
+    }
+    if (filters.takeTokenAddress) {
+      whereClauses.push('take_token_address = {takeTokenAddress:String}');
+      whereParams.takeTokenAddress = filters.takeTokenAddress;
+    }
+    if (filters.fromSlot) {
+      whereClauses.push(`${FIRST_SLOT_EXPR} >= {fromSlot:UInt64}`);
+      whereParams.fromSlot = filters.fromSlot;
+    }
+    if (filters.toSlot) {
+      whereClauses.push(`${FIRST_SLOT_EXPR} <= {toSlot:UInt64}`);
+      whereParams.toSlot = filters.toSlot;
+    }
+
+    const where = whereClauses.join(' AND ');
+    // sortBy is not bound as a parameter, only whitelisted columns are allowed
+    const sortColumn = SORT_COLUMNS[pagination.sortBy ?? ''] ?? SORT_COLUMNS.updatedAt;
+    const sortOrder = pagination.sortOrder === 'asc' ? 'ASC' : 'DESC';
+    const offset = (pagination.page - 1) * pagination.pageSize;
+
+    const [countResult, rowsResult] = await Promise.all([
+      this.clickhouse.query({
+        query: `SELECT count() AS total FROM dln.orders FINAL WHERE ${where}`,
+        query_params: whereParams,
+        format: 'JSONEachRow',
+      }),
+      this.clickhouse.query({
+        query: `
+          SELECT *
+          FROM dln.orders FINAL
+          WHERE ${where}
+          ORDER BY ${sortColumn} ${sortOrder}, order_id
+          LIMIT {limit:UInt32} OFFSET {offset:UInt32}
+        `,
+        query_params: { ...whereParams, limit: pagination.pageSize, offset },
+        format: 'JSONEachRow',
+      }),
+    ]);
+
+    const countRows = await countResult.json<any[]>();
+    const rows = await rowsResult.json<any[]>();
+    const total = parseInt(countRows[0]?.total || '0');
+
+    return {
+      items: rows.map(row => this.formatOrder(row)),
+      total,
+      page: pagination.page,
+      pageSize: pagination.pageSize,
+      totalPages: Math.ceil(total / pagination.pageSize),
+    };
+  }
+
+  /**
+   * Map a dln.orders row to the API shape
+   */
+  private formatOrder(row: any): OrderSummary {
+    const createdAt = row.created_time ?? null;
+    const fulfilledAt = row.fulfilled_time ?? null;
+    const unlockClaimedAt = row.unlock_claimed_time ?? null;
+
+    return {
+      orderId: row.order_id,
+      status: row.status,
+      maker: row.maker,
+      taker: row.taker,
+      receiver: row.receiver,
+      giveChainId: row.give_chain_id,
+      takeChainId: row.take_chain_id,
+      giveTokenAddress: row.give_token_address,
+      takeTokenAddress: row.take_token_address,
+      giveAmount: row.give_amount,
+      takeAmount: row.take_amount,
+      giveAmountUsd: row.give_amount_usd?.toString() || '0',
+      takeAmountUsd: row.take_amount_usd?.toString() || '0',
+      signatures: {
+        create: row.create_signature || null,
+        fulfill: row.fulfill_signature || null,
+        cancel: row.cancel_signature || null,
+      },
+      createdSlot: Number(row.created_slot) || null,
+      fulfilledSlot: Number(row.fulfilled_slot) || null,
+      cancelledSlot: Number(row.cancelled_slot) || null,
+      timing: {
+        createdAt,
+        fulfilledAt,
+        cancelledAt: row.cancelled_time ?? null,
+        unlockSentAt: row.unlock_sent_time ?? null,
+        unlockClaimedAt,
+        cancelClaimedAt: row.cancel_claimed_time ?? null,
+        fillDurationSeconds: this.durationSeconds(createdAt, fulfilledAt),
+        settlementDurationSeconds: this.durationSeconds(fulfilledAt, unlockClaimedAt),
+      },
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Build an order summary from event rows only
+   */
+  private summarizeEvents(orderId: string, events: OrderLifecycleEvent[]): OrderSummary {
+    const find = (eventType: string) => events.find(event => event.eventType === eventType);
+    const created = find('OrderCreated');
+    const fulfilled = find('OrderFulfilled');
+    const cancelled = find('OrderCancelled');
+    const unlockSent = find('SentUnlock');
+    const unlockClaimed = find('ClaimedUnlock');
+    const cancelClaimed = find('OrderClaimed');
+
+    let status: OrderStatus = 'created';
+    if (unlockClaimed) status = 'claimed';
+    else if (cancelled || cancelClaimed) status = 'cancelled';
+    else if (fulfilled || unlockSent) status = 'fulfilled';
+
+    return {
+      orderId,
+      status,
+      maker: '',
+      taker: '',
+      receiver: '',
+      giveChainId: '',
+      takeChainId: '',
+      giveTokenAddress: '',
+      takeTokenAddress: '',
+      giveAmount: '',
+      takeAmount: '',
+      giveAmountUsd: created?.amountUsd ?? '0',
+      takeAmountUsd: fulfilled?.amountUsd ?? '0',
+      signatures: {
+        create: created?.signature ?? null,
+        fulfill: fulfilled?.signature ?? null,
+        cancel: cancelled?.signature ?? null,
+      },
+      createdSlot: created?.slot ?? null,
+      fulfilledSlot: fulfilled?.slot ?? null,
+      cancelledSlot: cancelled?.slot ?? null,
+      timing: {
+        createdAt: created?.blockTime ?? null,
+        fulfilledAt: fulfilled?.blockTime ?? null,
+        cancelledAt: cancelled?.blockTime ?? null,
+        unlockSentAt: unlockSent?.blockTime ?? null,
+        unlockClaimedAt: unlockClaimed?.blockTime ?? null,
+        cancelClaimedAt: cancelClaimed?.blockTime ?? null,
+        fillDurationSeconds: this.durationSeconds(created?.blockTime, fulfilled?.blockTime),
+        settlementDurationSeconds: this.durationSeconds(fulfilled?.blockTime, unlockClaimed?.blockTime),
+      },
+      updatedAt: events[events.length - 1]?.blockTime ?? '',
+    };
+  }
+
+  /**
+   * Seconds between two ClickHouse DateTime strings (null if either is missing)
+   */
+  private durationSeconds(from?: string | null, to?: string | null): number | null {
+    if (!from || !to) return null;
+    const seconds = (Date.parse(`${to.replace(' ', 'T')}Z`) - Date.parse(`${from.replace(' ', 'T')}Z`)) / 1000;
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Solver Service
+ * Solver (order fulfiller) leaderboard and per-solver stats from dln.daily_solver_stats,
+ * fill latency from dln.orders (create and fulfill matched by order_id)
+ */
+
+import { ClickHouseClient } from '@clickhouse/client';
+import {
+  LatencyDistributionDto,
+  SolverDetailQueryDto,
+  SolverDetailResult,
+  SolverLeaderboardEntry,
+  SolversQueryDto,
+  getDlnChainName,
+} from '@incur-data/dtos';
+
+export interface SolverServiceConfig {
+  clickhouse: ClickHouseClient;
+}
+
+/**
+ * Upper bound of daily rows and corridors returned by solver detail
+ */
+const MAX_DETAIL_ROWS = 1000;
+
+interface SolverFilterClauses {
+  statsClauses: string[];
+  latencyClauses: string[];
+  params: Record<string, any>;
+}
+
+export class SolverService {
+  private clickhouse: ClickHouseClient;
+
+  constructor(config: SolverServiceConfig) {
+    this.clickhouse = config.clickhouse;
+  }
+
+  /**
+   * Get solvers ranked by filled USD volume with fill / volume share and median fill latency
+   */
+  async getLeaderboard(filters: SolversQueryDto): Promise<SolverLeaderboardEntry[]> {
+    const { statsClauses, params } = this.buildFilterClauses(filters);
+
+    // Window totals are computed over all solvers before LIMIT
+    const result = await this.clickhouse.query({
+      query: `
+        SELECT
+          fulfiller,
+          uniqMerge(unique_orders) AS fills,
+          sumMerge(total_volume_usd) AS volume_usd,
+          sum(uniqMerge(unique_orders)) OVER () AS all_fills,
+          sum(sumMerge(total_volume_usd)) OVER () AS all_volume_usd
+        FROM dln.daily_solver_stats
+        WHERE ${statsClauses.join(' AND ')}
+        GROUP BY fulfiller
+        ORDER BY volume_usd DESC, fills DESC, fulfiller
+        LIMIT {limit:UInt32}
+      `,
+      query_params: { ...params, limit: filters.limit },
+      format: 'JSONEachRow',
+    });
+
+    const rows = await result.json<any[]>();
+
+    const medians = await this.getMedianLatencies(
+      rows.map(row => row.fulfiller),
+      filters
+    );
+
+    return rows.map((row, index) => ({
+      rank: index + 1,
+      fulfiller: row.fulfiller,
+      ...this.buildTotals(row),
+      medianFillLatencySeconds: medians.get(row.fulfiller) ?? null,
+    }));
+  }
+
+  /**
+   * Get stats of one solver: totals, fill latency distribution, daily fills and corridors
+   * Returns null when the solver has no fills in the range
+   */
+  async getSolver(fulfiller: string, filters: SolverDetailQueryDto): Promise<SolverDetailResult | null> {
+    const { statsClauses, latencyClauses, params } = this.buildFilterClauses(filters);
+    const solverClauses = [...statsClauses, 'fulfiller = {fulfiller:String}'];
+    const queryParams = { ...params, fulfiller, maxRows: MAX_DETAIL_ROWS };
+
+    const [totalsResult, dailyResult, corridorsResult, latencyResult] = await Promise.all([
+      this.clickhouse.query({
+        query: `
+          SELECT
+            uniqMergeIf(unique_orders, fulfiller = {fulfiller:String}) AS fills,
+            sumMergeIf(total_volume_usd, fulfiller = {fulfiller:String}) AS volume_usd,
+            uniqMerge(unique_orders) AS all_fills,
+            sumMerge(total_volume_usd) AS all_volume_usd
+          FROM dln.daily_solver_stats
+          WHERE ${statsClauses.join(' AND ')}
+        `,
+        query_params: queryParams,
+        format: 'JSONEachRow',
+      }),
+      this.clickhouse.query({
+        query: `
+          SELECT
+            toString(date) AS day,
+            uniqMerge(unique_orders) AS fills,
+            sumMerge(total_volume_usd) AS volume_usd
+          FROM dln.daily_solver_stats
+          WHERE ${solverClauses.join(' AND ')}
+          GROUP BY day
+          ORDER BY day DESC
+          LIMIT {maxRows:UInt32}
+        `,
+        query_params: queryParams,
+        format: 'JSONEachRow',
+      }),
+      this.clickhouse.query({
+        query: `
+          SELECT
+            give_chain_id,
+            take_chain_id,
+            uniqMerge(unique_orders) AS fills,
+            sumMerge(total_volume_usd) AS volume_usd
+          FROM dln.daily_solver_stats
+          WHERE ${solverClauses.join(' AND ')}
+          GROUP BY give_chain_id, take_chain_id
+          ORDER BY volume_usd DESC, fills DESC
+          LIMIT {maxRows:UInt32}
+        `,
+        query_params: queryParams,
+        format: 'JSONEachRow',
+      }),
+      this.clickhouse.query({
+        query: `
+          SELECT
+            count() AS orders,
+            avg(latency_seconds) AS seconds_avg,
+            quantiles(0.5, 0.9, 0.99)(latency_seconds) AS seconds_q
+          FROM (
+            SELECT
+              give_chain_id,
+              take_chain_id,
+              assumeNotNull(fulfilled_time) AS fill_time,
+              dateDiff('second', assumeNotNull(created_time), fill_time) AS latency_seconds
+            FROM dln.orders FINAL
+            WHERE taker = {fulfiller:String}
+              AND created_time IS NOT NULL
+              AND fulfilled_time IS NOT NULL
+          ) matched
+          WHERE ${latencyClauses.join(' AND ')}
+        `,
+        query_params: queryParams,
+        format: 'JSONEachRow',
+      }),
+    ]);
+
+    const [totals] = await totalsResult.json<any[]>();
+
+    if (!totals || parseInt(totals.fills || '0') === 0) {
+      return null;
+    }
+
+    const dailyRows = await dailyResult.json<any[]>();
+    const corridorRows = await corridorsResult.json<any[]>();
+    const [latency] = await latencyResult.json<any[]>();
+
+    return {
+      fulfiller,
+      ...this.buildTotals(totals),
+      latencySeconds: latency && parseInt(latency.orders || '0') > 0
+        ? this.buildDistribution(latency.seconds_avg, latency.seconds_q)
+        : null,
+      daily: dailyRows.map(row => ({
+        date: row.day,
+        fillCount: parseInt(row.fills || '0'),
+        volumeUsd: row.volume_usd?.toString() || '0',
+      })),
+      corridors: corridorRows.map(row => ({
+        giveChainId: row.give_chain_id,
+        takeChainId: row.take_chain_id,
+        giveChainName: getDlnChainName(row.give_chain_id),
+        takeChainName: getDlnChainName(row.take_chain_id),
+        fillCount: parseInt(row.fills || '0'),
+        volumeUsd: row.volume_usd?.toString() || '0',
+      })),
+    };
+  }
+
+  /**
+   * Median fill latency (seconds) per solver, for solvers with matched fills
+   */
+  private async getMedianLatencies(
+    fulfillers: string[],
+    filters: SolverDetailQueryDto
+  ): Promise<Map<string, number>> {
+    const medians = new Map<string, number>();
+
+    if (fulfillers.length === 0) {
+      return medians;
+    }
+
+    const { latencyClauses, params } = this.buildFilterClauses(filters);
+
+    const result = await this.clickhouse.query({
+      query: `
+        SELECT
+          taker,
+          quantile(0.5)(latency_seconds) AS median_seconds
+        FROM (
+          SELECT
+            taker,
+            give_chain_id,
+            take_chain_id,
+            assumeNotNull(fulfilled_time) AS fill_time,
+            dateDiff('second', assumeNotNull(created_time), fill_time) AS latency_seconds
+          FROM dln.orders FINAL
+          WHERE taker IN {fulfillers:Array(String)}
+            AND created_time IS NOT NULL
+            AND fulfilled_time IS NOT NULL
+        ) matched
+        WHERE ${latencyClauses.join(' AND ')}
+        GROUP BY taker
+      `,
+      query_params: { ...params, fulfillers },
+      format: 'JSONEachRow',
+    });
+
+    const rows = await result.json<Array<{ taker: string; median_seconds: number | string }>>();
+
+    for (const row of rows) {
+      medians.set(row.taker, Number(row.median_seconds));
+    }
+
+    return medians;
+  }
+
+  /**
+   * Build date and chain conditions for the stats view and the matched orders
+   * (the fill day is date in the view, toDate(fill_time) for orders)
+   */
+  private buildFilterClauses(filters: SolverDetailQueryDto): SolverFilterClauses {
+    const statsClauses: string[] = ['1=1'];
+    const latencyClauses: string[] = ['latency_seconds >= 0'];
+    const params: Record<string, any> = {};
+
+    if (filters.fromDate) {
+      statsClauses.push('date >= {fromDate:Date}');
+      latencyClauses.push('toDate(fill_time) >= {fromDate:Date}');
+      params.fromDate = filters.fromDate;
+    }
+    if (filters.toDate) {
+      statsClauses.push('date <= {toDate:Date}');
+      latencyClauses.push('toDate(fill_time) <= {toDate:Date}');
+      params.toDate = filters.toDate;
+    }
+    if (filters.giveChainId) {
+      statsClauses.push('give_chain_id = {giveChainId:String}');
+      latencyClauses.push('give_chain_id = {giveChainId:String}');
+      params.giveChainId = filters.giveChainId;
+    }
+    if (filters.takeChainId) {
+      statsClauses.push('take_chain_id = {takeChainId:String}');
+      latencyClauses.push('take_chain_id = {takeChainId:String}');
+      params.takeChainId = filters.takeChainId;
+    }
+
+    return { statsClauses, latencyClauses, params };
+  }
+
+  /**
+   * Fill count, volume and shares from fills / volume_usd / all_fills / all_volume_usd columns
+   */
+  private buildTotals(row: any) {
+    const fillCount = parseInt(row.fills || '0');
+    const allFills = parseInt(row.all_fills || '0');
+    const volumeUsd = parseFloat(row.volume_usd || '0');
+    const allVolumeUsd = parseFloat(row.all_volume_usd || '0');
+
+    return {
+      fillCount,
+      fillShare: allFills > 0 ? (fillCount / allFills) * 100 : 0,
+      volumeUsd: row.volume_usd?.toString() || '0',
+      volumeShare: allVolumeUsd > 0 ? (volumeUsd / allVolumeUsd) * 100 : 0,
+      avgFillUsd: fillCount > 0 ? (volumeUsd / fillCount).toString() : '0',
+    };
+  }
+
+  private buildDistribution(avg: unknown, quantiles: unknown): LatencyDistributionDto {
+    const [p50 = 0, p90 = 0, p99 = 0] = (quantiles as number[] | undefined) ?? [];
+    return { avg: Number(avg || 0), p50: Number(p50), p90: Number(p90), p99: Number(p99) };
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Transaction Service
+ * Transaction lookup and account history from dln.transactions,
+ * account stats from dln.account_stats and dln.daily_account_volume
+ *
+ * Queries are built with QueryBuilder from @incur-data/olap-types, values are bound as query parameters
+ */
+
+import { ClickHouseClient } from '@clickhouse/client';
+import { query, queries, type QueryBuilder, type TransactionsTable } from '@incur-data/olap-types';
+import {
+  AccountDailyStatsDto,
+  AccountStatsQueryDto,
+  AccountStatsResult,
+  TransactionCursor,
+  TransactionRecord,
+  TransactionStatus,
+} from '@incur-data/dtos';
+
+export interface TransactionServiceConfig {
+  clickhouse: ClickHouseClient;
+}
+
+export interface AccountTransactionsPage {
+  items: TransactionRecord[];
+  nextCursor: TransactionCursor | null;
+}
+
+/**
+ * Upper bound of stored rows (one per token transfer) for a single transaction
+ */
+const MAX_ROWS_PER_TRANSACTION = 1000;
+
+/**
+ * Upper bound of daily rows returned by account stats
+ */
+const MAX_DAILY_ROWS = 1000;
+
+/**
+ * Stored status -> TransactionDto status
+ */
+const STATUS_MAP: Record<string, TransactionStatus> = {
+  success: 'confirmed',
+  failed: 'failed',
+  pending: 'pending',
+};
+
+type TransactionRow = Omit<TransactionsTable, 'block_time' | 'created_at' | 'updated_at'> & {
+  block_time: string;
+  block_timestamp: number | string;
+  created_at: string;
+  updated_at: string;
+};
+
+export class TransactionService {
+  private clickhouse: ClickHouseClient;
+
+  constructor(config: TransactionServiceConfig) {
+    this.clickhouse = config.clickhouse;
+  }
+
+  /**
+   * Get a transaction with all its stored transfers
+   */
+  async getTransaction(signature: string): Promise<TransactionRecord | null> {
+    const rows = await queries
+      .getTransactionBySignature(signature)
+      .select('*', 'toUnixTimestamp(block_time) AS block_timestamp')
+      .limit(MAX_ROWS_PER_TRANSACTION)
+      .execute<TransactionRow>(this.clickhouse);
+
+    return rows.length > 0 ? this.toRecord(rows) : null;
+  }
+
+  /**
+   * Get transactions involving an account, newest first
+   * Keyset pagination on (block_time, signature): the cursor is the last transaction of the previous page
+   */
+  async getAccountTransactions(
+    account: string,
+    options: { limit: number; cursor?: TransactionCursor | null; programId?: string }
+  ): Promise<AccountTransactionsPage> {
+    // Fetch one extra signature to know whether there is a next page
+    const pageQuery = options.programId
+      ? queries.getTransactionsByAccountAndProgram(account, options.programId, options.limit + 1)
+      : queries.getTransactionsByAccount(account, options.limit + 1);
+
+    pageQuery
+      .select('signature', 'toUnixTimestamp(block_time) AS block_timestamp')
+      .groupBy('signature', 'block_time')
+      .orderBy('signature', 'DESC');
+
+    if (options.cursor) {
+      pageQuery.whereRaw(
+        '(block_time, signature) < (toDateTime({cursorTime:UInt32}), {cursorSignature:String})',
+        { cursorTime: options.cursor.blockTime, cursorSignature: options.cursor.signature }
+      );
+    }
+
+    const page = await pageQuery.execute<{ signature: string; block_timestamp: number | string }>(
+      this.clickhouse
+    );
+
+    const hasMore = page.length > options.limit;
+    const pageRows = page.slice(0, options.limit);
+
+    if (pageRows.length === 0) {
+      return { items: [], nextCursor: null };
+    }
+
+    const rows = await query('transactions')
+      .select('*', 'toUnixTimestamp(block_time) AS block_timestamp')
+      .where('signature', 'IN', pageRows.map(row => row.signature))
+      .execute<TransactionRow>(this.clickhouse);
+
+    const rowsBySignature = new Map<string, TransactionRow[]>();
+    for (const row of rows) {
+      const group = rowsBySignature.get(row.signature) ?? [];
+      group.push(row);
+      rowsBySignature.set(row.signature, group);
+    }
+
+    const items = pageRows
+      .map(row => rowsBySignature.get(row.signature))
+      .filter((group): group is TransactionRow[] => group !== undefined)
+      .map(group => this.toRecord(group));
+
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      items,
+      nextCursor: hasMore && last
+        ? { blockTime: Number(last.block_timestamp), signature: last.signature }
+        : null,
+    };
+  }
+
+  /**
+   * Get daily and total stats of an account
+   */
+  async getAccountStats(account: string, filters: AccountStatsQueryDto): Promise<AccountStatsResult> {
+    const statsQuery = query('account_stats')
+      .select(
+        'date',
+        'program_id',
+        'sum(tx_count) AS txs',
+        'sum(total_received_usd) AS received_usd',
+        'max(unique_tokens) AS tokens'
+      )
+      .where('account', '=', account);
+
+    const volumeQuery = query('daily_account_volume')
+      .select('date', 'program_id', 'sum(total_volume_usd) AS volume_usd')
+      .where('account', '=', account);
+
+    for (const builder of [statsQuery, volumeQuery] as QueryBuilder<'account_stats' | 'daily_account_volume'>[]) {
+      if (filters.fromDate) builder.where('date', '>=', filters.fromDate);
+      if (filters.toDate) builder.where('date', '<=', filters.toDate);
+      if (filters.programId) builder.where('program_id', '=', filters.programId);
+      builder.groupBy('date', 'program_id').orderBy('date', 'DESC').limit(MAX_DAILY_ROWS);
+    }
+
+    const [statsRows, volumeRows] = await Promise.all([
+      statsQuery.execute<any>(this.clickhouse),
+      volumeQuery.execute<any>(this.clickhouse),
+    ]);
+
+    const volumeByKey = new Map<string, string>(
+      volumeRows.map(row => [`${row.date}:${row.program_id}`, row.volume_usd?.toString() || '0'])
+    );
+
+    const daily: AccountDailyStatsDto[] = statsRows.map(row => ({
+      date: row.date,
+      programId: row.program_id,
+      txCount: parseInt(row.txs || '0'),
+      totalReceivedUsd: row.received_usd?.toString() || '0',
+      volumeUsd: volumeByKey.get(`${row.date}:${row.program_id}`) ?? '0',
+      uniqueTokens: parseInt(row.tokens || '0'),
+    }));
+
+    return {
+      account,
+      totals: {
+        txCount: daily.reduce((sum, day) => sum + day.txCount, 0),
+        totalReceivedUsd: daily.reduce((sum, day) => sum + parseFloat(day.totalReceivedUsd), 0).toString(),
+        volumeUsd: daily.reduce((sum, day) => sum + parseFloat(day.volumeUsd), 0).toString(),
+        activeDays: new Set(daily.map(day => day.date)).size,
+      },
+      daily,
+    };
+  }
+
+  /**
+   * Merge the stored rows of one transaction into a TransactionRecord
+   */
+  private toRecord(rows: TransactionRow[]): TransactionRecord {
+    // ReplacingMergeTree may still hold unmerged versions of a row, keep the latest
+    const latest = new Map<string, TransactionRow>();
+    for (const row of rows) {
+      const key = `${row.account}:${row.program_id}:${row.token_address}`;
+      const existing = latest.get(key);
+      if (!existing || row.updated_at > existing.updated_at) {
+        latest.set(key, row);
+      }
+    }
+
+    const deduped = [...latest.values()];
+    const first = deduped[0] ?? rows[0]!;
+    const createdAt = deduped.reduce((min, row) => (row.created_at < min ? row.created_at : min), first.created_at);
+    const updatedAt = deduped.reduce((max, row) => (row.updated_at > max ? row.updated_at : max), first.updated_at);
+
+    return {
+      signature: first.signature,
+      slot: Number(first.slot),
+      blockTime: Number(first.block_timestamp),
+      status: STATUS_MAP[first.status] ?? 'pending',
+      fee: '0',
+      programId: first.program_id,
+      accounts: [...new Set(deduped.map(row => row.account).filter(Boolean))],
+      instructions: [],
+      error: first.status === 'failed' ? 'Transaction failed' : undefined,
+      processedAt: this.toIsoString(updatedAt),
+      createdAt: this.toIsoString(createdAt),
+      updatedAt: this.toIsoString(updatedAt),
+      eventType: first.event_type,
+      orderId: first.order_id,
+      transfers: deduped
+        // Transactions without transfers are stored as a single row with empty token_address
+        .filter(row => row.token_address !== '')
+        .map(row => ({
+          account: row.account,
+          tokenAddress: row.token_address,
+          amount: row.amount,
+          amountUsd: row.amount_usd?.toString() || '0',
+          instructionType: row.instruction_type,
+        })),
+    };
+  }
+
+  /**
+   * ClickHouse DateTime ('YYYY-MM-DD HH:mm:ss', UTC) -> ISO 8601
+   */
+  private toIsoString(value: string): string {
+    return `${value.replace(' ', 'T')}Z`;
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * Volume Aggregation Service
- * Provides daily USD volume metrics with Redis caching
+ * Provides daily and hourly USD volume metrics with Redis caching
  * Queries ClickHouse materialized views for production
  */
 
@@ -9,14 +9,101 @@ import { RedisClientType } from 'redis';
 import {
   DailyUsdVolumeResult,
   DailyUsdVolumeSummaryResult,
+  DailyLifecycleStatsResult,
+  FillLatencyGroupByDto,
+  FillLatencyQueryDto,
+  FillLatencyResult,
+  HourlyVolumeQueryDto,
+  ResolvedVolumeGranularity,
+  TopTokenByVolume,
+  TopTokensQueryDto,
+  VolumeByChainQueryDto,
+  VolumeByChainResult,
+  VolumeComparisonDeltaDto,
+  VolumeComparisonQueryDto,
+  VolumeComparisonTotalsDto,
+  VolumePeriodComparisonResult,
   VolumeQueryFilters,
+  VolumeTimeSeriesResult,
+  getDlnChainName,
+  getPreviousPeriod,
+  resolveVolumeGranularity,
 } from '@incur-data/dtos';
+import { TokenMetadataService } from '@incur-data/token-metadata';
+
+/**
+ * Maps API event type filter values to event_type values stored in ClickHouse
+ */
+const EVENT_TYPE_VALUES: Record<NonNullable<VolumeQueryFilters['eventType']>, string> = {
+  created: 'OrderCreated',
+  fulfilled: 'OrderFulfilled',
+  cancelled: 'OrderCancelled',
+  claimed: 'OrderClaimed',
+  sentUnlock: 'SentUnlock',
+  claimedUnlock: 'ClaimedUnlock',
+};
+
+/**
+ * Source view and bucket expression per time series granularity
+ * bound() converts a unix timestamp parameter to the view's time column type
+ */
+const GRANULARITY_SOURCES: Record<
+  ResolvedVolumeGranularity,
+  { table: string; column: string; bucket: string; bound: (param: string) => string }
+> = {
+  hour: {
+    table: 'hourly_volume',
+    column: 'hour',
+    bucket: 'hour',
+    bound: param => `toStartOfHour(toDateTime({${param}:UInt32}))`,
+  },
+  day: {
+    table: 'daily_volume',
+    column: 'date',
+    bucket: 'date',
+    bound: param => `toDate(toDateTime({${param}:UInt32}))`,
+  },
+  week: {
+    table: 'daily_volume',
+    column: 'date',
+    bucket: 'toStartOfWeek(date, 1)',
+    bound: param => `toDate(toDateTime({${param}:UInt32}))`,
+  },
+  month: {
+    table: 'daily_volume',
+    column: 'date',
+    bucket: 'toStartOfMonth(date)',
+    bound: param => `toDate(toDateTime({${param}:UInt32}))`,
+  },
+};
+
+/**
+ * Group columns and ordering per fill latency grouping
+ */
+const FILL_LATENCY_GROUPS: Record<FillLatencyGroupByDto, { select: string; groupBy: string; orderBy: string }> = {
+  day: {
+    select: 'toString(toDate(fill_time)) AS date',
+    groupBy: 'date',
+    orderBy: 'date DESC',
+  },
+  token: {
+    select: 'give_token_address AS token_address',
+    groupBy: 'token_address',
+    orderBy: 'orders DESC, token_address',
+  },
+  corridor: {
+    select: 'give_chain_id, take_chain_id',
+    groupBy: 'give_chain_id, take_chain_id',
+    orderBy: 'orders DESC, give_chain_id, take_chain_id',
+  },
+};
 
 export interface VolumeAggregationServiceConfig {
   clickhouse: ClickHouseClient;
   redis: RedisClientType;
   cacheTtlSeconds?: number;
   enableCache?: boolean;
+  tokenMetadata?: TokenMetadataService;
 }
 
 export class VolumeAggregationService {
@@ -24,6 +111,7 @@ export class VolumeAggregationService {
   private redis: RedisClientType;
   private cacheTtlSeconds: number;
   private enableCache: boolean;
+  private tokenMetadata?: TokenMetadataService;
   private readonly cachePrefix = 'dln:cache:volume';
 
   constructor(config: VolumeAggregationServiceConfig) {
@@ -31,11 +119,12 @@ export class VolumeAggregationService {
     this.redis = config.redis;
     this.cacheTtlSeconds = config.cacheTtlSeconds ?? 300; // 5 minutes default
     this.enableCache = config.enableCache ?? true;
+    this.tokenMetadata = config.tokenMetadata;
   }
 
   /**
    * Get daily USD volume with created vs fulfilled breakdown
-   * Uses materialized view for production performance
+   * Uses materialized view for production performance, dln.daily_chain_volume when filtered by chain
    */
   async getDailyVolume(filters: VolumeQueryFilters = {}): Promise<DailyUsdVolumeResult[]> {
     const cacheKey = this.buildCacheKey('daily', filters);
@@ -60,7 +149,7 @@ export class VolumeAggregationService {
     }
     if (filters.eventType) {
       whereClauses.push('event_type = {eventType:String}');
-      whereParams.eventType = filters.eventType;
+      whereParams.eventType = EVENT_TYPE_VALUES[filters.eventType];
     }
     if (filters.programId) {
       whereClauses.push('program_id = {programId:String}');
@@ -83,18 +172,7 @@ export class VolumeAggregationService {
         sum(tc) AS unique_orders,
         max(now()) AS last_updated
       FROM (
-        SELECT
-          date,
-          program_id,
-          event_type,
-          total_volume_usd AS vol,
-          tx_count AS tc,
-          avg_volume_usd AS av,
-          min_volume_usd AS mn,
-          max_volume_usd AS mx,
-          unique_accounts AS ua
-        FROM dln.daily_volume
-        WHERE ${whereClauses.join(' AND ')}
+        ${this.buildDailyVolumeSubquery(filters, whereClauses, whereParams)}
       ) sub
       GROUP BY date, program_id, event_type
       ORDER BY date DESC, event_type
@@ -112,8 +190,8 @@ export class VolumeAggregationService {
     const formatted = rows.map(row => ({
       date: row.date,
       eventType: row.event_type || 'unknown',
-      giveChainId: '',
-      takeChainId: '',
+      giveChainId: filters.giveChainId ?? '',
+      takeChainId: filters.takeChainId ?? '',
       totalVolumeUsd: row.total_volume_usd?.toString() || '0',
       orderCount: parseInt(row.order_count || '0'),
       avgOrderUsd: row.avg_order_usd?.toString() || '0',
@@ -176,16 +254,7 @@ export class VolumeAggregationService {
         sum(ua) AS unique_makers,
         max(now()) AS last_updated
       FROM (
-        SELECT
-          date,
-          program_id,
-          event_type,
-          total_volume_usd AS vol,
-          tx_count AS tc,
-          avg_volume_usd AS av,
-          unique_accounts AS ua
-        FROM dln.daily_volume
-        WHERE ${whereClauses.join(' AND ')}
+        ${this.buildDailyVolumeSubquery(filters, whereClauses, whereParams)}
       ) sub
       GROUP BY date, program_id
       ORDER BY date DESC
@@ -207,8 +276,8 @@ export class VolumeAggregationService {
 
       return {
         date: row.date,
-        giveChainId: '',
-        takeChainId: '',
+        giveChainId: filters.giveChainId ?? '',
+        takeChainId: filters.takeChainId ?? '',
         createdVolumeUsd: row.created_volume_usd?.toString() || '0',
         createdCount: parseInt(row.created_count || '0'),
         createdAvgUsd: row.created_avg_usd?.toString() || '0',
@@ -364,6 +433,772 @@ export class VolumeAggregationService {
     }
   }
 
+  /**
+   * Get daily order lifecycle stats (created, fulfilled, cancelled, claimed, unlocks)
+   * Counts come from dln.daily_lifecycle_stats and include events without USD amount,
+   * unlock and claim latencies are computed per order from dln.orders
+   */
+  async getLifecycleStats(filters: VolumeQueryFilters = {}): Promise<DailyLifecycleStatsResult[]> {
+    const cacheKey = this.buildCacheKey('lifecycle', filters);
+
+    if (this.enableCache) {
+      const cached = await this.getFromCache<DailyLifecycleStatsResult[]>(cacheKey);
+      if (cached) return cached;
+    }
+
+    const whereClauses: string[] = ['1=1'];
+    const whereParams: Record<string, any> = {};
+
+    // Latency subqueries bound their own unlock time column by the same dates
+    const unlockBounds: string[] = ['1=1'];
+    const claimBounds: string[] = ['1=1'];
+    const latencyParams: Record<string, any> = {};
+
+    if (filters.fromDate) {
+      whereClauses.push('date >= {fromDate:Date}');
+      unlockBounds.push('toDate(unlock_sent_time) >= {fromDate:Date}');
+      claimBounds.push('toDate(unlock_claimed_time) >= {fromDate:Date}');
+      whereParams.fromDate = latencyParams.fromDate = filters.fromDate;
+    }
+    if (filters.toDate) {
+      whereClauses.push('date <= {toDate:Date}');
+      unlockBounds.push('toDate(unlock_sent_time) <= {toDate:Date}');
+      claimBounds.push('toDate(unlock_claimed_time) <= {toDate:Date}');
+      whereParams.toDate = latencyParams.toDate = filters.toDate;
+    }
+    if (filters.programId) {
+      whereClauses.push('program_id = {programId:String}');
+      whereParams.programId = filters.programId;
+    }
+
+    const limit = filters.limit ?? 100;
+
+    const countsQuery = `
+      SELECT
+        date,
+        uniqMergeIf(unique_orders, event_type = 'OrderCreated') AS created_count,
+        uniqMergeIf(unique_orders, event_type = 'OrderFulfilled') AS fulfilled_count,
+        uniqMergeIf(unique_orders, event_type = 'OrderCancelled') AS cancelled_count,
+        uniqMergeIf(unique_orders, event_type = 'OrderClaimed') AS claimed_count,
+        uniqMergeIf(unique_orders, event_type = 'SentUnlock') AS sent_unlock_count,
+        uniqMergeIf(unique_orders, event_type = 'ClaimedUnlock') AS claimed_unlock_count
+      FROM dln.daily_lifecycle_stats
+      WHERE ${whereClauses.join(' AND ')}
+      GROUP BY date
+      ORDER BY date DESC
+      LIMIT {limit:UInt32}
+    `;
+
+    // Latencies per order from dln.orders (the same source as getFillLatency), attributed to the
+    // day of the unlock; the earlier event of the order may fall outside the requested date range.
+    // An order spans both DLN programs, so latencies are not filtered by program
+    const latencyQuery = `
+      SELECT
+        date,
+        avgIf(latency, kind = 'unlock') AS avg_unlock_latency_seconds,
+        avgIf(latency, kind = 'claim') AS avg_claim_latency_seconds
+      FROM (
+        SELECT
+          toDate(assumeNotNull(unlock_sent_time)) AS date,
+          'unlock' AS kind,
+          dateDiff('second', assumeNotNull(fulfilled_time), assumeNotNull(unlock_sent_time)) AS latency
+        FROM dln.orders FINAL
+        WHERE fulfilled_time IS NOT NULL
+          AND unlock_sent_time IS NOT NULL
+          AND ${unlockBounds.join(' AND ')}
+        UNION ALL
+        SELECT
+          toDate(assumeNotNull(unlock_claimed_time)) AS date,
+          'claim' AS kind,
+          dateDiff('second', assumeNotNull(created_time), assumeNotNull(unlock_claimed_time)) AS latency
+        FROM dln.orders FINAL
+        WHERE created_time IS NOT NULL
+          AND unlock_claimed_time IS NOT NULL
+          AND ${claimBounds.join(' AND ')}
+      ) latencies
+      GROUP BY date
+    `;
+
+    const [countsResult, latencyResult] = await Promise.all([
+      this.clickhouse.query({
+        query: countsQuery,
+        query_params: { ...whereParams, limit },
+        format: 'JSONEachRow',
+      }),
+      this.clickhouse.query({
+        query: latencyQuery,
+        query_params: latencyParams,
+        format: 'JSONEachRow',
+      }),
+    ]);
+
+    const rows = await countsResult.json<any[]>();
+    const latencyRows = await latencyResult.json<any[]>();
+    const latencyByDate = new Map(latencyRows.map(row => [String(row.date), row]));
+
+    const toLatency = (value: unknown): number | null => {
+      if (value === null || value === undefined) return null;
+      const seconds = parseFloat(String(value));
+      return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+    };
+
+    const formatted = rows.map(row => {
+      const fulfilledCount = parseInt(row.fulfilled_count || '0');
+      const cancelledCount = parseInt(row.cancelled_count || '0');
+      const settledCount = fulfilledCount + cancelledCount;
+      const latency = latencyByDate.get(String(row.date));
+
+      return {
+        date: row.date,
+        createdCount: parseInt(row.created_count || '0'),
+        fulfilledCount,
+        cancelledCount,
+        claimedCount: parseInt(row.claimed_count || '0'),
+        sentUnlockCount: parseInt(row.sent_unlock_count || '0'),
+        claimedUnlockCount: parseInt(row.claimed_unlock_count || '0'),
+        cancellationRate: settledCount > 0 ? (cancelledCount / settledCount) * 100 : 0,
+        avgUnlockLatencySeconds: toLatency(latency?.avg_unlock_latency_seconds),
+        avgClaimLatencySeconds: toLatency(latency?.avg_claim_latency_seconds),
+      };
+    });
+
+    if (this.enableCache) {
+      await this.setCache(cacheKey, formatted);
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Get USD volume per time bucket for a datetime range
+   * Hourly buckets read dln.hourly_volume, day / week / month buckets roll up dln.daily_volume
+   */
+  async getHourlyVolume(query: HourlyVolumeQueryDto): Promise<VolumeTimeSeriesResult> {
+    const granularity = resolveVolumeGranularity(query.from, query.to, query.granularity);
+    const source = GRANULARITY_SOURCES[granularity];
+
+    const cacheKey = [
+      this.cachePrefix,
+      'hourly',
+      `granularity:${granularity}`,
+      `from:${query.from.toISOString()}`,
+      `to:${query.to.toISOString()}`,
+      query.eventType ? `type:${query.eventType}` : '',
+      query.programId ? `program:${query.programId}` : '',
+      `limit:${query.limit}`,
+    ].filter(Boolean).join(':');
+
+    if (this.enableCache) {
+      const cached = await this.getFromCache<VolumeTimeSeriesResult>(cacheKey);
+      if (cached) return cached;
+    }
+
+    // Bucket bounds are aligned to the source table: a partial first hour / day is included
+    const whereClauses: string[] = [
+      `${source.column} >= ${source.bound('from')}`,
+      `${source.column} <= ${source.bound('to')}`,
+    ];
+    const whereParams: Record<string, any> = {
+      from: Math.floor(query.from.getTime() / 1000),
+      to: Math.floor(query.to.getTime() / 1000),
+    };
+
+    if (query.eventType) {
+      whereClauses.push('event_type = {eventType:String}');
+      whereParams.eventType = EVENT_TYPE_VALUES[query.eventType];
+    }
+    if (query.programId) {
+      whereClauses.push('program_id = {programId:String}');
+      whereParams.programId = query.programId;
+    }
+
+    const sql = `
+      SELECT
+        toUnixTimestamp(toDateTime(${source.bucket}, 'UTC')) AS bucket_ts,
+        event_type,
+        sum(total_volume_usd) AS volume_usd,
+        sum(tx_count) AS txs,
+        min(min_volume_usd) AS min_usd,
+        max(max_volume_usd) AS max_usd,
+        sum(unique_accounts) AS accounts
+      FROM dln.${source.table}
+      WHERE ${whereClauses.join(' AND ')}
+      GROUP BY bucket_ts, event_type
+      ORDER BY bucket_ts ASC, event_type
+      LIMIT {limit:UInt32}
+    `;
+
+    const result = await this.clickhouse.query({
+      query: sql,
+      query_params: { ...whereParams, limit: query.limit },
+      format: 'JSONEachRow',
+    });
+
+    const rows = await result.json<any[]>();
+
+    const formatted: VolumeTimeSeriesResult = {
+      granularity,
+      from: query.from.toISOString(),
+      to: query.to.toISOString(),
+      buckets: rows.map(row => {
+        const txCount = parseInt(row.txs || '0');
+        const volumeUsd = parseFloat(row.volume_usd || '0');
+
+        return {
+          bucket: new Date(Number(row.bucket_ts) * 1000).toISOString(),
+          eventType: row.event_type || 'unknown',
+          totalVolumeUsd: row.volume_usd?.toString() || '0',
+          txCount,
+          avgVolumeUsd: txCount > 0 ? (volumeUsd / txCount).toString() : '0',
+          minVolumeUsd: row.min_usd?.toString() || '0',
+          maxVolumeUsd: row.max_usd?.toString() || '0',
+          uniqueAccounts: parseInt(row.accounts || '0'),
+        };
+      }),
+    };
+
+    if (this.enableCache) {
+      await this.setCache(cacheKey, formatted);
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Get top tokens by USD volume with rank, volume share and token metadata
+   * Reads dln.daily_token_volume; with an event type filter it aggregates dln.transactions,
+   * as the token views are not split by event type. Unique accounts always come from dln.transactions
+   */
+  async getTopTokens(filters: TopTokensQueryDto): Promise<TopTokenByVolume[]> {
+    const cacheKey = this.buildCacheKey('top-tokens', filters);
+
+    if (this.enableCache) {
+      const cached = await this.getFromCache<TopTokenByVolume[]>(cacheKey);
+      if (cached) return cached;
+    }
+
+    // Transfer rows of the window, the source of dln.daily_token_volume (see migration 002)
+    const transferClauses: string[] = [
+      'amount_usd > 0',
+      "token_address != ''",
+      "status = 'success'",
+    ];
+    const viewClauses: string[] = ['1=1'];
+    const whereParams: Record<string, any> = {};
+
+    if (filters.fromDate) {
+      transferClauses.push('toDate(block_time) >= {fromDate:Date}');
+      viewClauses.push('date >= {fromDate:Date}');
+      whereParams.fromDate = filters.fromDate;
+    }
+    if (filters.toDate) {
+      transferClauses.push('toDate(block_time) <= {toDate:Date}');
+      viewClauses.push('date <= {toDate:Date}');
+      whereParams.toDate = filters.toDate;
+    }
+    if (filters.programId) {
+      transferClauses.push('program_id = {programId:String}');
+      viewClauses.push('program_id = {programId:String}');
+      whereParams.programId = filters.programId;
+    }
+    if (filters.eventType) {
+      transferClauses.push('event_type = {eventType:String}');
+      whereParams.eventType = EVENT_TYPE_VALUES[filters.eventType];
+    }
+
+    // Same columns as dln.daily_token_volume, window filters applied before grouping
+    const source = filters.eventType
+      ? `(
+        SELECT
+          token_address,
+          sum(amount_usd) AS total_volume_usd,
+          count() AS tx_count
+        FROM dln.transactions FINAL
+        WHERE ${transferClauses.join(' AND ')}
+        GROUP BY token_address
+      )`
+      : `(
+        SELECT token_address, total_volume_usd, tx_count
+        FROM dln.daily_token_volume
+        WHERE ${viewClauses.join(' AND ')}
+      )`;
+
+    // The window total is computed over all tokens before LIMIT.
+    // Daily unique accounts can't be summed across days, so accounts are counted over the
+    // window from the transfer rows of the top tokens
+    const query = `
+      WITH top_tokens AS (
+        SELECT
+          token_address,
+          sum(total_volume_usd) AS volume_usd,
+          sum(tx_count) AS txs,
+          sum(sum(total_volume_usd)) OVER () AS all_volume_usd
+        FROM ${source} AS token_volume
+        GROUP BY token_address
+        ORDER BY volume_usd DESC, token_address
+        LIMIT {limit:UInt32}
+      )
+      SELECT
+        top_tokens.token_address AS token_address,
+        volume_usd,
+        txs,
+        token_accounts.accounts AS accounts,
+        all_volume_usd
+      FROM top_tokens
+      LEFT JOIN (
+        SELECT token_address, uniq(account) AS accounts
+        FROM dln.transactions FINAL
+        WHERE ${transferClauses.join(' AND ')}
+          AND token_address IN (SELECT token_address FROM top_tokens)
+        GROUP BY token_address
+      ) AS token_accounts ON top_tokens.token_address = token_accounts.token_address
+      ORDER BY volume_usd DESC, token_address
+    `;
+
+    const result = await this.clickhouse.query({
+      query,
+      query_params: { ...whereParams, limit: filters.limit },
+      format: 'JSONEachRow',
+    });
+
+    const rows = await result.json<any[]>();
+
+    const tokens = this.tokenMetadata
+      ? await this.tokenMetadata.getTokens(rows.map(row => row.token_address))
+      : new Map();
+
+    const formatted = rows.map((row, index) => {
+      const volumeUsd = parseFloat(row.volume_usd || '0');
+      const allVolumeUsd = parseFloat(row.all_volume_usd || '0');
+      const txCount = parseInt(row.txs || '0');
+      const token = tokens.get(row.token_address);
+
+      return {
+        rank: index + 1,
+        tokenAddress: row.token_address,
+        symbol: token?.symbol ?? null,
+        name: token?.name ?? null,
+        decimals: token?.decimals ?? null,
+        logoUri: token?.logoUri ?? null,
+        totalVolumeUsd: row.volume_usd?.toString() || '0',
+        txCount,
+        avgVolumeUsd: txCount > 0 ? (volumeUsd / txCount).toString() : '0',
+        uniqueAccounts: parseInt(row.accounts || '0'),
+        volumeShare: allVolumeUsd > 0 ? (volumeUsd / allVolumeUsd) * 100 : 0,
+      };
+    });
+
+    if (this.enableCache) {
+      await this.setCache(cacheKey, formatted);
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Get USD volume per chain corridor (give chain -> take chain) from dln.daily_chain_volume
+   * Corridors are ranked by created volume, volume share is the corridor's share of created volume
+   */
+  async getVolumeByChain(filters: VolumeByChainQueryDto): Promise<VolumeByChainResult[]> {
+    const cacheKey = this.buildCacheKey('by-chain', filters);
+
+    if (this.enableCache) {
+      const cached = await this.getFromCache<VolumeByChainResult[]>(cacheKey);
+      if (cached) return cached;
+    }
+
+    const whereClauses: string[] = ['1=1'];
+    const whereParams: Record<string, any> = {};
+
+    if (filters.fromDate) {
+      whereClauses.push('date >= {fromDate:Date}');
+      whereParams.fromDate = filters.fromDate;
+    }
+    if (filters.toDate) {
+      whereClauses.push('date <= {toDate:Date}');
+      whereParams.toDate = filters.toDate;
+    }
+    if (filters.programId) {
+      whereClauses.push('program_id = {programId:String}');
+      whereParams.programId = filters.programId;
+    }
+    if (filters.giveChainId) {
+      whereClauses.push('give_chain_id = {giveChainId:String}');
+      whereParams.giveChainId = filters.giveChainId;
+    }
+    if (filters.takeChainId) {
+      whereClauses.push('take_chain_id = {takeChainId:String}');
+      whereParams.takeChainId = filters.takeChainId;
+    }
+
+    // The window total is computed over all corridors before LIMIT
+    const query = `
+      SELECT
+        give_chain_id,
+        take_chain_id,
+        sumMerge(total_volume_usd) AS volume_usd,
+        sumMergeIf(total_volume_usd, event_type = 'OrderCreated') AS created_usd,
+        sumMergeIf(total_volume_usd, event_type = 'OrderFulfilled') AS fulfilled_usd,
+        uniqMerge(unique_orders) AS orders,
+        sum(sumMergeIf(total_volume_usd, event_type = 'OrderCreated')) OVER () AS all_created_usd
+      FROM dln.daily_chain_volume
+      WHERE ${whereClauses.join(' AND ')}
+      GROUP BY give_chain_id, take_chain_id
+      ORDER BY created_usd DESC, volume_usd DESC, give_chain_id, take_chain_id
+      LIMIT {limit:UInt32}
+    `;
+
+    const result = await this.clickhouse.query({
+      query,
+      query_params: { ...whereParams, limit: filters.limit },
+      format: 'JSONEachRow',
+    });
+
+    const rows = await result.json<any[]>();
+
+    const formatted = rows.map(row => {
+      const createdUsd = parseFloat(row.created_usd || '0');
+      const allCreatedUsd = parseFloat(row.all_created_usd || '0');
+
+      return {
+        giveChainId: row.give_chain_id,
+        takeChainId: row.take_chain_id,
+        giveChainName: getDlnChainName(row.give_chain_id),
+        takeChainName: getDlnChainName(row.take_chain_id),
+        totalVolumeUsd: row.volume_usd?.toString() || '0',
+        createdVolumeUsd: row.created_usd?.toString() || '0',
+        fulfilledVolumeUsd: row.fulfilled_usd?.toString() || '0',
+        orderCount: parseInt(row.orders || '0'),
+        volumeShare: allCreatedUsd > 0 ? (createdUsd / allCreatedUsd) * 100 : 0,
+      };
+    });
+
+    if (this.enableCache) {
+      await this.setCache(cacheKey, formatted);
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Compare created vs fulfilled volume per day and against the previous period of the same length
+   * Reads dln.orders, so every created order is matched to its own fulfillment: an order counts as
+   * fulfilled once it is fulfilled or unlocked, volumes are the orders' give amounts in USD.
+   * Days are the creation days; orders created outside Solana (no created_time) are not included
+   */
+  async getVolumeComparison(filters: VolumeComparisonQueryDto): Promise<VolumePeriodComparisonResult> {
+    const cacheKey = this.buildCacheKey('comparison', filters);
+
+    if (this.enableCache) {
+      const cached = await this.getFromCache<VolumePeriodComparisonResult>(cacheKey);
+      if (cached) return cached;
+    }
+
+    const previousPeriod = getPreviousPeriod(filters.fromDate, filters.toDate);
+
+    const whereClauses: string[] = [
+      'created_time IS NOT NULL',
+      'toDate(created_time) >= {previousFromDate:Date}',
+      'toDate(created_time) <= {toDate:Date}',
+    ];
+    const whereParams: Record<string, any> = {
+      previousFromDate: previousPeriod.fromDate,
+      toDate: filters.toDate,
+    };
+
+    if (filters.giveChainId) {
+      whereClauses.push('give_chain_id = {giveChainId:String}');
+      whereParams.giveChainId = filters.giveChainId;
+    }
+    if (filters.takeChainId) {
+      whereClauses.push('take_chain_id = {takeChainId:String}');
+      whereParams.takeChainId = filters.takeChainId;
+    }
+
+    const query = `
+      SELECT
+        toString(toDate(assumeNotNull(created_time))) AS day,
+        count() AS created_count,
+        sum(give_amount_usd) AS created_usd,
+        countIf(status IN ('fulfilled', 'claimed')) AS fulfilled_count,
+        sumIf(give_amount_usd, status IN ('fulfilled', 'claimed')) AS fulfilled_usd,
+        countIf(status NOT IN ('fulfilled', 'claimed')) AS unfulfilled_count,
+        sumIf(give_amount_usd, status NOT IN ('fulfilled', 'claimed')) AS unfulfilled_usd
+      FROM dln.orders FINAL
+      WHERE ${whereClauses.join(' AND ')}
+      GROUP BY day
+      ORDER BY day DESC
+    `;
+
+    const result = await this.clickhouse.query({
+      query,
+      query_params: whereParams,
+      format: 'JSONEachRow',
+    });
+
+    const rows = await result.json<any[]>();
+
+    // Rows before fromDate belong to the previous period
+    const currentRows = rows.filter(row => row.day >= filters.fromDate);
+    const previousRows = rows.filter(row => row.day < filters.fromDate);
+
+    const days = currentRows.map(row => ({
+      date: row.day,
+      giveChainId: filters.giveChainId ?? '',
+      takeChainId: filters.takeChainId ?? '',
+      ...this.buildComparison(row),
+    }));
+
+    const current = this.buildComparisonTotals(currentRows, filters.fromDate, filters.toDate);
+    const previous = this.buildComparisonTotals(previousRows, previousPeriod.fromDate, previousPeriod.toDate);
+
+    const formatted: VolumePeriodComparisonResult = {
+      current,
+      previous,
+      deltas: this.buildComparisonDeltas(current, previous),
+      days,
+    };
+
+    if (this.enableCache) {
+      await this.setCache(cacheKey, formatted);
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Get fill latency distributions (OrderCreated -> OrderFulfilled) per day, give token or corridor
+   * Reads dln.orders, where create and fulfill of an order are matched by order_id; only orders
+   * with both events indexed are included (source and destination on Solana)
+   */
+  async getFillLatency(filters: FillLatencyQueryDto): Promise<FillLatencyResult[]> {
+    const cacheKey = [
+      this.buildCacheKey(`fill-latency:${filters.groupBy}`, filters),
+      filters.tokenAddress ? `token:${filters.tokenAddress}` : '',
+    ].filter(Boolean).join(':');
+
+    if (this.enableCache) {
+      const cached = await this.getFromCache<FillLatencyResult[]>(cacheKey);
+      if (cached) return cached;
+    }
+
+    const whereClauses: string[] = ['fill_time >= create_time'];
+    const whereParams: Record<string, any> = {};
+
+    if (filters.fromDate) {
+      whereClauses.push('toDate(fill_time) >= {fromDate:Date}');
+      whereParams.fromDate = filters.fromDate;
+    }
+    if (filters.toDate) {
+      whereClauses.push('toDate(fill_time) <= {toDate:Date}');
+      whereParams.toDate = filters.toDate;
+    }
+    if (filters.tokenAddress) {
+      whereClauses.push('give_token_address = {tokenAddress:String}');
+      whereParams.tokenAddress = filters.tokenAddress;
+    }
+    if (filters.giveChainId) {
+      whereClauses.push('give_chain_id = {giveChainId:String}');
+      whereParams.giveChainId = filters.giveChainId;
+    }
+    if (filters.takeChainId) {
+      whereClauses.push('take_chain_id = {takeChainId:String}');
+      whereParams.takeChainId = filters.takeChainId;
+    }
+
+    const group = FILL_LATENCY_GROUPS[filters.groupBy];
+
+    // Slot deltas only count when both slots are known
+    const query = `
+      SELECT
+        ${group.select},
+        count() AS orders,
+        avg(latency_seconds) AS seconds_avg,
+        quantiles(0.5, 0.9, 0.99)(latency_seconds) AS seconds_q,
+        countIf(has_slots) AS slot_orders,
+        avgIf(latency_slots, has_slots) AS slots_avg,
+        quantilesIf(0.5, 0.9, 0.99)(latency_slots, has_slots) AS slots_q
+      FROM (
+        SELECT
+          give_token_address,
+          give_chain_id,
+          take_chain_id,
+          assumeNotNull(created_time) AS create_time,
+          assumeNotNull(fulfilled_time) AS fill_time,
+          dateDiff('second', create_time, fill_time) AS latency_seconds,
+          toInt64(fulfilled_slot) - toInt64(created_slot) AS latency_slots,
+          created_slot > 0 AND fulfilled_slot >= created_slot AS has_slots
+        FROM dln.orders FINAL
+        WHERE created_time IS NOT NULL
+          AND fulfilled_time IS NOT NULL
+      ) matched
+      WHERE ${whereClauses.join(' AND ')}
+      GROUP BY ${group.groupBy}
+      ORDER BY ${group.orderBy}
+      LIMIT {limit:UInt32}
+    `;
+
+    const result = await this.clickhouse.query({
+      query,
+      query_params: { ...whereParams, limit: filters.limit },
+      format: 'JSONEachRow',
+    });
+
+    const rows = await result.json<any[]>();
+
+    const distribution = (avg: unknown, quantiles: unknown) => {
+      const [p50 = 0, p90 = 0, p99 = 0] = (quantiles as number[] | undefined) ?? [];
+      return { avg: Number(avg || 0), p50: Number(p50), p90: Number(p90), p99: Number(p99) };
+    };
+
+    const formatted = rows.map(row => ({
+      date: row.date ?? null,
+      tokenAddress: row.token_address ?? null,
+      giveChainId: row.give_chain_id ?? null,
+      takeChainId: row.take_chain_id ?? null,
+      orderCount: parseInt(row.orders || '0'),
+      seconds: distribution(row.seconds_avg, row.seconds_q),
+      slots: parseInt(row.slot_orders || '0') > 0 ? distribution(row.slots_avg, row.slots_q) : null,
+    }));
+
+    if (this.enableCache) {
+      await this.setCache(cacheKey, formatted);
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Build created / fulfilled / unfulfilled figures from summed comparison columns
+   */
+  private buildComparison(row: {
+    created_count?: string | number;
+    created_usd?: string | number;
+    fulfilled_count?: string | number;
+    fulfilled_usd?: string | number;
+    unfulfilled_count?: string | number;
+    unfulfilled_usd?: string | number;
+  }): Omit<VolumeComparisonTotalsDto, 'fromDate' | 'toDate'> {
+    const createdCount = Number(row.created_count || 0);
+    const createdUsd = Number(row.created_usd || 0);
+    const fulfilledCount = Number(row.fulfilled_count || 0);
+    const fulfilledUsd = Number(row.fulfilled_usd || 0);
+
+    return {
+      created: {
+        volumeUsd: createdUsd.toString(),
+        count: createdCount,
+        avgUsd: createdCount > 0 ? (createdUsd / createdCount).toString() : '0',
+      },
+      fulfilled: {
+        volumeUsd: fulfilledUsd.toString(),
+        count: fulfilledCount,
+        avgUsd: fulfilledCount > 0 ? (fulfilledUsd / fulfilledCount).toString() : '0',
+      },
+      fulfillmentRate: createdUsd > 0 ? (fulfilledUsd / createdUsd) * 100 : 0,
+      unfulfilled: {
+        volumeUsd: Number(row.unfulfilled_usd || 0).toString(),
+        count: Number(row.unfulfilled_count || 0),
+      },
+    };
+  }
+
+  /**
+   * Sum daily comparison rows into period totals
+   */
+  private buildComparisonTotals(rows: any[], fromDate: string, toDate: string): VolumeComparisonTotalsDto {
+    const columns = [
+      'created_count',
+      'created_usd',
+      'fulfilled_count',
+      'fulfilled_usd',
+      'unfulfilled_count',
+      'unfulfilled_usd',
+    ] as const;
+
+    const sums = Object.fromEntries(
+      columns.map(column => [column, rows.reduce((sum, row) => sum + Number(row[column] || 0), 0)])
+    );
+
+    return { fromDate, toDate, ...this.buildComparison(sums) };
+  }
+
+  /**
+   * Period-over-period changes: percent change of volumes and counts, percentage points of the rate
+   */
+  private buildComparisonDeltas(
+    current: VolumeComparisonTotalsDto,
+    previous: VolumeComparisonTotalsDto
+  ): VolumeComparisonDeltaDto {
+    const change = (now: number | string, before: number | string): number | null => {
+      const previousValue = Number(before);
+      return previousValue > 0 ? ((Number(now) - previousValue) / previousValue) * 100 : null;
+    };
+
+    return {
+      createdVolumeUsd: change(current.created.volumeUsd, previous.created.volumeUsd),
+      createdCount: change(current.created.count, previous.created.count),
+      fulfilledVolumeUsd: change(current.fulfilled.volumeUsd, previous.fulfilled.volumeUsd),
+      fulfilledCount: change(current.fulfilled.count, previous.fulfilled.count),
+      unfulfilledVolumeUsd: change(current.unfulfilled.volumeUsd, previous.unfulfilled.volumeUsd),
+      unfulfilledCount: change(current.unfulfilled.count, previous.unfulfilled.count),
+      fulfillmentRate: current.fulfillmentRate - previous.fulfillmentRate,
+    };
+  }
+
+  /**
+   * Build the per (date, program, event type) subquery of the daily volume queries
+   * Reads dln.daily_volume, or merges dln.daily_chain_volume when a chain filter is set
+   * (dln.daily_volume has no chain columns); adds the chain conditions to whereParams
+   */
+  private buildDailyVolumeSubquery(
+    filters: VolumeQueryFilters,
+    whereClauses: string[],
+    whereParams: Record<string, any>
+  ): string {
+    if (!filters.giveChainId && !filters.takeChainId) {
+      return `
+        SELECT
+          date,
+          program_id,
+          event_type,
+          total_volume_usd AS vol,
+          tx_count AS tc,
+          avg_volume_usd AS av,
+          min_volume_usd AS mn,
+          max_volume_usd AS mx,
+          unique_accounts AS ua
+        FROM dln.daily_volume
+        WHERE ${whereClauses.join(' AND ')}`;
+    }
+
+    const chainClauses: string[] = [...whereClauses];
+
+    if (filters.giveChainId) {
+      chainClauses.push('give_chain_id = {giveChainId:String}');
+      whereParams.giveChainId = filters.giveChainId;
+    }
+    if (filters.takeChainId) {
+      chainClauses.push('take_chain_id = {takeChainId:String}');
+      whereParams.takeChainId = filters.takeChainId;
+    }
+
+    return `
+        SELECT
+          date,
+          program_id,
+          event_type,
+          sumMerge(total_volume_usd) AS vol,
+          uniqMerge(tx_count) AS tc,
+          if(tc > 0, vol / tc, 0) AS av,
+          minMerge(min_volume_usd) AS mn,
+          maxMerge(max_volume_usd) AS mx,
+          uniqMerge(unique_accounts) AS ua
+        FROM dln.daily_chain_volume
+        WHERE ${chainClauses.join(' AND ')}
+        GROUP BY date, program_id, event_type`;
+  }
+
   /**
    * Build cache key from query type and filters
    */
@@ -373,6 +1208,9 @@ export class VolumeAggregationService {
     if (filters.fromDate) parts.push(`from:${filters.fromDate}`);
     if (filters.toDate) parts.push(`to:${filters.toDate}`);
     if (filters.eventType) parts.push(`type:${filters.eventType}`);
+    if (filters.programId) parts.push(`program:${filters.programId}`);
+    if (filters.giveChainId) parts.push(`give:${filters.giveChainId}`);
+    if (filters.takeChainId) parts.push(`take:${filters.takeChainId}`);
     if (filters.limit) parts.push(`limit:${filters.limit}`);
 
     return parts.join(':');
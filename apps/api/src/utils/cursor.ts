@@ -0,0 +1,33 @@
+/**
+ * Cursor Pagination Utilities
+ * Opaque cursors for keyset pagination on (block_time, signature)
+ */
+
+import { transactionCursorSchema, type TransactionCursor } from '@incur-data/dtos';
+
+/**
+ * Encode cursor position as a URL-safe string
+ */
+export function encodeTransactionCursor(cursor: TransactionCursor): string {
+  return Buffer.from(`${cursor.blockTime}:${cursor.signature}`, 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeTransactionCursor
+ *
+ * @returns Validated cursor position, or null if the cursor is malformed
+ */
+export function decodeTransactionCursor(value: string): TransactionCursor | null {
+  const decoded = Buffer.from(value, 'base64url').toString('utf-8');
+  const separator = decoded.indexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const result = transactionCursorSchema.safeParse({
+    blockTime: Number(decoded.slice(0, separator)),
+    signature: decoded.slice(separator + 1),
+  });
+
+  return result.success ? result.data : null;
+}
@@ -3,13 +3,24 @@
  * Shared utilities for parsing and transforming API query parameters
  */
 
+/**
+ * Order lifecycle event type filter
+ */
+export type VolumeEventType =
+  | 'created'
+  | 'fulfilled'
+  | 'cancelled'
+  | 'claimed'
+  | 'sentUnlock'
+  | 'claimedUnlock';
+
 /**
  * Volume query filters (from DTO)
  */
 export interface VolumeQueryFilters {
   fromDate?: string;
   toDate?: string;
-  eventType?: 'created' | 'fulfilled';
+  eventType?: VolumeEventType;
   programId?: string;
   giveChainId?: string;
   takeChainId?: string;
@@ -24,7 +35,7 @@ export interface VolumeQueryFilters {
 export interface VolumeQueryParams {
   fromDate?: string;
   toDate?: string;
-  eventType?: 'created' | 'fulfilled';
+  eventType?: VolumeEventType;
   programId?: string;
   giveChainId?: string;
   takeChainId?: string;
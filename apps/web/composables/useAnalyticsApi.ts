@@ -7,7 +7,11 @@ import { useQuery, useQueryClient } from '@tanstack/vue-query'
 import type {
   DailyVolumeResultDto,
   DailyVolumeSummaryResultDto,
+  HourlyVolumeFiltersDto,
+  MakerCohortsFiltersDto,
+  MakerCohortsResultDto,
   VolumeQueryFiltersDto,
+  VolumeTimeSeriesResultDto,
   TotalStatsResultDto,
 } from '@incur-data/dtos'
 import type { UseApiOptions, ApiState } from './useApiShared'
@@ -93,6 +97,43 @@ export function useDailyVolumeSummary(
   }
 }
 
+/**
+ * Composable for fetching a volume time series (hourly for ranges up to 7 days)
+ * Uses TanStack Query for automatic caching and refetching
+ */
+export function useHourlyVolume(
+  filters: Ref<HourlyVolumeFiltersDto>,
+  options: UseApiOptions = {}
+): ApiState<VolumeTimeSeriesResultDto> {
+  const { fetchApi } = useApiClient()
+  const queryClient = useQueryClient()
+
+  const queryKey = computed(() => queryKeys.analytics.hourlyVolume(unref(filters)))
+
+  const queryFn = () =>
+    fetchApi<VolumeTimeSeriesResultDto>('/api/v1/analytics/hourly-volume', unref(filters))
+
+  const query = useQuery({
+    queryKey,
+    queryFn,
+    enabled: options.immediate !== false,
+    refetchInterval: options.refetchInterval,
+    refetchIntervalInBackground: options.refetchIntervalInBackground ?? false,
+  })
+
+  return {
+    data: computed(() => query.data.value ?? null),
+    loading: computed(() => query.isLoading.value || query.isFetching.value),
+    error: computed(() => (query.error.value ? String(query.error.value) : null)),
+    execute: async () => {
+      await query.refetch()
+    },
+    refresh: async () => {
+      await queryClient.invalidateQueries({ queryKey: unref(queryKey) })
+    },
+  }
+}
+
 /**
  * Composable for fetching total statistics (all time)
  * Uses TanStack Query for automatic caching and refetching
@@ -128,3 +169,41 @@ export function useTotalStats(
     },
   }
 }
+
+/**
+ * Composable for fetching weekly maker cohorts (retention matrix, new / returning / churned makers)
+ * Uses TanStack Query for automatic caching and refetching
+ */
+export function useMakerCohorts(
+  filters: Ref<MakerCohortsFiltersDto>,
+  options: UseApiOptions = {}
+): ApiState<MakerCohortsResultDto> {
+  const { fetchApi } = useApiClient()
+  const queryClient = useQueryClient()
+
+  const queryKey = computed(() => queryKeys.analytics.makerCohorts(unref(filters)))
+
+  const queryFn = () =>
+    fetchApi<MakerCohortsResultDto>('/api/v1/analytics/makers/cohorts', unref(filters))
+
+  const query = useQuery({
+    queryKey,
+    queryFn,
+    enabled: options.immediate !== false,
+    staleTime: 5 * 60 * 1000, // 5 minutes - cohorts change at most once per new order
+    refetchInterval: options.refetchInterval,
+    refetchIntervalInBackground: options.refetchIntervalInBackground ?? false,
+  })
+
+  return {
+    data: computed(() => query.data.value ?? null),
+    loading: computed(() => query.isLoading.value || query.isFetching.value),
+    error: computed(() => (query.error.value ? String(query.error.value) : null)),
+    execute: async () => {
+      await query.refetch()
+    },
+    refresh: async () => {
+      await queryClient.invalidateQueries({ queryKey: unref(queryKey) })
+    },
+  }
+}
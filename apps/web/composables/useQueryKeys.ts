@@ -6,7 +6,11 @@
  * - Простая инвалидация групп запросов
  */
 import { useQueryClient } from '@tanstack/vue-query'
-import type { VolumeQueryFiltersDto } from '@incur-data/dtos'
+import type {
+  HourlyVolumeFiltersDto,
+  MakerCohortsFiltersDto,
+  VolumeQueryFiltersDto,
+} from '@incur-data/dtos'
 
 /**
  * Hierarchical query keys structure
@@ -21,8 +25,12 @@ export const queryKeys = {
       [...queryKeys.analytics.all, 'daily-volume', filters] as const,
     dailyVolumeSummary: (filters: VolumeQueryFiltersDto) =>
       [...queryKeys.analytics.all, 'daily-volume-summary', filters] as const,
+    hourlyVolume: (filters: HourlyVolumeFiltersDto) =>
+      [...queryKeys.analytics.all, 'hourly-volume', filters] as const,
     totalStats: () =>
       [...queryKeys.analytics.all, 'total-stats'] as const,
+    makerCohorts: (filters: MakerCohortsFiltersDto) =>
+      [...queryKeys.analytics.all, 'maker-cohorts', filters] as const,
   },
 } as const
 
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import pino from 'pino';
+import { BatchProcessor, type BatchProcessorConfig } from '../src/services/batch-processor.service.js';
+
+const logger = pino({ level: 'silent' });
+
+const config: BatchProcessorConfig = {
+  batchSize: 5,
+  maxPendingMessages: 3,
+  flushInterval: 1000,
+};
+
+/**
+ * Promise settled from outside, to hold a write open
+ */
+const deferred = () => {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+/**
+ * Let pending promise callbacks run
+ */
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+describe('BatchProcessor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should flush once the batch size is reached', async () => {
+    const write = vi.fn(async (_rows: number[]) => {});
+    const processor = new BatchProcessor(config, write, logger);
+
+    const first = processor.add([1, 2]);
+    await settle();
+    expect(write).not.toHaveBeenCalled();
+    expect(processor.getPendingRows()).toBe(2);
+
+    const second = processor.add([3, 4, 5]);
+    await Promise.all([first, second]);
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith([1, 2, 3, 4, 5]);
+    expect(processor.getPendingRows()).toBe(0);
+  });
+
+  it('should flush once every in-flight message waits for the batch', async () => {
+    const write = vi.fn(async (_rows: number[]) => {});
+    const processor = new BatchProcessor(config, write, logger);
+
+    const adds = [processor.add([1]), processor.add([2])];
+    await settle();
+    expect(write).not.toHaveBeenCalled();
+
+    adds.push(processor.add([3]));
+    await Promise.all(adds);
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith([1, 2, 3]);
+  });
+
+  it('should flush pending rows after the flush interval', async () => {
+    vi.useFakeTimers();
+    const write = vi.fn(async (_rows: number[]) => {});
+    const processor = new BatchProcessor(config, write, logger);
+
+    const added = processor.add([1]);
+    await vi.advanceTimersByTimeAsync(config.flushInterval - 1);
+    expect(write).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await added;
+
+    expect(write).toHaveBeenCalledWith([1]);
+  });
+
+  it('should not flush again on the timer after a size flush', async () => {
+    vi.useFakeTimers();
+    const write = vi.fn(async (_rows: number[]) => {});
+    const processor = new BatchProcessor(config, write, logger);
+
+    await Promise.all([processor.add([1]), processor.add([2, 3, 4, 5])]);
+    await vi.advanceTimersByTimeAsync(config.flushInterval);
+
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it('should write one batch at a time and queue rows added during a flush', async () => {
+    const writes: Array<ReturnType<typeof deferred>> = [];
+    const write = vi.fn((_rows: number[]) => {
+      const pendingWrite = deferred();
+      writes.push(pendingWrite);
+      return pendingWrite.promise;
+    });
+    const processor = new BatchProcessor(config, write, logger);
+
+    const first = processor.add([1, 2, 3, 4, 5]);
+    await settle();
+    expect(write).toHaveBeenCalledTimes(1);
+
+    const second = processor.add([6, 7, 8, 9, 10]);
+    await settle();
+    // The second batch waits for the first write
+    expect(write).toHaveBeenCalledTimes(1);
+
+    writes[0].resolve();
+    await first;
+    await settle();
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(write).toHaveBeenLastCalledWith([6, 7, 8, 9, 10]);
+
+    writes[1].resolve();
+    await second;
+  });
+
+  it('should resolve add() only after the rows are written', async () => {
+    const pendingWrite = deferred();
+    const processor = new BatchProcessor(config, () => pendingWrite.promise, logger);
+
+    let acked = false;
+    const added = processor.add([1, 2, 3, 4, 5]).then(() => {
+      acked = true;
+    });
+    await settle();
+    expect(acked).toBe(false);
+
+    pendingWrite.resolve();
+    await added;
+    expect(acked).toBe(true);
+  });
+
+  it('should reject every message of a failed batch and keep writing later batches', async () => {
+    const write = vi
+      .fn<[number[]], Promise<void>>()
+      .mockRejectedValueOnce(new Error('insert failed'))
+      .mockResolvedValue(undefined);
+    const processor = new BatchProcessor(config, write, logger);
+
+    const failed = [processor.add([1, 2]), processor.add([3, 4, 5])];
+    await expect(failed[0]).rejects.toThrow('insert failed');
+    await expect(failed[1]).rejects.toThrow('insert failed');
+
+    await expect(processor.add([6, 7, 8, 9, 10])).resolves.toBeUndefined();
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+
+  it('should flush pending rows on close and write later rows right away', async () => {
+    const write = vi.fn(async (_rows: number[]) => {});
+    const processor = new BatchProcessor(config, write, logger);
+
+    const added = processor.add([1]);
+    await processor.close();
+    await added;
+    expect(write).toHaveBeenCalledWith([1]);
+
+    await processor.add([2]);
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(write).toHaveBeenLastCalledWith([2]);
+  });
+});
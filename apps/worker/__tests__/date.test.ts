@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatBlockTime,
+  getMonthPartition,
+  getMonthPartitions,
+  getMonthStart,
+} from '../src/utils/date.js';
+
+const utc = (iso: string) => Date.parse(iso) / 1000;
+
+describe('formatBlockTime', () => {
+  it('should format unix seconds as a ClickHouse DateTime', () => {
+    expect(formatBlockTime(utc('2026-10-19T12:34:56Z'))).toBe('2026-10-19 12:34:56');
+  });
+});
+
+describe('getMonthStart', () => {
+  it('should return the first second of the UTC month', () => {
+    expect(getMonthStart(utc('2026-10-19T12:34:56Z'))).toBe(utc('2026-10-01T00:00:00Z'));
+    expect(getMonthStart(utc('2026-10-01T00:00:00Z'))).toBe(utc('2026-10-01T00:00:00Z'));
+  });
+});
+
+describe('getMonthPartition', () => {
+  it('should return the toYYYYMM partition in UTC', () => {
+    expect(getMonthPartition(utc('2026-01-31T23:59:59Z'))).toBe(202601);
+    expect(getMonthPartition(utc('2026-12-01T00:00:00Z'))).toBe(202612);
+  });
+});
+
+describe('getMonthPartitions', () => {
+  it('should list the months overlapping the range', () => {
+    expect(getMonthPartitions(utc('2025-11-15T00:00:00Z'), utc('2026-02-02T00:00:00Z'))).toEqual([
+      202511, 202512, 202601, 202602,
+    ]);
+  });
+
+  it('should exclude the month starting at the end of the range', () => {
+    expect(getMonthPartitions(utc('2026-09-01T00:00:00Z'), utc('2026-10-01T00:00:00Z'))).toEqual([
+      202609,
+    ]);
+  });
+
+  it('should return no partitions for an empty range', () => {
+    const time = utc('2026-10-19T00:00:00Z');
+    expect(getMonthPartitions(time, time)).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  USD_DECIMALS,
+  computeAmountUsd,
+  formatDecimal,
+  formatPrice,
+  isZeroUsd,
+  maxUsd,
+  parseDecimal,
+} from '../src/utils/decimal.js';
+
+describe('parseDecimal', () => {
+  it('should scale integers and fractions', () => {
+    expect(parseDecimal('1', 8)).toBe(100000000n);
+    expect(parseDecimal('1.5', 8)).toBe(150000000n);
+    expect(parseDecimal('.25', 2)).toBe(25n);
+    expect(parseDecimal('3.', 2)).toBe(300n);
+  });
+
+  it('should accept numbers', () => {
+    expect(parseDecimal(0.1, 8)).toBe(10000000n);
+    expect(parseDecimal(42, 0)).toBe(42n);
+  });
+
+  it('should truncate digits beyond the scale', () => {
+    expect(parseDecimal('1.123456789', 8)).toBe(112345678n);
+    expect(parseDecimal('-1.999', 2)).toBe(-199n);
+  });
+
+  it('should parse exponent notation', () => {
+    expect(parseDecimal('1e-7', 8)).toBe(10n);
+    expect(parseDecimal('2.5E+3', 0)).toBe(2500n);
+    expect(parseDecimal(1.23e-10, 18)).toBe(123000000n);
+  });
+
+  it('should parse negative values and trim whitespace', () => {
+    expect(parseDecimal(' -0.5 ', 1)).toBe(-5n);
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseDecimal('', 8)).toThrow('Invalid decimal: ');
+    expect(() => parseDecimal('abc', 8)).toThrow('Invalid decimal: abc');
+    expect(() => parseDecimal('1.2.3', 8)).toThrow('Invalid decimal: 1.2.3');
+    expect(() => parseDecimal('.', 8)).toThrow('Invalid decimal: .');
+  });
+});
+
+describe('formatDecimal', () => {
+  it('should format scaled values without trailing zeros', () => {
+    expect(formatDecimal(150000000n, 8)).toBe('1.5');
+    expect(formatDecimal(100000000n, 8)).toBe('1');
+    expect(formatDecimal(1n, 8)).toBe('0.00000001');
+  });
+
+  it('should format zero and negative values', () => {
+    expect(formatDecimal(0n, 8)).toBe('0');
+    expect(formatDecimal(-25n, 2)).toBe('-0.25');
+  });
+
+  it('should round-trip parseDecimal', () => {
+    for (const value of ['0', '1', '0.00000001', '123456789.12345678', '-7.5']) {
+      expect(formatDecimal(parseDecimal(value, USD_DECIMALS), USD_DECIMALS)).toBe(value);
+    }
+  });
+});
+
+describe('formatPrice', () => {
+  it('should expand exponent notation', () => {
+    expect(formatPrice(1.5e-8)).toBe('0.000000015');
+    expect(formatPrice('2E+2')).toBe('200');
+  });
+});
+
+describe('computeAmountUsd', () => {
+  it('should price 6-decimal tokens', () => {
+    // 1.5 USDC at $0.9998
+    expect(computeAmountUsd('1500000', 6, 0.9998)).toBe('1.4997');
+  });
+
+  it('should price 9-decimal tokens', () => {
+    // 2.5 SOL at $142.37
+    expect(computeAmountUsd(2500000000n, 9, '142.37')).toBe('355.925');
+  });
+
+  it('should round half up to 8 decimal places', () => {
+    // 1 base unit of a 6-decimal token at $0.015 = 0.000000015
+    expect(computeAmountUsd('1', 6, '0.015')).toBe('0.00000002');
+    // 0.0000000149999
+    expect(computeAmountUsd('1', 6, '0.0149999')).toBe('0.00000001');
+  });
+
+  it('should accept prices in exponent notation', () => {
+    // 1,000,000 tokens (6 decimals) at $2.5e-5
+    expect(computeAmountUsd('1000000000000', 6, 2.5e-5)).toBe('25');
+    expect(computeAmountUsd('1000000000000', 6, '2.5e-5')).toBe('25');
+  });
+
+  it('should return 0 for zero and empty amounts', () => {
+    expect(computeAmountUsd('0', 6, 1)).toBe('0');
+    expect(computeAmountUsd('', 6, 1)).toBe('0');
+    expect(computeAmountUsd(0n, 9, '142.37')).toBe('0');
+  });
+
+  it('should return 0 for a zero price', () => {
+    expect(computeAmountUsd('1500000', 6, 0)).toBe('0');
+  });
+
+  it('should use the absolute amount of negative balance changes', () => {
+    expect(computeAmountUsd('-1500000', 6, 2)).toBe('3');
+  });
+
+  it('should keep precision for large amounts', () => {
+    // 10^12 tokens with 9 decimals at $1.23456789
+    expect(computeAmountUsd('1000000000000000000000', 9, '1.23456789')).toBe('1234567890000');
+  });
+});
+
+describe('maxUsd', () => {
+  it('should return the largest value', () => {
+    expect(maxUsd(['1.5', '12.25', '3'])).toBe('12.25');
+  });
+
+  it('should return 0 for no values', () => {
+    expect(maxUsd([])).toBe('0');
+  });
+});
+
+describe('isZeroUsd', () => {
+  it('should detect zero USD values', () => {
+    expect(isZeroUsd('0')).toBe(true);
+    expect(isZeroUsd('0.00000000')).toBe(true);
+    expect(isZeroUsd(0)).toBe(true);
+    expect(isZeroUsd('0.000000001')).toBe(true);
+    expect(isZeroUsd('0.00000001')).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import pino from 'pino';
+import type { RabbitMQConsumer } from '@incur-data/rabbitmq';
+import type { TransactionInsert } from '@incur-data/olap-types';
+import { MetricsService } from '../src/services/metrics.service.js';
+import { WorkerPoolService } from '../src/services/worker-pool.service.js';
+
+const logger = pino({ level: 'silent' });
+
+/**
+ * Sample lines of one metric in the rendered text format
+ */
+const samples = async (metrics: MetricsService, name: string) =>
+  (await metrics.render()).split('\n').filter((line) => line.startsWith(`${name}{`) || line.startsWith(`${name} `));
+
+describe('MetricsService', () => {
+  it('should count queue messages by lifecycle event', async () => {
+    const metrics = new MetricsService();
+
+    metrics.recordMessageEvent('consumed');
+    metrics.recordMessageEvent('consumed');
+    metrics.recordMessageEvent('acked');
+    metrics.recordMessageEvent('dropped');
+
+    expect(await samples(metrics, 'dln_worker_messages_total')).toEqual([
+      'dln_worker_messages_total{event="consumed"} 2',
+      'dln_worker_messages_total{event="acked"} 1',
+      'dln_worker_messages_total{event="dropped"} 1',
+    ]);
+  });
+
+  it('should classify RPC errors by message', async () => {
+    const metrics = new MetricsService();
+
+    metrics.recordRpcError(new Error('Request timed out after 30000ms'));
+    metrics.recordRpcError(new Error('429 Too Many Requests'));
+    metrics.recordRpcError(new Error('connect ECONNREFUSED 127.0.0.1:8899'));
+    metrics.recordRpcError(new Error('503 Service Unavailable'));
+    metrics.recordRpcError(new Error('Transaction version (1) is not supported'));
+
+    expect(await samples(metrics, 'dln_worker_rpc_errors_total')).toEqual([
+      'dln_worker_rpc_errors_total{class="timeout"} 1',
+      'dln_worker_rpc_errors_total{class="rate_limit"} 1',
+      'dln_worker_rpc_errors_total{class="connection"} 1',
+      'dln_worker_rpc_errors_total{class="server"} 1',
+      'dln_worker_rpc_errors_total{class="other"} 1',
+    ]);
+  });
+
+  it('should count inserted rows by event type', async () => {
+    const metrics = new MetricsService();
+    const rows = ['order_created', 'order_created', 'order_fulfilled'].map(
+      (eventType) => ({ event_type: eventType }) as TransactionInsert
+    );
+
+    metrics.recordRowsInserted(rows);
+
+    expect(await samples(metrics, 'dln_worker_rows_inserted_total')).toEqual([
+      'dln_worker_rows_inserted_total{event_type="order_created"} 2',
+      'dln_worker_rows_inserted_total{event_type="order_fulfilled"} 1',
+    ]);
+  });
+
+  it('should report the Jupiter cache hit ratio since start', async () => {
+    const metrics = new MetricsService();
+    expect(await samples(metrics, 'dln_worker_jupiter_price_cache_hit_ratio')).toEqual([
+      'dln_worker_jupiter_price_cache_hit_ratio 0',
+    ]);
+
+    metrics.recordJupiterCache(3, 1);
+
+    expect(await samples(metrics, 'dln_worker_jupiter_price_cache_hit_ratio')).toEqual([
+      'dln_worker_jupiter_price_cache_hit_ratio 0.75',
+    ]);
+  });
+
+  it('should observe stage durations of failed runs', async () => {
+    const metrics = new MetricsService();
+
+    await expect(
+      metrics.timeStage('fetch', async () => {
+        throw new Error('fetch failed');
+      })
+    ).rejects.toThrow('fetch failed');
+    expect(await metrics.timeStage('parse', () => 42)).toBe(42);
+
+    expect(await samples(metrics, 'dln_worker_stage_duration_seconds_count')).toEqual([
+      'dln_worker_stage_duration_seconds_count{stage="fetch"} 1',
+      'dln_worker_stage_duration_seconds_count{stage="parse"} 1',
+    ]);
+  });
+
+  it('should read pool and consumer gauges on each scrape', async () => {
+    const metrics = new MetricsService();
+    let paused = false;
+    metrics.trackConsumer({ isPaused: () => paused } as unknown as RabbitMQConsumer);
+    const workerPool = new WorkerPoolService({ processing: 4, rpc: 2, prices: 2, clickhouse: 2, orders: 2 }, logger);
+    metrics.trackWorkerPool(workerPool);
+
+    expect(await samples(metrics, 'dln_worker_consumer_paused')).toEqual(['dln_worker_consumer_paused 0']);
+    paused = true;
+    expect(await samples(metrics, 'dln_worker_consumer_paused')).toEqual(['dln_worker_consumer_paused 1']);
+
+    expect(await samples(metrics, 'dln_worker_pool_concurrency')).toContain(
+      'dln_worker_pool_concurrency{pool="processing"} 4'
+    );
+  });
+});
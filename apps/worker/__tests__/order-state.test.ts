@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import { DlnEventType, type ParsedDlnEvent } from '@incur-data/tx-parsing';
+import {
+  EVENT_STATUS,
+  STATUS_RANK,
+  createEmptyOrder,
+  mergeOrderEvent,
+  type OrderEventContext,
+} from '../src/utils/order-state.js';
+
+const ORDER_ID = '0xabc123';
+const CONTEXT: OrderEventContext = { amountUsd: '100.5' };
+
+const createdEvent = (overrides: Partial<ParsedDlnEvent> = {}): ParsedDlnEvent => ({
+  eventType: DlnEventType.OrderCreated,
+  orderId: ORDER_ID,
+  signature: 'create-sig',
+  slot: 100,
+  blockTime: 1_700_000_000,
+  data: {
+    maker: 'maker',
+    giveChainId: '7565164',
+    takeChainId: '1',
+    giveTokenAddress: 'give-token',
+    takeTokenAddress: 'take-token',
+    giveAmount: '1000000',
+    takeAmount: '990000',
+    receiver: 'receiver',
+    expirySlot: 500,
+  },
+  ...overrides,
+});
+
+const fulfilledEvent = (overrides: Partial<ParsedDlnEvent> = {}): ParsedDlnEvent => ({
+  eventType: DlnEventType.OrderFulfilled,
+  orderId: ORDER_ID,
+  signature: 'fulfill-sig',
+  slot: 200,
+  blockTime: 1_700_000_060,
+  data: {
+    fulfiller: 'solver',
+    giveAmount: '0',
+    takeAmount: '990000',
+    orderBeneficiary: 'beneficiary',
+    unlockBeneficiary: 'unlock-beneficiary',
+  },
+  ...overrides,
+});
+
+const unlockEvent = (eventType: DlnEventType, blockTime: number): ParsedDlnEvent => ({
+  eventType,
+  orderId: ORDER_ID,
+  signature: `${eventType}-sig`,
+  slot: 300,
+  blockTime,
+  data: { initiator: 'initiator', beneficiary: 'unlock-beneficiary' },
+});
+
+const cancelledEvent = (): ParsedDlnEvent => ({
+  eventType: DlnEventType.OrderCancelled,
+  orderId: ORDER_ID,
+  signature: 'cancel-sig',
+  slot: 250,
+  blockTime: 1_700_000_120,
+  data: {
+    canceller: 'canceller',
+    beneficiary: 'cancel-beneficiary',
+    giveAmount: '1000000',
+    takeAmount: '990000',
+    executionFee: '0',
+  },
+});
+
+const claimedEvent = (): ParsedDlnEvent => ({
+  eventType: DlnEventType.OrderClaimed,
+  orderId: ORDER_ID,
+  signature: 'claim-sig',
+  slot: 350,
+  blockTime: 1_700_000_180,
+  data: { claimer: 'maker', beneficiary: 'cancel-beneficiary' },
+});
+
+const applyAll = (events: ParsedDlnEvent[], context: OrderEventContext = CONTEXT) =>
+  events.reduce((order, event) => mergeOrderEvent(order, event, context), createEmptyOrder(ORDER_ID));
+
+describe('STATUS_RANK', () => {
+  it('should rank created below fulfilled / cancelled below claimed', () => {
+    expect(STATUS_RANK.created).toBeLessThan(STATUS_RANK.fulfilled);
+    expect(STATUS_RANK.fulfilled).toBe(STATUS_RANK.cancelled);
+    expect(STATUS_RANK.cancelled).toBeLessThan(STATUS_RANK.claimed);
+  });
+});
+
+describe('EVENT_STATUS', () => {
+  it('should keep a claimed refund of a cancelled order cancelled', () => {
+    expect(EVENT_STATUS[DlnEventType.OrderClaimed]).toBe('cancelled');
+  });
+
+  it('should mark unlocks as fulfilled and claimed', () => {
+    expect(EVENT_STATUS[DlnEventType.SentUnlock]).toBe('fulfilled');
+    expect(EVENT_STATUS[DlnEventType.ClaimedUnlock]).toBe('claimed');
+  });
+});
+
+describe('createEmptyOrder', () => {
+  it('should create a created order without lifecycle data', () => {
+    const order = createEmptyOrder(ORDER_ID);
+
+    expect(order.order_id).toBe(ORDER_ID);
+    expect(order.status).toBe('created');
+    expect(order.created_time).toBeNull();
+    expect(order.give_amount_usd).toBe('0');
+  });
+});
+
+describe('mergeOrderEvent', () => {
+  it('should fill order parameters from OrderCreated', () => {
+    const order = applyAll([createdEvent()]);
+
+    expect(order.status).toBe('created');
+    expect(order.last_event_type).toBe('OrderCreated');
+    expect(order.maker).toBe('maker');
+    expect(order.give_chain_id).toBe('7565164');
+    expect(order.take_chain_id).toBe('1');
+    expect(order.give_amount).toBe('1000000');
+    expect(order.give_amount_usd).toBe('100.5');
+    expect(order.expiry_slot).toBe(500);
+    expect(order.create_signature).toBe('create-sig');
+    expect(order.created_slot).toBe(100);
+    expect(order.created_time).toBe('2023-11-14 22:13:20');
+  });
+
+  it('should move the status forward through the lifecycle', () => {
+    const order = applyAll([
+      createdEvent(),
+      fulfilledEvent(),
+      unlockEvent(DlnEventType.SentUnlock, 1_700_000_240),
+      unlockEvent(DlnEventType.ClaimedUnlock, 1_700_000_300),
+    ]);
+
+    expect(order.status).toBe('claimed');
+    expect(order.last_event_type).toBe('ClaimedUnlock');
+    expect(order.taker).toBe('solver');
+    expect(order.unlock_sent_time).toBe('2023-11-14 22:17:20');
+    expect(order.unlock_claimed_time).toBe('2023-11-14 22:18:20');
+  });
+
+  it('should not move the status back when events arrive out of order', () => {
+    const order = applyAll([
+      unlockEvent(DlnEventType.ClaimedUnlock, 1_700_000_300),
+      fulfilledEvent(),
+    ]);
+
+    expect(order.status).toBe('claimed');
+    expect(order.fulfilled_time).toBe('2023-11-14 22:14:20');
+  });
+
+  it('should keep a cancelled order cancelled after OrderClaimed', () => {
+    const order = applyAll([createdEvent(), cancelledEvent(), claimedEvent()]);
+
+    expect(order.status).toBe('cancelled');
+    expect(order.last_event_type).toBe('OrderClaimed');
+    expect(order.cancel_beneficiary).toBe('cancel-beneficiary');
+    expect(order.cancel_signature).toBe('cancel-sig');
+    expect(order.cancel_claimed_time).toBe('2023-11-14 22:16:20');
+  });
+
+  it('should merge a late OrderCreated into a fulfilled order', () => {
+    const fulfilled = applyAll([fulfilledEvent()], { amountUsd: '99' });
+    const order = mergeOrderEvent(fulfilled, createdEvent(), CONTEXT);
+
+    expect(order.status).toBe('fulfilled');
+    expect(order.maker).toBe('maker');
+    expect(order.taker).toBe('solver');
+    expect(order.give_amount).toBe('1000000');
+    expect(order.take_amount_usd).toBe('99');
+    expect(order.give_amount_usd).toBe('100.5');
+    expect(order.created_time).toBe('2023-11-14 22:13:20');
+    expect(order.fulfilled_time).toBe('2023-11-14 22:14:20');
+  });
+
+  it('should treat zero amounts and USD values as missing', () => {
+    const fulfilled = applyAll([fulfilledEvent()], { amountUsd: '0' });
+
+    expect(fulfilled.give_amount).toBe('');
+    expect(fulfilled.take_amount_usd).toBe('0');
+
+    const priced = mergeOrderEvent(fulfilled, fulfilledEvent(), { amountUsd: '42' });
+    expect(priced.take_amount_usd).toBe('42');
+  });
+
+  it('should be idempotent when an event is applied twice', () => {
+    const once = applyAll([createdEvent(), fulfilledEvent()]);
+    const twice = mergeOrderEvent(once, fulfilledEvent({ signature: 'other-sig', slot: 999 }), CONTEXT);
+
+    expect(twice).toEqual(once);
+  });
+
+  it('should not mutate the input order', () => {
+    const order = createEmptyOrder(ORDER_ID);
+    mergeOrderEvent(order, createdEvent(), CONTEXT);
+
+    expect(order.maker).toBe('');
+    expect(order.created_time).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import type { ClickHouseClient } from '@clickhouse/client';
+import { PriceHistoryService } from '../src/services/price-history.service.js';
+import type { PriceHistoryConfig } from '../src/types/price-history.types.js';
+
+const logger = pino({ level: 'silent' });
+
+const config: PriceHistoryConfig = {
+  historyTolerance: 3600,
+  highConfidenceDistance: 300,
+  liveMaxAge: 600,
+  historyRateLimit: 0,
+  stablecoinMints: [],
+};
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+// 2026-09-15 10:00:30 UTC
+const BLOCK_TIME = Date.UTC(2026, 8, 15, 10, 0, 30) / 1000;
+
+/**
+ * Service over a ClickHouse stub answering price lookups with `rows`
+ */
+const createService = (rows: unknown[] = []) => {
+  const clickhouse = {
+    query: vi.fn(async () => ({ json: async () => rows })),
+    insert: vi.fn(async () => {}),
+  };
+  const service = new PriceHistoryService(config, clickhouse as unknown as ClickHouseClient, logger);
+  return { service, clickhouse };
+};
+
+describe('PriceHistoryService', () => {
+  describe('getPricesAt', () => {
+    it('should look prices up within the history tolerance of the block time', async () => {
+      const { service, clickhouse } = createService();
+
+      await service.getPricesAt([SOL, BONK], BLOCK_TIME);
+
+      expect(clickhouse.query).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query_params: {
+            mints: [SOL, BONK],
+            blockTime: BLOCK_TIME,
+            fromTime: BLOCK_TIME - 3600,
+            toTime: BLOCK_TIME + 3600,
+          },
+        })
+      );
+    });
+
+    it('should return the nearest stored price of each mint with its distance', async () => {
+      const { service } = createService([
+        { mint: SOL, price: '150.25', distance: 30 },
+        // UInt32 read back as a string
+        { mint: BONK, price: '0.00002', distance: '1830' },
+      ]);
+
+      const prices = await service.getPricesAt([SOL, BONK, 'unknown'], BLOCK_TIME);
+
+      expect(prices).toEqual(
+        new Map([
+          [SOL, { price: '150.25', distance: 30 }],
+          [BONK, { price: '0.00002', distance: 1830 }],
+        ])
+      );
+    });
+
+    it('should return no prices when the lookup fails', async () => {
+      const { service, clickhouse } = createService();
+      clickhouse.query.mockRejectedValueOnce(new Error('Table dln.token_prices does not exist'));
+
+      await expect(service.getPricesAt([SOL], BLOCK_TIME)).resolves.toEqual(new Map());
+    });
+  });
+
+  describe('recordPrices', () => {
+    it('should store prices for the minute of the time', async () => {
+      const { service, clickhouse } = createService();
+
+      await service.recordPrices(new Map([[SOL, '150.25']]), BLOCK_TIME, 'jupiter');
+
+      expect(clickhouse.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          table: 'dln.token_prices',
+          values: [{ mint: SOL, minute: '2026-09-15 10:00:00', usd_price: '150.25', source: 'jupiter' }],
+        })
+      );
+    });
+
+    it('should skip empty price maps', async () => {
+      const { service, clickhouse } = createService();
+
+      await service.recordPrices(new Map(), BLOCK_TIME, 'jupiter');
+
+      expect(clickhouse.insert).not.toHaveBeenCalled();
+    });
+
+    it('should not fail pricing when storing fails', async () => {
+      const { service, clickhouse } = createService();
+      clickhouse.insert.mockRejectedValueOnce(new Error('Timeout error'));
+
+      await expect(service.recordPrices(new Map([[SOL, '150.25']]), BLOCK_TIME, 'jupiter')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('insertPrices', () => {
+    it('should propagate insert errors to the backfill', async () => {
+      const { service, clickhouse } = createService();
+      clickhouse.insert.mockRejectedValueOnce(new Error('Timeout error'));
+
+      await expect(
+        service.insertPrices([{ mint: SOL, minute: '2026-09-15 10:00:00', usd_price: '150.25', source: 'birdeye' }])
+      ).rejects.toThrow('Timeout error');
+    });
+  });
+});
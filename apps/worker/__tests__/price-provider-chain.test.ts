@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import { PriceProviderChain } from '../src/services/price-provider-chain.service.js';
+import type { PriceProvider, PriceQuote } from '../src/types/price-provider.types.js';
+
+const logger = pino({ level: 'silent' });
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const BLOCK_TIME = Date.UTC(2026, 8, 15, 10) / 1000;
+
+/**
+ * Provider stub quoting the given prices
+ */
+const stubProvider = (name: string, prices: Record<string, string>): PriceProvider => ({
+  name,
+  getPrices: vi.fn(
+    async () =>
+      new Map(
+        Object.entries(prices).map(
+          ([mint, price]) => [mint, { price, provider: name, confidence: 'high' }] as [string, PriceQuote]
+        )
+      )
+  ),
+});
+
+const failingProvider = (name: string): PriceProvider => ({
+  name,
+  getPrices: vi.fn(async () => {
+    throw new Error('503 Service Unavailable');
+  }),
+});
+
+const createChain = (...providers: PriceProvider[]) =>
+  new PriceProviderChain(providers.map((provider) => ({ provider, rateLimit: 0 })), logger);
+
+describe('PriceProviderChain', () => {
+  it('should ask each provider only for the mints still without a price', async () => {
+    const history = stubProvider('history', { [SOL]: '150' });
+    const jupiter = stubProvider('jupiter', { [BONK]: '0.00002' });
+    const peg = stubProvider('stablecoin_peg', { [USDC]: '1' });
+
+    const quotes = await createChain(history, jupiter, peg).getPrices([SOL, BONK, USDC, SOL, ''], BLOCK_TIME);
+
+    expect(history.getPrices).toHaveBeenCalledWith([SOL, BONK, USDC], BLOCK_TIME);
+    expect(jupiter.getPrices).toHaveBeenCalledWith([BONK, USDC], BLOCK_TIME);
+    expect(peg.getPrices).toHaveBeenCalledWith([USDC], BLOCK_TIME);
+    expect([...quotes].map(([mint, quote]) => [mint, quote.provider])).toEqual([
+      [SOL, 'history'],
+      [BONK, 'jupiter'],
+      [USDC, 'stablecoin_peg'],
+    ]);
+  });
+
+  it('should keep the quote of the first provider with a price', async () => {
+    const history = stubProvider('history', { [SOL]: '150' });
+    const jupiter = stubProvider('jupiter', { [SOL]: '151' });
+
+    const quotes = await createChain(history, jupiter).getPrices([SOL], BLOCK_TIME);
+
+    expect(quotes.get(SOL)).toEqual({ price: '150', provider: 'history', confidence: 'high' });
+    expect(jupiter.getPrices).not.toHaveBeenCalled();
+  });
+
+  it('should ignore quotes for mints that were not asked for', async () => {
+    const history = stubProvider('history', { [SOL]: '150' });
+    const jupiter = stubProvider('jupiter', { [SOL]: '151', [BONK]: '0.00002' });
+
+    const quotes = await createChain(history, jupiter).getPrices([SOL, BONK], BLOCK_TIME);
+
+    expect(quotes.get(SOL)?.provider).toBe('history');
+    expect(quotes.get(BONK)?.provider).toBe('jupiter');
+  });
+
+  it('should fall back to the next provider when a provider fails', async () => {
+    const history = failingProvider('history');
+    const jupiter = stubProvider('jupiter', { [SOL]: '151' });
+
+    const quotes = await createChain(history, jupiter).getPrices([SOL], BLOCK_TIME);
+
+    expect(quotes.get(SOL)?.provider).toBe('jupiter');
+  });
+
+  it('should leave mints no provider has a price for out of the result', async () => {
+    const chain = createChain(failingProvider('history'), stubProvider('jupiter', {}));
+
+    const quotes = await chain.getPrices([BONK], BLOCK_TIME);
+
+    expect(quotes.size).toBe(0);
+  });
+
+  it('should be usable as a provider of another chain', async () => {
+    const inner = createChain(stubProvider('history', {}), stubProvider('jupiter', { [SOL]: '151' }));
+    const outer = createChain(inner, stubProvider('stablecoin_peg', { [USDC]: '1' }));
+
+    const quotes = await outer.getPrices([SOL, USDC], BLOCK_TIME);
+
+    expect(quotes.get(SOL)?.provider).toBe('jupiter');
+    expect(quotes.get(USDC)?.provider).toBe('stablecoin_peg');
+  });
+});
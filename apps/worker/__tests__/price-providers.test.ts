@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { HistoryPriceProvider } from '../src/services/price-providers/history.provider.js';
+import { JupiterPriceProvider } from '../src/services/price-providers/jupiter.provider.js';
+import { StablecoinPegPriceProvider } from '../src/services/price-providers/stablecoin-peg.provider.js';
+import type { JupiterPriceService } from '../src/services/jupiter-price.service.js';
+import type { PriceHistoryService } from '../src/services/price-history.service.js';
+import type { PriceHistoryConfig, StoredPrice } from '../src/types/price-history.types.js';
+
+const config: PriceHistoryConfig = {
+  historyTolerance: 3600,
+  highConfidenceDistance: 300,
+  liveMaxAge: 600,
+  historyRateLimit: 0,
+  stablecoinMints: [],
+};
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+// Fetch time of the live price tests: 2026-10-19 12:00:40 UTC
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 40) / 1000;
+
+/**
+ * Price history stub with stored prices
+ */
+const createPriceHistory = (stored: Map<string, StoredPrice> = new Map()) => ({
+  getPricesAt: vi.fn(async () => stored),
+  recordPrices: vi.fn(async () => {}),
+});
+
+describe('HistoryPriceProvider', () => {
+  it('should quote stored prices with a confidence by their distance to the block time', async () => {
+    const priceHistory = createPriceHistory(
+      new Map([
+        [SOL, { price: '150.25', distance: 300 }],
+        [BONK, { price: '0.00002', distance: 301 }],
+      ])
+    );
+    const provider = new HistoryPriceProvider(config, priceHistory as unknown as PriceHistoryService);
+
+    const quotes = await provider.getPrices([SOL, BONK, USDC], NOW);
+
+    expect(priceHistory.getPricesAt).toHaveBeenCalledWith([SOL, BONK, USDC], NOW);
+    expect(quotes).toEqual(
+      new Map([
+        [SOL, { price: '150.25', provider: 'history', confidence: 'high' }],
+        [BONK, { price: '0.00002', provider: 'history', confidence: 'low' }],
+      ])
+    );
+  });
+});
+
+describe('JupiterPriceProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createProvider = (prices: Record<string, number> = { [SOL]: 150.25 }) => {
+    const jupiterPriceService = { getPrices: vi.fn(async () => prices) };
+    const priceHistory = createPriceHistory();
+    const provider = new JupiterPriceProvider(
+      config,
+      jupiterPriceService as unknown as JupiterPriceService,
+      priceHistory as unknown as PriceHistoryService
+    );
+    return { provider, jupiterPriceService, priceHistory };
+  };
+
+  it('should quote current prices with high confidence for blocks of the fetch minute', async () => {
+    const { provider } = createProvider();
+
+    const quotes = await provider.getPrices([SOL], NOW - 40);
+
+    expect(quotes.get(SOL)).toEqual({ price: '150.25', provider: 'jupiter', confidence: 'high' });
+  });
+
+  it('should quote current prices with low confidence for blocks of earlier minutes', async () => {
+    const { provider } = createProvider();
+
+    const quotes = await provider.getPrices([SOL], NOW - 41);
+
+    expect(quotes.get(SOL)?.confidence).toBe('low');
+  });
+
+  it('should store fetched prices at the fetch time rather than the block time', async () => {
+    const { provider, priceHistory } = createProvider();
+
+    await provider.getPrices([SOL], NOW - 300);
+
+    expect(priceHistory.recordPrices).toHaveBeenCalledWith(new Map([[SOL, '150.25']]), NOW, 'jupiter');
+  });
+
+  it('should not price blocks older than the live max age', async () => {
+    const { provider, jupiterPriceService, priceHistory } = createProvider();
+
+    expect((await provider.getPrices([SOL], NOW - 600)).size).toBe(1);
+    const quotes = await provider.getPrices([SOL], NOW - 601);
+
+    expect(quotes.size).toBe(0);
+    expect(jupiterPriceService.getPrices).toHaveBeenCalledTimes(1);
+    expect(priceHistory.recordPrices).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('StablecoinPegPriceProvider', () => {
+  it('should quote configured stablecoins at 1 USD with low confidence', async () => {
+    const provider = new StablecoinPegPriceProvider([USDC]);
+
+    const quotes = await provider.getPrices([USDC, SOL]);
+
+    expect(quotes).toEqual(new Map([[USDC, { price: '1', provider: 'stablecoin_peg', confidence: 'low' }]]));
+  });
+});
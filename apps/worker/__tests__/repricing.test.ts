@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import pino from 'pino';
+import type { ClickHouseClient } from '@clickhouse/client';
+import type { TokenMetadataService } from '@incur-data/token-metadata';
+import { RepricingService } from '../src/services/repricing.service.js';
+import type { ViewRebuildService } from '../src/services/view-rebuild.service.js';
+import type { PriceProvider, PriceQuote } from '../src/types/price-provider.types.js';
+
+const logger = pino({ level: 'silent' });
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const FROM_TIME = Date.UTC(2026, 8, 1) / 1000;
+const TO_TIME = Date.UTC(2026, 9, 1) / 1000;
+
+/**
+ * Candidate row as read back from dln.transactions
+ */
+const storedRow = (overrides: Record<string, unknown> = {}) => ({
+  signature: 'sig-1',
+  account: 'account-1',
+  program_id: 'src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4',
+  slot: 250000000,
+  block_time: '2026-09-15 10:00:00',
+  token_address: USDC,
+  amount: '1500000',
+  amount_usd: '0',
+  price_provider: '',
+  price_confidence: 'none',
+  created_at: '2026-09-15 10:00:05',
+  updated_at: '2026-09-15 10:00:05',
+  ...overrides,
+});
+
+/**
+ * Service over stubs; `batches` are the candidate batches returned in order
+ */
+const createService = (
+  batches: Array<Array<ReturnType<typeof storedRow>>>,
+  quote: PriceQuote | null = { price: '2', provider: 'birdeye', confidence: 'high' }
+) => {
+  const clickhouse = {
+    query: vi.fn(async () => ({ json: async () => batches.shift() ?? [] })),
+    insert: vi.fn(async () => {}),
+  };
+  const tokenMetadataService = {
+    getTokens: vi.fn(
+      async (mints: string[]) =>
+        new Map(
+          mints
+            .filter((mint) => mint === USDC)
+            .map((mint) => [mint, { address: mint, symbol: 'USDC', name: 'USD Coin', decimals: 6 }])
+        )
+    ),
+  };
+  const priceProvider: PriceProvider = {
+    name: 'stub',
+    getPrices: vi.fn(async (mints: string[]) => new Map(quote ? mints.map((mint) => [mint, quote]) : [])),
+  };
+  const viewRebuildService = {
+    assertRebuildable: vi.fn(async () => {}),
+    rebuildPartitions: vi.fn(async () => {}),
+  };
+
+  const service = new RepricingService(
+    clickhouse as unknown as ClickHouseClient,
+    tokenMetadataService as unknown as TokenMetadataService,
+    priceProvider,
+    viewRebuildService as unknown as ViewRebuildService,
+    logger
+  );
+
+  return { service, clickhouse, priceProvider, viewRebuildService };
+};
+
+/**
+ * Rows passed to the n-th insert
+ */
+const insertedRows = (clickhouse: { insert: ReturnType<typeof vi.fn> }, call = 0) =>
+  (clickhouse.insert.mock.calls[call][0] as { values: Array<ReturnType<typeof storedRow>> }).values;
+
+describe('RepricingService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should page through candidates with a keyset cursor on the sorting key', async () => {
+    const first = [storedRow(), storedRow({ signature: 'sig-2', account: 'account-2' })];
+    const second = [storedRow({ signature: 'sig-3', block_time: '2026-09-20 08:00:00' })];
+    const { service, clickhouse } = createService([first, second]);
+
+    const result = await service.reprice(FROM_TIME, TO_TIME, { ingestionPaused: true });
+
+    const params = clickhouse.query.mock.calls.map(
+      ([request]) => (request as { query_params: Record<string, unknown> }).query_params
+    );
+    expect(params).toHaveLength(3);
+    expect(params[0]).toMatchObject({
+      fromTime: FROM_TIME,
+      toTime: TO_TIME,
+      afterTime: '1970-01-01 00:00:00',
+      afterSignature: '',
+      afterAccount: '',
+      afterProgramId: '',
+    });
+    expect(params[1]).toMatchObject({
+      afterTime: '2026-09-15 10:00:00',
+      afterSignature: 'sig-2',
+      afterAccount: 'account-2',
+      afterProgramId: first[1].program_id,
+    });
+    expect(params[2]).toMatchObject({ afterTime: '2026-09-20 08:00:00', afterSignature: 'sig-3' });
+    expect(result.candidates).toBe(3);
+  });
+
+  it('should reinsert rows whose USD amount or price provenance changes', async () => {
+    const { service, clickhouse } = createService([
+      [
+        storedRow(),
+        // Same amount and provenance as the current quote
+        storedRow({
+          signature: 'sig-2',
+          amount_usd: '3.00000000',
+          price_provider: 'birdeye',
+          price_confidence: 'high',
+        }),
+        // Same amount, better confidence
+        storedRow({
+          signature: 'sig-3',
+          amount_usd: '3',
+          price_provider: 'jupiter',
+          price_confidence: 'low',
+        }),
+      ],
+    ]);
+
+    const result = await service.reprice(FROM_TIME, TO_TIME, { ingestionPaused: true });
+
+    expect(clickhouse.insert).toHaveBeenCalledTimes(1);
+    expect(insertedRows(clickhouse).map((row) => row.signature)).toEqual(['sig-1', 'sig-3']);
+    expect(insertedRows(clickhouse)[0]).toMatchObject({
+      amount_usd: '3',
+      price_provider: 'birdeye',
+      price_confidence: 'high',
+    });
+    expect(result).toEqual({ candidates: 3, repriced: 2, partitions: [202609] });
+  });
+
+  it('should leave rows of mints without decimals or price', async () => {
+    const { service, clickhouse } = createService([[storedRow({ token_address: BONK })]]);
+    await service.reprice(FROM_TIME, TO_TIME, { ingestionPaused: true });
+    expect(clickhouse.insert).not.toHaveBeenCalled();
+
+    const unpriced = createService([[storedRow()]], null);
+    await unpriced.service.reprice(FROM_TIME, TO_TIME, { ingestionPaused: true });
+    expect(unpriced.clickhouse.insert).not.toHaveBeenCalled();
+  });
+
+  it('should look prices up once per block time', async () => {
+    const { service, priceProvider } = createService([
+      [
+        storedRow(),
+        storedRow({ signature: 'sig-2' }),
+        storedRow({ signature: 'sig-3', block_time: '2026-09-16 00:00:00' }),
+      ],
+    ]);
+
+    await service.reprice(FROM_TIME, TO_TIME, { ingestionPaused: true });
+
+    expect(priceProvider.getPrices).toHaveBeenCalledTimes(2);
+    expect(priceProvider.getPrices).toHaveBeenCalledWith([USDC, USDC], Date.UTC(2026, 8, 15, 10) / 1000);
+  });
+
+  it('should version repriced rows strictly after the stored row', async () => {
+    const { service, clickhouse } = createService([
+      [
+        storedRow({ signature: 'older', updated_at: '2026-10-01 00:00:00' }),
+        // Stored in the current second
+        storedRow({ signature: 'same-second', updated_at: '2026-10-19 12:00:00' }),
+        // Stored by a host whose clock is ahead
+        storedRow({ signature: 'ahead', updated_at: '2026-10-19 12:00:30' }),
+      ],
+    ]);
+
+    await service.reprice(FROM_TIME, TO_TIME, { ingestionPaused: true });
+
+    expect(insertedRows(clickhouse).map((row) => [row.signature, row.updated_at])).toEqual([
+      ['older', '2026-10-19 12:00:00'],
+      ['same-second', '2026-10-19 12:00:01'],
+      ['ahead', '2026-10-19 12:00:31'],
+    ]);
+  });
+
+  it('should rebuild the sorted partitions of the repriced rows', async () => {
+    const { service, viewRebuildService } = createService([
+      [storedRow({ block_time: '2026-09-30 23:59:59' })],
+      [storedRow({ signature: 'sig-2', block_time: '2026-08-31 10:00:00' })],
+      [storedRow({ signature: 'sig-3', block_time: '2026-09-01 00:00:00' })],
+    ]);
+
+    await service.reprice(Date.UTC(2026, 7, 1) / 1000, TO_TIME, { ingestionPaused: true });
+
+    expect(viewRebuildService.rebuildPartitions).toHaveBeenCalledWith(
+      'dln',
+      'transactions',
+      'block_time',
+      [202608, 202609],
+      { ingestionPaused: true }
+    );
+  });
+
+  it('should check the rebuild of every month of the range before reinserting rows', async () => {
+    const { service, clickhouse, viewRebuildService } = createService([[storedRow()]]);
+    viewRebuildService.assertRebuildable.mockRejectedValueOnce(new Error('stop the workers'));
+
+    await expect(
+      service.reprice(Date.UTC(2026, 7, 15) / 1000, TO_TIME, { ingestionPaused: false })
+    ).rejects.toThrow('stop the workers');
+
+    expect(viewRebuildService.assertRebuildable).toHaveBeenCalledWith(
+      'dln',
+      'transactions',
+      [202608, 202609],
+      { ingestionPaused: false }
+    );
+    expect(clickhouse.query).not.toHaveBeenCalled();
+    expect(clickhouse.insert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RequestBudget } from '../src/utils/request-budget.js';
+
+/**
+ * Track when acquire() promises settle
+ */
+const track = (promise: Promise<void>) => {
+  const state = { done: false };
+  void promise.then(() => {
+    state.done = true;
+  });
+  return state;
+};
+
+describe('RequestBudget', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should take weight from a full bucket right away', async () => {
+    const budget = new RequestBudget(100);
+    const acquired = track(budget.acquire(60));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(acquired.done).toBe(true);
+  });
+
+  it('should wait for the bucket to refill', async () => {
+    const budget = new RequestBudget(100);
+    await budget.acquire(100);
+
+    const acquired = track(budget.acquire(50));
+    await vi.advanceTimersByTimeAsync(499);
+    expect(acquired.done).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(acquired.done).toBe(true);
+  });
+
+  it('should grant weights in call order', async () => {
+    const budget = new RequestBudget(100);
+    await budget.acquire(100);
+
+    const order: number[] = [];
+    const large = budget.acquire(80).then(() => order.push(80));
+    const small = budget.acquire(10).then(() => order.push(10));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([large, small]);
+
+    // The small weight fits first but waits for the earlier call
+    expect(order).toEqual([80, 10]);
+  });
+
+  it('should cap the bucket at one second of weight', async () => {
+    const budget = new RequestBudget(100);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await budget.acquire(100);
+    const acquired = track(budget.acquire(1));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(acquired.done).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(acquired.done).toBe(true);
+  });
+
+  it('should let a weight above the budget through once the bucket is full', async () => {
+    const budget = new RequestBudget(100);
+    await budget.acquire(50);
+
+    const acquired = track(budget.acquire(250));
+    await vi.advanceTimersByTimeAsync(499);
+    expect(acquired.done).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(acquired.done).toBe(true);
+  });
+
+  it('should not wait with a budget of 0', async () => {
+    const budget = new RequestBudget(0);
+    const acquired = track(Promise.all([budget.acquire(1000), budget.acquire(1000)]).then(() => {}));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(acquired.done).toBe(true);
+  });
+});
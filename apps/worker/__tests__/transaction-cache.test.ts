@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import { PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import type { RedisClientType } from 'redis';
+import { TransactionCacheService } from '../src/services/transaction-cache.service.js';
+
+const logger = pino({ level: 'silent' });
+
+const SIGNATURE = '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW';
+const PAYER = new PublicKey('9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM');
+const PROGRAM = new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4');
+
+/**
+ * Redis stub backed by a Map
+ */
+const createRedis = () => {
+  const store = new Map<string, string>();
+  const redis = {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    }),
+  };
+  return { redis: redis as unknown as RedisClientType, store, stub: redis };
+};
+
+const createTransaction = (): ParsedTransactionWithMeta =>
+  ({
+    slot: 250000000,
+    blockTime: 1700000000,
+    transaction: {
+      signatures: [SIGNATURE],
+      message: {
+        accountKeys: [
+          { pubkey: PAYER, signer: true, writable: true, source: 'transaction' },
+          { pubkey: PROGRAM, signer: false, writable: false, source: 'transaction' },
+        ],
+        instructions: [{ programId: PROGRAM, accounts: [PAYER], data: '3Bxs4h24hBtQy9rw' }],
+        recentBlockhash: 'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gUdkDPTKN1N',
+      },
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [1000000000, 1],
+      postBalances: [999995000, 1],
+      innerInstructions: [],
+      logMessages: ['Program src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4 invoke [1]'],
+    },
+  }) as unknown as ParsedTransactionWithMeta;
+
+describe('TransactionCacheService', () => {
+  it('should restore PublicKeys of transactions read from Redis', async () => {
+    const { redis } = createRedis();
+    const writer = new TransactionCacheService({ lruSize: 10, ttl: 60 }, redis, logger);
+    // Another worker, with an empty in-memory cache
+    const reader = new TransactionCacheService({ lruSize: 10, ttl: 60 }, redis, logger);
+
+    await writer.set(SIGNATURE, createTransaction());
+    const cached = await reader.get(SIGNATURE);
+
+    const accountKeys = cached!.transaction.message.accountKeys;
+    expect(accountKeys[0].pubkey).toBeInstanceOf(PublicKey);
+    expect(accountKeys[0].pubkey.equals(PAYER)).toBe(true);
+    expect(accountKeys[1].pubkey.toBase58()).toBe(PROGRAM.toBase58());
+
+    const [instruction] = cached!.transaction.message.instructions as Array<{
+      programId: PublicKey;
+      accounts: PublicKey[];
+    }>;
+    expect(instruction.programId).toBeInstanceOf(PublicKey);
+    expect(instruction.accounts[0].equals(PAYER)).toBe(true);
+  });
+
+  it('should round-trip every other field unchanged', async () => {
+    const { redis } = createRedis();
+    const writer = new TransactionCacheService({ lruSize: 10, ttl: 60 }, redis, logger);
+    const reader = new TransactionCacheService({ lruSize: 10, ttl: 60 }, redis, logger);
+    const tx = createTransaction();
+
+    await writer.set(SIGNATURE, tx);
+    const cached = await reader.get(SIGNATURE);
+
+    expect(cached!.slot).toBe(tx.slot);
+    expect(cached!.blockTime).toBe(tx.blockTime);
+    expect(cached!.meta).toEqual(tx.meta);
+    expect(cached!.transaction.signatures).toEqual([SIGNATURE]);
+    expect(cached!.transaction.message.recentBlockhash).toBe(tx.transaction.message.recentBlockhash);
+  });
+
+  it('should store transactions under the documented key with the configured TTL', async () => {
+    const { redis, stub } = createRedis();
+    const cache = new TransactionCacheService({ lruSize: 10, ttl: 60 }, redis, logger);
+
+    await cache.set(SIGNATURE, createTransaction());
+
+    expect(stub.set).toHaveBeenCalledWith(`dln:cache:tx:${SIGNATURE}`, expect.any(String), { EX: 60 });
+  });
+
+  it('should serve cached transactions from memory first', async () => {
+    const { redis, stub } = createRedis();
+    const cache = new TransactionCacheService({ lruSize: 10, ttl: 60 }, redis, logger);
+    const tx = createTransaction();
+
+    await cache.set(SIGNATURE, tx);
+
+    expect(await cache.get(SIGNATURE)).toBe(tx);
+    expect(stub.get).not.toHaveBeenCalled();
+  });
+
+  it('should return null for unknown signatures and Redis errors', async () => {
+    const { redis, stub } = createRedis();
+    const cache = new TransactionCacheService({ lruSize: 10, ttl: 60 }, redis, logger);
+
+    expect(await cache.get(SIGNATURE)).toBeNull();
+
+    stub.get.mockRejectedValueOnce(new Error('connection lost'));
+    expect(await cache.get(SIGNATURE)).toBeNull();
+  });
+});
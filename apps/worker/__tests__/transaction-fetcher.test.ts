@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import pino from 'pino';
+import type { Connection, ParsedTransactionWithMeta } from '@solana/web3.js';
+import {
+  TransactionFetcher,
+  type TransactionFetcherConfig,
+} from '../src/services/transaction-fetcher.service.js';
+import { WorkerPoolService } from '../src/services/worker-pool.service.js';
+import type { MetricsService } from '../src/services/metrics.service.js';
+
+const logger = pino({ level: 'silent' });
+
+const config: TransactionFetcherConfig = {
+  batchSize: 3,
+  batchWait: 50,
+  requestBudget: 0,
+  transactionWeight: 1,
+};
+
+const transaction = (signature: string) =>
+  ({ slot: 1, transaction: { signatures: [signature] } }) as unknown as ParsedTransactionWithMeta;
+
+/**
+ * Fetcher over a connection stub answering with `getParsedTransactions`
+ */
+const createFetcher = (
+  getParsedTransactions: (signatures: string[]) => Promise<Array<ParsedTransactionWithMeta | null>>,
+  fetcherConfig: TransactionFetcherConfig = config
+) => {
+  const connection = { getParsedTransactions: vi.fn(getParsedTransactions) };
+  const metrics = { recordRpcError: vi.fn() };
+  const workerPool = new WorkerPoolService({ processing: 4, rpc: 2, prices: 2, clickhouse: 2, orders: 2 }, logger);
+  const fetcher = new TransactionFetcher(
+    fetcherConfig,
+    connection as unknown as Connection,
+    workerPool,
+    metrics as unknown as MetricsService,
+    logger
+  );
+  return { fetcher, connection, metrics };
+};
+
+const fetchAll = async (signatures: string[]) =>
+  Promise.all(signatures.map((signature) => transaction(signature)));
+
+describe('TransactionFetcher', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should coalesce concurrent fetches into one batch request', async () => {
+    const { fetcher, connection } = createFetcher(fetchAll);
+
+    const results = await Promise.all(['a', 'b', 'c'].map((signature) => fetcher.fetch(signature)));
+
+    expect(connection.getParsedTransactions).toHaveBeenCalledTimes(1);
+    expect(connection.getParsedTransactions).toHaveBeenCalledWith(['a', 'b', 'c'], {
+      maxSupportedTransactionVersion: 0,
+      commitment: 'confirmed',
+    });
+    expect(results.map((tx) => tx!.transaction.signatures[0])).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should send a partial batch after the batch wait', async () => {
+    vi.useFakeTimers();
+    const { fetcher, connection } = createFetcher(fetchAll);
+
+    const result = fetcher.fetch('a');
+    await vi.advanceTimersByTimeAsync(config.batchWait - 1);
+    expect(connection.getParsedTransactions).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await result)!.transaction.signatures[0]).toBe('a');
+    expect(connection.getParsedTransactions).toHaveBeenCalledWith(['a'], expect.anything());
+  });
+
+  it('should split signatures into batches of the batch size', async () => {
+    const { fetcher, connection } = createFetcher(fetchAll);
+
+    await Promise.all(['a', 'b', 'c', 'd', 'e', 'f'].map((signature) => fetcher.fetch(signature)));
+
+    expect(connection.getParsedTransactions.mock.calls.map(([signatures]) => signatures)).toEqual([
+      ['a', 'b', 'c'],
+      ['d', 'e', 'f'],
+    ]);
+  });
+
+  it('should cap batches to one second of request budget', async () => {
+    const { fetcher, connection } = createFetcher(fetchAll, {
+      ...config,
+      batchSize: 10,
+      requestBudget: 4,
+      transactionWeight: 2,
+    });
+
+    await Promise.all(['a', 'b', 'c', 'd'].map((signature) => fetcher.fetch(signature)));
+
+    expect(connection.getParsedTransactions.mock.calls.map(([signatures]) => signatures)).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('should share one request between fetches of the same signature', async () => {
+    const { fetcher, connection } = createFetcher(fetchAll);
+
+    const [first, second] = await Promise.all(
+      ['a', 'a', 'b', 'c'].map((signature) => fetcher.fetch(signature))
+    );
+
+    expect(connection.getParsedTransactions).toHaveBeenCalledTimes(1);
+    expect(connection.getParsedTransactions).toHaveBeenCalledWith(['a', 'b', 'c'], expect.anything());
+    expect(first).toBe(second);
+  });
+
+  it('should resolve missing transactions of a batch with null', async () => {
+    const { fetcher } = createFetcher(async (signatures) =>
+      signatures.map((signature) => (signature === 'b' ? null : transaction(signature)))
+    );
+
+    const [a, b, c] = await Promise.all(['a', 'b', 'c'].map((signature) => fetcher.fetch(signature)));
+
+    expect(a!.transaction.signatures[0]).toBe('a');
+    expect(b).toBeNull();
+    expect(c!.transaction.signatures[0]).toBe('c');
+  });
+
+  it('should only reject the fetches of a failed batch', async () => {
+    const { fetcher, metrics } = createFetcher(async (signatures) => {
+      if (signatures.includes('a')) {
+        throw new Error('429 Too Many Requests');
+      }
+      return fetchAll(signatures);
+    });
+
+    const failed = ['a', 'b', 'c'].map((signature) => fetcher.fetch(signature));
+    const succeeded = ['d', 'e', 'f'].map((signature) => fetcher.fetch(signature));
+
+    for (const result of failed) {
+      await expect(result).rejects.toThrow('429 Too Many Requests');
+    }
+    expect((await Promise.all(succeeded)).map((tx) => tx!.transaction.signatures[0])).toEqual([
+      'd',
+      'e',
+      'f',
+    ]);
+    expect(metrics.recordRpcError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch a signature again once its batch is settled', async () => {
+    const { fetcher, connection } = createFetcher(fetchAll, { ...config, batchSize: 1 });
+
+    await fetcher.fetch('a');
+    await fetcher.fetch('a');
+
+    expect(connection.getParsedTransactions).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import pino from 'pino';
+import type { ClickHouseClient } from '@clickhouse/client';
+import { ViewRebuildService } from '../src/services/view-rebuild.service.js';
+
+const logger = pino({ level: 'silent' });
+
+interface ViewRow {
+  name: string;
+  uuid: string;
+  asSelect: string;
+  monthly: number;
+  dependents: string[];
+}
+
+const DAILY_VOLUME: ViewRow = {
+  name: 'daily_volume',
+  uuid: '11111111-1111-1111-1111-111111111111',
+  asSelect:
+    'SELECT toDate(block_time) AS date, sumState(amount_usd) AS volume FROM dln.transactions WHERE amount_usd > 0 GROUP BY date',
+  monthly: 1,
+  dependents: ['total_stats_mv'],
+};
+
+const TOTAL_STATS: ViewRow = {
+  name: 'total_stats_mv',
+  uuid: '22222222-2222-2222-2222-222222222222',
+  asSelect: 'SELECT sumMergeState(volume) AS volume FROM dln.daily_volume',
+  monthly: 0,
+  dependents: [],
+};
+
+/**
+ * ClickHouse stub answering the system.tables queries of the service and recording commands
+ */
+const createClickHouse = (
+  views: ViewRow[],
+  innerTables = views.map((view) => `.inner_id.${view.uuid}`)
+) => {
+  const commands: string[] = [];
+
+  const clickhouse = {
+    query: vi.fn(async ({ query, query_params }: { query: string; query_params: Record<string, any> }) => {
+      let rows: unknown[];
+      if (query.includes('dependencies_table AS views')) {
+        const readers = views.filter((view) => view.asSelect.includes('dln.transactions'));
+        rows = [{ views: readers.map((view) => view.name) }];
+      } else if (query.includes("engine = 'MaterializedView'")) {
+        rows = views.filter((view) => query_params.names.includes(view.name));
+      } else {
+        rows = innerTables.filter((name) => query_params.names.includes(name)).map((name) => ({ name }));
+      }
+      return { json: async () => rows };
+    }),
+    command: vi.fn(async ({ query }: { query: string }) => {
+      commands.push(query.replace(/\s+/g, ' ').trim());
+    }),
+  };
+
+  const service = new ViewRebuildService(clickhouse as unknown as ClickHouseClient, logger);
+  return { clickhouse, commands, service };
+};
+
+describe('ViewRebuildService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should rebuild monthly partitions through a staging table and dependent views entirely', async () => {
+    const { service, commands } = createClickHouse([DAILY_VOLUME, TOTAL_STATS]);
+
+    await service.rebuildPartitions('dln', 'transactions', 'block_time', [202609], {
+      ingestionPaused: true,
+    });
+
+    expect(commands).toEqual([
+      'DROP TABLE IF EXISTS dln.`daily_volume_rebuild`',
+      'CREATE TABLE dln.`daily_volume_rebuild` AS dln.`.inner_id.11111111-1111-1111-1111-111111111111`',
+      'INSERT INTO dln.`daily_volume_rebuild` SELECT toDate(block_time) AS date, sumState(amount_usd) AS volume ' +
+        'FROM (SELECT * FROM dln.transactions FINAL WHERE toYYYYMM(block_time) = 202609) AS transactions ' +
+        'WHERE amount_usd > 0 GROUP BY date',
+      "ALTER TABLE dln.`.inner_id.11111111-1111-1111-1111-111111111111` REPLACE PARTITION ID '202609' FROM dln.`daily_volume_rebuild`",
+      'DROP TABLE IF EXISTS dln.`daily_volume_rebuild`',
+      'DROP TABLE IF EXISTS dln.`total_stats_mv_rebuild`',
+      'CREATE TABLE dln.`total_stats_mv_rebuild` AS dln.`.inner_id.22222222-2222-2222-2222-222222222222`',
+      'INSERT INTO dln.`total_stats_mv_rebuild` SELECT sumMergeState(volume) AS volume FROM dln.daily_volume',
+      'EXCHANGE TABLES dln.`.inner_id.22222222-2222-2222-2222-222222222222` AND dln.`total_stats_mv_rebuild`',
+      'DROP TABLE IF EXISTS dln.`total_stats_mv_rebuild`',
+    ]);
+  });
+
+  it('should rebuild views not partitioned by month entirely from the deduplicated source', async () => {
+    const { service, commands } = createClickHouse([{ ...DAILY_VOLUME, monthly: 0, dependents: [] }]);
+
+    await service.rebuildPartitions('dln', 'transactions', 'block_time', [202608, 202609], {
+      ingestionPaused: true,
+    });
+
+    const inserts = commands.filter((command) => command.startsWith('INSERT'));
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0]).toContain('FROM (SELECT * FROM dln.transactions FINAL) AS transactions WHERE');
+    expect(commands).toContain(
+      'EXCHANGE TABLES dln.`.inner_id.11111111-1111-1111-1111-111111111111` AND dln.`daily_volume_rebuild`'
+    );
+  });
+
+  it('should use the storage table of views in Ordinary databases', async () => {
+    const { service, commands } = createClickHouse(
+      [{ ...DAILY_VOLUME, dependents: [] }],
+      ['.inner.daily_volume']
+    );
+
+    await service.rebuildPartitions('dln', 'transactions', 'block_time', [202609], {
+      ingestionPaused: true,
+    });
+
+    expect(commands).toContain('CREATE TABLE dln.`daily_volume_rebuild` AS dln.`.inner.daily_volume`');
+  });
+
+  it('should rewrite the FROM clause regardless of case only for the exact source table', async () => {
+    const lowercase = createClickHouse([
+      { ...DAILY_VOLUME, asSelect: 'select count() as c from dln.transactions', dependents: [] },
+    ]);
+    await lowercase.service.rebuildPartitions('dln', 'transactions', 'block_time', [202609], {
+      ingestionPaused: true,
+    });
+    expect(lowercase.commands).toContain(
+      'INSERT INTO dln.`daily_volume_rebuild` select count() as c ' +
+        'FROM (SELECT * FROM dln.transactions FINAL WHERE toYYYYMM(block_time) = 202609) AS transactions'
+    );
+
+    // Lists dln.transactions as dependency, but reads another table
+    const other = createClickHouse([
+      {
+        ...DAILY_VOLUME,
+        asSelect: 'SELECT count() AS c FROM dln.transactions_archive -- dln.transactions',
+        dependents: [],
+      },
+    ]);
+    await expect(
+      other.service.rebuildPartitions('dln', 'transactions', 'block_time', [202609], {
+        ingestionPaused: true,
+      })
+    ).rejects.toThrow('View query does not read from dln.transactions');
+    expect(other.commands).toEqual([]);
+  });
+
+  it('should drop the staging table when the swap fails', async () => {
+    const { service, clickhouse, commands } = createClickHouse([{ ...DAILY_VOLUME, dependents: [] }]);
+    clickhouse.command.mockImplementation(async ({ query }: { query: string }) => {
+      commands.push(query);
+      if (query.includes('REPLACE PARTITION')) {
+        throw new Error('partition is being merged');
+      }
+    });
+
+    await expect(
+      service.rebuildPartitions('dln', 'transactions', 'block_time', [202609], { ingestionPaused: true })
+    ).rejects.toThrow('partition is being merged');
+    expect(commands[commands.length - 1]).toBe('DROP TABLE IF EXISTS dln.`daily_volume_rebuild`');
+  });
+
+  it('should fail when the storage table of a view is missing', async () => {
+    const { service } = createClickHouse([{ ...DAILY_VOLUME, dependents: [] }], []);
+
+    await expect(
+      service.rebuildPartitions('dln', 'transactions', 'block_time', [202609], { ingestionPaused: true })
+    ).rejects.toThrow('Storage table of materialized view daily_volume not found');
+  });
+
+  describe('assertRebuildable', () => {
+    it('should refuse the current month unless ingestion is paused', async () => {
+      const { service } = createClickHouse([{ ...DAILY_VOLUME, dependents: [] }]);
+
+      await expect(
+        service.assertRebuildable('dln', 'transactions', [202609, 202610], { ingestionPaused: false })
+      ).rejects.toThrow('Rebuilding daily_volume (202610) drops rows inserted while it runs');
+      await expect(
+        service.assertRebuildable('dln', 'transactions', [202609], { ingestionPaused: false })
+      ).resolves.toBeUndefined();
+    });
+
+    it('should refuse views rebuilt entirely unless ingestion is paused', async () => {
+      const { service } = createClickHouse([DAILY_VOLUME, TOTAL_STATS]);
+
+      await expect(
+        service.assertRebuildable('dln', 'transactions', [202609], { ingestionPaused: false })
+      ).rejects.toThrow('Rebuilding total_stats_mv drops rows inserted while it runs');
+    });
+
+    it('should refuse rebuilds before running any command', async () => {
+      const { service, commands } = createClickHouse([DAILY_VOLUME, TOTAL_STATS]);
+
+      await expect(
+        service.rebuildPartitions('dln', 'transactions', 'block_time', [202609], { ingestionPaused: false })
+      ).rejects.toThrow('stop the workers');
+      expect(commands).toEqual([]);
+    });
+
+    it('should allow every rebuild when ingestion is paused', async () => {
+      const { service, clickhouse } = createClickHouse([DAILY_VOLUME, TOTAL_STATS]);
+
+      await service.assertRebuildable('dln', 'transactions', [202610], { ingestionPaused: true });
+      expect(clickhouse.query).not.toHaveBeenCalled();
+    });
+  });
+});
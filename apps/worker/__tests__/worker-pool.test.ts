@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import pino from 'pino';
+import { WorkerPoolService, type WorkerPoolConfig } from '../src/services/worker-pool.service.js';
+
+const logger = pino({ level: 'silent' });
+
+const config: WorkerPoolConfig = {
+  processing: 4,
+  rpc: 2,
+  prices: 2,
+  clickhouse: 2,
+  orders: 2,
+};
+
+/**
+ * Tasks held open until released
+ */
+const blockingTasks = () => {
+  const releases: Array<() => void> = [];
+  const task = () =>
+    new Promise<void>((resolve) => {
+      releases.push(resolve);
+    });
+  const releaseNext = async () => {
+    releases.shift()?.();
+    await new Promise<void>((resolve) => setImmediate(resolve));
+  };
+  return { task, releaseNext };
+};
+
+describe('WorkerPoolService', () => {
+  it('should run at most concurrency tasks of a pool at once', async () => {
+    const pools = new WorkerPoolService(config, logger);
+    const { task, releaseNext } = blockingTasks();
+
+    const runs = [1, 2, 3].map(() => pools.run('rpc', task));
+    expect(pools.getStats().rpc).toEqual({ concurrency: 2, active: 2, queued: 1, utilization: 1 });
+
+    for (let i = 0; i < runs.length; i++) {
+      await releaseNext();
+    }
+    await Promise.all(runs);
+    expect(pools.getStats().rpc.active).toBe(0);
+  });
+
+  it('should saturate once a backlog reaches the pool concurrency', () => {
+    const pools = new WorkerPoolService(config, logger);
+    const changes: boolean[] = [];
+    pools.onSaturationChange((saturated) => changes.push(saturated));
+    const { task } = blockingTasks();
+
+    // 2 running, 1 waiting
+    [1, 2, 3].forEach(() => void pools.run('rpc', task));
+    expect(pools.isSaturated()).toBe(false);
+
+    // 2 waiting
+    void pools.run('rpc', task);
+    expect(pools.isSaturated()).toBe(true);
+    expect(changes).toEqual([true]);
+  });
+
+  it('should only resume once every backlog is back under half its limit', async () => {
+    const pools = new WorkerPoolService(config, logger);
+    const changes: boolean[] = [];
+    pools.onSaturationChange((saturated) => changes.push(saturated));
+    const rpc = blockingTasks();
+    const processing = blockingTasks();
+
+    // rpc: 2 running, 2 waiting
+    [1, 2, 3, 4].forEach(() => void pools.run('rpc', rpc.task));
+    // processing: 4 running, 3 waiting (under its limit of 4)
+    [1, 2, 3, 4, 5, 6, 7].forEach(() => void pools.run('processing', processing.task));
+    expect(changes).toEqual([true]);
+
+    // rpc backlog 1 (not above half of 2), processing backlog 3 (above half of 4)
+    await rpc.releaseNext();
+    expect(pools.isSaturated()).toBe(true);
+
+    // processing backlog 2, not above half of 4
+    await processing.releaseNext();
+    expect(pools.isSaturated()).toBe(false);
+    expect(changes).toEqual([true, false]);
+  });
+
+  it('should not resume while the backlog is between half and full', async () => {
+    const pools = new WorkerPoolService(config, logger);
+    const { task, releaseNext } = blockingTasks();
+
+    // processing: 4 running, 4 waiting
+    [1, 2, 3, 4, 5, 6, 7, 8].forEach(() => void pools.run('processing', task));
+    expect(pools.isSaturated()).toBe(true);
+
+    // backlog 3 is under the saturation threshold but above half of it
+    await releaseNext();
+    expect(pools.isSaturated()).toBe(true);
+
+    await releaseNext();
+    expect(pools.isSaturated()).toBe(false);
+  });
+
+  it('should queue order updates apart from batch writes', () => {
+    const pools = new WorkerPoolService(config, logger);
+    const { task } = blockingTasks();
+
+    // clickhouse: 2 running, 1 waiting; orders: 2 running, 1 waiting
+    [1, 2, 3].forEach(() => void pools.run('clickhouse', task));
+    [1, 2, 3].forEach(() => void pools.run('orders', task));
+
+    expect(pools.getStats().clickhouse.queued).toBe(1);
+    expect(pools.getStats().orders.queued).toBe(1);
+    expect(pools.isSaturated()).toBe(false);
+  });
+
+  it('should reject with the error of a failed task', async () => {
+    const pools = new WorkerPoolService(config, logger);
+
+    await expect(
+      pools.run('clickhouse', async () => {
+        throw new Error('insert failed');
+      })
+    ).rejects.toThrow('insert failed');
+    await expect(pools.run('clickhouse', async () => 42)).resolves.toBe(42);
+  });
+});
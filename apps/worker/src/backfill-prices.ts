@@ -0,0 +1,66 @@
+#!/usr/bin/env tsx
+/**
+ * Token price backfill CLI
+ * Stores Birdeye minute prices for the minutes of stored transactions without a price
+ * Usage:
+ *   pnpm backfill:prices                                    - Backfill the last 30 days
+ *   pnpm backfill:prices --from 2026-01-01 --to 2026-02-01  - Backfill block times in [from, to) (UTC)
+ */
+
+import { config as dotenvConfig } from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenvConfig({ path: join(__dirname, '../../../.env') });
+
+import { pino } from 'pino';
+import { getConfig } from './config.js';
+import { ConnectionManager } from './services/connection-manager.service.js';
+import { PriceHistoryService } from './services/price-history.service.js';
+import { PriceBackfillService } from './services/price-backfill.service.js';
+import { parseDateArg } from './utils/cli.js';
+
+const DEFAULT_DAYS = 30;
+
+async function main() {
+  const args = process.argv.slice(2);
+  const config = getConfig();
+  const logger = pino({
+    level: config.logLevel,
+    transport: config.nodeEnv === 'development' ? { target: 'pino-pretty' } : undefined,
+  });
+
+  const toTime = parseDateArg(args, 'to') ?? Math.floor(Date.now() / 1000);
+  const fromTime = parseDateArg(args, 'from') ?? toTime - DEFAULT_DAYS * 86400;
+
+  const connectionManager = new ConnectionManager(config, logger);
+  await connectionManager.initialize();
+
+  try {
+    const priceHistoryService = new PriceHistoryService(
+      config.prices,
+      connectionManager.getClickHouse(),
+      logger
+    );
+    const backfillService = new PriceBackfillService(
+      config.birdeye,
+      connectionManager.getClickHouse(),
+      priceHistoryService,
+      logger
+    );
+
+    const result = await backfillService.backfill(fromTime, toTime);
+    console.log(
+      `✓ Stored ${result.storedMinutes} of ${result.missingMinutes} missing minutes for ${result.mints} mints`
+    );
+  } finally {
+    await connectionManager.closeAll();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Price backfill failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -24,13 +24,38 @@ const configSchema = z.object({
     apiUrl: z.string().url().default('https://api.jup.ag'),
     apiKey: z.string().optional(), // Made optional as Jupiter Price API v2 may not always require it
     priceEndpoint: z.string().default('/price/v3'),
+    tokensEndpoint: z.string().default('/tokens/v2/search'), // Token metadata (symbol / name / decimals)
     timeout: z.coerce.number().default(10000), // Increased to 10 seconds
     retryAttempts: z.coerce.number().default(3),
     cacheTtl: z.coerce.number().default(300), // 5 minutes (300 seconds)
     rateLimit: z.coerce.number().default(1000), // Minimum delay between requests in ms (1 RPS = 1000ms)
   }),
+  prices: z.object({
+    historyTolerance: z.coerce.number().default(3600), // Max distance in seconds to a stored price (1 hour)
+    highConfidenceDistance: z.coerce.number().default(300), // Max distance in seconds to a high confidence price
+    liveMaxAge: z.coerce.number().default(600), // Max transaction age in seconds priced with the current price
+    historyRateLimit: z.coerce.number().default(0), // Minimum delay between price history lookups in ms
+    stablecoinMints: z.array(z.string().min(1)).default([
+      'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+      'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+    ]), // Priced at a 1 USD peg when no other provider has a price
+  }),
+  birdeye: z.object({
+    apiUrl: z.string().url().default('https://public-api.birdeye.so'),
+    apiKey: z.string().optional(), // Required by the price backfill
+    timeout: z.coerce.number().default(10000),
+    rateLimit: z.coerce.number().default(1000), // Minimum delay between requests in ms
+  }),
+  txCache: z.object({
+    lruSize: z.coerce.number().default(1000), // Fetched transactions kept in memory
+    ttl: z.coerce.number().default(86400), // Redis TTL in seconds (24 hours)
+  }),
   worker: z.object({
-    concurrency: z.coerce.number().default(10),
+    concurrency: z.coerce.number().default(10), // Messages processed at once
+    rpcConcurrency: z.coerce.number().default(5), // Solana RPC calls at once
+    priceConcurrency: z.coerce.number().default(5), // Price lookups at once
+    clickhouseConcurrency: z.coerce.number().default(2), // ClickHouse batch writes at once
+    orderConcurrency: z.coerce.number().default(5), // Order state updates at once
     batchSize: z.coerce.number().default(100),
     retryAttempts: z.coerce.number().default(3),
     retryDelay: z.coerce.number().default(1000),
@@ -43,6 +68,10 @@ const configSchema = z.object({
   solana: z.object({
     rpcUrl: z.string().url(),
     commitment: z.enum(['processed', 'confirmed', 'finalized']).default('confirmed'),
+    batchSize: z.coerce.number().default(10), // Transactions per JSON-RPC batch request
+    batchWait: z.coerce.number().default(50), // Max ms a transaction waits for its batch
+    requestBudget: z.coerce.number().default(0), // Request weight per second of the RPC provider (0 = unlimited)
+    transactionWeight: z.coerce.number().default(1), // Request weight of one transaction in a batch
   }),
 });
 
@@ -73,13 +102,35 @@ export function getConfig(): Config {
       apiUrl: process.env.JUPITER_API_URL,
       apiKey: process.env.JUPITER_API_KEY,
       priceEndpoint: process.env.JUPITER_PRICE_ENDPOINT,
+      tokensEndpoint: process.env.JUPITER_TOKENS_ENDPOINT,
       timeout: process.env.JUPITER_TIMEOUT,
       retryAttempts: process.env.JUPITER_RETRY_ATTEMPTS,
       cacheTtl: process.env.JUPITER_CACHE_TTL,
       rateLimit: process.env.JUPITER_RATE_LIMIT,
     },
+    prices: {
+      historyTolerance: process.env.PRICE_HISTORY_TOLERANCE,
+      highConfidenceDistance: process.env.PRICE_HIGH_CONFIDENCE_DISTANCE,
+      liveMaxAge: process.env.PRICE_LIVE_MAX_AGE,
+      historyRateLimit: process.env.PRICE_HISTORY_RATE_LIMIT,
+      stablecoinMints: process.env.PRICE_STABLECOIN_MINTS?.split(',').map((mint) => mint.trim()),
+    },
+    birdeye: {
+      apiUrl: process.env.BIRDEYE_API_URL,
+      apiKey: process.env.BIRDEYE_API_KEY,
+      timeout: process.env.BIRDEYE_TIMEOUT,
+      rateLimit: process.env.BIRDEYE_RATE_LIMIT,
+    },
+    txCache: {
+      lruSize: process.env.TX_CACHE_LRU_SIZE,
+      ttl: process.env.TX_CACHE_TTL,
+    },
     worker: {
       concurrency: process.env.WORKER_CONCURRENCY,
+      rpcConcurrency: process.env.WORKER_RPC_CONCURRENCY,
+      priceConcurrency: process.env.WORKER_PRICE_CONCURRENCY,
+      clickhouseConcurrency: process.env.WORKER_CLICKHOUSE_CONCURRENCY,
+      orderConcurrency: process.env.WORKER_ORDER_CONCURRENCY,
       batchSize: process.env.WORKER_BATCH_SIZE,
       retryAttempts: process.env.WORKER_RETRY_ATTEMPTS,
       retryDelay: process.env.WORKER_RETRY_DELAY,
@@ -92,6 +143,10 @@ export function getConfig(): Config {
     solana: {
       rpcUrl: process.env.SOLANA_RPC_URL,
       commitment: process.env.SOLANA_COMMITMENT as any,
+      batchSize: process.env.SOLANA_RPC_BATCH_SIZE,
+      batchWait: process.env.SOLANA_RPC_BATCH_WAIT,
+      requestBudget: process.env.SOLANA_RPC_REQUEST_BUDGET,
+      transactionWeight: process.env.SOLANA_RPC_TRANSACTION_WEIGHT,
     },
   });
 }
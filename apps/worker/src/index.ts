@@ -6,16 +6,24 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 dotenvConfig({ path: join(__dirname, '../../../.env') });
 
-import Fastify from 'fastify';
+import Fastify, { type FastifyReply, type FastifyRequest } from 'fastify';
 import { pino } from 'pino';
 import type { Connection as AmqpConnection } from 'amqplib';
 import { type TxIngestMessage } from '@incur-data/dtos';
 import { setupQueues, createQueueConfig, createConsumer, type MessageMetadata, type RabbitMQConsumer } from '@incur-data/rabbitmq';
+import { TokenMetadataService } from '@incur-data/token-metadata';
 import { getConfig, type Config } from './config.js';
 import { ConnectionManager } from './services/connection-manager.service.js';
 import { JupiterPriceService } from './services/jupiter-price.service.js';
+import { PriceHistoryService } from './services/price-history.service.js';
+import { createPriceProviderChain } from './services/price-provider-chain.service.js';
 import { TransactionProcessor } from './services/transaction-processor.service.js';
 import { RedisService } from './services/redis.service.js';
+import { OrderLifecycleService } from './services/order-lifecycle.service.js';
+import { WorkerPoolService } from './services/worker-pool.service.js';
+import { TransactionCacheService } from './services/transaction-cache.service.js';
+import { TransactionFetcher } from './services/transaction-fetcher.service.js';
+import { MetricsService } from './services/metrics.service.js';
 
 // Create logger first for error reporting
 const tempLogger = pino({
@@ -54,7 +62,9 @@ logger.info({
  */
 class Worker {
   private connectionManager: ConnectionManager;
+  private metrics = new MetricsService();
   private jupiterPriceService!: JupiterPriceService;
+  private workerPool!: WorkerPoolService;
   private transactionProcessor!: TransactionProcessor;
   private fastify!: ReturnType<typeof Fastify>;
 
@@ -75,22 +85,101 @@ class Worker {
     this.jupiterPriceService = new JupiterPriceService(
       config.jupiter,
       this.connectionManager.getRedis() as any,
-      logger
+      logger,
+      this.metrics
     );
     logger.info('Jupiter price service initialized');
 
+    // Initialize token metadata service (mint decimals / symbol / name cache)
+    const tokenMetadataService = new TokenMetadataService(
+      config.jupiter,
+      this.connectionManager.getRedis() as any,
+      logger
+    );
+
+    // Initialize price history service (dln.token_prices)
+    const priceHistoryService = new PriceHistoryService(
+      config.prices,
+      this.connectionManager.getClickHouse(),
+      logger
+    );
+
+    // Initialize price provider chain (USD prices at block time, first provider with a price wins)
+    const priceProvider = createPriceProviderChain(
+      config,
+      this.jupiterPriceService,
+      priceHistoryService,
+      logger
+    );
+
     // Initialize Redis service
     const redisService = new RedisService(this.connectionManager.getRedis() as any);
 
+    // Initialize order lifecycle service (maintains dln.orders)
+    const orderLifecycleService = new OrderLifecycleService(
+      this.connectionManager.getClickHouse(),
+      logger
+    );
+
+    // Initialize worker pools (message processing, Solana RPC, price lookups, ClickHouse batch writes, order updates)
+    this.workerPool = new WorkerPoolService(
+      {
+        processing: config.worker.concurrency,
+        rpc: config.worker.rpcConcurrency,
+        prices: config.worker.priceConcurrency,
+        clickhouse: config.worker.clickhouseConcurrency,
+        orders: config.worker.orderConcurrency,
+      },
+      logger
+    );
+    this.metrics.trackWorkerPool(this.workerPool);
+
+    // Initialize transaction cache (fetched transactions by signature, in memory and Redis)
+    const transactionCache = new TransactionCacheService(
+      config.txCache,
+      this.connectionManager.getRedis() as any,
+      logger
+    );
+
+    // Initialize transaction fetcher (JSON-RPC batches within the RPC provider request budget)
+    const transactionFetcher = new TransactionFetcher(
+      {
+        batchSize: config.solana.batchSize,
+        batchWait: config.solana.batchWait,
+        requestBudget: config.solana.requestBudget,
+        transactionWeight: config.solana.transactionWeight,
+      },
+      this.connectionManager.getSolana(),
+      this.workerPool,
+      this.metrics,
+      logger
+    );
+
     // Initialize transaction processor
     this.transactionProcessor = new TransactionProcessor(
       this.connectionManager.getClickHouse(),
-      this.connectionManager.getSolana(),
+      transactionFetcher,
       this.jupiterPriceService,
+      tokenMetadataService,
+      priceProvider,
       redisService,
+      orderLifecycleService,
+      this.workerPool,
+      transactionCache,
+      this.metrics,
+      {
+        batchSize: config.worker.batchSize,
+        // Messages wait for their batch before being acked, holding a processing slot,
+        // so no more than the prefetch count or the concurrency can wait
+        maxPendingMessages: Math.min(config.worker.prefetchCount, config.worker.concurrency),
+        flushInterval: config.worker.batchFlushInterval,
+      },
       logger
     );
-    logger.info('Transaction processor initialized');
+    logger.info(
+      { batchSize: config.worker.batchSize, flushInterval: config.worker.batchFlushInterval },
+      'Transaction processor initialized'
+    );
   }
 
   /**
@@ -104,9 +193,11 @@ class Worker {
       timestamp: new Date().toISOString(),
     }));
 
-    this.fastify.get('/metrics', async () => ({
-      timestamp: new Date().toISOString(),
-    }));
+    // Prometheus text format
+    this.fastify.get('/metrics', async (_request: FastifyRequest, reply: FastifyReply) => {
+      reply.header('Content-Type', this.metrics.registry.contentType);
+      return this.metrics.render();
+    });
 
     const metricsPort = config.worker.metricsPort || 9090;
     await this.fastify.listen({ port: metricsPort, host: '0.0.0.0' });
@@ -140,12 +231,22 @@ class Worker {
       logger
     );
 
-    // Start consuming
+    // Backpressure: pause delivery while a worker pool is saturated
+    this.metrics.trackConsumer(consumer);
+    this.workerPool.onSaturationChange((saturated) => {
+      const toggle = saturated ? consumer.pause() : consumer.resume();
+      toggle.catch((error) => logger.error({ error }, 'Failed to toggle consumption'));
+    });
+
+    // Start consuming (processing bounded by the worker pool)
     await consumer.consume(
       (message: TxIngestMessage, metadata: MessageMetadata) =>
-        this.transactionProcessor.processTransaction(message, metadata),
+        this.workerPool.run('processing', () =>
+          this.transactionProcessor.processTransaction(message, metadata)
+        ),
       {
         prefetchCount: config.worker.prefetchCount,
+        onEvent: (event) => this.metrics.recordMessageEvent(event),
       }
     );
 
@@ -153,6 +254,7 @@ class Worker {
       {
         queue: config.rabbitmq.queueName,
         prefetch: config.worker.prefetchCount,
+        concurrency: config.worker.concurrency,
       },
       'Worker started and waiting for messages'
     );
@@ -170,10 +272,13 @@ class Worker {
 
       try {
         // Stop consuming
-        await consumer.close();
+        await consumer.stop();
 
-        // Flush remaining batches
+        // Flush remaining batches and let in-flight messages finish
+        // (acks of the waiting messages need the open channel)
         await this.transactionProcessor.shutdown();
+        await this.workerPool.onIdle();
+        await consumer.close();
 
         // Close connections
         await this.connectionManager.closeAll();
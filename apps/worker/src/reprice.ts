@@ -0,0 +1,78 @@
+#!/usr/bin/env tsx
+/**
+ * Transaction repricing CLI
+ * Recomputes USD amounts of rows stored with amount_usd = 0 or a low confidence price,
+ * then rebuilds the affected partitions of the materialized views
+ * The USD columns of dln.orders (amounts, fees) are not repriced
+ * Rebuilding views drops rows workers insert meanwhile, so it needs the workers stopped
+ * Usage:
+ *   pnpm reprice --ingestion-paused                                    - Reprice the 30 days before the current month
+ *   pnpm reprice --ingestion-paused --from 2026-01-01 --to 2026-02-01  - Reprice block times in [from, to) (UTC)
+ */
+
+import { config as dotenvConfig } from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenvConfig({ path: join(__dirname, '../../../.env') });
+
+import { pino } from 'pino';
+import { TokenMetadataService } from '@incur-data/token-metadata';
+import { getConfig } from './config.js';
+import { ConnectionManager } from './services/connection-manager.service.js';
+import { JupiterPriceService } from './services/jupiter-price.service.js';
+import { PriceHistoryService } from './services/price-history.service.js';
+import { createPriceProviderChain } from './services/price-provider-chain.service.js';
+import { ViewRebuildService } from './services/view-rebuild.service.js';
+import { RepricingService } from './services/repricing.service.js';
+import { parseDateArg } from './utils/cli.js';
+import { getMonthStart } from './utils/date.js';
+
+const DEFAULT_DAYS = 30;
+
+async function main() {
+  const args = process.argv.slice(2);
+  const config = getConfig();
+  const logger = pino({
+    level: config.logLevel,
+    transport: config.nodeEnv === 'development' ? { target: 'pino-pretty' } : undefined,
+  });
+
+  // The current month is still written by the workers
+  const toTime = parseDateArg(args, 'to') ?? getMonthStart(Math.floor(Date.now() / 1000));
+  const fromTime = parseDateArg(args, 'from') ?? toTime - DEFAULT_DAYS * 86400;
+  const ingestionPaused = args.includes('--ingestion-paused');
+
+  const connectionManager = new ConnectionManager(config, logger);
+  await connectionManager.initialize();
+
+  try {
+    const clickhouse = connectionManager.getClickHouse();
+    const redis = connectionManager.getRedis() as any;
+
+    const jupiterPriceService = new JupiterPriceService(config.jupiter, redis, logger);
+    const priceHistoryService = new PriceHistoryService(config.prices, clickhouse, logger);
+    const repricingService = new RepricingService(
+      clickhouse,
+      new TokenMetadataService(config.jupiter, redis, logger),
+      createPriceProviderChain(config, jupiterPriceService, priceHistoryService, logger),
+      new ViewRebuildService(clickhouse, logger),
+      logger
+    );
+
+    const result = await repricingService.reprice(fromTime, toTime, { ingestionPaused });
+    console.log(
+      `✓ Repriced ${result.repriced} of ${result.candidates} rows, ` +
+        `rebuilt view partitions: ${result.partitions.join(', ') || 'none'}`
+    );
+  } finally {
+    await connectionManager.closeAll();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Repricing failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+/**
+ * Batch Processor
+ * Accumulates rows across messages and writes them in batches
+ */
+
+import type { Logger } from 'pino';
+
+/**
+ * Batch processor limits
+ */
+export interface BatchProcessorConfig {
+  batchSize: number; // Flush when this many rows are pending
+  maxPendingMessages: number; // Flush when this many messages wait (at most this many can be in flight)
+  flushInterval: number; // Flush pending rows at the latest after this many ms
+}
+
+/**
+ * Rows of one message with the callbacks settling its add() promise
+ */
+interface PendingEntry<T> {
+  rows: T[];
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Batch Processor
+ * add() resolves once the batch containing the rows is written, so a message is only
+ * acknowledged after its rows are stored; a failed write rejects every message of the batch.
+ * Flushes run one at a time, rows added during a flush go into the next batch.
+ * Only a bounded number of messages is in flight while their acks are pending,
+ * so a batch is also flushed once every in-flight message waits for it
+ */
+export class BatchProcessor<T> {
+  private pending: PendingEntry<T>[] = [];
+  private pendingRows = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    private config: BatchProcessorConfig,
+    private write: (rows: T[]) => Promise<void>,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Queue rows, resolves after they are written
+   */
+  add(rows: T[]): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.pending.push({ rows, resolve, reject });
+      this.pendingRows += rows.length;
+
+      if (
+        this.closed ||
+        this.pendingRows >= this.config.batchSize ||
+        this.pending.length >= this.config.maxPendingMessages
+      ) {
+        void this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.config.flushInterval);
+      }
+    });
+  }
+
+  /**
+   * Write all pending rows
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.pending;
+    if (batch.length === 0) {
+      return this.flushing;
+    }
+
+    this.pending = [];
+    this.pendingRows = 0;
+    this.flushing = this.flushing.then(() => this.writeBatch(batch));
+
+    return this.flushing;
+  }
+
+  /**
+   * Flush pending rows, later rows are written right away
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.flush();
+  }
+
+  /**
+   * Number of rows waiting for the next flush
+   */
+  getPendingRows(): number {
+    return this.pendingRows;
+  }
+
+  private async writeBatch(batch: PendingEntry<T>[]): Promise<void> {
+    const rows = batch.flatMap((entry) => entry.rows);
+    const startTime = Date.now();
+
+    try {
+      if (rows.length > 0) {
+        await this.write(rows);
+      }
+
+      this.logger.debug(
+        { rows: rows.length, messages: batch.length, duration: Date.now() - startTime },
+        'Batch written'
+      );
+      batch.forEach((entry) => entry.resolve());
+    } catch (error) {
+      this.logger.error(
+        { error: (error as Error).message, rows: rows.length, messages: batch.length },
+        'Failed to write batch'
+      );
+      batch.forEach((entry) => entry.reject(error as Error));
+    }
+  }
+}
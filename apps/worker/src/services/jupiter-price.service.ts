@@ -9,18 +9,23 @@ import type { Logger } from 'pino';
 import { type TransactionInsert } from '@incur-data/olap-types';
 import { withRetry, isRetryableError } from '../utils/retry.js';
 import { RateLimiter } from '../utils/rate-limiter.js';
+import { computeAmountUsd } from '../utils/decimal.js';
 import type {
   JupiterPriceConfig,
   JupiterPriceResponse
 } from '../types/jupiter-price.types.js';
+import type { PriceQuote } from '../types/price-provider.types.js';
+import type { MetricsService } from './metrics.service.js';
 
 /**
  * Transfer data for building transaction rows
+ * amount is the signed balance change in base units, decimals come from the token balance metadata
  */
 export interface TokenTransfer {
   account: string;
   tokenAddress: string;
   amount: string;
+  decimals: number;
   instructionType: string;
 }
 
@@ -35,6 +40,9 @@ export interface TransactionContext {
   status: 'success' | 'failed' | 'pending';
   eventType: string;
   orderId: string;
+  giveChainId: string;
+  takeChainId: string;
+  fulfiller: string;
 }
 
 /**
@@ -48,15 +56,18 @@ export class JupiterPriceService {
   private readonly config: JupiterPriceConfig;
   private readonly cacheTtl: number;
   private readonly rateLimiter: RateLimiter;
+  private readonly metrics?: MetricsService;
 
   constructor(
     config: JupiterPriceConfig,
     redis: RedisClientType,
-    logger: Logger
+    logger: Logger,
+    metrics?: MetricsService
   ) {
     this.config = config;
     this.redis = redis;
     this.logger = logger;
+    this.metrics = metrics;
     this.cacheTtl = config.cacheTtl;
     
     // Initialize rate limiter (default 1 RPS = 1000ms between requests)
@@ -119,6 +130,11 @@ export class JupiterPriceService {
       }
     }
 
+    this.metrics?.recordJupiterCache(
+      tokenAddresses.length - uncachedTokens.length,
+      uncachedTokens.length
+    );
+
     // If all prices were cached, return early
     if (uncachedTokens.length === 0) {
       return results;
@@ -299,30 +315,14 @@ export class JupiterPriceService {
 
   /**
    * Build transaction rows with USD amounts from transfers
-   * Fetches prices and calculates USD values for each transfer
+   * tokenPrices are USD prices at block time, transfers of unpriced mints are valued at 0
+   * with 'none' confidence
    */
-  async buildTransactionRows(
+  buildTransactionRows(
     ctx: TransactionContext,
     transfers: TokenTransfer[],
-    tokenMints: string[]
-  ): Promise<TransactionInsert[]> {
-    // Fetch prices for all tokens
-    let tokenPrices: Record<string, number> = {};
-    if (tokenMints.length > 0) {
-      try {
-        tokenPrices = await this.getPrices(tokenMints);
-        this.logger.debug(
-          { mints: tokenMints, prices: Object.keys(tokenPrices).length },
-          'Fetched prices for tokens'
-        );
-      } catch (error) {
-        this.logger.warn(
-          { error: (error as Error).message, mints: tokenMints },
-          'Failed to fetch token prices, will use 0 for USD amounts'
-        );
-      }
-    }
-
+    tokenPrices: Map<string, PriceQuote>
+  ): TransactionInsert[] {
     const rows: TransactionInsert[] = [];
 
     if (transfers.length === 0) {
@@ -335,20 +335,24 @@ export class JupiterPriceService {
         account: '',
         token_address: '',
         amount: '0',
-        amount_usd: 0,
+        amount_usd: '0',
+        price_provider: '',
+        price_confidence: 'none',
         status: ctx.status,
         instruction_type: 'unknown',
         event_type: ctx.eventType,
         order_id: ctx.orderId,
+        give_chain_id: ctx.giveChainId,
+        take_chain_id: ctx.takeChainId,
+        fulfiller: ctx.fulfiller,
       });
     } else {
-      // Process each transfer using cached prices
+      // Process each transfer using block time prices
       for (const transfer of transfers) {
-        const priceUSD = tokenPrices[transfer.tokenAddress] || 0;
-        const amountNum = Number(transfer.amount);
-        const amountAbs = Math.abs(amountNum);
-        const decimals = 9; // Default to 9, but could be extracted from meta
-        const amountUSD = (amountAbs * priceUSD) / Math.pow(10, decimals);
+        const quote = tokenPrices.get(transfer.tokenAddress);
+        const amount = BigInt(transfer.amount);
+        const amountAbs = amount < 0n ? -amount : amount;
+        const amountUSD = computeAmountUsd(amountAbs, transfer.decimals, quote?.price ?? '0');
 
         rows.push({
           signature: ctx.signature,
@@ -359,10 +363,15 @@ export class JupiterPriceService {
           token_address: transfer.tokenAddress,
           amount: amountAbs.toString(),
           amount_usd: amountUSD,
+          price_provider: quote?.provider ?? '',
+          price_confidence: quote?.confidence ?? 'none',
           status: ctx.status,
           instruction_type: transfer.instructionType,
           event_type: ctx.eventType,
           order_id: ctx.orderId,
+          give_chain_id: ctx.giveChainId,
+          take_chain_id: ctx.takeChainId,
+          fulfiller: ctx.fulfiller,
         });
       }
     }
@@ -0,0 +1,222 @@
+/**
+ * Metrics Service
+ * Prometheus metrics of the worker pipeline, served in text format on /metrics
+ */
+
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { ConsumerEvent, RabbitMQConsumer } from '@incur-data/rabbitmq';
+import type { TransactionInsert } from '@incur-data/olap-types';
+import { WorkerPoolService } from './worker-pool.service.js';
+
+/**
+ * Timed stages of transaction processing
+ */
+export type PipelineStage = 'fetch' | 'parse' | 'price' | 'insert';
+
+/**
+ * Classes of Solana RPC errors
+ */
+export type RpcErrorClass = 'timeout' | 'rate_limit' | 'connection' | 'server' | 'other';
+
+/**
+ * Prefix of every worker metric
+ */
+const PREFIX = 'dln_worker_';
+
+/**
+ * Classify an RPC error by its message
+ */
+function classifyRpcError(error: Error): RpcErrorClass {
+  const message = error.message.toLowerCase();
+
+  if (message.includes('timeout') || message.includes('timed out')) {
+    return 'timeout';
+  }
+  if (message.includes('429') || message.includes('rate limit') || message.includes('too many requests')) {
+    return 'rate_limit';
+  }
+  if (
+    message.includes('econnrefused') ||
+    message.includes('econnreset') ||
+    message.includes('enotfound') ||
+    message.includes('socket') ||
+    message.includes('fetch failed')
+  ) {
+    return 'connection';
+  }
+  if (/\b5\d\d\b/.test(message)) {
+    return 'server';
+  }
+
+  return 'other';
+}
+
+/**
+ * Metrics Service
+ * Counters and histograms are updated by the pipeline as it runs; pool and consumer gauges
+ * are read from the tracked services on each scrape
+ */
+export class MetricsService {
+  readonly registry = new Registry();
+
+  private readonly messages: Counter<'event'>;
+  private readonly stageDuration: Histogram<'stage'>;
+  private readonly jupiterCache: Counter<'result'>;
+  private readonly rpcErrors: Counter<'class'>;
+  private readonly rowsInserted: Counter<'event_type'>;
+
+  private jupiterCacheHits = 0;
+  private jupiterCacheLookups = 0;
+  private workerPool?: WorkerPoolService;
+  private consumer?: RabbitMQConsumer;
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry, prefix: PREFIX });
+
+    this.messages = new Counter({
+      name: `${PREFIX}messages_total`,
+      help: 'Queue messages by lifecycle event (consumed, acked, retried, dead_lettered, dropped)',
+      labelNames: ['event'],
+      registers: [this.registry],
+    });
+
+    this.stageDuration = new Histogram({
+      name: `${PREFIX}stage_duration_seconds`,
+      help: 'Duration of transaction processing stages (fetch, parse, price, insert)',
+      labelNames: ['stage'],
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+      registers: [this.registry],
+    });
+
+    this.jupiterCache = new Counter({
+      name: `${PREFIX}jupiter_price_cache_lookups_total`,
+      help: 'Jupiter price cache lookups by result (hit, miss)',
+      labelNames: ['result'],
+      registers: [this.registry],
+    });
+
+    const metrics = this;
+    new Gauge({
+      name: `${PREFIX}jupiter_price_cache_hit_ratio`,
+      help: 'Share of Jupiter price cache lookups served from the cache since start',
+      registers: [this.registry],
+      collect() {
+        this.set(metrics.jupiterCacheLookups > 0 ? metrics.jupiterCacheHits / metrics.jupiterCacheLookups : 0);
+      },
+    });
+
+    this.rpcErrors = new Counter({
+      name: `${PREFIX}rpc_errors_total`,
+      help: 'Solana RPC errors by class (timeout, rate_limit, connection, server, other)',
+      labelNames: ['class'],
+      registers: [this.registry],
+    });
+
+    this.rowsInserted = new Counter({
+      name: `${PREFIX}rows_inserted_total`,
+      help: 'Transaction rows written to ClickHouse by event type',
+      labelNames: ['event_type'],
+      registers: [this.registry],
+    });
+
+    const poolGauges = {
+      concurrency: 'Concurrency limit of the worker pool',
+      active: 'Tasks running in the worker pool',
+      queued: 'Tasks waiting for a worker pool slot',
+    } as const;
+
+    for (const [field, help] of Object.entries(poolGauges)) {
+      new Gauge({
+        name: `${PREFIX}pool_${field}`,
+        help,
+        labelNames: ['pool'],
+        registers: [this.registry],
+        collect() {
+          for (const [pool, poolStats] of Object.entries(metrics.workerPool?.getStats() ?? {})) {
+            this.set({ pool }, poolStats[field as keyof typeof poolGauges]);
+          }
+        },
+      });
+    }
+
+    new Gauge({
+      name: `${PREFIX}consumer_paused`,
+      help: 'Whether message consumption is paused by backpressure (1) or not (0)',
+      registers: [this.registry],
+      collect() {
+        this.set(metrics.consumer?.isPaused() ? 1 : 0);
+      },
+    });
+  }
+
+  /**
+   * Report worker pool utilization on each scrape
+   */
+  trackWorkerPool(workerPool: WorkerPoolService): void {
+    this.workerPool = workerPool;
+  }
+
+  /**
+   * Report consumer pause state on each scrape
+   */
+  trackConsumer(consumer: RabbitMQConsumer): void {
+    this.consumer = consumer;
+  }
+
+  /**
+   * Count a queue message lifecycle event
+   */
+  recordMessageEvent(event: ConsumerEvent): void {
+    this.messages.inc({ event });
+  }
+
+  /**
+   * Run a pipeline stage and observe its duration (failed runs included)
+   */
+  async timeStage<T>(stage: PipelineStage, task: () => T | Promise<T>): Promise<T> {
+    const end = this.stageDuration.startTimer({ stage });
+    try {
+      return await task();
+    } finally {
+      end();
+    }
+  }
+
+  /**
+   * Count Jupiter price cache hits and misses of a lookup
+   */
+  recordJupiterCache(hits: number, misses: number): void {
+    this.jupiterCache.inc({ result: 'hit' }, hits);
+    this.jupiterCache.inc({ result: 'miss' }, misses);
+    this.jupiterCacheHits += hits;
+    this.jupiterCacheLookups += hits + misses;
+  }
+
+  /**
+   * Count a Solana RPC error by class
+   */
+  recordRpcError(error: Error): void {
+    this.rpcErrors.inc({ class: classifyRpcError(error) });
+  }
+
+  /**
+   * Count written transaction rows by event type
+   */
+  recordRowsInserted(rows: TransactionInsert[]): void {
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      counts.set(row.event_type, (counts.get(row.event_type) ?? 0) + 1);
+    }
+
+    for (const [eventType, count] of counts) {
+      this.rowsInserted.inc({ event_type: eventType }, count);
+    }
+  }
+
+  /**
+   * Metrics in Prometheus text format
+   */
+  render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
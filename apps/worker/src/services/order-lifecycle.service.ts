@@ -0,0 +1,183 @@
+import type { Logger } from 'pino';
+import type { ClickHouseClient } from '@clickhouse/client';
+import type { OrderInsert } from '@incur-data/olap-types';
+import { DlnEventType, type ParsedDlnEvent, type OrderCreatedData } from '@incur-data/tx-parsing';
+import {
+  EVENT_STATUS,
+  createEmptyOrder,
+  mergeOrderEvent,
+  type OrderEventContext,
+} from '../utils/order-state.js';
+
+/**
+ * Give / take chain ids of an order (deBridge chain ids as decimal strings, empty when unknown)
+ */
+export interface OrderChainIds {
+  giveChainId: string;
+  takeChainId: string;
+}
+
+/**
+ * Order Lifecycle Service
+ * Maintains dln.orders: reads the current row of each order, merges lifecycle events into it
+ * and inserts the new version (ReplacingMergeTree keeps the latest updated_at)
+ * Read-merge-insert runs one at a time per order, so concurrent transactions of the same
+ * order don't overwrite each other's events
+ * Updates are only serialized within this process: workers of other programs (the source and
+ * destination events of an order) or other instances can merge into the same order at once,
+ * and the later insert drops the events of the other merge until the order is processed again
+ */
+export class OrderLifecycleService {
+  /** Tail of the update queue of each order with an update in flight */
+  private orderQueues = new Map<string, Promise<void>>();
+
+  constructor(
+    private clickhouse: ClickHouseClient,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Apply DLN events of a single transaction to their orders
+   */
+  async applyEvents(events: ParsedDlnEvent[], context: OrderEventContext): Promise<void> {
+    const applicable = events
+      .filter((event) => event.orderId && EVENT_STATUS[event.eventType])
+      .sort((a, b) => a.slot - b.slot);
+
+    if (applicable.length === 0) {
+      return;
+    }
+
+    const orderIds = [...new Set(applicable.map((event) => event.orderId))];
+
+    await this.runExclusive(orderIds, async () => {
+      const orders = await this.loadOrders(orderIds);
+
+      for (const event of applicable) {
+        const order = orders.get(event.orderId) ?? createEmptyOrder(event.orderId);
+        orders.set(event.orderId, mergeOrderEvent(order, event, context));
+      }
+
+      const updatedAt = new Date().toISOString().replace('T', ' ').replace('Z', '');
+      const rows = orderIds
+        .map((orderId) => orders.get(orderId))
+        .filter((order): order is OrderInsert => order !== undefined)
+        .map((order) => ({ ...order, updated_at: updatedAt }));
+
+      await this.clickhouse.insert({
+        table: 'dln.orders',
+        values: rows,
+        format: 'JSONEachRow',
+        clickhouse_settings: {
+          async_insert: 1,
+          wait_for_async_insert: 1,
+        },
+      });
+
+      this.logger.debug(
+        { orderIds, statuses: rows.map((row) => row.status) },
+        'Updated order lifecycle state'
+      );
+    });
+  }
+
+  /**
+   * Run a task once all earlier tasks on any of the orders have settled
+   * Queues are chained synchronously, so tasks on overlapping orders run in arrival order
+   */
+  private async runExclusive(orderIds: string[], task: () => Promise<void>): Promise<void> {
+    const previous = orderIds
+      .map((orderId) => this.orderQueues.get(orderId))
+      .filter((tail): tail is Promise<void> => tail !== undefined);
+
+    let release!: () => void;
+    const tail = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    for (const orderId of orderIds) {
+      this.orderQueues.set(orderId, tail);
+    }
+
+    try {
+      await Promise.all(previous);
+      await task();
+    } finally {
+      release();
+      for (const orderId of orderIds) {
+        if (this.orderQueues.get(orderId) === tail) {
+          this.orderQueues.delete(orderId);
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolve the chain ids of the order a transaction belongs to
+   * OrderCreated carries them, later events of the order take them from dln.orders
+   */
+  async resolveChainIds(events: ParsedDlnEvent[]): Promise<OrderChainIds> {
+    const created = events.find((event) => event.eventType === DlnEventType.OrderCreated);
+    if (created) {
+      const data = created.data as OrderCreatedData;
+      return { giveChainId: data.giveChainId, takeChainId: data.takeChainId };
+    }
+
+    const orderId = events.find((event) => event.orderId)?.orderId;
+    if (!orderId) {
+      return { giveChainId: '', takeChainId: '' };
+    }
+
+    const result = await this.clickhouse.query({
+      query: `
+        SELECT give_chain_id, take_chain_id
+        FROM dln.orders FINAL
+        WHERE order_id = {orderId:String}
+        LIMIT 1
+      `,
+      query_params: { orderId },
+      format: 'JSONEachRow',
+    });
+
+    const [row] = await result.json<Array<{ give_chain_id: string; take_chain_id: string }>>();
+
+    return {
+      giveChainId: row?.give_chain_id ?? '',
+      takeChainId: row?.take_chain_id ?? '',
+    };
+  }
+
+  /**
+   * Load current state of orders from ClickHouse
+   */
+  private async loadOrders(orderIds: string[]): Promise<Map<string, OrderInsert>> {
+    const result = await this.clickhouse.query({
+      query: `
+        SELECT * EXCEPT (created_at)
+        FROM dln.orders FINAL
+        WHERE order_id IN {orderIds:Array(String)}
+      `,
+      query_params: { orderIds },
+      format: 'JSONEachRow',
+      // Decimals as strings, so USD values are carried over exactly
+      clickhouse_settings: {
+        output_format_json_quote_decimals: 1,
+      },
+    });
+
+    const rows = await result.json<OrderInsert[]>();
+
+    // 64-bit integers may be returned as strings
+    return new Map(
+      rows.map((row) => [
+        row.order_id,
+        {
+          ...row,
+          expiry_slot: Number(row.expiry_slot),
+          created_slot: Number(row.created_slot),
+          fulfilled_slot: Number(row.fulfilled_slot),
+          cancelled_slot: Number(row.cancelled_slot),
+        },
+      ])
+    );
+  }
+}
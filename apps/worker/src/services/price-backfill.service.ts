@@ -0,0 +1,201 @@
+/**
+ * Price Backfill Service
+ * Fills dln.token_prices with Birdeye minute prices for the minutes of stored transactions
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import type { ClickHouseClient } from '@clickhouse/client';
+import type { Logger } from 'pino';
+import { type TokenPriceInsert } from '@incur-data/olap-types';
+import { PriceHistoryService } from './price-history.service.js';
+import { withRetry, isRetryableError } from '../utils/retry.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+import { formatBlockTime } from '../utils/date.js';
+import { formatPrice } from '../utils/decimal.js';
+import type { BirdeyeConfig, BirdeyeHistoryPriceResponse } from '../types/price-history.types.js';
+
+/**
+ * Maximum number of minutes per history request (Birdeye returns up to 1000 items)
+ */
+const MAX_MINUTES_PER_REQUEST = 1000;
+
+/**
+ * Result of a backfill run
+ */
+export interface PriceBackfillResult {
+  mints: number;
+  missingMinutes: number;
+  storedMinutes: number;
+}
+
+/**
+ * Price Backfill Service
+ * Only minutes without a stored price are requested, so runs can be repeated
+ */
+export class PriceBackfillService {
+  private readonly axios: AxiosInstance;
+  private readonly rateLimiter: RateLimiter;
+
+  constructor(
+    config: BirdeyeConfig,
+    private clickhouse: ClickHouseClient,
+    private priceHistoryService: PriceHistoryService,
+    private logger: Logger
+  ) {
+    if (!config.apiKey) {
+      throw new Error('BIRDEYE_API_KEY is required for the price backfill');
+    }
+
+    this.rateLimiter = new RateLimiter(config.rateLimit);
+    this.axios = axios.create({
+      baseURL: config.apiUrl,
+      timeout: config.timeout,
+      headers: {
+        Accept: 'application/json',
+        'X-API-KEY': config.apiKey,
+        'x-chain': 'solana',
+      },
+    });
+  }
+
+  /**
+   * Backfill prices of transactions with block time in [fromTime, toTime) (unix seconds)
+   */
+  async backfill(fromTime: number, toTime: number): Promise<PriceBackfillResult> {
+    const missing = await this.findMissingMinutes(fromTime, toTime);
+    const result: PriceBackfillResult = { mints: missing.size, missingMinutes: 0, storedMinutes: 0 };
+
+    this.logger.info({ mints: missing.size, fromTime, toTime }, 'Backfilling token prices');
+
+    for (const [mint, minutes] of missing) {
+      result.missingMinutes += minutes.length;
+
+      try {
+        result.storedMinutes += await this.backfillMint(mint, minutes);
+      } catch (error) {
+        this.logger.warn(
+          { error: (error as Error).message, mint, minutes: minutes.length },
+          'Failed to backfill token prices'
+        );
+      }
+    }
+
+    this.logger.info(result, 'Token price backfill completed');
+
+    return result;
+  }
+
+  /**
+   * Minutes (unix seconds, ascending) of transactions without a stored price, per mint
+   */
+  private async findMissingMinutes(fromTime: number, toTime: number): Promise<Map<string, number[]>> {
+    const result = await this.clickhouse.query({
+      query: `
+        SELECT mint, arraySort(groupArray(toUnixTimestamp(minute))) AS minutes
+        FROM (
+          SELECT DISTINCT token_address AS mint, toStartOfMinute(block_time) AS minute
+          FROM dln.transactions
+          WHERE token_address != ''
+            AND block_time >= toDateTime({fromTime:UInt32})
+            AND block_time < toDateTime({toTime:UInt32})
+        ) AS needed
+        LEFT ANTI JOIN (
+          SELECT mint, minute
+          FROM dln.token_prices FINAL
+          WHERE minute >= toStartOfMinute(toDateTime({fromTime:UInt32}))
+            AND minute < toDateTime({toTime:UInt32})
+        ) AS stored USING (mint, minute)
+        GROUP BY mint
+      `,
+      query_params: { fromTime, toTime },
+      format: 'JSONEachRow',
+    });
+
+    const rows = await result.json<Array<{ mint: string; minutes: Array<number | string> }>>();
+
+    return new Map(rows.map((row) => [row.mint, row.minutes.map(Number)]));
+  }
+
+  /**
+   * Fetch and store the missing minutes of a mint, returns the number of stored minutes
+   */
+  private async backfillMint(mint: string, minutes: number[]): Promise<number> {
+    let stored = 0;
+    let index = 0;
+
+    while (index < minutes.length) {
+      const timeFrom = minutes[index]!;
+      const timeTo = timeFrom + (MAX_MINUTES_PER_REQUEST - 1) * 60;
+      const wanted = new Set<number>();
+
+      while (index < minutes.length && minutes[index]! <= timeTo) {
+        wanted.add(minutes[index]!);
+        index += 1;
+      }
+
+      const items = await this.fetchHistory(mint, timeFrom, timeTo);
+      const rows: TokenPriceInsert[] = items
+        .filter((item) => wanted.has(item.unixTime) && item.value > 0)
+        .map((item) => ({
+          mint,
+          minute: formatBlockTime(item.unixTime),
+          usd_price: formatPrice(item.value),
+          source: 'birdeye',
+        }));
+
+      await this.priceHistoryService.insertPrices(rows);
+      stored += rows.length;
+
+      this.logger.debug(
+        { mint, requested: wanted.size, stored: rows.length },
+        'Stored backfilled token prices'
+      );
+    }
+
+    return stored;
+  }
+
+  /**
+   * Fetch minute prices of a mint from the Birdeye history price API
+   */
+  private async fetchHistory(
+    mint: string,
+    timeFrom: number,
+    timeTo: number
+  ): Promise<NonNullable<BirdeyeHistoryPriceResponse['data']>['items']> {
+    return this.rateLimiter.execute(() =>
+      withRetry(
+        async () => {
+          const response = await this.axios.get<BirdeyeHistoryPriceResponse>('/defi/history_price', {
+            params: {
+              address: mint,
+              address_type: 'token',
+              type: '1m',
+              time_from: timeFrom,
+              time_to: timeTo,
+            },
+          });
+
+          if (!response.data?.success) {
+            throw new Error('Invalid response from Birdeye API');
+          }
+
+          return response.data.data?.items ?? [];
+        },
+        {
+          maxAttempts: 3,
+          initialDelay: 1000,
+          backoffMultiplier: 2,
+          maxDelay: 10000,
+          shouldRetry: isRetryableError,
+          onRetry: (error, attempt, delay) => {
+            this.logger.warn(
+              { error: error.message, attempt, delay, mint },
+              'Retrying Birdeye API request'
+            );
+          },
+        }
+      )
+    );
+  }
+}
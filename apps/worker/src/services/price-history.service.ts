@@ -0,0 +1,108 @@
+/**
+ * Price History Service
+ * Reads and stores token prices per minute in dln.token_prices
+ */
+
+import type { ClickHouseClient } from '@clickhouse/client';
+import type { Logger } from 'pino';
+import { type TokenPriceInsert } from '@incur-data/olap-types';
+import { formatBlockTime } from '../utils/date.js';
+import type { PriceHistoryConfig, StoredPrice } from '../types/price-history.types.js';
+
+/**
+ * Price History Service
+ * Stored prices are used by the history price provider, live prices are stored
+ * by the Jupiter price provider and older minutes by the price backfill
+ */
+export class PriceHistoryService {
+  constructor(
+    private config: PriceHistoryConfig,
+    private clickhouse: ClickHouseClient,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Stored price of each mint nearest to the block time, within the history tolerance
+   * Mints without a stored price are missing from the result
+   */
+  async getPricesAt(mints: string[], blockTime: number): Promise<Map<string, StoredPrice>> {
+    const prices = new Map<string, StoredPrice>();
+
+    try {
+      const result = await this.clickhouse.query({
+        query: `
+          SELECT
+            mint,
+            toString(argMin(usd_price, abs(dateDiff('second', minute, toDateTime({blockTime:UInt32}))))) AS price,
+            min(abs(dateDiff('second', minute, toDateTime({blockTime:UInt32})))) AS distance
+          FROM dln.token_prices FINAL
+          WHERE mint IN {mints:Array(String)}
+            AND minute BETWEEN toDateTime({fromTime:UInt32}) AND toDateTime({toTime:UInt32})
+          GROUP BY mint
+        `,
+        query_params: {
+          mints,
+          blockTime,
+          fromTime: blockTime - this.config.historyTolerance,
+          toTime: blockTime + this.config.historyTolerance,
+        },
+        format: 'JSONEachRow',
+      });
+
+      const rows = await result.json<Array<{ mint: string; price: string; distance: number | string }>>();
+      for (const row of rows) {
+        prices.set(row.mint, { price: row.price, distance: Number(row.distance) });
+      }
+    } catch (error) {
+      this.logger.warn({ error: (error as Error).message }, 'Failed to read token price history');
+    }
+
+    return prices;
+  }
+
+  /**
+   * Store prices for the minute of a unix time
+   */
+  async recordPrices(
+    prices: Map<string, string>,
+    time: number,
+    source: TokenPriceInsert['source']
+  ): Promise<void> {
+    if (prices.size === 0) {
+      return;
+    }
+
+    const minute = formatBlockTime(Math.floor(time / 60) * 60);
+    const rows: TokenPriceInsert[] = [...prices].map(([mint, price]) => ({
+      mint,
+      minute,
+      usd_price: price,
+      source,
+    }));
+
+    try {
+      await this.insertPrices(rows);
+    } catch (error) {
+      this.logger.warn({ error: (error as Error).message, count: rows.length }, 'Failed to store token prices');
+    }
+  }
+
+  /**
+   * Insert price rows (a stored minute of a mint is replaced)
+   */
+  async insertPrices(rows: TokenPriceInsert[]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    await this.clickhouse.insert({
+      table: 'dln.token_prices',
+      values: rows,
+      format: 'JSONEachRow',
+      clickhouse_settings: {
+        async_insert: 1,
+        wait_for_async_insert: 1,
+      },
+    });
+  }
+}
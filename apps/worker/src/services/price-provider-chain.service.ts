@@ -0,0 +1,113 @@
+/**
+ * Price Provider Chain
+ * Composes price providers into a fallback chain
+ */
+
+import type { Logger } from 'pino';
+import type { Config } from '../config.js';
+import { JupiterPriceService } from './jupiter-price.service.js';
+import { PriceHistoryService } from './price-history.service.js';
+import { HistoryPriceProvider } from './price-providers/history.provider.js';
+import { JupiterPriceProvider } from './price-providers/jupiter.provider.js';
+import { StablecoinPegPriceProvider } from './price-providers/stablecoin-peg.provider.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+import type {
+  ChainedPriceProvider,
+  PriceProvider,
+  PriceQuote,
+} from '../types/price-provider.types.js';
+
+/**
+ * Price Provider Chain
+ * Providers are asked in order for the mints still without a price, each behind its own
+ * rate limiter; a failing provider is logged and skipped. The chain is a provider itself,
+ * so chains can be nested
+ */
+export class PriceProviderChain implements PriceProvider {
+  readonly name = 'chain';
+  private readonly providers: Array<{ provider: PriceProvider; rateLimiter: RateLimiter }>;
+
+  constructor(
+    providers: ChainedPriceProvider[],
+    private logger: Logger
+  ) {
+    this.providers = providers.map(({ provider, rateLimit }) => ({
+      provider,
+      rateLimiter: new RateLimiter(rateLimit),
+    }));
+
+    this.logger.info(
+      { providers: providers.map(({ provider, rateLimit }) => ({ name: provider.name, rateLimit })) },
+      'Price provider chain initialized'
+    );
+  }
+
+  /**
+   * Get USD prices of mints at a block time (unix seconds)
+   * Mints no provider has a price for are missing from the result and should be valued at 0
+   */
+  async getPrices(mints: string[], blockTime: number): Promise<Map<string, PriceQuote>> {
+    const unique = [...new Set(mints.filter(Boolean))];
+    const quotes = new Map<string, PriceQuote>();
+
+    for (const { provider, rateLimiter } of this.providers) {
+      const missing = unique.filter((mint) => !quotes.has(mint));
+      if (missing.length === 0) {
+        break;
+      }
+
+      try {
+        const provided = await rateLimiter.execute(() => provider.getPrices(missing, blockTime));
+        for (const [mint, quote] of provided) {
+          if (missing.includes(mint)) {
+            quotes.set(mint, quote);
+          }
+        }
+      } catch (error) {
+        this.logger.warn(
+          { error: (error as Error).message, provider: provider.name, mints: missing },
+          'Price provider failed, falling back to the next provider'
+        );
+      }
+    }
+
+    const unpriced = unique.filter((mint) => !quotes.has(mint));
+    if (unpriced.length > 0) {
+      this.logger.warn(
+        { mints: unpriced, blockTime },
+        'No price at block time for mints, will use 0 for USD amounts'
+      );
+    }
+
+    return quotes;
+  }
+}
+
+/**
+ * Default chain: stored history, current Jupiter price (recent transactions), stablecoin peg
+ */
+export function createPriceProviderChain(
+  config: Config,
+  jupiterPriceService: JupiterPriceService,
+  priceHistoryService: PriceHistoryService,
+  logger: Logger
+): PriceProviderChain {
+  return new PriceProviderChain(
+    [
+      {
+        provider: new HistoryPriceProvider(config.prices, priceHistoryService),
+        rateLimit: config.prices.historyRateLimit,
+      },
+      {
+        // Requests are rate limited by JupiterPriceService (JUPITER_RATE_LIMIT)
+        provider: new JupiterPriceProvider(config.prices, jupiterPriceService, priceHistoryService),
+        rateLimit: 0,
+      },
+      {
+        provider: new StablecoinPegPriceProvider(config.prices.stablecoinMints),
+        rateLimit: 0,
+      },
+    ],
+    logger
+  );
+}
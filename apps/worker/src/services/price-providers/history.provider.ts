@@ -0,0 +1,36 @@
+/**
+ * History Price Provider
+ * Prices mints with the stored price nearest to the block time
+ */
+
+import { PriceHistoryService } from '../price-history.service.js';
+import type { PriceHistoryConfig } from '../../types/price-history.types.js';
+import type { PriceProvider, PriceQuote } from '../../types/price-provider.types.js';
+
+/**
+ * History Price Provider
+ * Prices further from the block time than the high confidence distance are 'low' confidence
+ */
+export class HistoryPriceProvider implements PriceProvider {
+  readonly name = 'history';
+
+  constructor(
+    private config: PriceHistoryConfig,
+    private priceHistoryService: PriceHistoryService
+  ) {}
+
+  async getPrices(mints: string[], blockTime: number): Promise<Map<string, PriceQuote>> {
+    const stored = await this.priceHistoryService.getPricesAt(mints, blockTime);
+    const quotes = new Map<string, PriceQuote>();
+
+    for (const [mint, { price, distance }] of stored) {
+      quotes.set(mint, {
+        price,
+        provider: this.name,
+        confidence: distance <= this.config.highConfidenceDistance ? 'high' : 'low',
+      });
+    }
+
+    return quotes;
+  }
+}
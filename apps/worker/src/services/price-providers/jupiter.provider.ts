@@ -0,0 +1,49 @@
+/**
+ * Jupiter Price Provider
+ * Prices recent transactions with the current Jupiter price
+ */
+
+import { JupiterPriceService } from '../jupiter-price.service.js';
+import { PriceHistoryService } from '../price-history.service.js';
+import { formatPrice } from '../../utils/decimal.js';
+import type { PriceHistoryConfig } from '../../types/price-history.types.js';
+import type { PriceProvider, PriceQuote } from '../../types/price-provider.types.js';
+
+/**
+ * Jupiter Price Provider
+ * The current price only stands in for block times within the live max age.
+ * Fetched prices are stored for the minute they were fetched in, and are only high confidence
+ * for transactions of that same minute
+ */
+export class JupiterPriceProvider implements PriceProvider {
+  readonly name = 'jupiter';
+
+  constructor(
+    private config: PriceHistoryConfig,
+    private jupiterPriceService: JupiterPriceService,
+    private priceHistoryService: PriceHistoryService
+  ) {}
+
+  async getPrices(mints: string[], blockTime: number): Promise<Map<string, PriceQuote>> {
+    const quotes = new Map<string, PriceQuote>();
+
+    if (Date.now() / 1000 - blockTime > this.config.liveMaxAge) {
+      return quotes;
+    }
+
+    const fetched = await this.jupiterPriceService.getPrices(mints);
+    const fetchTime = Math.floor(Date.now() / 1000);
+    const prices = new Map(
+      Object.entries(fetched).map(([mint, price]) => [mint, formatPrice(price)] as const)
+    );
+
+    await this.priceHistoryService.recordPrices(prices, fetchTime, 'jupiter');
+
+    const confidence = Math.floor(blockTime / 60) === Math.floor(fetchTime / 60) ? 'high' : 'low';
+    for (const [mint, price] of prices) {
+      quotes.set(mint, { price, provider: this.name, confidence });
+    }
+
+    return quotes;
+  }
+}
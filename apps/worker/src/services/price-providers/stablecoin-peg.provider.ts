@@ -0,0 +1,31 @@
+/**
+ * Stablecoin Peg Price Provider
+ * Prices configured stablecoin mints (PRICE_STABLECOIN_MINTS, USDC and USDT by default) at 1 USD
+ */
+
+import type { PriceProvider, PriceQuote } from '../../types/price-provider.types.js';
+
+/**
+ * Stablecoin Peg Price Provider
+ * The peg is assumed rather than observed, so prices are 'low' confidence
+ */
+export class StablecoinPegPriceProvider implements PriceProvider {
+  readonly name = 'stablecoin_peg';
+  private readonly mints: ReadonlySet<string>;
+
+  constructor(mints: string[]) {
+    this.mints = new Set(mints);
+  }
+
+  async getPrices(mints: string[]): Promise<Map<string, PriceQuote>> {
+    const quotes = new Map<string, PriceQuote>();
+
+    for (const mint of mints) {
+      if (this.mints.has(mint)) {
+        quotes.set(mint, { price: '1', provider: this.name, confidence: 'low' });
+      }
+    }
+
+    return quotes;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Repricing Service
+ * Recomputes USD amounts of transaction rows stored without a price or with a low confidence price
+ */
+
+import type { ClickHouseClient } from '@clickhouse/client';
+import type { Logger } from 'pino';
+import { type TransactionInsert } from '@incur-data/olap-types';
+import { TokenMetadataService } from '@incur-data/token-metadata';
+import { ViewRebuildService, type ViewRebuildOptions } from './view-rebuild.service.js';
+import { formatBlockTime, getMonthPartitions } from '../utils/date.js';
+import { computeAmountUsd, parseDecimal, USD_DECIMALS } from '../utils/decimal.js';
+import type { PriceProvider } from '../types/price-provider.types.js';
+
+/**
+ * Number of candidate rows per batch
+ */
+const BATCH_SIZE = 1000;
+
+/**
+ * Transaction row as read back from ClickHouse (DateTime columns as strings)
+ */
+type StoredTransaction = Omit<TransactionInsert, 'block_time'> & {
+  block_time: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Result of a repricing run
+ */
+export interface RepricingResult {
+  candidates: number;
+  repriced: number;
+  partitions: number[];
+}
+
+/**
+ * Repricing Service
+ * Repriced rows are reinserted with a newer updated_at, so ReplacingMergeTree keeps them
+ * over the stored rows; the affected monthly partitions of the views are rebuilt afterwards.
+ * Only dln.transactions (and its views) is repriced: the USD columns of dln.orders
+ * (give / take amounts, fees) keep the values computed when the events were processed
+ */
+export class RepricingService {
+  constructor(
+    private clickhouse: ClickHouseClient,
+    private tokenMetadataService: TokenMetadataService,
+    private priceProvider: PriceProvider,
+    private viewRebuildService: ViewRebuildService,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Reprice rows with block time in [fromTime, toTime) (unix seconds)
+   * Checked before any row is reinserted: a refused rebuild would leave the views double counting
+   */
+  async reprice(
+    fromTime: number,
+    toTime: number,
+    options: ViewRebuildOptions
+  ): Promise<RepricingResult> {
+    const result: RepricingResult = { candidates: 0, repriced: 0, partitions: [] };
+    const partitions = new Set<number>();
+    let cursor: StoredTransaction | undefined;
+
+    await this.viewRebuildService.assertRebuildable(
+      'dln',
+      'transactions',
+      getMonthPartitions(fromTime, toTime),
+      options
+    );
+
+    this.logger.info({ fromTime, toTime }, 'Repricing transactions');
+
+    for (;;) {
+      const rows = await this.loadCandidates(fromTime, toTime, cursor);
+      if (rows.length === 0) {
+        break;
+      }
+
+      result.candidates += rows.length;
+      cursor = rows[rows.length - 1];
+
+      const repriced = await this.repriceRows(rows);
+      if (repriced.length > 0) {
+        await this.insertTransactions(repriced);
+        result.repriced += repriced.length;
+        repriced.forEach((row) => partitions.add(Number(row.block_time.slice(0, 7).replace('-', ''))));
+      }
+
+      this.logger.info(
+        { candidates: result.candidates, repriced: result.repriced },
+        'Repriced transaction batch'
+      );
+    }
+
+    result.partitions = [...partitions].sort((a, b) => a - b);
+    await this.viewRebuildService.rebuildPartitions(
+      'dln',
+      'transactions',
+      'block_time',
+      result.partitions,
+      options
+    );
+
+    this.logger.info(result, 'Repricing completed');
+
+    return result;
+  }
+
+  /**
+   * Next batch of rows stored with amount_usd = 0 or a 'low' / 'none' confidence price
+   * Keyset pagination on (block_time, signature, account, program_id)
+   */
+  private async loadCandidates(
+    fromTime: number,
+    toTime: number,
+    cursor: StoredTransaction | undefined
+  ): Promise<StoredTransaction[]> {
+    const result = await this.clickhouse.query({
+      query: `
+        SELECT *
+        FROM dln.transactions FINAL
+        WHERE block_time >= toDateTime({fromTime:UInt32})
+          AND block_time < toDateTime({toTime:UInt32})
+          AND token_address != ''
+          AND amount != '0'
+          AND (amount_usd = 0 OR price_confidence IN ('low', 'none'))
+          AND (block_time, signature, account, program_id)
+            > (toDateTime({afterTime:String}), {afterSignature:String}, {afterAccount:String}, {afterProgramId:String})
+        ORDER BY block_time, signature, account, program_id
+        LIMIT {limit:UInt32}
+      `,
+      query_params: {
+        fromTime,
+        toTime,
+        afterTime: cursor?.block_time ?? '1970-01-01 00:00:00',
+        afterSignature: cursor?.signature ?? '',
+        afterAccount: cursor?.account ?? '',
+        afterProgramId: cursor?.program_id ?? '',
+        limit: BATCH_SIZE,
+      },
+      format: 'JSONEachRow',
+      // Decimals as strings, so unchanged USD values compare exactly
+      clickhouse_settings: {
+        output_format_json_quote_decimals: 1,
+      },
+    });
+
+    const rows = await result.json<StoredTransaction[]>();
+
+    // 64-bit integers may be returned as strings
+    return rows.map((row) => ({ ...row, slot: Number(row.slot) }));
+  }
+
+  /**
+   * Rows whose USD amount or price provenance changes with the current prices
+   * Rows of mints without known decimals or price are left as they are
+   */
+  private async repriceRows(rows: StoredTransaction[]): Promise<StoredTransaction[]> {
+    const tokens = await this.tokenMetadataService.getTokens(rows.map((row) => row.token_address));
+    const now = Math.floor(Date.now() / 1000);
+    const repriced: StoredTransaction[] = [];
+
+    // Prices are looked up once per block time
+    const byBlockTime = new Map<string, StoredTransaction[]>();
+    for (const row of rows) {
+      byBlockTime.set(row.block_time, [...(byBlockTime.get(row.block_time) ?? []), row]);
+    }
+
+    for (const [blockTime, group] of byBlockTime) {
+      const prices = await this.priceProvider.getPrices(
+        group.map((row) => row.token_address),
+        Date.parse(`${blockTime.replace(' ', 'T')}Z`) / 1000
+      );
+
+      for (const row of group) {
+        const token = tokens.get(row.token_address);
+        const quote = prices.get(row.token_address);
+        if (!token || !quote) {
+          continue;
+        }
+
+        const amountUsd = computeAmountUsd(row.amount, token.decimals, quote.price);
+        if (
+          parseDecimal(amountUsd, USD_DECIMALS) === parseDecimal(row.amount_usd, USD_DECIMALS) &&
+          quote.provider === row.price_provider &&
+          quote.confidence === row.price_confidence
+        ) {
+          continue;
+        }
+
+        repriced.push({
+          ...row,
+          amount_usd: amountUsd,
+          price_provider: quote.provider,
+          price_confidence: quote.confidence,
+          updated_at: this.nextVersion(row.updated_at, now),
+        });
+      }
+    }
+
+    return repriced;
+  }
+
+  /**
+   * Version of a repriced row: updated_at only has second resolution, so a row stored in the
+   * current second gets the next second instead, keeping the new version strictly greater
+   */
+  private nextVersion(updatedAt: string, now: number): string {
+    const stored = Date.parse(`${updatedAt.replace(' ', 'T')}Z`) / 1000;
+    return formatBlockTime(Math.max(now, stored + 1));
+  }
+
+  /**
+   * Reinsert repriced rows (same sorting key, newer updated_at)
+   */
+  private async insertTransactions(rows: StoredTransaction[]): Promise<void> {
+    await this.clickhouse.insert({
+      table: 'dln.transactions',
+      values: rows,
+      format: 'JSONEachRow',
+      clickhouse_settings: {
+        async_insert: 1,
+        wait_for_async_insert: 1,
+      },
+    });
+  }
+}
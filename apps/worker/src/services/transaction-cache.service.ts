@@ -0,0 +1,97 @@
+/**
+ * Transaction Cache Service
+ * Caches fetched (jsonParsed) transactions by signature in memory and in Redis
+ * (dln:cache:tx:{signature}, see packages/config/redis-schema.md)
+ */
+
+import { PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import type { RedisClientType } from 'redis';
+import type { Logger } from 'pino';
+import { LruCache } from '../utils/lru-cache.js';
+import type { TransactionCacheConfig } from '../types/transaction-cache.types.js';
+
+/**
+ * Marker of a serialized PublicKey
+ */
+const PUBKEY_FIELD = '__pubkey';
+
+/**
+ * Transaction Cache Service
+ * Retries and reprocessing of a signature are served without RPC calls;
+ * the in-memory LRU is checked first, Redis shares transactions between workers
+ */
+export class TransactionCacheService {
+  private readonly lru: LruCache<string, ParsedTransactionWithMeta>;
+
+  constructor(
+    private config: TransactionCacheConfig,
+    private redis: RedisClientType,
+    private logger: Logger
+  ) {
+    this.lru = new LruCache(config.lruSize);
+  }
+
+  /**
+   * Get a cached transaction
+   */
+  async get(signature: string): Promise<ParsedTransactionWithMeta | null> {
+    const cached = this.lru.get(signature);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const value = await this.redis.get(this.getCacheKey(signature));
+      if (!value) {
+        return null;
+      }
+
+      const tx = this.deserialize(value);
+      this.lru.set(signature, tx);
+      return tx;
+    } catch (error) {
+      this.logger.warn({ error: (error as Error).message, signature }, 'Failed to read transaction cache');
+      return null;
+    }
+  }
+
+  /**
+   * Cache a fetched transaction
+   */
+  async set(signature: string, tx: ParsedTransactionWithMeta): Promise<void> {
+    this.lru.set(signature, tx);
+
+    try {
+      await this.redis.set(this.getCacheKey(signature), this.serialize(tx), {
+        EX: this.config.ttl,
+      });
+    } catch (error) {
+      this.logger.warn({ error: (error as Error).message, signature }, 'Failed to write transaction cache');
+    }
+  }
+
+  /**
+   * JSON with PublicKeys as { __pubkey: base58 } (toJSON would turn them into plain strings)
+   */
+  private serialize(tx: ParsedTransactionWithMeta): string {
+    return JSON.stringify(tx, function (this: Record<string, unknown>, key, value) {
+      const raw = this[key];
+      return raw instanceof PublicKey ? { [PUBKEY_FIELD]: raw.toBase58() } : value;
+    });
+  }
+
+  private deserialize(value: string): ParsedTransactionWithMeta {
+    return JSON.parse(value, (_key, field) =>
+      field && typeof field === 'object' && typeof field[PUBKEY_FIELD] === 'string'
+        ? new PublicKey(field[PUBKEY_FIELD])
+        : field
+    );
+  }
+
+  /**
+   * Generate cache key for a signature
+   */
+  private getCacheKey(signature: string): string {
+    return `dln:cache:tx:${signature}`;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Transaction Fetcher
+ * Coalesces signatures requested by concurrent messages into JSON-RPC batch requests
+ */
+
+import type { Connection, ParsedTransactionWithMeta } from '@solana/web3.js';
+import type { Logger } from 'pino';
+import { WorkerPoolService } from './worker-pool.service.js';
+import { MetricsService } from './metrics.service.js';
+import { RequestBudget } from '../utils/request-budget.js';
+
+/**
+ * Batching and request weight budget of the RPC provider
+ */
+export interface TransactionFetcherConfig {
+  batchSize: number; // Signatures per batch request
+  batchWait: number; // Max ms a signature waits for its batch to fill
+  requestBudget: number; // Weight units per second of the RPC provider, 0 = unlimited
+  transactionWeight: number; // Weight of one transaction in a batch request
+}
+
+/**
+ * Callbacks settling a fetch() promise
+ */
+interface PendingFetch {
+  resolve: (tx: ParsedTransactionWithMeta | null) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Transaction Fetcher
+ * fetch() queues a signature; once `batchSize` signatures wait, or `batchWait` ms after the
+ * first one, they are fetched with one getParsedTransactions batch (jsonParsed) in the 'rpc'
+ * pool and every caller gets its own transaction back. Providers bill each entry of a batch,
+ * so a batch takes `transactionWeight` per signature from the request budget before it is sent
+ * (batches are capped to the weight of one second of budget).
+ * Signatures come from messages in processing, so a batch holds at most WORKER_CONCURRENCY
+ */
+export class TransactionFetcher {
+  private pending = new Map<string, PendingFetch[]>();
+  private timer: NodeJS.Timeout | null = null;
+  private readonly budget: RequestBudget;
+  private readonly batchSize: number;
+
+  constructor(
+    private config: TransactionFetcherConfig,
+    private solanaConnection: Connection,
+    private workerPool: WorkerPoolService,
+    private metrics: MetricsService,
+    private logger: Logger
+  ) {
+    this.budget = new RequestBudget(config.requestBudget);
+    this.batchSize =
+      config.requestBudget > 0
+        ? Math.max(1, Math.min(config.batchSize, Math.floor(config.requestBudget / config.transactionWeight)))
+        : Math.max(1, config.batchSize);
+  }
+
+  /**
+   * Fetch a transaction (null when not found), shares the request of a pending identical signature
+   */
+  fetch(signature: string): Promise<ParsedTransactionWithMeta | null> {
+    return new Promise((resolve, reject) => {
+      const waiting = this.pending.get(signature);
+      if (waiting) {
+        waiting.push({ resolve, reject });
+        return;
+      }
+
+      this.pending.set(signature, [{ resolve, reject }]);
+
+      if (this.pending.size >= this.batchSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.config.batchWait);
+      }
+    });
+  }
+
+  /**
+   * Send the pending signatures as a batch
+   */
+  private flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.pending;
+    if (batch.size === 0) {
+      return;
+    }
+
+    this.pending = new Map();
+    void this.fetchBatch(batch);
+  }
+
+  private async fetchBatch(batch: Map<string, PendingFetch[]>): Promise<void> {
+    const signatures = [...batch.keys()];
+    const startTime = Date.now();
+
+    try {
+      const transactions = await this.workerPool.run('rpc', async () => {
+        await this.budget.acquire(signatures.length * this.config.transactionWeight);
+
+        return this.solanaConnection.getParsedTransactions(signatures, {
+          maxSupportedTransactionVersion: 0,
+          commitment: 'confirmed',
+        });
+      });
+
+      this.logger.debug(
+        { signatures: signatures.length, duration: Date.now() - startTime },
+        'Fetched transaction batch'
+      );
+
+      signatures.forEach((signature, index) => {
+        batch.get(signature)?.forEach((waiting) => waiting.resolve(transactions[index] ?? null));
+      });
+    } catch (error) {
+      this.metrics.recordRpcError(error as Error);
+      this.logger.warn(
+        { error: (error as Error).message, signatures: signatures.length },
+        'Failed to fetch transaction batch'
+      );
+
+      for (const waiting of batch.values()) {
+        waiting.forEach((entry) => entry.reject(error as Error));
+      }
+    }
+  }
+}
@@ -1,35 +1,70 @@
 import type { Logger } from 'pino';
 import type { ClickHouseClient } from '@clickhouse/client';
-import type { Connection, VersionedTransactionResponse, ParsedTransactionWithMeta } from '@solana/web3.js';
+import type { ParsedTransactionWithMeta } from '@solana/web3.js';
 import { type TxIngestMessage } from '@incur-data/dtos';
 import { type MessageMetadata } from '@incur-data/rabbitmq';
-import { type TransactionInsert } from '@incur-data/olap-types';
+import { type TransactionEventInsert, type TransactionInsert } from '@incur-data/olap-types';
+import { TokenMetadataService, type TokenMetadata } from '@incur-data/token-metadata';
 import {
   createDlnEventParser,
   DlnEventType,
   extractOrderIdFromLogs,
+  type OrderCreatedData,
+  type OrderFulfilledData,
   type ParsedDlnEvent,
 } from '@incur-data/tx-parsing';
-import { JupiterPriceService } from './jupiter-price.service.js';
+import { JupiterPriceService, type TokenTransfer } from './jupiter-price.service.js';
 import { RedisService } from './redis.service.js';
+import { OrderLifecycleService } from './order-lifecycle.service.js';
+import { BatchProcessor, type BatchProcessorConfig } from './batch-processor.service.js';
+import { WorkerPoolService } from './worker-pool.service.js';
+import { TransactionCacheService } from './transaction-cache.service.js';
+import { TransactionFetcher } from './transaction-fetcher.service.js';
+import { MetricsService } from './metrics.service.js';
 import { formatBlockTime } from '../utils/date.js';
-import { getEventTypeString } from '../utils/dln.js';
+import { getEventTypeString, SUPPORTED_EVENT_TYPES } from '../utils/dln.js';
+import { computeAmountUsd, maxUsd } from '../utils/decimal.js';
+import type { OrderFeesUsd } from '../utils/order-state.js';
+import type { PriceProvider, PriceQuote } from '../types/price-provider.types.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const SOL_DECIMALS = 9;
 
 /**
  * Transaction Processor
- * Processes Solana transactions and stores them in ClickHouse using async inserts
+ * Processes Solana transactions and stores them in ClickHouse in batches across messages
  */
 export class TransactionProcessor {
   /** Cache of DLN event parsers by programId */
   private readonly parserCache = new Map<string, ReturnType<typeof createDlnEventParser>>();
+  private readonly batchProcessor: BatchProcessor<TransactionInsert>;
+  private readonly eventBatchProcessor: BatchProcessor<TransactionEventInsert>;
 
   constructor(
     private clickhouse: ClickHouseClient,
-    private solanaConnection: Connection,
+    private transactionFetcher: TransactionFetcher,
     private jupiterPriceService: JupiterPriceService,
+    private tokenMetadataService: TokenMetadataService,
+    private priceProvider: PriceProvider,
     private redisService: RedisService,
+    private orderLifecycleService: OrderLifecycleService,
+    private workerPool: WorkerPoolService,
+    private transactionCache: TransactionCacheService,
+    private metrics: MetricsService,
+    batchConfig: BatchProcessorConfig,
     private logger: Logger
-  ) {}
+  ) {
+    this.batchProcessor = new BatchProcessor(
+      batchConfig,
+      (rows) => this.writeTransactions(rows),
+      logger
+    );
+    this.eventBatchProcessor = new BatchProcessor(
+      batchConfig,
+      (rows) => this.writeTransactionEvents(rows),
+      logger
+    );
+  }
 
   /**
    * Get or create DLN event parser for a programId
@@ -45,44 +80,111 @@ export class TransactionProcessor {
   }
 
   /**
-   * Insert transactions to ClickHouse using async inserts
-   * ClickHouse batches inserts automatically on the server side
+   * Insert transactions and events of a message, resolves once the batches containing them are written
    */
-  private async insertTransactions(rows: TransactionInsert[], programId: string): Promise<void> {
-    await this.clickhouse.insert({
-      table: 'dln.transactions',
-      values: rows,
-      format: 'JSONEachRow',
-      clickhouse_settings: {
-        async_insert: 1,
-        wait_for_async_insert: 1,
-      },
-    });
+  private async insertTransactions(
+    rows: TransactionInsert[],
+    events: TransactionEventInsert[],
+    programId: string
+  ): Promise<void> {
+    await Promise.all([this.batchProcessor.add(rows), this.eventBatchProcessor.add(events)]);
 
     await this.redisService.incrementProcessedCounter(programId, rows.length);
   }
 
   /**
-   * Fetch transaction from Solana
+   * Write a batch of transactions to ClickHouse
+   * Batches are built in the worker, so a synchronous insert is durable once it returns
+   */
+  private async writeTransactions(rows: TransactionInsert[]): Promise<void> {
+    await this.metrics.timeStage('insert', () =>
+      this.workerPool.run('clickhouse', () =>
+        this.clickhouse.insert({
+          table: 'dln.transactions',
+          values: rows,
+          format: 'JSONEachRow',
+        })
+      )
+    );
+
+    this.metrics.recordRowsInserted(rows);
+  }
+
+  /**
+   * Write a batch of transaction events to ClickHouse
+   */
+  private async writeTransactionEvents(rows: TransactionEventInsert[]): Promise<void> {
+    await this.metrics.timeStage('insert', () =>
+      this.workerPool.run('clickhouse', () =>
+        this.clickhouse.insert({
+          table: 'dln.transaction_events',
+          values: rows,
+          format: 'JSONEachRow',
+        })
+      )
+    );
+  }
+
+  /**
+   * One event row per order and event type of the transaction
+   * (transfer rows only carry the first event, batch unlocks cover many orders)
+   */
+  private buildEventRows(
+    dlnEvents: ParsedDlnEvent[],
+    context: Pick<TransactionEventInsert, 'signature' | 'slot' | 'block_time' | 'program_id' | 'status'>
+  ): TransactionEventInsert[] {
+    const rows = new Map<string, TransactionEventInsert>();
+
+    for (const event of dlnEvents) {
+      const eventType = getEventTypeString(event.eventType);
+      rows.set(`${event.orderId}:${eventType}`, {
+        ...context,
+        event_type: eventType,
+        order_id: event.orderId,
+      });
+    }
+
+    return [...rows.values()];
+  }
+
+  /**
+   * Get USD prices at block time (bounded by the price pool)
+   */
+  private getPrices(mints: string[], blockTime: number): Promise<Map<string, PriceQuote>> {
+    return this.metrics.timeStage('price', () =>
+      this.workerPool.run('prices', () => this.priceProvider.getPrices(mints, blockTime))
+    );
+  }
+
+  /**
+   * Fetch transaction from Solana (jsonParsed, fetched once per signature)
+   * Balances, logs and instructions are all read from this response; fetched
+   * transactions are cached so retries and reprocessing skip the RPC.
+   * Returns null when the last attempt found no transaction, throws when it failed
    */
   private async fetchTransaction(
     signature: string
-  ): Promise<VersionedTransactionResponse | null> {
+  ): Promise<ParsedTransactionWithMeta | null> {
+    const cached = await this.transactionCache.get(signature);
+    if (cached) {
+      return cached;
+    }
+
     const maxRetries = 3;
     let lastError: Error | null = null;
 
     for (let retry = 0; retry < maxRetries; retry++) {
       try {
-        const tx = await this.solanaConnection.getTransaction(signature, {
-          maxSupportedTransactionVersion: 0,
-          commitment: 'confirmed',
-        });
+        // Batched with the signatures of concurrent messages
+        const tx = await this.transactionFetcher.fetch(signature);
 
         if (tx) {
+          await this.transactionCache.set(signature, tx);
           return tx;
         }
 
         // Transaction not found, wait and retry
+        lastError = null;
         await new Promise((resolve) => setTimeout(resolve, 1000 * (retry + 1)));
       } catch (error) {
         lastError = error as Error;
@@ -94,14 +196,18 @@ export class TransactionProcessor {
       }
     }
 
-    throw lastError || new Error('Transaction not found');
+    if (lastError) {
+      throw lastError;
+    }
+
+    return null;
   }
 
   /**
    * Collect all token transfers including SOL
    */
   private collectAllTransfers(
-    txResponse: VersionedTransactionResponse
+    txResponse: ParsedTransactionWithMeta
   ): Array<{ mint: string; amount: number }> {
     const meta = txResponse.meta;
     if (!meta) {
@@ -122,7 +228,7 @@ export class TransactionProcessor {
    * Collect SPL token transfers from transaction metadata
    */
   private collectTokenTransfers(
-    meta: VersionedTransactionResponse['meta']
+    meta: ParsedTransactionWithMeta['meta']
   ): Array<{ mint: string; amount: number }> {
     const pre = meta?.preTokenBalances || [];
     const post = meta?.postTokenBalances || [];
@@ -159,7 +265,7 @@ export class TransactionProcessor {
    * Collect SOL transfer from transaction metadata
    */
   private collectSolTransfer(
-    meta: VersionedTransactionResponse['meta']
+    meta: ParsedTransactionWithMeta['meta']
   ): { mint: string; amount: number } | null {
     if (!meta) {
       return null;
@@ -192,28 +298,73 @@ export class TransactionProcessor {
     const solAmount = maxPositiveLamports / LAMPORTS_PER_SOL;
     
     return {
-      mint: 'So11111111111111111111111111111111111111112',
+      mint: SOL_MINT,
       amount: solAmount,
     };
   }
 
+  /**
+   * Collect decimals of the mints in the transaction token balances
+   */
+  private collectTokenDecimals(
+    meta: ParsedTransactionWithMeta['meta']
+  ): Map<string, number> {
+    const decimals = new Map<string, number>([[SOL_MINT, SOL_DECIMALS]]);
+
+    for (const balance of [...(meta?.preTokenBalances || []), ...(meta?.postTokenBalances || [])]) {
+      decimals.set(balance.mint, balance.uiTokenAmount.decimals);
+    }
+
+    return decimals;
+  }
+
+  /**
+   * Price the fees of an order created in the transaction at block time
+   * Affiliate and percent fees are in the give token, the fix fee in lamports
+   * Fees of a give token without known decimals or price are valued at 0
+   */
+  private async priceOrderFees(
+    dlnEvents: ParsedDlnEvent[],
+    tokens: Map<string, TokenMetadata>,
+    prices: Map<string, PriceQuote>,
+    blockTime: number
+  ): Promise<OrderFeesUsd | undefined> {
+    const created = dlnEvents.find((event) => event.eventType === DlnEventType.OrderCreated);
+    if (!created) {
+      return undefined;
+    }
+
+    const data = created.data as OrderCreatedData;
+    // The give token is usually among the transferred mints, otherwise it is looked up in the cache
+    const giveToken = tokens.get(data.giveTokenAddress)
+      ?? (await this.tokenMetadataService.getTokens([data.giveTokenAddress])).get(data.giveTokenAddress);
+    const giveDecimals = giveToken?.decimals ?? null;
+
+    // Prices of the transferred mints are already resolved
+    const unpriced = [data.giveTokenAddress, SOL_MINT].filter((mint) => !prices.has(mint));
+    const feePrices = unpriced.length > 0
+      ? new Map([...prices, ...(await this.getPrices(unpriced, blockTime))])
+      : prices;
+
+    const toUsd = (amount: string | undefined, decimals: number | null, price: string | undefined) =>
+      amount && decimals !== null && price ? computeAmountUsd(amount, decimals, price) : '0';
+
+    const givePrice = feePrices.get(data.giveTokenAddress)?.price;
+
+    return {
+      affiliateFeeUsd: toUsd(data.affiliateFee, giveDecimals, givePrice),
+      fixFeeUsd: toUsd(data.fixFee, SOL_DECIMALS, feePrices.get(SOL_MINT)?.price),
+      percentFeeUsd: toUsd(data.percentFee, giveDecimals, givePrice),
+    };
+  }
+
   /**
    * Extract detailed token transfers with accounts
    */
   private extractTokenTransfers(
-    txResponse: VersionedTransactionResponse
-  ): Array<{
-    account: string;
-    tokenAddress: string;
-    amount: string;
-    instructionType: string;
-  }> {
-    const transfers: Array<{
-      account: string;
-      tokenAddress: string;
-      amount: string;
-      instructionType: string;
-    }> = [];
+    txResponse: ParsedTransactionWithMeta
+  ): TokenTransfer[] {
+    const transfers: TokenTransfer[] = [];
 
     // Parse token balances from meta
     const preBalances = txResponse.meta?.preTokenBalances || [];
@@ -235,6 +386,7 @@ export class TransactionProcessor {
             account: postBalance.owner || '',
             tokenAddress: postBalance.mint || '',
             amount: diff.toString(),
+            decimals: postBalance.uiTokenAmount.decimals,
             instructionType: diff > 0n ? 'receive' : 'send',
           });
         }
@@ -290,7 +442,7 @@ export class TransactionProcessor {
       txLogger.info({ slot, source, attempt: metadata.attempt }, 'Received transaction from queue');
 
       // Fetch transaction
-      const txResponse = await this.fetchTransaction(signature);
+      const txResponse = await this.metrics.timeStage('fetch', () => this.fetchTransaction(signature));
       if (!txResponse) {
         txLogger.warn('Transaction not found');
         return metadata.attempt >= 3; // Give up after 3 attempts
@@ -298,24 +450,14 @@ export class TransactionProcessor {
 
       // Parse DLN events (and extract orderId from logs) using @incur-data/tx-parsing
       let dlnEvents: ParsedDlnEvent[] = [];
-      let parsedTx: ParsedTransactionWithMeta | null = null;
       try {
-        parsedTx = await this.solanaConnection.getParsedTransaction(signature, {
-          maxSupportedTransactionVersion: 0,
-          commitment: 'confirmed',
-        });
-
-        if (parsedTx) {
-          // Get parser for this programId (cached)
-          const allEvents = this.getParser(programId).parseTransaction(signature, parsedTx);
-          dlnEvents = allEvents.filter(
-            (event: ParsedDlnEvent) =>
-              event.eventType === DlnEventType.OrderCreated ||
-              event.eventType === DlnEventType.OrderFulfilled
-          );
-        } else {
-          txLogger.debug('Parsed transaction not found, skipping DLN parsing');
-        }
+        // Get parser for this programId (cached)
+        const allEvents = await this.metrics.timeStage('parse', () =>
+          this.getParser(programId).parseTransaction(signature, txResponse)
+        );
+        dlnEvents = allEvents.filter(
+          (event: ParsedDlnEvent) => SUPPORTED_EVENT_TYPES.has(event.eventType)
+        );
       } catch (error) {
         txLogger.warn(
           { error: (error as Error).message },
@@ -325,7 +467,7 @@ export class TransactionProcessor {
 
       // Filter out transactions that are not DLN events of supported DlnEventType
       if (dlnEvents.length === 0) {
-        const logMessages = parsedTx?.meta?.logMessages ?? [];
+        const logMessages = txResponse.meta?.logMessages ?? [];
         const orderIdFromLogs = logMessages.length > 0
           ? extractOrderIdFromLogs(logMessages)
           : null;
@@ -335,7 +477,6 @@ export class TransactionProcessor {
             slot,
             source,
             programId,
-            hasParsedTx: !!parsedTx,
             logMessagesSample: logMessages.slice(0, 20),
             orderIdFromLogs,
             dlnEventsCount: dlnEvents.length,
@@ -364,6 +505,8 @@ export class TransactionProcessor {
       const status = success ? 'success' : 'failed';
 
       const blockTimeFormatted = formatBlockTime(blockTime);
+      // Time the USD amounts are priced at (current time without block time, as formatBlockTime)
+      const priceTime = blockTime ?? Math.floor(Date.now() / 1000);
 
       // Step 1: Collect all token mints from the transaction
       const allTransfers = this.collectAllTransfers(txResponse);
@@ -372,8 +515,24 @@ export class TransactionProcessor {
       // Extract detailed transfers with accounts
       const transfers = this.extractTokenTransfers(txResponse);
 
-      // Build rows with USD amounts
-      const rows = await this.jupiterPriceService.buildTransactionRows(
+      // Token metadata (decimals from the token balances take precedence), cached in Redis
+      const tokens = await this.tokenMetadataService.getTokens(
+        tokenMints,
+        this.collectTokenDecimals(txResponse.meta)
+      );
+
+      // Chain corridor of the order (from OrderCreated data or the stored order)
+      const { giveChainId, takeChainId } = await this.orderLifecycleService.resolveChainIds(dlnEvents);
+
+      // Solver that filled the order (OrderFulfilled only)
+      const fulfilledEvent = dlnEvents.find((event) => event.eventType === DlnEventType.OrderFulfilled);
+      const fulfiller = fulfilledEvent ? (fulfilledEvent.data as OrderFulfilledData).fulfiller : '';
+
+      // USD prices at block time from the price provider chain
+      const tokenPrices = await this.getPrices(tokenMints, priceTime);
+
+      // Build rows with USD amounts (transfers are attributed to the first event)
+      const rows = this.jupiterPriceService.buildTransactionRows(
         {
           signature,
           slot,
@@ -382,13 +541,33 @@ export class TransactionProcessor {
           status,
           eventType: eventTypeString,
           orderId,
+          giveChainId,
+          takeChainId,
+          fulfiller,
         },
         transfers,
-        tokenMints
+        tokenPrices
       );
 
-      // Insert to ClickHouse (async inserts - server-side batching)
-      await this.insertTransactions(rows, programId);
+      const eventRows = this.buildEventRows(dlnEvents, {
+        signature,
+        slot,
+        block_time: blockTimeFormatted,
+        program_id: programId,
+        status,
+      });
+
+      // Insert to ClickHouse (batched across messages, the message is acked after the batch is written)
+      await this.insertTransactions(rows, eventRows, programId);
+
+      // Update per-order lifecycle state (all events of the transaction, not only the first)
+      if (success) {
+        const amountUsd = maxUsd(rows.map((row) => row.amount_usd));
+        const feesUsd = await this.priceOrderFees(dlnEvents, tokens, tokenPrices, priceTime);
+        await this.workerPool.run('orders', () =>
+          this.orderLifecycleService.applyEvents(dlnEvents, { amountUsd, feesUsd })
+        );
+      }
 
       return true;
     } catch (error) {
@@ -416,9 +595,11 @@ export class TransactionProcessor {
   }
 
   /**
-   * Shutdown - nothing to flush with async inserts
+   * Shutdown - flush pending transaction rows
    */
   async shutdown(): Promise<void> {
-    this.logger.info('TransactionProcessor shutdown');
+    const pendingRows = this.batchProcessor.getPendingRows();
+    await Promise.all([this.batchProcessor.close(), this.eventBatchProcessor.close()]);
+    this.logger.info({ flushedRows: pendingRows }, 'TransactionProcessor shutdown');
   }
 }
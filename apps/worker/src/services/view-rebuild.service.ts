@@ -0,0 +1,281 @@
+/**
+ * View Rebuild Service
+ * Rebuilds materialized views after rows of their source table were replaced
+ */
+
+import type { ClickHouseClient } from '@clickhouse/client';
+import type { Logger } from 'pino';
+import { getMonthPartition } from '../utils/date.js';
+
+/**
+ * Materialized view as described by system.tables
+ */
+interface MaterializedView {
+  name: string;
+  uuid: string;
+  asSelect: string;
+  monthly: number; // 1 when the view storage is partitioned by toYYYYMM
+  dependents: string[];
+}
+
+/**
+ * Rebuild options
+ */
+export interface ViewRebuildOptions {
+  ingestionPaused: boolean; // No worker inserts into the source table while the rebuild runs
+}
+
+/**
+ * View Rebuild Service
+ * Materialized views only see inserts, so rows replaced in a ReplacingMergeTree source
+ * are counted twice until the view is rebuilt from the deduplicated (FINAL) source.
+ * View queries are read from system.tables, so the rebuild always matches the view definition.
+ * Rebuilt data is written to a staging table and swapped in atomically, so the view keeps serving
+ * its previous data meanwhile; rows inserted into the source during a rebuild are not in the
+ * rebuilt data, so rebuilds of data workers still write (the current month, whole views) are
+ * refused unless ingestion is paused
+ */
+export class ViewRebuildService {
+  constructor(
+    private clickhouse: ClickHouseClient,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Rebuild monthly partitions (YYYYMM) of the views reading from a table partitioned by
+   * toYYYYMM(timeColumn); views reading from those views are rebuilt entirely
+   */
+  async rebuildPartitions(
+    database: string,
+    table: string,
+    timeColumn: string,
+    partitions: number[],
+    options: ViewRebuildOptions
+  ): Promise<void> {
+    if (partitions.length === 0) {
+      return;
+    }
+
+    await this.assertRebuildable(database, table, partitions, options);
+
+    const views = await this.getDependentViews(database, table);
+    const nested = new Set<string>();
+
+    for (const view of views) {
+      if (!view.monthly) {
+        this.logger.warn(
+          { view: view.name },
+          'View is not partitioned by month, rebuilding it entirely'
+        );
+        await this.rebuildAll(database, view, {
+          table: `${database}.${table}`,
+          source: `(SELECT * FROM ${database}.${table} FINAL) AS ${table}`,
+        });
+        continue;
+      }
+
+      for (const partition of partitions) {
+        await this.rebuildPartition(database, table, timeColumn, view, partition);
+      }
+
+      view.dependents.forEach((dependent) => nested.add(dependent));
+    }
+
+    for (const name of nested) {
+      const [view] = await this.getViews(database, [name]);
+      if (view) {
+        await this.rebuildAll(database, view);
+      }
+    }
+  }
+
+  /**
+   * Throw when rebuilding the partitions would drop rows inserted by running workers:
+   * partitions of the current month or later, and views rebuilt entirely
+   * (views not partitioned by month and the views reading from them)
+   */
+  async assertRebuildable(
+    database: string,
+    table: string,
+    partitions: number[],
+    options: ViewRebuildOptions
+  ): Promise<void> {
+    if (options.ingestionPaused || partitions.length === 0) {
+      return;
+    }
+
+    const currentPartition = getMonthPartition(Math.floor(Date.now() / 1000));
+    const views = await this.getDependentViews(database, table);
+    const live = new Set<string>();
+
+    for (const view of views) {
+      if (!view.monthly) {
+        live.add(view.name);
+        continue;
+      }
+
+      partitions
+        .filter((partition) => partition >= currentPartition)
+        .forEach((partition) => live.add(`${view.name} (${partition})`));
+      view.dependents.forEach((dependent) => live.add(dependent));
+    }
+
+    if (live.size > 0) {
+      throw new Error(
+        `Rebuilding ${[...live].join(', ')} drops rows inserted while it runs, ` +
+          'stop the workers and rebuild with ingestion paused'
+      );
+    }
+  }
+
+  /**
+   * Replace a partition of a view with the view query over that month of the deduplicated source
+   * The month is built in a staging table, then swapped in with REPLACE PARTITION
+   */
+  private async rebuildPartition(
+    database: string,
+    table: string,
+    timeColumn: string,
+    view: MaterializedView,
+    partition: number
+  ): Promise<void> {
+    const source = `(SELECT * FROM ${database}.${table} FINAL WHERE toYYYYMM(${timeColumn}) = ${partition}) AS ${table}`;
+    const query = this.replaceSource(view.asSelect, `${database}.${table}`, source);
+
+    await this.withStagingTable(database, view, async (inner, staging) => {
+      await this.clickhouse.command({ query: `INSERT INTO ${staging} ${query}` });
+      await this.clickhouse.command({
+        query: `ALTER TABLE ${inner} REPLACE PARTITION ID '${partition}' FROM ${staging}`,
+      });
+    });
+
+    this.logger.info({ view: view.name, partition }, 'Rebuilt materialized view partition');
+  }
+
+  /**
+   * Replace all rows of a view with its query, optionally over another source than its table
+   * The rows are built in a staging table, then swapped in with EXCHANGE TABLES
+   */
+  private async rebuildAll(
+    database: string,
+    view: MaterializedView,
+    replacement?: { table: string; source: string }
+  ): Promise<void> {
+    const query = replacement
+      ? this.replaceSource(view.asSelect, replacement.table, replacement.source)
+      : view.asSelect;
+
+    await this.withStagingTable(database, view, async (inner, staging) => {
+      await this.clickhouse.command({ query: `INSERT INTO ${staging} ${query}` });
+      await this.clickhouse.command({ query: `EXCHANGE TABLES ${inner} AND ${staging}` });
+    });
+
+    this.logger.info({ view: view.name }, 'Rebuilt materialized view');
+  }
+
+  /**
+   * Run a rebuild with an empty staging table shaped like the storage table of a view
+   * (same columns, engine and partitioning), dropped afterwards
+   */
+  private async withStagingTable(
+    database: string,
+    view: MaterializedView,
+    rebuild: (inner: string, staging: string) => Promise<void>
+  ): Promise<void> {
+    const inner = `${database}.\`${await this.getInnerTable(database, view)}\``;
+    const staging = `${database}.\`${view.name}_rebuild\``;
+
+    await this.clickhouse.command({ query: `DROP TABLE IF EXISTS ${staging}` });
+    await this.clickhouse.command({ query: `CREATE TABLE ${staging} AS ${inner}` });
+
+    try {
+      await rebuild(inner, staging);
+    } finally {
+      await this.clickhouse.command({ query: `DROP TABLE IF EXISTS ${staging}` });
+    }
+  }
+
+  /**
+   * Name of the table storing the rows of a view
+   * (.inner_id.{uuid} in Atomic databases, .inner.{name} in Ordinary ones)
+   */
+  private async getInnerTable(database: string, view: MaterializedView): Promise<string> {
+    const result = await this.clickhouse.query({
+      query: `
+        SELECT name
+        FROM system.tables
+        WHERE database = {database:String}
+          AND name IN {names:Array(String)}
+      `,
+      query_params: { database, names: [`.inner_id.${view.uuid}`, `.inner.${view.name}`] },
+      format: 'JSONEachRow',
+    });
+
+    const [row] = await result.json<Array<{ name: string }>>();
+    if (!row) {
+      throw new Error(`Storage table of materialized view ${view.name} not found`);
+    }
+
+    return row.name;
+  }
+
+  /**
+   * Materialized views reading from a table
+   */
+  private async getDependentViews(database: string, table: string): Promise<MaterializedView[]> {
+    const result = await this.clickhouse.query({
+      query: `
+        SELECT dependencies_table AS views
+        FROM system.tables
+        WHERE database = {database:String} AND name = {table:String}
+      `,
+      query_params: { database, table },
+      format: 'JSONEachRow',
+    });
+
+    const [row] = await result.json<Array<{ views: string[] }>>();
+
+    return this.getViews(database, row?.views ?? []);
+  }
+
+  /**
+   * Materialized views by name, with their query, partitioning and dependent views
+   * (the partition key is only part of the view DDL, the view itself has none)
+   */
+  private async getViews(database: string, names: string[]): Promise<MaterializedView[]> {
+    if (names.length === 0) {
+      return [];
+    }
+
+    const result = await this.clickhouse.query({
+      query: `
+        SELECT
+          name,
+          toString(uuid) AS uuid,
+          as_select AS asSelect,
+          position(create_table_query, 'PARTITION BY toYYYYMM(') > 0 AS monthly,
+          dependencies_table AS dependents
+        FROM system.tables
+        WHERE database = {database:String}
+          AND name IN {names:Array(String)}
+          AND engine = 'MaterializedView'
+      `,
+      query_params: { database, names },
+      format: 'JSONEachRow',
+    });
+
+    return result.json<MaterializedView[]>();
+  }
+
+  /**
+   * Point the FROM clause of a view query at another source
+   */
+  private replaceSource(query: string, table: string, source: string): string {
+    const pattern = new RegExp(`FROM\\s+${table.replace('.', '\\.')}\\b`, 'i');
+    if (!pattern.test(query)) {
+      throw new Error(`View query does not read from ${table}: ${query}`);
+    }
+
+    return query.replace(pattern, `FROM ${source}`);
+  }
+}
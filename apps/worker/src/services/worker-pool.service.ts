@@ -0,0 +1,118 @@
+/**
+ * Worker Pool Service
+ * Bounds message processing and each downstream dependency with its own concurrency limit
+ */
+
+import PQueue from 'p-queue';
+import type { Logger } from 'pino';
+
+/**
+ * Pools of the worker: message processing and its downstream dependencies
+ */
+export type WorkerPoolName = 'processing' | 'rpc' | 'prices' | 'clickhouse' | 'orders';
+
+/**
+ * Concurrency limit per pool
+ */
+export type WorkerPoolConfig = Record<WorkerPoolName, number>;
+
+/**
+ * Utilization of a pool
+ */
+export interface WorkerPoolStats {
+  concurrency: number;
+  active: number;
+  queued: number;
+  utilization: number; // active / concurrency
+}
+
+/**
+ * Worker Pool Service
+ * A pool is saturated when at least `concurrency` tasks wait for a slot. Consumption is paused
+ * while any pool is saturated and resumed once every backlog is back under half its limit
+ */
+export class WorkerPoolService {
+  private readonly queues: Record<WorkerPoolName, PQueue>;
+  private saturated = false;
+  private saturationListener?: (saturated: boolean) => void;
+
+  constructor(
+    config: WorkerPoolConfig,
+    private logger: Logger
+  ) {
+    this.queues = {
+      processing: new PQueue({ concurrency: config.processing }),
+      rpc: new PQueue({ concurrency: config.rpc }),
+      prices: new PQueue({ concurrency: config.prices }),
+      clickhouse: new PQueue({ concurrency: config.clickhouse }),
+      orders: new PQueue({ concurrency: config.orders }),
+    };
+
+    for (const queue of Object.values(this.queues)) {
+      queue.on('add', () => this.checkSaturation());
+      queue.on('next', () => this.checkSaturation());
+    }
+  }
+
+  /**
+   * Run a task in a pool, waits for a free slot
+   */
+  run<T>(pool: WorkerPoolName, task: () => Promise<T>): Promise<T> {
+    return this.queues[pool].add(task, { throwOnTimeout: true });
+  }
+
+  /**
+   * Register the listener called when saturation starts (true) or ends (false)
+   */
+  onSaturationChange(listener: (saturated: boolean) => void): void {
+    this.saturationListener = listener;
+  }
+
+  /**
+   * Whether any pool is saturated
+   */
+  isSaturated(): boolean {
+    return this.saturated;
+  }
+
+  /**
+   * Utilization of every pool
+   */
+  getStats(): Record<WorkerPoolName, WorkerPoolStats> {
+    const entries = Object.entries(this.queues).map(([name, queue]) => [
+      name,
+      {
+        concurrency: queue.concurrency,
+        active: queue.pending,
+        queued: queue.size,
+        utilization: queue.pending / queue.concurrency,
+      },
+    ]);
+
+    return Object.fromEntries(entries) as Record<WorkerPoolName, WorkerPoolStats>;
+  }
+
+  /**
+   * Wait until every pool is idle
+   */
+  async onIdle(): Promise<void> {
+    await Promise.all(Object.values(this.queues).map((queue) => queue.onIdle()));
+  }
+
+  private checkSaturation(): void {
+    const queues = Object.values(this.queues);
+    const saturated = this.saturated
+      ? queues.some((queue) => queue.size > queue.concurrency / 2)
+      : queues.some((queue) => queue.size >= queue.concurrency);
+
+    if (saturated === this.saturated) {
+      return;
+    }
+
+    this.saturated = saturated;
+    this.logger.info({ saturated, pools: this.getStats() }, saturated
+      ? 'Worker pools saturated, pausing consumption'
+      : 'Worker pools drained, resuming consumption');
+    this.saturationListener?.(saturated);
+  }
+}
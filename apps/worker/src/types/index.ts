@@ -9,3 +9,22 @@ export type {
   TokenPrice,
   JupiterPriceResponse,
 } from './jupiter-price.types.js';
+
+// Price history types
+export type {
+  PriceHistoryConfig,
+  StoredPrice,
+  BirdeyeConfig,
+  BirdeyeHistoryPriceResponse,
+} from './price-history.types.js';
+
+// Price provider types
+export type {
+  PriceQuoteConfidence,
+  PriceQuote,
+  PriceProvider,
+  ChainedPriceProvider,
+} from './price-provider.types.js';
+
+// Transaction cache types
+export type { TransactionCacheConfig } from './transaction-cache.types.js';
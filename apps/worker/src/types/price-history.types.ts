@@ -0,0 +1,41 @@
+/**
+ * Price History Types
+ * Types for block time pricing and the historical price backfill
+ */
+
+export interface PriceHistoryConfig {
+  historyTolerance: number; // Maximum distance in seconds between block time and a stored price
+  highConfidenceDistance: number; // Maximum distance in seconds of a high confidence stored price
+  liveMaxAge: number; // Maximum transaction age in seconds to fall back to the current price
+  historyRateLimit: number; // Minimum delay between price history lookups in ms (0 = unlimited)
+  stablecoinMints: string[]; // Mints priced at a 1 USD peg when no other provider has a price
+}
+
+/**
+ * Stored price nearest to a block time
+ */
+export interface StoredPrice {
+  price: string; // Decimal string
+  distance: number; // Seconds between the price minute and the block time
+}
+
+export interface BirdeyeConfig {
+  apiUrl: string;
+  apiKey?: string;
+  timeout: number;
+  rateLimit: number; // Minimum delay between requests in ms (1 RPS = 1000ms)
+}
+
+/**
+ * Response of the Birdeye history price endpoint (only the fields used here)
+ */
+export interface BirdeyeHistoryPriceResponse {
+  success: boolean;
+  data?: {
+    items: Array<{
+      address: string;
+      unixTime: number;
+      value: number;
+    }>;
+  };
+}
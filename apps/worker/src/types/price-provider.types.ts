@@ -0,0 +1,35 @@
+/**
+ * Price Provider Types
+ * Types for the block time price provider chain
+ */
+
+/**
+ * Reliability of a price: 'low' for distant stored prices and assumed pegs
+ */
+export type PriceQuoteConfidence = 'high' | 'low';
+
+/**
+ * USD price of a mint with its provenance
+ */
+export interface PriceQuote {
+  price: string; // Decimal string
+  provider: string;
+  confidence: PriceQuoteConfidence;
+}
+
+/**
+ * Source of USD prices at a block time
+ * Mints the provider has no price for are missing from the result
+ */
+export interface PriceProvider {
+  readonly name: string;
+  getPrices(mints: string[], blockTime: number): Promise<Map<string, PriceQuote>>;
+}
+
+/**
+ * Provider in a chain with its own rate limit
+ */
+export interface ChainedPriceProvider {
+  provider: PriceProvider;
+  rateLimit: number; // Minimum delay between requests in ms (0 = unlimited)
+}
@@ -0,0 +1,9 @@
+/**
+ * Transaction Cache Types
+ * Types for the fetched transaction cache
+ */
+
+export interface TransactionCacheConfig {
+  lruSize: number; // Transactions kept in memory
+  ttl: number; // Redis TTL in seconds
+}
@@ -0,0 +1,24 @@
+/**
+ * CLI Utility
+ * Argument parsing for the worker maintenance commands
+ */
+
+/**
+ * Read a --name YYYY-MM-DD argument as unix seconds (UTC midnight)
+ * Exits with an error message when the value is not a date
+ */
+export function parseDateArg(args: string[], name: string): number | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const value = args[index + 1] ?? '';
+  const time = Date.parse(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(time)) {
+    console.error(`Error: --${name} must be a date (YYYY-MM-DD)`);
+    process.exit(1);
+  }
+
+  return time / 1000;
+}
@@ -7,3 +7,42 @@ export const formatBlockTime = (timestamp: number | null | undefined): string =>
   const date = new Date((timestamp || Date.now() / 1000) * 1000);
   return date.toISOString().replace('T', ' ').substring(0, 19);
 };
+
+/**
+ * Start of the UTC month of a timestamp
+ * @param timestamp - Unix timestamp in seconds
+ * @returns Unix timestamp in seconds of the first day of the month, 00:00:00
+ */
+export const getMonthStart = (timestamp: number): number => {
+  const date = new Date(timestamp * 1000);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000;
+};
+
+/**
+ * Monthly partition (toYYYYMM) of a timestamp
+ * @param timestamp - Unix timestamp in seconds
+ */
+export const getMonthPartition = (timestamp: number): number => {
+  const date = new Date(timestamp * 1000);
+  return date.getUTCFullYear() * 100 + date.getUTCMonth() + 1;
+};
+
+/**
+ * Monthly partitions (toYYYYMM) overlapping [fromTime, toTime)
+ * @param fromTime - Unix timestamp in seconds (inclusive)
+ * @param toTime - Unix timestamp in seconds (exclusive)
+ */
+export const getMonthPartitions = (fromTime: number, toTime: number): number[] => {
+  const partitions: number[] = [];
+  if (fromTime >= toTime) {
+    return partitions;
+  }
+
+  for (let month = getMonthStart(fromTime); month < toTime; ) {
+    const date = new Date(month * 1000);
+    partitions.push(getMonthPartition(month));
+    month = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / 1000;
+  }
+
+  return partitions;
+};
@@ -0,0 +1,92 @@
+/**
+ * Decimal Utility
+ * Exact fixed-point math on bigint for token amounts and USD values
+ */
+
+/**
+ * Fractional digits of USD columns (Decimal64(8))
+ */
+export const USD_DECIMALS = 8;
+
+/**
+ * Fractional digits prices are taken with
+ */
+const PRICE_DECIMALS = 18;
+
+const DECIMAL_PATTERN = /^(-?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Parse a decimal (number or string, exponent notation allowed) into a bigint scaled by 10^scale
+ * Digits beyond scale are truncated
+ */
+export function parseDecimal(value: number | string, scale: number): bigint {
+  const text = typeof value === 'number' ? value.toString() : value.trim();
+  const match = DECIMAL_PATTERN.exec(text);
+
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal: ${value}`);
+  }
+
+  const [, sign, intPart = '', fracPart = '', exponent = '0'] = match;
+  const digits = BigInt(`${intPart}${fracPart}` || '0');
+  // Power of ten to apply to the digits to get the scaled value
+  const shift = scale - fracPart.length + Number(exponent);
+  const scaled = shift >= 0 ? digits * 10n ** BigInt(shift) : digits / 10n ** BigInt(-shift);
+
+  return sign === '-' ? -scaled : scaled;
+}
+
+/**
+ * Format a bigint scaled by 10^scale as a decimal string (no trailing zeros)
+ */
+export function formatDecimal(value: bigint, scale: number): string {
+  const negative = value < 0n;
+  const text = (negative ? -value : value).toString().padStart(scale + 1, '0');
+  const intPart = text.slice(0, text.length - scale);
+  const fracPart = text.slice(text.length - scale).replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${intPart}${fracPart ? `.${fracPart}` : ''}`;
+}
+
+/**
+ * Normalize a USD price to a decimal string (PRICE_DECIMALS digits at most)
+ */
+export function formatPrice(price: number | string): string {
+  return formatDecimal(parseDecimal(price, PRICE_DECIMALS), PRICE_DECIMALS);
+}
+
+/**
+ * USD value of a token amount in base units: amount / 10^decimals * price
+ * Rounded half up to USD_DECIMALS digits
+ */
+export function computeAmountUsd(
+  amount: bigint | string,
+  decimals: number,
+  price: number | string
+): string {
+  const baseUnits = typeof amount === 'bigint' ? amount : BigInt(amount);
+  const absolute = baseUnits < 0n ? -baseUnits : baseUnits;
+  const divisor = 10n ** BigInt(decimals + PRICE_DECIMALS - USD_DECIMALS);
+  const usd = (absolute * parseDecimal(price, PRICE_DECIMALS) + divisor / 2n) / divisor;
+
+  return formatDecimal(usd, USD_DECIMALS);
+}
+
+/**
+ * Largest of USD values ('0' for none)
+ */
+export function maxUsd(values: string[]): string {
+  const max = values.reduce((current, value) => {
+    const parsed = parseDecimal(value, USD_DECIMALS);
+    return parsed > current ? parsed : current;
+  }, 0n);
+
+  return formatDecimal(max, USD_DECIMALS);
+}
+
+/**
+ * Whether a USD value (as returned by ClickHouse or computed here) is zero
+ */
+export function isZeroUsd(value: number | string): boolean {
+  return parseDecimal(value, USD_DECIMALS) === 0n;
+}
@@ -1,5 +1,17 @@
 import { DlnEventType } from '@incur-data/tx-parsing';
 
+/**
+ * DLN event types that are stored in dln.transactions
+ */
+export const SUPPORTED_EVENT_TYPES: ReadonlySet<DlnEventType> = new Set([
+  DlnEventType.OrderCreated,
+  DlnEventType.OrderFulfilled,
+  DlnEventType.OrderCancelled,
+  DlnEventType.OrderClaimed,
+  DlnEventType.SentUnlock,
+  DlnEventType.ClaimedUnlock,
+]);
+
 /**
  * Convert DlnEventType enum to string representation for storage
  */
@@ -9,6 +21,14 @@ export const getEventTypeString = (eventType: DlnEventType): string => {
       return 'OrderCreated';
     case DlnEventType.OrderFulfilled:
       return 'OrderFulfilled';
+    case DlnEventType.OrderCancelled:
+      return 'OrderCancelled';
+    case DlnEventType.OrderClaimed:
+      return 'OrderClaimed';
+    case DlnEventType.SentUnlock:
+      return 'SentUnlock';
+    case DlnEventType.ClaimedUnlock:
+      return 'ClaimedUnlock';
     default:
       return '';
   }
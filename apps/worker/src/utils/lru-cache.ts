@@ -0,0 +1,51 @@
+/**
+ * LRU Cache Utility
+ * In-memory cache bounded by entry count, least recently used entries are evicted first
+ */
+
+/**
+ * LRU cache on the insertion order of a Map
+ */
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, V>();
+
+  constructor(private readonly maxSize: number) {}
+
+  /**
+   * Get a value and mark it as most recently used
+   */
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  /**
+   * Set a value, evicting the least recently used entry when full
+   */
+  set(key: K, value: V): void {
+    if (this.maxSize <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    if (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Current number of entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,214 @@
+import type { OrderInsert } from '@incur-data/olap-types';
+import {
+  DlnEventType,
+  type ParsedDlnEvent,
+  type OrderCreatedData,
+  type OrderFulfilledData,
+  type OrderCancelledData,
+  type OrderClaimedData,
+  type OrderUnlockData,
+} from '@incur-data/tx-parsing';
+import { formatBlockTime } from './date.js';
+import { getEventTypeString } from './dln.js';
+import { isZeroUsd } from './decimal.js';
+
+type OrderStatus = OrderInsert['status'];
+
+/**
+ * Status precedence: an order never moves back to a lower rank,
+ * so events processed out of order don't overwrite a later status
+ */
+export const STATUS_RANK: Record<OrderStatus, number> = {
+  created: 0,
+  fulfilled: 1,
+  cancelled: 1,
+  claimed: 2,
+};
+
+/**
+ * Order status after each lifecycle event
+ * OrderClaimed is the maker's refund of a cancelled order, so the order stays cancelled
+ */
+export const EVENT_STATUS: Partial<Record<DlnEventType, OrderStatus>> = {
+  [DlnEventType.OrderCreated]: 'created',
+  [DlnEventType.OrderFulfilled]: 'fulfilled',
+  [DlnEventType.SentUnlock]: 'fulfilled',
+  [DlnEventType.ClaimedUnlock]: 'claimed',
+  [DlnEventType.OrderCancelled]: 'cancelled',
+  [DlnEventType.OrderClaimed]: 'cancelled',
+};
+
+/**
+ * Transaction-level context for applying events
+ */
+export interface OrderEventContext {
+  /** Largest USD amount transferred in the transaction (decimal string) */
+  amountUsd: string;
+  /** USD value of the fees of an order created in the transaction */
+  feesUsd?: OrderFeesUsd;
+}
+
+/**
+ * USD value of order fees at creation time (decimal strings)
+ */
+export interface OrderFeesUsd {
+  affiliateFeeUsd: string;
+  fixFeeUsd: string;
+  percentFeeUsd: string;
+}
+
+/**
+ * Treat '0' amounts (not known from the instruction) as missing
+ */
+const nonZero = (amount: string): string => (amount === '0' ? '' : amount);
+
+/**
+ * Treat zero USD values (not priced yet) as missing
+ */
+const nonZeroUsd = (amountUsd: string): string => (isZeroUsd(amountUsd) ? '' : amountUsd);
+
+/**
+ * Merge a lifecycle event into the order state
+ * Fields already set are kept, so re-processing a transaction is idempotent
+ */
+export const mergeOrderEvent = (
+  order: OrderInsert,
+  event: ParsedDlnEvent,
+  context: OrderEventContext
+): OrderInsert => {
+  const next: OrderInsert = { ...order };
+  const eventTime = formatBlockTime(event.blockTime);
+  const status = EVENT_STATUS[event.eventType];
+
+  if (status && STATUS_RANK[status] > STATUS_RANK[order.status]) {
+    next.status = status;
+  }
+  next.last_event_type = getEventTypeString(event.eventType);
+
+  switch (event.eventType) {
+    case DlnEventType.OrderCreated: {
+      const data = event.data as OrderCreatedData;
+      next.maker = order.maker || data.maker;
+      next.receiver = order.receiver || data.receiver;
+      next.give_chain_id = order.give_chain_id || data.giveChainId;
+      next.give_token_address = order.give_token_address || data.giveTokenAddress;
+      next.give_amount = order.give_amount || data.giveAmount;
+      next.give_amount_usd = nonZeroUsd(order.give_amount_usd) || context.amountUsd;
+      next.take_chain_id = order.take_chain_id || data.takeChainId;
+      next.take_token_address = order.take_token_address || data.takeTokenAddress;
+      next.take_amount = order.take_amount || data.takeAmount;
+      next.expiry_slot = order.expiry_slot || (data.expirySlot ?? 0);
+      next.affiliate_fee = order.affiliate_fee || (data.affiliateFee ?? '');
+      next.affiliate_fee_beneficiary =
+        order.affiliate_fee_beneficiary || (data.affiliateFeeBeneficiary ?? '');
+      next.affiliate_fee_usd = nonZeroUsd(order.affiliate_fee_usd) || (context.feesUsd?.affiliateFeeUsd ?? '0');
+      next.fix_fee = order.fix_fee || (data.fixFee ?? '');
+      next.fix_fee_usd = nonZeroUsd(order.fix_fee_usd) || (context.feesUsd?.fixFeeUsd ?? '0');
+      next.percent_fee = order.percent_fee || (data.percentFee ?? '');
+      next.percent_fee_usd = nonZeroUsd(order.percent_fee_usd) || (context.feesUsd?.percentFeeUsd ?? '0');
+      next.allowed_taker = order.allowed_taker || (data.allowedTaker ?? '');
+      next.allowed_cancel_beneficiary =
+        order.allowed_cancel_beneficiary || (data.allowedCancelBeneficiary ?? '');
+      next.create_signature = order.create_signature || event.signature;
+      next.created_slot = order.created_slot || event.slot;
+      next.created_time = order.created_time ?? eventTime;
+      break;
+    }
+
+    case DlnEventType.OrderFulfilled: {
+      const data = event.data as OrderFulfilledData;
+      next.taker = order.taker || data.fulfiller;
+      next.receiver = order.receiver || data.orderBeneficiary;
+      next.unlock_beneficiary = order.unlock_beneficiary || data.unlockBeneficiary;
+      next.give_amount = order.give_amount || nonZero(data.giveAmount);
+      next.take_amount = order.take_amount || nonZero(data.takeAmount);
+      next.take_amount_usd = nonZeroUsd(order.take_amount_usd) || context.amountUsd;
+      next.fulfill_signature = order.fulfill_signature || event.signature;
+      next.fulfilled_slot = order.fulfilled_slot || event.slot;
+      next.fulfilled_time = order.fulfilled_time ?? eventTime;
+      break;
+    }
+
+    case DlnEventType.OrderCancelled: {
+      const data = event.data as OrderCancelledData;
+      next.cancel_beneficiary = order.cancel_beneficiary || data.beneficiary;
+      next.give_amount = order.give_amount || nonZero(data.giveAmount);
+      next.take_amount = order.take_amount || nonZero(data.takeAmount);
+      next.cancel_signature = order.cancel_signature || event.signature;
+      next.cancelled_slot = order.cancelled_slot || event.slot;
+      next.cancelled_time = order.cancelled_time ?? eventTime;
+      break;
+    }
+
+    case DlnEventType.OrderClaimed: {
+      const data = event.data as OrderClaimedData;
+      next.cancel_beneficiary = order.cancel_beneficiary || data.beneficiary;
+      next.cancel_claimed_time = order.cancel_claimed_time ?? eventTime;
+      break;
+    }
+
+    case DlnEventType.SentUnlock: {
+      const data = event.data as OrderUnlockData;
+      next.unlock_beneficiary = order.unlock_beneficiary || data.beneficiary;
+      next.unlock_sent_time = order.unlock_sent_time ?? eventTime;
+      break;
+    }
+
+    case DlnEventType.ClaimedUnlock: {
+      const data = event.data as OrderUnlockData;
+      next.unlock_beneficiary = order.unlock_beneficiary || data.beneficiary;
+      next.unlock_claimed_time = order.unlock_claimed_time ?? eventTime;
+      break;
+    }
+
+    default:
+      break;
+  }
+
+  return next;
+};
+
+/**
+ * Create an order row for an order seen for the first time
+ */
+export const createEmptyOrder = (orderId: string): OrderInsert => ({
+  order_id: orderId,
+  status: 'created',
+  last_event_type: '',
+  maker: '',
+  taker: '',
+  receiver: '',
+  unlock_beneficiary: '',
+  cancel_beneficiary: '',
+  give_chain_id: '',
+  give_token_address: '',
+  give_amount: '',
+  give_amount_usd: '0',
+  take_chain_id: '',
+  take_token_address: '',
+  take_amount: '',
+  take_amount_usd: '0',
+  expiry_slot: 0,
+  affiliate_fee: '',
+  affiliate_fee_beneficiary: '',
+  affiliate_fee_usd: '0',
+  fix_fee: '',
+  fix_fee_usd: '0',
+  percent_fee: '',
+  percent_fee_usd: '0',
+  allowed_taker: '',
+  allowed_cancel_beneficiary: '',
+  create_signature: '',
+  fulfill_signature: '',
+  cancel_signature: '',
+  created_slot: 0,
+  fulfilled_slot: 0,
+  cancelled_slot: 0,
+  created_time: null,
+  fulfilled_time: null,
+  cancelled_time: null,
+  unlock_sent_time: null,
+  unlock_claimed_time: null,
+  cancel_claimed_time: null,
+  updated_at: '',
+});
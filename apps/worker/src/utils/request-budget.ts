@@ -0,0 +1,56 @@
+/**
+ * Request Budget Utility
+ * Token bucket over request weights, for RPC providers billing requests by weight
+ */
+
+/**
+ * Request budget refilled continuously at `weightPerSecond`, holding at most one second of weight
+ */
+export class RequestBudget {
+  private available: number;
+  private updatedAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param weightPerSecond - Budget in weight units per second, 0 disables budgeting
+   */
+  constructor(private readonly weightPerSecond: number) {
+    this.available = weightPerSecond;
+  }
+
+  /**
+   * Wait until the weight fits the budget and take it (in call order)
+   * A weight above the budget waits for a full bucket
+   */
+  acquire(weight: number): Promise<void> {
+    if (this.weightPerSecond <= 0) {
+      return Promise.resolve();
+    }
+
+    const ticket = this.queue.then(() => this.take(Math.min(weight, this.weightPerSecond)));
+    this.queue = ticket;
+    return ticket;
+  }
+
+  private async take(weight: number): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.available >= weight) {
+        this.available -= weight;
+        return;
+      }
+
+      const waitMs = ((weight - this.available) / this.weightPerSecond) * 1000;
+      await new Promise((resolve) => setTimeout(resolve, Math.ceil(waitMs)));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(
+      this.weightPerSecond,
+      this.available + ((now - this.updatedAt) / 1000) * this.weightPerSecond
+    );
+    this.updatedAt = now;
+  }
+}
@@ -0,0 +1,51 @@
+-- Migration 004: Order Lifecycle Aggregating View
+-- Counts DLN lifecycle events (created, fulfilled, cancelled, claimed, unlocks) per day
+-- Unlike the volume views, rows without USD amount are included:
+-- cancellations and unlocks usually carry no priced token transfer
+
+-- ==================================================================
+-- Daily Lifecycle Stats
+-- Use case: cancellation rates, unlock counts per day
+-- ==================================================================
+CREATE MATERIALIZED VIEW IF NOT EXISTS dln.daily_lifecycle_stats
+ENGINE = AggregatingMergeTree()
+PARTITION BY toYYYYMM(date)
+ORDER BY (date, program_id, event_type)
+AS SELECT
+    toDate(block_time) AS date,
+    program_id,
+    event_type,
+    uniqState(order_id) AS unique_orders,
+    uniqState(signature) AS tx_count,
+    sumState(amount_usd) AS total_volume_usd
+FROM dln.transactions
+WHERE status = 'success' AND event_type != '' AND order_id != ''
+GROUP BY date, program_id, event_type;
+
+-- Backfill from transactions stored before this migration
+INSERT INTO dln.daily_lifecycle_stats
+SELECT
+    toDate(block_time) AS date,
+    program_id,
+    event_type,
+    uniqState(order_id) AS unique_orders,
+    uniqState(signature) AS tx_count,
+    sumState(amount_usd) AS total_volume_usd
+FROM dln.transactions
+WHERE status = 'success' AND event_type != '' AND order_id != ''
+GROUP BY date, program_id, event_type;
+
+-- ==================================================================
+-- Notes:
+-- ==================================================================
+-- 1. Volume views (hourly_volume, daily_volume, total_stats_mv) already group by event_type,
+--    so OrderCancelled, OrderClaimed, SentUnlock and ClaimedUnlock rows with amount_usd > 0
+--    appear there without changes
+-- 2. uniqState keeps counts correct when a transaction is re-processed
+--
+-- Example Query (used by API):
+--   SELECT
+--     date,
+--     uniqMergeIf(unique_orders, event_type = 'OrderCancelled') AS cancelled_count
+--   FROM dln.daily_lifecycle_stats
+--   GROUP BY date;
@@ -0,0 +1,116 @@
+-- Migration 005: Orders Table
+-- One row per DLN order with its current lifecycle state
+-- Maintained by the worker: on every lifecycle event the current row is read, merged with the event and re-inserted
+
+CREATE TABLE IF NOT EXISTS dln.orders (
+    -- Order identification
+    order_id String,                            -- DLN order ID (hex string)
+    status LowCardinality(String),              -- 'created', 'fulfilled', 'cancelled', 'claimed'
+    last_event_type String DEFAULT '',          -- Last applied event: 'OrderCreated', 'SentUnlock', etc.
+
+    -- Participants
+    maker String DEFAULT '',                    -- Order maker (source chain)
+    taker String DEFAULT '',                    -- Fulfiller (destination chain)
+    receiver String DEFAULT '',                 -- Receiver of take amount
+    unlock_beneficiary String DEFAULT '',       -- Receiver of give amount after unlock
+    cancel_beneficiary String DEFAULT '',       -- Receiver of give amount after cancel
+
+    -- Give side (source chain)
+    give_chain_id String DEFAULT '',
+    give_token_address String DEFAULT '',
+    give_amount String DEFAULT '',              -- Amount in base units (as string for precision)
+    give_amount_usd Decimal64(8) DEFAULT 0,
+
+    -- Take side (destination chain)
+    take_chain_id String DEFAULT '',
+    take_token_address String DEFAULT '',
+    take_amount String DEFAULT '',              -- Amount in base units (as string for precision)
+    take_amount_usd Decimal64(8) DEFAULT 0,
+
+    -- Order parameters
+    expiry_slot UInt64 DEFAULT 0,
+    affiliate_fee String DEFAULT '',
+    allowed_taker String DEFAULT '',
+    allowed_cancel_beneficiary String DEFAULT '',
+
+    -- Lifecycle signatures and slots (empty / 0 until the event is seen)
+    create_signature String DEFAULT '',
+    fulfill_signature String DEFAULT '',
+    cancel_signature String DEFAULT '',
+    created_slot UInt64 DEFAULT 0,
+    fulfilled_slot UInt64 DEFAULT 0,
+    cancelled_slot UInt64 DEFAULT 0,
+
+    -- Lifecycle timestamps (block time of each event)
+    created_time Nullable(DateTime),
+    fulfilled_time Nullable(DateTime),
+    cancelled_time Nullable(DateTime),
+    unlock_sent_time Nullable(DateTime),        -- SentUnlock
+    unlock_claimed_time Nullable(DateTime),     -- ClaimedUnlock
+    cancel_claimed_time Nullable(DateTime),     -- OrderClaimed (refund of cancelled order)
+
+    -- Timestamps
+    created_at DateTime DEFAULT now(),          -- When order row was first written
+    updated_at DateTime64(3) DEFAULT now64(3)   -- Version column, latest row wins
+)
+ENGINE = ReplacingMergeTree(updated_at)
+ORDER BY order_id
+SETTINGS index_granularity = 8192;
+
+CREATE INDEX IF NOT EXISTS idx_orders_status ON dln.orders(status) TYPE set(10) GRANULARITY 1;
+CREATE INDEX IF NOT EXISTS idx_orders_maker ON dln.orders(maker) TYPE bloom_filter(0.01) GRANULARITY 1;
+CREATE INDEX IF NOT EXISTS idx_orders_taker ON dln.orders(taker) TYPE bloom_filter(0.01) GRANULARITY 1;
+CREATE INDEX IF NOT EXISTS idx_orders_created_time ON dln.orders(created_time) TYPE minmax GRANULARITY 1;
+
+-- Backfill lifecycle state from transactions stored before this migration
+-- dln.transactions carries the event type, signature, slot and block time of each event;
+-- order parameters (maker, amounts, chain ids, fees) are filled when the order is reprocessed
+INSERT INTO dln.orders (
+    order_id, status, last_event_type,
+    create_signature, fulfill_signature, cancel_signature,
+    created_slot, fulfilled_slot, cancelled_slot,
+    created_time, fulfilled_time, cancelled_time,
+    unlock_sent_time, unlock_claimed_time, cancel_claimed_time
+)
+SELECT
+    order_id,
+    multiIf(
+        countIf(event_type = 'ClaimedUnlock') > 0, 'claimed',
+        countIf(event_type IN ('OrderCancelled', 'OrderClaimed')) > 0, 'cancelled',
+        countIf(event_type IN ('OrderFulfilled', 'SentUnlock')) > 0, 'fulfilled',
+        'created'
+    ) AS status,
+    argMax(event_type, slot) AS last_event_type,
+    anyIf(signature, event_type = 'OrderCreated') AS create_signature,
+    anyIf(signature, event_type = 'OrderFulfilled') AS fulfill_signature,
+    anyIf(signature, event_type = 'OrderCancelled') AS cancel_signature,
+    minIf(slot, event_type = 'OrderCreated') AS created_slot,
+    minIf(slot, event_type = 'OrderFulfilled') AS fulfilled_slot,
+    minIf(slot, event_type = 'OrderCancelled') AS cancelled_slot,
+    minIfOrNull(block_time, event_type = 'OrderCreated') AS created_time,
+    minIfOrNull(block_time, event_type = 'OrderFulfilled') AS fulfilled_time,
+    minIfOrNull(block_time, event_type = 'OrderCancelled') AS cancelled_time,
+    minIfOrNull(block_time, event_type = 'SentUnlock') AS unlock_sent_time,
+    minIfOrNull(block_time, event_type = 'ClaimedUnlock') AS unlock_claimed_time,
+    minIfOrNull(block_time, event_type = 'OrderClaimed') AS cancel_claimed_time
+FROM dln.transactions FINAL
+WHERE order_id != ''
+  AND event_type != ''
+  AND status = 'success'
+GROUP BY order_id;
+
+-- ==================================================================
+-- Notes:
+-- ==================================================================
+-- 1. Query with FINAL (or argMax by updated_at) to get the current state of an order
+-- 2. Solana is only one side of most orders: orders created on Solana have no fulfill data
+--    unless the destination chain is Solana as well, and vice versa
+-- 3. Status never moves backwards: 'created' < 'fulfilled' / 'cancelled' < 'claimed',
+--    so events processed out of order don't overwrite a later status
+-- 4. The backfill only restores status, signatures, slots and lifecycle times; reprocess the
+--    signatures of backfilled orders to fill in the order parameters
+--
+-- Example Query:
+--   SELECT order_id, status, maker, taker, give_amount, take_amount
+--   FROM dln.orders FINAL
+--   WHERE order_id = '...';
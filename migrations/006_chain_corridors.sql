@@ -0,0 +1,89 @@
+-- Migration 006: Chain Corridors
+-- Stores the give / take chain ids of the DLN order on every transaction row
+-- and aggregates volume per (date, give chain, take chain)
+-- Chain ids are deBridge chain ids as decimal strings (e.g. '7565164' Solana, '1' Ethereum, '42161' Arbitrum)
+
+-- ==================================================================
+-- Transactions: order chain ids
+-- Filled by the worker from OrderCreated data, or from dln.orders for later events of the order
+-- Empty when the order is unknown (e.g. its creation was not indexed)
+-- ==================================================================
+ALTER TABLE dln.transactions ADD COLUMN IF NOT EXISTS give_chain_id String DEFAULT '' AFTER order_id;
+ALTER TABLE dln.transactions ADD COLUMN IF NOT EXISTS take_chain_id String DEFAULT '' AFTER give_chain_id;
+
+-- ==================================================================
+-- Daily Chain Volume
+-- Use case: volume by corridor (Solana -> Ethereum, Solana -> Arbitrum, ...),
+-- daily volume filtered by give / take chain
+-- ==================================================================
+CREATE MATERIALIZED VIEW IF NOT EXISTS dln.daily_chain_volume
+ENGINE = AggregatingMergeTree()
+PARTITION BY toYYYYMM(date)
+ORDER BY (date, give_chain_id, take_chain_id, program_id, event_type)
+AS SELECT
+    toDate(block_time) AS date,
+    give_chain_id,
+    take_chain_id,
+    program_id,
+    event_type,
+    sumState(amount_usd) AS total_volume_usd,
+    uniqState(signature) AS tx_count,
+    uniqState(order_id) AS unique_orders,
+    uniqState(account) AS unique_accounts,
+    minState(amount_usd) AS min_volume_usd,
+    maxState(amount_usd) AS max_volume_usd
+FROM dln.transactions
+WHERE amount_usd > 0
+  AND status = 'success'
+  AND (give_chain_id != '' OR take_chain_id != '')
+GROUP BY date, give_chain_id, take_chain_id, program_id, event_type;
+
+-- Backfill from transactions stored before this migration, chain ids taken from dln.orders
+INSERT INTO dln.daily_chain_volume
+SELECT
+    toDate(t.block_time) AS date,
+    o.give_chain_id AS give_chain_id,
+    o.take_chain_id AS take_chain_id,
+    t.program_id AS program_id,
+    t.event_type AS event_type,
+    sumState(t.amount_usd) AS total_volume_usd,
+    uniqState(t.signature) AS tx_count,
+    uniqState(t.order_id) AS unique_orders,
+    uniqState(t.account) AS unique_accounts,
+    minState(t.amount_usd) AS min_volume_usd,
+    maxState(t.amount_usd) AS max_volume_usd
+FROM dln.transactions AS t FINAL
+INNER JOIN (
+    SELECT order_id, give_chain_id, take_chain_id
+    FROM dln.orders FINAL
+    WHERE give_chain_id != '' OR take_chain_id != ''
+) AS o ON t.order_id = o.order_id
+WHERE t.amount_usd > 0
+  AND t.status = 'success'
+  AND t.give_chain_id = ''
+  AND t.take_chain_id = ''
+GROUP BY date, give_chain_id, take_chain_id, program_id, event_type;
+
+-- ==================================================================
+-- Notes:
+-- ==================================================================
+-- 1. Only OrderCreated carries the chain ids; fulfill / cancel / unlock rows get them from
+--    dln.orders, so they are empty for orders created before indexing started
+-- 2. The backfill only covers rows without chain ids, rows inserted after this migration
+--    are aggregated by the view itself
+-- 3. The backfill needs the chain ids in dln.orders: orders recorded by the worker have them,
+--    orders backfilled by migration 005 only get them once their OrderCreated transaction
+--    is reprocessed (their rows are aggregated then)
+-- 4. The backfilled rows keep empty chain ids in dln.transactions, so a view rebuild of their
+--    month (pnpm reprice) leaves them out again; rerun this backfill for that month afterwards
+--
+-- Example Query (used by API):
+--   SELECT
+--     give_chain_id,
+--     take_chain_id,
+--     sumMerge(total_volume_usd) AS volume_usd,
+--     uniqMerge(unique_orders) AS orders
+--   FROM dln.daily_chain_volume
+--   WHERE date >= today() - 30
+--   GROUP BY give_chain_id, take_chain_id
+--   ORDER BY volume_usd DESC;
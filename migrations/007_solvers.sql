@@ -0,0 +1,77 @@
+-- Migration 007: Solvers
+-- Stores the fulfiller (solver / taker) of OrderFulfilled transactions
+-- and aggregates fills and filled volume per (date, fulfiller, corridor)
+
+-- ==================================================================
+-- Transactions: fulfiller
+-- Filled by the worker from OrderFulfilled data, empty for other events
+-- ==================================================================
+ALTER TABLE dln.transactions ADD COLUMN IF NOT EXISTS fulfiller String DEFAULT '' AFTER take_chain_id;
+
+-- ==================================================================
+-- Daily Solver Stats
+-- Use case: solver leaderboard (fills, filled volume, market share), per-solver detail
+-- ==================================================================
+CREATE MATERIALIZED VIEW IF NOT EXISTS dln.daily_solver_stats
+ENGINE = AggregatingMergeTree()
+PARTITION BY toYYYYMM(date)
+ORDER BY (date, fulfiller, give_chain_id, take_chain_id)
+AS SELECT
+    toDate(block_time) AS date,
+    fulfiller,
+    give_chain_id,
+    take_chain_id,
+    uniqState(order_id) AS unique_orders,
+    uniqState(signature) AS tx_count,
+    sumState(amount_usd) AS total_volume_usd
+FROM dln.transactions
+WHERE event_type = 'OrderFulfilled'
+  AND fulfiller != ''
+  AND status = 'success'
+GROUP BY date, fulfiller, give_chain_id, take_chain_id;
+
+-- Backfill from fulfill transactions stored before this migration, fulfiller taken from dln.orders
+INSERT INTO dln.daily_solver_stats
+SELECT
+    toDate(t.block_time) AS date,
+    o.taker AS fulfiller,
+    t.give_chain_id AS give_chain_id,
+    t.take_chain_id AS take_chain_id,
+    uniqState(t.order_id) AS unique_orders,
+    uniqState(t.signature) AS tx_count,
+    sumState(t.amount_usd) AS total_volume_usd
+FROM dln.transactions AS t FINAL
+INNER JOIN (
+    SELECT order_id, taker
+    FROM dln.orders FINAL
+    WHERE taker != ''
+) AS o ON t.order_id = o.order_id
+WHERE t.event_type = 'OrderFulfilled'
+  AND t.status = 'success'
+  AND t.fulfiller = ''
+GROUP BY date, fulfiller, give_chain_id, take_chain_id;
+
+-- ==================================================================
+-- Notes:
+-- ==================================================================
+-- 1. Fills are counted per order (uniq order_id), a solver filling an order in several
+--    transactions counts once
+-- 2. total_volume_usd sums the USD amounts of all transfer rows of the fill transactions,
+--    like dln.daily_volume
+-- 3. Fill latency needs the creation time, it is computed from dln.orders (taker = fulfiller)
+-- 4. The backfill takes the fulfiller from dln.orders: orders recorded by the worker have it,
+--    orders backfilled by migration 005 only get it once their fill transaction is reprocessed
+--    (which also aggregates it)
+-- 5. The backfilled rows keep an empty fulfiller in dln.transactions, so a view rebuild of their
+--    month (pnpm reprice) leaves them out again; rerun this backfill for that month afterwards
+--
+-- Example Query (used by API):
+--   SELECT
+--     fulfiller,
+--     uniqMerge(unique_orders) AS fills,
+--     sumMerge(total_volume_usd) AS volume_usd
+--   FROM dln.daily_solver_stats
+--   WHERE date >= today() - 30
+--   GROUP BY fulfiller
+--   ORDER BY volume_usd DESC
+--   LIMIT 20;
@@ -0,0 +1,80 @@
+-- Migration 008: Maker Cohorts
+-- First-seen date and weekly activity per order maker, for cohort and retention analytics
+-- Built from dln.orders: dln.transactions / dln.daily_account_volume track transfer accounts,
+-- which are not necessarily the order maker
+
+-- ==================================================================
+-- Maker First Seen
+-- Use case: cohort of a maker (week of its first order), new vs returning makers
+-- ==================================================================
+CREATE MATERIALIZED VIEW IF NOT EXISTS dln.maker_first_seen
+ENGINE = AggregatingMergeTree()
+ORDER BY maker
+AS SELECT
+    maker,
+    minState(toDate(assumeNotNull(created_time))) AS first_seen_date,
+    maxState(toDate(assumeNotNull(created_time))) AS last_seen_date,
+    uniqState(order_id) AS unique_orders
+FROM dln.orders
+WHERE maker != ''
+  AND created_time IS NOT NULL
+GROUP BY maker;
+
+-- ==================================================================
+-- Maker Weekly Activity
+-- Use case: retention matrix, active / churned makers per week (weeks start on Monday)
+-- ==================================================================
+CREATE MATERIALIZED VIEW IF NOT EXISTS dln.maker_weekly_activity
+ENGINE = AggregatingMergeTree()
+PARTITION BY toYYYYMM(week)
+ORDER BY (week, maker)
+AS SELECT
+    toStartOfWeek(toDate(assumeNotNull(created_time)), 1) AS week,
+    maker,
+    uniqState(order_id) AS unique_orders
+FROM dln.orders
+WHERE maker != ''
+  AND created_time IS NOT NULL
+GROUP BY week, maker;
+
+-- Backfill from orders stored before this migration
+INSERT INTO dln.maker_first_seen
+SELECT
+    maker,
+    minState(toDate(assumeNotNull(created_time))) AS first_seen_date,
+    maxState(toDate(assumeNotNull(created_time))) AS last_seen_date,
+    uniqState(order_id) AS unique_orders
+FROM dln.orders FINAL
+WHERE maker != ''
+  AND created_time IS NOT NULL
+GROUP BY maker;
+
+INSERT INTO dln.maker_weekly_activity
+SELECT
+    toStartOfWeek(toDate(assumeNotNull(created_time)), 1) AS week,
+    maker,
+    uniqState(order_id) AS unique_orders
+FROM dln.orders FINAL
+WHERE maker != ''
+  AND created_time IS NOT NULL
+GROUP BY week, maker;
+
+-- ==================================================================
+-- Notes:
+-- ==================================================================
+-- 1. The worker re-inserts an order row on every lifecycle event, the views only use values
+--    that don't change between versions (maker, created_time, order_id), so duplicates merge away
+-- 2. Only orders created on Solana have a maker and created_time
+-- 3. A maker is active in a week when it created at least one order that week
+-- 4. Orders backfilled by migration 005 have no maker yet; they are aggregated once
+--    their OrderCreated transaction is reprocessed
+--
+-- Example Query (cohort sizes):
+--   SELECT cohort_week, count() AS makers
+--   FROM (
+--     SELECT maker, toStartOfWeek(minMerge(first_seen_date), 1) AS cohort_week
+--     FROM dln.maker_first_seen
+--     GROUP BY maker
+--   )
+--   GROUP BY cohort_week
+--   ORDER BY cohort_week;
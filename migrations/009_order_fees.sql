@@ -0,0 +1,35 @@
+-- Migration 009: Order Fees
+-- Stores the fees of orders created on Solana with their USD value at creation time:
+-- the affiliate fee (and its beneficiary) and the fix / percent protocol fees DLN takes
+-- Fee amounts are base units as strings (like give_amount), USD values are priced by the worker
+
+-- ==================================================================
+-- Orders: fees
+-- Filled by the worker from OrderCreated data (affiliate fee from the instruction arguments,
+-- protocol fees from the CreatedOrder event)
+-- ==================================================================
+ALTER TABLE dln.orders ADD COLUMN IF NOT EXISTS affiliate_fee_beneficiary String DEFAULT '' AFTER affiliate_fee;
+ALTER TABLE dln.orders ADD COLUMN IF NOT EXISTS affiliate_fee_usd Decimal64(8) DEFAULT 0 AFTER affiliate_fee_beneficiary;
+ALTER TABLE dln.orders ADD COLUMN IF NOT EXISTS fix_fee String DEFAULT '' AFTER affiliate_fee_usd;
+ALTER TABLE dln.orders ADD COLUMN IF NOT EXISTS fix_fee_usd Decimal64(8) DEFAULT 0 AFTER fix_fee;
+ALTER TABLE dln.orders ADD COLUMN IF NOT EXISTS percent_fee String DEFAULT '' AFTER fix_fee_usd;
+ALTER TABLE dln.orders ADD COLUMN IF NOT EXISTS percent_fee_usd Decimal64(8) DEFAULT 0 AFTER percent_fee;
+
+CREATE INDEX IF NOT EXISTS idx_orders_affiliate ON dln.orders(affiliate_fee_beneficiary) TYPE bloom_filter(0.01) GRANULARITY 1;
+
+-- ==================================================================
+-- Notes:
+-- ==================================================================
+-- 1. affiliate_fee and percent_fee are in give token base units, fix_fee in lamports (SOL)
+-- 2. Fees are aggregated from dln.orders FINAL rather than a materialized view:
+--    the worker re-inserts the order row on every lifecycle event, so sums over inserted rows
+--    would count an order's fees once per event
+-- 3. Orders created before this migration have no fee data (affiliate_fee is kept as is);
+--    re-process their OrderCreated transactions to fill it in
+--
+-- Example Query (affiliate fees per day):
+--   SELECT toDate(created_time) AS date, affiliate_fee_beneficiary, sum(affiliate_fee_usd) AS fees_usd
+--   FROM dln.orders FINAL
+--   WHERE affiliate_fee_beneficiary != '' AND created_time IS NOT NULL
+--   GROUP BY date, affiliate_fee_beneficiary
+--   ORDER BY date DESC, fees_usd DESC;
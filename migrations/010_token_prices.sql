@@ -0,0 +1,30 @@
+-- Migration 010: Token Prices
+-- Historical USD price per mint and minute, used to price transactions at their block time
+-- Filled by the worker (live prices of recent transactions) and the price backfill job
+
+CREATE TABLE IF NOT EXISTS dln.token_prices (
+    mint String,                                -- Token mint address
+    minute DateTime,                            -- Price time, truncated to the minute (UTC)
+    usd_price Decimal128(18),                   -- USD price of one token (not base unit)
+    source LowCardinality(String),              -- 'jupiter' (live), 'birdeye' (backfill)
+    updated_at DateTime64(3) DEFAULT now64(3)   -- Version column, latest row wins
+)
+ENGINE = ReplacingMergeTree(updated_at)
+PARTITION BY toYYYYMM(minute)
+ORDER BY (mint, minute)
+SETTINGS index_granularity = 8192;
+
+-- ==================================================================
+-- Notes:
+-- ==================================================================
+-- 1. One price per (mint, minute): re-inserting a minute replaces its price after merges
+-- 2. The worker uses the price nearest to the block time within a tolerance
+--    (PRICE_HISTORY_TOLERANCE, default 1 hour); transactions without a price in the
+--    tolerance are only priced live when they are recent (PRICE_LIVE_MAX_AGE)
+-- 3. Run `pnpm --filter @incur-data/worker backfill:prices` to fill the minutes of stored transactions
+--
+-- Example Query (price of a mint nearest to a time):
+--   SELECT argMin(usd_price, abs(dateDiff('second', minute, toDateTime('2026-01-26 10:00:00')))) AS price
+--   FROM dln.token_prices
+--   WHERE mint = 'So11111111111111111111111111111111111111112'
+--     AND minute BETWEEN toDateTime('2026-01-26 09:00:00') AND toDateTime('2026-01-26 11:00:00');
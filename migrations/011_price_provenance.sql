@@ -0,0 +1,27 @@
+-- Migration 011: Price Provenance
+-- Records which price provider priced a transaction row and how reliable the price is
+
+-- ==================================================================
+-- Transactions: price provider and confidence
+-- price_provider: 'history' (dln.token_prices), 'jupiter' (current price), 'stablecoin_peg'
+--                 or '' when no provider had a price
+-- price_confidence: 'high', 'low' (distant stored price, assumed peg), 'none' (unpriced,
+--                   amount_usd is 0) or '' for rows inserted before this migration
+-- ==================================================================
+ALTER TABLE dln.transactions ADD COLUMN IF NOT EXISTS price_provider LowCardinality(String) DEFAULT '' AFTER amount_usd;
+ALTER TABLE dln.transactions ADD COLUMN IF NOT EXISTS price_confidence LowCardinality(String) DEFAULT '' AFTER price_provider;
+
+-- ==================================================================
+-- Notes:
+-- ==================================================================
+-- 1. The worker asks the providers in order (history, jupiter, stablecoin_peg);
+--    the first provider with a price for a mint prices it
+-- 2. Stored prices further from the block time than PRICE_HIGH_CONFIDENCE_DISTANCE
+--    and stablecoin pegs are 'low' confidence
+--
+-- Example Query (share of volume by provider and confidence, last 7 days):
+--   SELECT price_provider, price_confidence, count() AS rows, sum(amount_usd) AS volume_usd
+--   FROM dln.transactions FINAL
+--   WHERE block_time >= now() - INTERVAL 7 DAY AND token_address != ''
+--   GROUP BY price_provider, price_confidence
+--   ORDER BY volume_usd DESC;
@@ -0,0 +1,83 @@
+-- Migration 012: Transaction Events
+-- One row per DLN event (signature, order, event type) of a transaction
+-- dln.transactions holds one row per token balance change, attributed to the first event of the
+-- transaction; batch transactions (e.g. SentUnlock / ClaimedUnlock of several orders) carry
+-- more events, which are only complete here
+
+CREATE TABLE IF NOT EXISTS dln.transaction_events (
+    signature String,                           -- Transaction signature
+    slot UInt64,                                -- Block slot number
+    block_time DateTime,                        -- Block timestamp
+    program_id String,                          -- DLN program that emitted the event
+    status String,                              -- Transaction status: 'success', 'failed'
+    event_type String,                          -- 'OrderCreated', 'SentUnlock', etc.
+    order_id String,                            -- DLN order ID (hex string)
+    updated_at DateTime64(3) DEFAULT now64(3)   -- Version column, latest row wins
+)
+ENGINE = ReplacingMergeTree(updated_at)
+PARTITION BY toYYYYMM(block_time)
+ORDER BY (signature, order_id, event_type)
+SETTINGS index_granularity = 8192;
+
+CREATE INDEX IF NOT EXISTS idx_events_order_id ON dln.transaction_events(order_id) TYPE bloom_filter(0.01) GRANULARITY 1;
+CREATE INDEX IF NOT EXISTS idx_events_block_time ON dln.transaction_events(block_time) TYPE minmax GRANULARITY 1;
+
+-- Backfill from transactions stored before this migration (first event of each transaction only)
+INSERT INTO dln.transaction_events (signature, slot, block_time, program_id, status, event_type, order_id)
+SELECT
+    signature,
+    any(slot),
+    any(block_time),
+    program_id,
+    any(status),
+    event_type,
+    order_id
+FROM dln.transactions FINAL
+WHERE event_type != '' AND order_id != ''
+GROUP BY signature, program_id, event_type, order_id;
+
+-- ==================================================================
+-- Daily Lifecycle Stats (rebuilt from transaction events)
+-- The view of migration 004 read dln.transactions and missed all but the first event of
+-- batch transactions; it carried no meaningful USD volume either
+-- ==================================================================
+DROP VIEW IF EXISTS dln.daily_lifecycle_stats;
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS dln.daily_lifecycle_stats
+ENGINE = AggregatingMergeTree()
+PARTITION BY toYYYYMM(date)
+ORDER BY (date, program_id, event_type)
+AS SELECT
+    toDate(block_time) AS date,
+    program_id,
+    event_type,
+    uniqState(order_id) AS unique_orders,
+    uniqState(signature) AS tx_count
+FROM dln.transaction_events
+WHERE status = 'success' AND event_type != '' AND order_id != ''
+GROUP BY date, program_id, event_type;
+
+INSERT INTO dln.daily_lifecycle_stats
+SELECT
+    toDate(block_time) AS date,
+    program_id,
+    event_type,
+    uniqState(order_id) AS unique_orders,
+    uniqState(signature) AS tx_count
+FROM dln.transaction_events FINAL
+WHERE status = 'success' AND event_type != '' AND order_id != ''
+GROUP BY date, program_id, event_type;
+
+-- ==================================================================
+-- Notes:
+-- ==================================================================
+-- 1. The backfill only recovers the first event of transactions stored before this migration;
+--    reprocess their signatures to restore the other events of batch transactions
+-- 2. Volume views keep reading dln.transactions: token transfers belong to the transaction,
+--    counting them once per event would multiply the volume of batch transactions
+-- 3. Lifecycle latencies are read from dln.orders, which receives every event of a transaction
+--
+-- Example Query (orders unlocked by a batch SentUnlock):
+--   SELECT order_id
+--   FROM dln.transaction_events FINAL
+--   WHERE signature = '...' AND event_type = 'SentUnlock';
@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest';
+import {
+  feesQuerySchema,
+  fillLatencyQuerySchema,
+  getPreviousPeriod,
+  getWeekStart,
+  hourlyVolumeQuerySchema,
+  listWeeks,
+  makerCohortsQuerySchema,
+  resolveVolumeGranularity,
+  solverDetailQuerySchema,
+  solversQuerySchema,
+  topTokensQuerySchema,
+  volumeByChainQuerySchema,
+  volumeComparisonQuerySchema,
+} from '../src/analytics.dto.js';
+
+describe('hourlyVolumeQuerySchema', () => {
+  it('should default to the last 24 hours with auto granularity', () => {
+    const before = Date.now();
+    const result = hourlyVolumeQuerySchema.parse({});
+
+    expect(result.granularity).toBe('auto');
+    expect(result.limit).toBe(500);
+    expect(result.to.getTime()).toBeGreaterThanOrEqual(before);
+    expect(result.to.getTime() - result.from.getTime()).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('should parse ISO datetimes with offset', () => {
+    const result = hourlyVolumeQuerySchema.parse({
+      from: '2024-01-01T00:00:00Z',
+      to: '2024-01-01T12:00:00+02:00',
+      granularity: 'hour',
+      limit: '48',
+    });
+
+    expect(result.from.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(result.to.toISOString()).toBe('2024-01-01T10:00:00.000Z');
+    expect(result.granularity).toBe('hour');
+    expect(result.limit).toBe(48);
+  });
+
+  it('should default from to 24 hours before to', () => {
+    const result = hourlyVolumeQuerySchema.parse({ to: '2024-01-02T00:00:00Z' });
+    expect(result.from.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('should reject dates without time', () => {
+    expect(hourlyVolumeQuerySchema.safeParse({ from: '2024-01-01' }).success).toBe(false);
+  });
+
+  it('should reject from after to', () => {
+    const result = hourlyVolumeQuerySchema.safeParse({
+      from: '2024-01-02T00:00:00Z',
+      to: '2024-01-01T00:00:00Z',
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject unknown granularity', () => {
+    expect(hourlyVolumeQuerySchema.safeParse({ granularity: 'minute' }).success).toBe(false);
+  });
+});
+
+describe('resolveVolumeGranularity', () => {
+  const from = new Date('2024-01-01T00:00:00Z');
+  const after = (days: number) => new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+
+  it('should keep an explicit granularity', () => {
+    expect(resolveVolumeGranularity(from, after(365 * 2), 'hour')).toBe('hour');
+    expect(resolveVolumeGranularity(from, after(1), 'month')).toBe('month');
+  });
+
+  it('should use hourly buckets up to 7 days', () => {
+    expect(resolveVolumeGranularity(from, after(1))).toBe('hour');
+    expect(resolveVolumeGranularity(from, after(7))).toBe('hour');
+  });
+
+  it('should use daily buckets up to 90 days', () => {
+    expect(resolveVolumeGranularity(from, after(8))).toBe('day');
+    expect(resolveVolumeGranularity(from, after(90))).toBe('day');
+  });
+
+  it('should use weekly buckets up to a year and monthly beyond', () => {
+    expect(resolveVolumeGranularity(from, after(91))).toBe('week');
+    expect(resolveVolumeGranularity(from, after(366), 'auto')).toBe('month');
+  });
+});
+
+describe('topTokensQuerySchema', () => {
+  it('should default limit to 10', () => {
+    expect(topTokensQuerySchema.parse({}).limit).toBe(10);
+  });
+
+  it('should coerce limit and accept filters', () => {
+    const result = topTokensQuerySchema.parse({
+      fromDate: '2024-01-01',
+      toDate: '2024-01-31',
+      eventType: 'fulfilled',
+      limit: '25',
+    });
+
+    expect(result.limit).toBe(25);
+    expect(result.eventType).toBe('fulfilled');
+  });
+
+  it('should reject limit above 100', () => {
+    expect(topTokensQuerySchema.safeParse({ limit: 101 }).success).toBe(false);
+  });
+
+  it('should reject malformed dates', () => {
+    expect(topTokensQuerySchema.safeParse({ fromDate: '01/01/2024' }).success).toBe(false);
+  });
+});
+
+describe('volumeByChainQuerySchema', () => {
+  it('should default limit to 50', () => {
+    expect(volumeByChainQuerySchema.parse({}).limit).toBe(50);
+  });
+
+  it('should resolve chain names to DLN chain ids', () => {
+    const result = volumeByChainQuerySchema.parse({ giveChainId: 'solana', takeChainId: '42161' });
+
+    expect(result.giveChainId).toBe('7565164');
+    expect(result.takeChainId).toBe('42161');
+  });
+
+  it('should reject empty chain filters', () => {
+    expect(volumeByChainQuerySchema.safeParse({ giveChainId: '' }).success).toBe(false);
+  });
+});
+
+describe('volumeComparisonQuerySchema', () => {
+  it('should default to the last 7 days', () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const result = volumeComparisonQuerySchema.parse({});
+
+    expect(result.toDate).toBe(today);
+    expect(getPreviousPeriod(result.fromDate, result.toDate).toDate < result.fromDate).toBe(true);
+  });
+
+  it('should default fromDate to 6 days before toDate', () => {
+    const result = volumeComparisonQuerySchema.parse({ toDate: '2024-03-02' });
+    expect(result.fromDate).toBe('2024-02-25');
+  });
+
+  it('should reject fromDate after toDate', () => {
+    const result = volumeComparisonQuerySchema.safeParse({
+      fromDate: '2024-01-10',
+      toDate: '2024-01-01',
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject periods longer than a year', () => {
+    const result = volumeComparisonQuerySchema.safeParse({
+      fromDate: '2023-01-01',
+      toDate: '2024-06-01',
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('getPreviousPeriod', () => {
+  it('should return the week before a week', () => {
+    expect(getPreviousPeriod('2024-01-08', '2024-01-14')).toEqual({
+      fromDate: '2024-01-01',
+      toDate: '2024-01-07',
+    });
+  });
+
+  it('should return the day before a single day', () => {
+    expect(getPreviousPeriod('2024-03-01', '2024-03-01')).toEqual({
+      fromDate: '2024-02-29',
+      toDate: '2024-02-29',
+    });
+  });
+});
+
+describe('fillLatencyQuerySchema', () => {
+  it('should default to daily grouping', () => {
+    const result = fillLatencyQuerySchema.parse({});
+
+    expect(result.groupBy).toBe('day');
+    expect(result.limit).toBe(100);
+  });
+
+  it('should accept token and corridor grouping', () => {
+    const result = fillLatencyQuerySchema.parse({
+      groupBy: 'corridor',
+      giveChainId: 'solana',
+      tokenAddress: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    });
+
+    expect(result.groupBy).toBe('corridor');
+    expect(result.giveChainId).toBe('7565164');
+  });
+
+  it('should reject unknown grouping', () => {
+    expect(fillLatencyQuerySchema.safeParse({ groupBy: 'maker' }).success).toBe(false);
+  });
+});
+
+describe('solversQuerySchema', () => {
+  it('should default limit to 20', () => {
+    expect(solversQuerySchema.parse({}).limit).toBe(20);
+  });
+
+  it('should resolve chain names and reject limit above 100', () => {
+    expect(solversQuerySchema.parse({ takeChainId: 'arbitrum' }).takeChainId).toBe('42161');
+    expect(solversQuerySchema.safeParse({ limit: 101 }).success).toBe(false);
+  });
+
+  it('should not accept limit on solver detail', () => {
+    expect(solverDetailQuerySchema.parse({ limit: 5 })).not.toHaveProperty('limit');
+  });
+});
+
+describe('feesQuerySchema', () => {
+  it('should default limit to 50', () => {
+    expect(feesQuerySchema.parse({}).limit).toBe(50);
+  });
+
+  it('should resolve chain names and validate the affiliate address', () => {
+    expect(feesQuerySchema.parse({ takeChainId: 'ethereum' }).takeChainId).toBe('1');
+    expect(feesQuerySchema.safeParse({ affiliate: 'not-an-address' }).success).toBe(false);
+  });
+});
+
+describe('getWeekStart', () => {
+  it('should return the Monday of the week', () => {
+    expect(getWeekStart('2024-01-03')).toBe('2024-01-01');
+    expect(getWeekStart('2024-01-07')).toBe('2024-01-01');
+  });
+
+  it('should keep Mondays', () => {
+    expect(getWeekStart('2024-01-08')).toBe('2024-01-08');
+  });
+});
+
+describe('listWeeks', () => {
+  it('should list week starts inclusively', () => {
+    expect(listWeeks('2024-01-01', '2024-01-15')).toEqual(['2024-01-01', '2024-01-08', '2024-01-15']);
+  });
+});
+
+describe('makerCohortsQuerySchema', () => {
+  it('should default to 12 weeks ending with the current week', () => {
+    const result = makerCohortsQuerySchema.parse({});
+
+    expect(result.weeks).toBe(12);
+    expect(listWeeks(result.fromWeek, result.toWeek)).toHaveLength(12);
+  });
+
+  it('should align the range to weeks', () => {
+    const result = makerCohortsQuerySchema.parse({ toDate: '2024-01-17', weeks: '3' });
+
+    expect(result.toWeek).toBe('2024-01-15');
+    expect(result.fromWeek).toBe('2024-01-01');
+  });
+
+  it('should reject more than 52 weeks', () => {
+    expect(makerCohortsQuerySchema.safeParse({ weeks: 53 }).success).toBe(false);
+  });
+});
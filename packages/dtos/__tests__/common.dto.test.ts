@@ -5,6 +5,8 @@ import {
   paginatedResponseSchema,
   chainIdSchema,
   transactionStatusSchema,
+  getDlnChainName,
+  resolveDlnChainId,
 } from '../src/common.dto.js';
 import { z } from 'zod';
 
@@ -474,3 +476,26 @@ describe('transactionStatusSchema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('getDlnChainName', () => {
+  it('should map DLN chain ids to names', () => {
+    expect(getDlnChainName('7565164')).toBe('solana');
+    expect(getDlnChainName('42161')).toBe('arbitrum');
+  });
+
+  it('should return null for unknown chain ids', () => {
+    expect(getDlnChainName('999999')).toBeNull();
+  });
+});
+
+describe('resolveDlnChainId', () => {
+  it('should resolve chain names case-insensitively', () => {
+    expect(resolveDlnChainId('Solana')).toBe('7565164');
+    expect(resolveDlnChainId('ethereum')).toBe('1');
+  });
+
+  it('should pass chain ids through', () => {
+    expect(resolveDlnChainId('42161')).toBe('42161');
+    expect(resolveDlnChainId('999999')).toBe('999999');
+  });
+});
@@ -4,6 +4,8 @@ import {
   orderStatusSchema,
   orderFiltersSchema,
   orderStatsSchema,
+  orderListQuerySchema,
+  orderIdParamSchema,
   type OrderDto,
   type OrderStatus,
 } from '../src/order.dto.js';
@@ -463,3 +465,60 @@ describe('orderStatsSchema', () => {
     expect(result.success).toBe(true);
   });
 });
+
+describe('orderListQuerySchema', () => {
+  it('should apply pagination defaults', () => {
+    const result = orderListQuerySchema.safeParse({ status: 'cancelled' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.page).toBe(1);
+      expect(result.data.pageSize).toBe(20);
+      expect(result.data.sortOrder).toBe('desc');
+      expect(result.data.status).toBe('cancelled');
+    }
+  });
+
+  it('should coerce pagination from query strings', () => {
+    const result = orderListQuerySchema.safeParse({ page: '3', pageSize: '50', maker: 'maker1' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.page).toBe(3);
+      expect(result.data.pageSize).toBe(50);
+    }
+  });
+
+  it('should reject pageSize above 100', () => {
+    const result = orderListQuerySchema.safeParse({ pageSize: 101 });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('orderIdParamSchema', () => {
+  const orderId = 'ab'.repeat(32);
+
+  it('should accept a 32-byte hex order id', () => {
+    const result = orderIdParamSchema.safeParse({ orderId });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.orderId).toBe(orderId);
+    }
+  });
+
+  it('should normalize 0x prefix and case', () => {
+    const result = orderIdParamSchema.safeParse({ orderId: `0x${orderId.toUpperCase()}` });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.orderId).toBe(orderId);
+    }
+  });
+
+  it('should reject ids that are not 32 bytes', () => {
+    expect(orderIdParamSchema.safeParse({ orderId: 'abcdef' }).success).toBe(false);
+    expect(orderIdParamSchema.safeParse({ orderId: `${orderId}00` }).success).toBe(false);
+  });
+
+  it('should reject non-hex ids', () => {
+    const result = orderIdParamSchema.safeParse({ orderId: 'zz'.repeat(32) });
+    expect(result.success).toBe(false);
+  });
+});
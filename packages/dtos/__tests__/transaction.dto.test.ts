@@ -5,6 +5,10 @@ import {
   transactionStatsSchema,
   txIngestMessageSchema,
   createTxIngestMessage,
+  solanaSignatureSchema,
+  solanaAddressSchema,
+  transactionCursorSchema,
+  accountTransactionsQuerySchema,
   type TransactionDto,
   type TxIngestMessage,
 } from '../src/transaction.dto.js';
@@ -627,3 +631,53 @@ describe('createTxIngestMessage', () => {
     expect(() => createTxIngestMessage(invalidParams)).toThrow();
   });
 });
+
+describe('solanaSignatureSchema', () => {
+  const signature = '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW';
+
+  it('should accept a base58 signature', () => {
+    expect(solanaSignatureSchema.safeParse(signature).success).toBe(true);
+  });
+
+  it('should reject characters outside the base58 alphabet', () => {
+    expect(solanaSignatureSchema.safeParse(`${signature.slice(0, -1)}0`).success).toBe(false);
+    expect(solanaSignatureSchema.safeParse(`${signature.slice(0, -1)}'`).success).toBe(false);
+  });
+
+  it('should reject too short signatures', () => {
+    expect(solanaSignatureSchema.safeParse(signature.slice(0, 40)).success).toBe(false);
+  });
+});
+
+describe('solanaAddressSchema', () => {
+  it('should accept a base58 address', () => {
+    expect(solanaAddressSchema.safeParse('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4').success).toBe(true);
+  });
+
+  it('should reject non-base58 addresses', () => {
+    expect(solanaAddressSchema.safeParse('0x742d35Cc6634C0532925a3b844Bc454e4438f44e').success).toBe(false);
+  });
+});
+
+describe('transactionCursorSchema', () => {
+  it('should reject a cursor with an invalid signature', () => {
+    const result = transactionCursorSchema.safeParse({ blockTime: 1700000000, signature: "x' OR 1=1" });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('accountTransactionsQuerySchema', () => {
+  it('should apply default limit', () => {
+    const result = accountTransactionsQuerySchema.safeParse({});
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.limit).toBe(20);
+    }
+  });
+
+  it('should coerce limit and reject values above 100', () => {
+    const ok = accountTransactionsQuerySchema.safeParse({ limit: '50' });
+    expect(ok.success && ok.data.limit).toBe(50);
+    expect(accountTransactionsQuerySchema.safeParse({ limit: '101' }).success).toBe(false);
+  });
+});
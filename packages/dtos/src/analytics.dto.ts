@@ -4,16 +4,34 @@
  */
 
 import { z } from 'zod';
+import { resolveDlnChainId } from './common.dto.js';
+import { solanaAddressSchema } from './transaction.dto.js';
+
+/**
+ * Order lifecycle event type filter
+ */
+export const volumeEventTypeSchema = z.enum([
+  'created',
+  'fulfilled',
+  'cancelled',
+  'claimed',
+  'sentUnlock',
+  'claimedUnlock',
+]);
+
+export type VolumeEventTypeDto = z.infer<typeof volumeEventTypeSchema>;
 
 /**
  * Volume query filters schema
- * Note: Simplified schema doesn't support chain_id or token pair filtering
+ * Chain filters are DLN chain ids (see DLN_CHAIN_NAMES); token pair filtering is not supported
  */
 export const volumeQueryFiltersSchema = z.object({
   fromDate: z.string().optional(),
   toDate: z.string().optional(),
-  eventType: z.enum(['created', 'fulfilled']).optional(),
+  eventType: volumeEventTypeSchema.optional(),
   programId: z.string().optional(),
+  giveChainId: z.string().optional(),
+  takeChainId: z.string().optional(),
   limit: z.number().int().positive().max(1000).optional(),
 });
 
@@ -21,13 +39,13 @@ export type VolumeQueryFiltersDto = z.infer<typeof volumeQueryFiltersSchema>;
 
 /**
  * Daily volume result schema
- * Note: giveChainId and takeChainId are empty strings in simplified schema
+ * Note: giveChainId and takeChainId are empty strings unless filtered by chain
  */
 export const dailyVolumeResultSchema = z.object({
   date: z.string(),
-  eventType: z.string(), // 'OrderCreated', 'OrderFulfilled', or 'unknown'
-  giveChainId: z.string(), // Empty string in simplified schema
-  takeChainId: z.string(), // Empty string in simplified schema
+  eventType: z.string(), // 'OrderCreated', 'OrderFulfilled', 'OrderCancelled', 'OrderClaimed', 'SentUnlock', 'ClaimedUnlock' or 'unknown'
+  giveChainId: z.string(), // Empty string unless filtered by chain
+  takeChainId: z.string(), // Empty string unless filtered by chain
   totalVolumeUsd: z.string(),
   orderCount: z.number().int().nonnegative(),
   avgOrderUsd: z.string(),
@@ -61,12 +79,12 @@ export type VolumeStatsResultDto = z.infer<typeof volumeStatsResultSchema>;
 
 /**
  * Daily volume summary schema
- * Note: giveChainId and takeChainId are empty strings in simplified schema
+ * Note: giveChainId and takeChainId are empty strings unless filtered by chain
  */
 export const dailyVolumeSummaryResultSchema = z.object({
   date: z.string(),
-  giveChainId: z.string(), // Empty string in simplified schema
-  takeChainId: z.string(), // Empty string in simplified schema
+  giveChainId: z.string(), // Empty string unless filtered by chain
+  takeChainId: z.string(), // Empty string unless filtered by chain
   createdVolumeUsd: z.string(),
   createdCount: z.number().int().nonnegative(),
   createdAvgUsd: z.string(),
@@ -83,12 +101,13 @@ export type DailyVolumeSummaryResultDto = z.infer<typeof dailyVolumeSummaryResul
 
 /**
  * Volume comparison schema
- * Note: giveChainId and takeChainId are empty strings in simplified schema
+ * Orders are matched to their fulfillment: unfulfilled are created orders that were not fulfilled
+ * Note: giveChainId and takeChainId are empty strings unless filtered by chain
  */
 export const volumeComparisonResultSchema = z.object({
   date: z.string(),
-  giveChainId: z.string(), // Empty string in simplified schema
-  takeChainId: z.string(), // Empty string in simplified schema
+  giveChainId: z.string(), // Empty string unless filtered by chain
+  takeChainId: z.string(), // Empty string unless filtered by chain
   created: z.object({
     volumeUsd: z.string(),
     count: z.number().int().nonnegative(),
@@ -108,6 +127,107 @@ export const volumeComparisonResultSchema = z.object({
 
 export type VolumeComparisonResultDto = z.infer<typeof volumeComparisonResultSchema>;
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Default comparison period length in days (this week vs last week)
+ */
+export const DEFAULT_COMPARISON_PERIOD_DAYS = 7;
+
+/**
+ * Maximum comparison period length in days
+ */
+export const MAX_COMPARISON_PERIOD_DAYS = 366;
+
+const isoDate = (date: Date): string => date.toISOString().slice(0, 10);
+const parseIsoDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+/**
+ * Volume comparison query schema
+ * toDate defaults to today (UTC), fromDate to the start of a 7 day period ending on toDate
+ */
+export const volumeComparisonQuerySchema = z
+  .object({
+    fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    giveChainId: z.string().min(1).transform(resolveDlnChainId).optional(),
+    takeChainId: z.string().min(1).transform(resolveDlnChainId).optional(),
+  })
+  .transform(query => {
+    const toDate = query.toDate ?? isoDate(new Date());
+    const fromDate =
+      query.fromDate ??
+      isoDate(new Date(parseIsoDate(toDate).getTime() - (DEFAULT_COMPARISON_PERIOD_DAYS - 1) * DAY_MS));
+    return { ...query, fromDate, toDate };
+  })
+  .refine(query => query.fromDate <= query.toDate, {
+    message: 'fromDate must not be after toDate',
+    path: ['fromDate'],
+  })
+  .refine(
+    query =>
+      (parseIsoDate(query.toDate).getTime() - parseIsoDate(query.fromDate).getTime()) / DAY_MS <
+      MAX_COMPARISON_PERIOD_DAYS,
+    { message: `Period must not exceed ${MAX_COMPARISON_PERIOD_DAYS} days`, path: ['fromDate'] }
+  );
+
+export type VolumeComparisonQueryDto = z.infer<typeof volumeComparisonQuerySchema>;
+
+/**
+ * Get the period of the same length right before fromDate..toDate (both inclusive, YYYY-MM-DD)
+ */
+export function getPreviousPeriod(fromDate: string, toDate: string): { fromDate: string; toDate: string } {
+  const from = parseIsoDate(fromDate).getTime();
+  const days = Math.round((parseIsoDate(toDate).getTime() - from) / DAY_MS) + 1;
+
+  return {
+    fromDate: isoDate(new Date(from - days * DAY_MS)),
+    toDate: isoDate(new Date(from - DAY_MS)),
+  };
+}
+
+/**
+ * Volume comparison totals of a period
+ */
+export const volumeComparisonTotalsSchema = volumeComparisonResultSchema
+  .omit({ date: true, giveChainId: true, takeChainId: true })
+  .extend({
+    fromDate: z.string(),
+    toDate: z.string(),
+  });
+
+export type VolumeComparisonTotalsDto = z.infer<typeof volumeComparisonTotalsSchema>;
+
+/**
+ * Period-over-period deltas
+ * Volume and count deltas are percent changes (null when the previous period is zero),
+ * fulfillmentRate is the change in percentage points
+ */
+export const volumeComparisonDeltaSchema = z.object({
+  createdVolumeUsd: z.number().nullable(),
+  createdCount: z.number().nullable(),
+  fulfilledVolumeUsd: z.number().nullable(),
+  fulfilledCount: z.number().nullable(),
+  unfulfilledVolumeUsd: z.number().nullable(),
+  unfulfilledCount: z.number().nullable(),
+  fulfillmentRate: z.number(),
+});
+
+export type VolumeComparisonDeltaDto = z.infer<typeof volumeComparisonDeltaSchema>;
+
+/**
+ * Volume comparison of a period against the previous period of the same length
+ */
+export const volumePeriodComparisonResultSchema = z.object({
+  current: volumeComparisonTotalsSchema,
+  previous: volumeComparisonTotalsSchema,
+  deltas: volumeComparisonDeltaSchema,
+  days: z.array(volumeComparisonResultSchema), // Current period, newest first
+});
+
+export type VolumePeriodComparisonResultDto = z.infer<typeof volumePeriodComparisonResultSchema>;
+
 /**
  * Volume time series point schema
  */
@@ -141,11 +261,63 @@ export const topTokenPairByVolumeSchema = z.object({
 export type TopTokenPairByVolumeDto = z.infer<typeof topTokenPairByVolumeSchema>;
 
 /**
- * Volume by chain schema
+ * Top tokens query schema
+ */
+export const topTokensQuerySchema = z.object({
+  fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  eventType: volumeEventTypeSchema.optional(),
+  programId: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(10),
+});
+
+export type TopTokensQueryDto = z.infer<typeof topTokensQuerySchema>;
+
+/**
+ * Top token by volume schema
+ * symbol / name / decimals are null when the mint could not be resolved
+ */
+export const topTokenByVolumeSchema = z.object({
+  rank: z.number().int().positive(),
+  tokenAddress: z.string(),
+  symbol: z.string().nullable(),
+  name: z.string().nullable(),
+  decimals: z.number().int().nonnegative().nullable(),
+  logoUri: z.string().nullable(),
+  totalVolumeUsd: z.string(),
+  txCount: z.number().int().nonnegative(),
+  avgVolumeUsd: z.string(),
+  uniqueAccounts: z.number().int().nonnegative(), // Summed over days, upper bound for multi-day ranges
+  volumeShare: z.number().min(0).max(100), // Percentage of the volume of all tokens in the range
+});
+
+export type TopTokenByVolumeDto = z.infer<typeof topTokenByVolumeSchema>;
+
+/**
+ * Volume by chain query schema
+ * Chain filters accept a DLN chain id or a chain name ('solana', 'arbitrum', ...)
+ */
+export const volumeByChainQuerySchema = z.object({
+  fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  programId: z.string().optional(),
+  giveChainId: z.string().min(1).transform(resolveDlnChainId).optional(),
+  takeChainId: z.string().min(1).transform(resolveDlnChainId).optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(50),
+});
+
+export type VolumeByChainQueryDto = z.infer<typeof volumeByChainQuerySchema>;
+
+/**
+ * Volume by chain corridor schema (give chain -> take chain)
+ * Chain names are null for chain ids missing from DLN_CHAIN_NAMES
  */
 export const volumeByChainResultSchema = z.object({
   giveChainId: z.string(),
   takeChainId: z.string(),
+  giveChainName: z.string().nullable(),
+  takeChainName: z.string().nullable(),
+  totalVolumeUsd: z.string(),
   createdVolumeUsd: z.string(),
   fulfilledVolumeUsd: z.string(),
   orderCount: z.number().int().nonnegative(),
@@ -176,6 +348,460 @@ export const totalStatsResultSchema = z.object({
 
 export type TotalStatsResultDto = z.infer<typeof totalStatsResultSchema>;
 
+/**
+ * Daily order lifecycle stats schema
+ * Counts include events without USD amount (cancellations and unlocks often have none)
+ */
+export const dailyLifecycleStatsResultSchema = z.object({
+  date: z.string(),
+  createdCount: z.number().int().nonnegative(),
+  fulfilledCount: z.number().int().nonnegative(),
+  cancelledCount: z.number().int().nonnegative(),
+  claimedCount: z.number().int().nonnegative(),
+  sentUnlockCount: z.number().int().nonnegative(),
+  claimedUnlockCount: z.number().int().nonnegative(),
+  cancellationRate: z.number().min(0).max(100), // cancelled / (fulfilled + cancelled), percentage 0-100
+  avgUnlockLatencySeconds: z.number().nonnegative().nullable(), // OrderFulfilled -> SentUnlock
+  avgClaimLatencySeconds: z.number().nonnegative().nullable(), // OrderCreated -> ClaimedUnlock
+});
+
+export type DailyLifecycleStatsResultDto = z.infer<typeof dailyLifecycleStatsResultSchema>;
+
+/**
+ * Grouping of fill latency stats: per fulfillment day, per give token or per chain corridor
+ */
+export const fillLatencyGroupBySchema = z.enum(['day', 'token', 'corridor']);
+
+export type FillLatencyGroupByDto = z.infer<typeof fillLatencyGroupBySchema>;
+
+/**
+ * Fill latency query schema
+ * Dates filter on the fulfillment day
+ */
+export const fillLatencyQuerySchema = z.object({
+  fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  groupBy: fillLatencyGroupBySchema.default('day'),
+  tokenAddress: solanaAddressSchema.optional(), // Give token
+  giveChainId: z.string().min(1).transform(resolveDlnChainId).optional(),
+  takeChainId: z.string().min(1).transform(resolveDlnChainId).optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+export type FillLatencyQueryDto = z.infer<typeof fillLatencyQuerySchema>;
+
+/**
+ * Latency distribution (average and quantiles)
+ */
+export const latencyDistributionSchema = z.object({
+  avg: z.number().nonnegative(),
+  p50: z.number().nonnegative(),
+  p90: z.number().nonnegative(),
+  p99: z.number().nonnegative(),
+});
+
+export type LatencyDistributionDto = z.infer<typeof latencyDistributionSchema>;
+
+/**
+ * Fill latency (OrderCreated -> OrderFulfilled) of one group
+ * Only the fields of the requested grouping are set, the others are null
+ */
+export const fillLatencyResultSchema = z.object({
+  date: z.string().nullable(),
+  tokenAddress: z.string().nullable(),
+  giveChainId: z.string().nullable(),
+  takeChainId: z.string().nullable(),
+  orderCount: z.number().int().nonnegative(), // Orders with both events matched
+  seconds: latencyDistributionSchema,
+  slots: latencyDistributionSchema.nullable(), // Null when no order has both slots
+});
+
+export type FillLatencyResultDto = z.infer<typeof fillLatencyResultSchema>;
+
+/**
+ * Solver leaderboard query schema
+ * Dates filter on the fill day
+ */
+export const solversQuerySchema = z.object({
+  fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  giveChainId: z.string().min(1).transform(resolveDlnChainId).optional(),
+  takeChainId: z.string().min(1).transform(resolveDlnChainId).optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export type SolversQueryDto = z.infer<typeof solversQuerySchema>;
+
+/**
+ * Solver detail query schema
+ */
+export const solverDetailQuerySchema = solversQuerySchema.omit({ limit: true });
+
+export type SolverDetailQueryDto = z.infer<typeof solverDetailQuerySchema>;
+
+/**
+ * Solver (order fulfiller) leaderboard entry
+ * Shares are percentages 0-100 of all fills / filled volume in the range
+ */
+export const solverLeaderboardEntrySchema = z.object({
+  rank: z.number().int().positive(),
+  fulfiller: z.string(),
+  fillCount: z.number().int().nonnegative(),
+  fillShare: z.number().min(0).max(100),
+  volumeUsd: z.string(),
+  volumeShare: z.number().min(0).max(100), // Market share by filled volume
+  avgFillUsd: z.string(),
+  medianFillLatencySeconds: z.number().nonnegative().nullable(), // Null when no fill is matched to its creation
+});
+
+export type SolverLeaderboardEntryDto = z.infer<typeof solverLeaderboardEntrySchema>;
+
+/**
+ * Fills of a solver per day
+ */
+export const solverDailyStatsSchema = z.object({
+  date: z.string(),
+  fillCount: z.number().int().nonnegative(),
+  volumeUsd: z.string(),
+});
+
+export type SolverDailyStatsDto = z.infer<typeof solverDailyStatsSchema>;
+
+/**
+ * Fills of a solver per chain corridor
+ */
+export const solverCorridorStatsSchema = z.object({
+  giveChainId: z.string(),
+  takeChainId: z.string(),
+  giveChainName: z.string().nullable(),
+  takeChainName: z.string().nullable(),
+  fillCount: z.number().int().nonnegative(),
+  volumeUsd: z.string(),
+});
+
+export type SolverCorridorStatsDto = z.infer<typeof solverCorridorStatsSchema>;
+
+/**
+ * Solver detail: totals, fill latency distribution, daily fills and corridors
+ */
+export const solverDetailResultSchema = z.object({
+  fulfiller: z.string(),
+  fillCount: z.number().int().nonnegative(),
+  fillShare: z.number().min(0).max(100),
+  volumeUsd: z.string(),
+  volumeShare: z.number().min(0).max(100),
+  avgFillUsd: z.string(),
+  latencySeconds: latencyDistributionSchema.nullable(), // Null when no fill is matched to its creation
+  daily: z.array(solverDailyStatsSchema), // Newest first
+  corridors: z.array(solverCorridorStatsSchema), // By volume
+});
+
+export type SolverDetailResultDto = z.infer<typeof solverDetailResultSchema>;
+
+/**
+ * Fees query schema
+ * Dates filter on the order creation day; fees are only known for orders created on Solana
+ */
+export const feesQuerySchema = z.object({
+  fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  takeChainId: z.string().min(1).transform(resolveDlnChainId).optional(),
+  affiliate: solanaAddressSchema.optional(), // Affiliate fee beneficiary
+  limit: z.coerce.number().int().positive().max(500).default(50), // Number of affiliates
+});
+
+export type FeesQueryDto = z.infer<typeof feesQuerySchema>;
+
+/**
+ * Fee totals of a set of orders
+ * Protocol fees are the fix fee (SOL) plus the percent fee (give token) DLN takes
+ */
+export const feeTotalsSchema = z.object({
+  orderCount: z.number().int().nonnegative(),
+  affiliateOrderCount: z.number().int().nonnegative(), // Orders with an affiliate fee
+  affiliateFeeUsd: z.string(),
+  fixFeeUsd: z.string(),
+  percentFeeUsd: z.string(),
+  protocolFeeUsd: z.string(),
+});
+
+export type FeeTotalsDto = z.infer<typeof feeTotalsSchema>;
+
+/**
+ * Fee totals of the orders created on a day
+ */
+export const dailyFeesSchema = feeTotalsSchema.extend({
+  date: z.string(),
+});
+
+export type DailyFeesDto = z.infer<typeof dailyFeesSchema>;
+
+/**
+ * Affiliate fees earned in one give token
+ */
+export const affiliateFeeTokenSchema = z.object({
+  tokenAddress: z.string(),
+  amount: z.string(), // Base units
+  amountUsd: z.string(), // USD value at order creation
+});
+
+export type AffiliateFeeTokenDto = z.infer<typeof affiliateFeeTokenSchema>;
+
+/**
+ * Affiliate fees earned by one beneficiary
+ */
+export const affiliateFeesSchema = z.object({
+  beneficiary: z.string(),
+  orderCount: z.number().int().nonnegative(),
+  volumeUsd: z.string(), // Give amount of the affiliate's orders
+  feeUsd: z.string(),
+  tokens: z.array(affiliateFeeTokenSchema), // By USD value
+});
+
+export type AffiliateFeesDto = z.infer<typeof affiliateFeesSchema>;
+
+/**
+ * Fee analytics: totals, fees per creation day and per affiliate
+ */
+export const feesResultSchema = z.object({
+  totals: feeTotalsSchema,
+  daily: z.array(dailyFeesSchema), // Newest first
+  affiliates: z.array(affiliateFeesSchema), // By affiliate fee USD
+});
+
+export type FeesResultDto = z.infer<typeof feesResultSchema>;
+
+/**
+ * Default and maximum number of weeks of maker cohort analytics
+ */
+export const DEFAULT_COHORT_WEEKS = 12;
+export const MAX_COHORT_WEEKS = 52;
+
+/**
+ * Get the Monday (UTC) of the week of a YYYY-MM-DD date
+ */
+export function getWeekStart(date: string): string {
+  const day = parseIsoDate(date);
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  return isoDate(new Date(day.getTime() - daysSinceMonday * DAY_MS));
+}
+
+/**
+ * List week starts from fromWeek to toWeek (both inclusive, Mondays)
+ */
+export function listWeeks(fromWeek: string, toWeek: string): string[] {
+  const weeks: string[] = [];
+  const end = parseIsoDate(toWeek).getTime();
+
+  for (let time = parseIsoDate(fromWeek).getTime(); time <= end; time += 7 * DAY_MS) {
+    weeks.push(isoDate(new Date(time)));
+  }
+
+  return weeks;
+}
+
+/**
+ * Maker cohorts query schema
+ * Covers `weeks` weeks ending with the week of toDate (default: current week)
+ */
+export const makerCohortsQuerySchema = z
+  .object({
+    toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    weeks: z.coerce.number().int().positive().max(MAX_COHORT_WEEKS).default(DEFAULT_COHORT_WEEKS),
+  })
+  .transform(query => {
+    const toWeek = getWeekStart(query.toDate ?? isoDate(new Date()));
+    const fromWeek = isoDate(new Date(parseIsoDate(toWeek).getTime() - (query.weeks - 1) * 7 * DAY_MS));
+    return { weeks: query.weeks, fromWeek, toWeek };
+  });
+
+export type MakerCohortsQueryDto = z.infer<typeof makerCohortsQuerySchema>;
+
+/**
+ * Maker cohorts filters as sent by clients (before defaults and week alignment)
+ */
+export type MakerCohortsFiltersDto = z.input<typeof makerCohortsQuerySchema>;
+
+/**
+ * Activity of a cohort in a later week
+ */
+export const makerCohortRetentionSchema = z.object({
+  weekOffset: z.number().int().nonnegative(), // 0 = cohort week
+  week: z.string(),
+  activeMakers: z.number().int().nonnegative(),
+  retentionRate: z.number().min(0).max(100), // activeMakers / cohort size, percentage 0-100
+});
+
+export type MakerCohortRetentionDto = z.infer<typeof makerCohortRetentionSchema>;
+
+/**
+ * Makers that created their first order in cohortWeek, with their weekly retention
+ */
+export const makerCohortSchema = z.object({
+  cohortWeek: z.string(),
+  size: z.number().int().nonnegative(),
+  retention: z.array(makerCohortRetentionSchema),
+});
+
+export type MakerCohortDto = z.infer<typeof makerCohortSchema>;
+
+/**
+ * New / returning / churned makers of a week
+ * Churned makers were active in the previous week but not in this one
+ */
+export const makerActivityPeriodSchema = z.object({
+  week: z.string(),
+  activeMakers: z.number().int().nonnegative(),
+  newMakers: z.number().int().nonnegative(),
+  returningMakers: z.number().int().nonnegative(),
+  churnedMakers: z.number().int().nonnegative(),
+});
+
+export type MakerActivityPeriodDto = z.infer<typeof makerActivityPeriodSchema>;
+
+/**
+ * Maker cohort analytics: retention matrix and weekly activity
+ */
+export const makerCohortsResultSchema = z.object({
+  fromWeek: z.string(),
+  toWeek: z.string(),
+  cohorts: z.array(makerCohortSchema), // Oldest cohort first
+  periods: z.array(makerActivityPeriodSchema), // Oldest week first
+});
+
+export type MakerCohortsResultDto = z.infer<typeof makerCohortsResultSchema>;
+
+/**
+ * Time bucket size of a volume time series
+ * 'auto' picks the bucket from the requested range (see resolveVolumeGranularity)
+ */
+export const volumeGranularitySchema = z.enum(['auto', 'hour', 'day', 'week', 'month']);
+
+export type VolumeGranularityDto = z.infer<typeof volumeGranularitySchema>;
+
+export type ResolvedVolumeGranularity = Exclude<VolumeGranularityDto, 'auto'>;
+
+/**
+ * Hourly volume query schema
+ * from/to are ISO 8601 datetimes; to defaults to now and from to 24 hours before to
+ */
+export const hourlyVolumeQuerySchema = z
+  .object({
+    from: z.string().datetime({ offset: true }).optional(),
+    to: z.string().datetime({ offset: true }).optional(),
+    granularity: volumeGranularitySchema.default('auto'),
+    eventType: volumeEventTypeSchema.optional(),
+    programId: z.string().optional(),
+    limit: z.coerce.number().int().positive().max(1000).default(500),
+  })
+  .transform((query) => {
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - DAY_MS);
+    return { ...query, from, to };
+  })
+  .refine((query) => query.from.getTime() < query.to.getTime(), {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export type HourlyVolumeQueryDto = z.infer<typeof hourlyVolumeQuerySchema>;
+
+/**
+ * Hourly volume query parameters as sent by clients (before defaults are applied)
+ */
+export type HourlyVolumeFiltersDto = z.input<typeof hourlyVolumeQuerySchema>;
+
+/**
+ * Pick the bucket size for a time range
+ * Hourly buckets up to 7 days (dln.hourly_volume), daily up to 90 days, weekly up to a year, monthly beyond
+ */
+export function resolveVolumeGranularity(
+  from: Date,
+  to: Date,
+  granularity: VolumeGranularityDto = 'auto',
+): ResolvedVolumeGranularity {
+  if (granularity !== 'auto') {
+    return granularity;
+  }
+
+  const rangeMs = to.getTime() - from.getTime();
+  if (rangeMs <= 7 * DAY_MS) return 'hour';
+  if (rangeMs <= 90 * DAY_MS) return 'day';
+  if (rangeMs <= 365 * DAY_MS) return 'week';
+  return 'month';
+}
+
+/**
+ * Volume time series bucket schema
+ * uniqueAccounts is summed over hours / days, so it is an upper bound for wider buckets
+ */
+export const volumeBucketResultSchema = z.object({
+  bucket: z.string(), // ISO 8601 start of the bucket (UTC)
+  eventType: z.string(),
+  totalVolumeUsd: z.string(),
+  txCount: z.number().int().nonnegative(),
+  avgVolumeUsd: z.string(),
+  minVolumeUsd: z.string(),
+  maxVolumeUsd: z.string(),
+  uniqueAccounts: z.number().int().nonnegative(),
+});
+
+export type VolumeBucketResultDto = z.infer<typeof volumeBucketResultSchema>;
+
+/**
+ * Volume time series result schema
+ */
+export const volumeTimeSeriesResultSchema = z.object({
+  granularity: volumeGranularitySchema.exclude(['auto']),
+  from: z.string(),
+  to: z.string(),
+  buckets: z.array(volumeBucketResultSchema),
+});
+
+export type VolumeTimeSeriesResultDto = z.infer<typeof volumeTimeSeriesResultSchema>;
+
+/**
+ * Account stats query schema
+ */
+export const accountStatsQuerySchema = z.object({
+  fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  programId: solanaAddressSchema.optional(),
+});
+
+export type AccountStatsQueryDto = z.infer<typeof accountStatsQuerySchema>;
+
+/**
+ * Account daily stats schema
+ * txCount / totalReceivedUsd from dln.account_stats, volume from dln.daily_account_volume
+ */
+export const accountDailyStatsSchema = z.object({
+  date: z.string(),
+  programId: z.string(),
+  txCount: z.number().int().nonnegative(),
+  totalReceivedUsd: z.string(),
+  volumeUsd: z.string(),
+  uniqueTokens: z.number().int().nonnegative(),
+});
+
+export type AccountDailyStatsDto = z.infer<typeof accountDailyStatsSchema>;
+
+/**
+ * Account stats result schema
+ */
+export const accountStatsResultSchema = z.object({
+  account: z.string(),
+  totals: z.object({
+    txCount: z.number().int().nonnegative(),
+    totalReceivedUsd: z.string(),
+    volumeUsd: z.string(),
+    activeDays: z.number().int().nonnegative(),
+  }),
+  daily: z.array(accountDailyStatsSchema),
+});
+
+export type AccountStatsResultDto = z.infer<typeof accountStatsResultSchema>;
+
 /**
  * Health status schema
  */
@@ -56,6 +56,39 @@ export const chainIdSchema = z.union([
 
 export type ChainId = z.infer<typeof chainIdSchema>;
 
+/**
+ * deBridge (DLN) chain ids -> chain names
+ * DLN orders carry numeric chain ids, Solana uses a custom id
+ */
+export const DLN_CHAIN_NAMES: Record<string, string> = {
+  '1': 'ethereum',
+  '10': 'optimism',
+  '56': 'bsc',
+  '137': 'polygon',
+  '8453': 'base',
+  '42161': 'arbitrum',
+  '43114': 'avalanche',
+  '59144': 'linea',
+  '7565164': 'solana',
+};
+
+/**
+ * Get the chain name of a DLN chain id (null when unknown)
+ */
+export function getDlnChainName(chainId: string): string | null {
+  return DLN_CHAIN_NAMES[chainId] ?? null;
+}
+
+/**
+ * Resolve a chain filter value to a DLN chain id
+ * Accepts a chain name ('solana', 'arbitrum', ...) or a chain id
+ */
+export function resolveDlnChainId(value: string): string {
+  const normalized = value.trim().toLowerCase();
+  const entry = Object.entries(DLN_CHAIN_NAMES).find(([, name]) => name === normalized);
+  return entry ? entry[0] : value.trim();
+}
+
 /**
  * Transaction status
  */
@@ -15,8 +15,18 @@ export type {
   VolumeQueryFiltersDto as VolumeQueryFilters,
   VolumeStatsResultDto as VolumeStatsResult,
   VolumeComparisonResultDto as VolumeComparisonResult,
+  VolumePeriodComparisonResultDto as VolumePeriodComparisonResult,
   VolumeTimeSeriesPointDto as VolumeTimeSeriesPoint,
   TopTokenPairByVolumeDto as TopTokenPairByVolume,
+  TopTokenByVolumeDto as TopTokenByVolume,
   VolumeByChainResultDto as VolumeByChainResult,
   TotalStatsResultDto as TotalStatsResult,
+  DailyLifecycleStatsResultDto as DailyLifecycleStatsResult,
+  FillLatencyResultDto as FillLatencyResult,
+  SolverLeaderboardEntryDto as SolverLeaderboardEntry,
+  SolverDetailResultDto as SolverDetailResult,
+  MakerCohortsResultDto as MakerCohortsResult,
+  FeesResultDto as FeesResult,
+  VolumeTimeSeriesResultDto as VolumeTimeSeriesResult,
+  AccountStatsResultDto as AccountStatsResult,
 } from './analytics.dto.js';
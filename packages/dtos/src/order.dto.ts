@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { timestampSchema, chainIdSchema } from './common.dto.js';
+import { timestampSchema, chainIdSchema, paginationSchema } from './common.dto.js';
 
 /**
  * DLN Order status
@@ -35,6 +35,7 @@ export const orderDtoSchema = z.object({
   fulfilledSlot: z.number().int().positive().optional(),
   expirySlot: z.number().int().positive().optional(),
   affiliateFee: z.string().optional(),
+  affiliateFeeBeneficiary: z.string().optional(),
   allowedTaker: z.string().optional(),
   allowedCancelBeneficiary: z.string().optional(),
   externalCall: z.string().optional(),
@@ -81,3 +82,101 @@ export const orderStatsSchema = z.object({
 });
 
 export type OrderStats = z.infer<typeof orderStatsSchema>;
+
+/**
+ * Order list query (filters + pagination)
+ */
+export const orderListQuerySchema = orderFiltersSchema.merge(paginationSchema);
+
+export type OrderListQuery = z.infer<typeof orderListQuerySchema>;
+
+/**
+ * Order id path parameter
+ * Accepts 0x-prefixed or upper-case hex, normalized to the stored lower-case form
+ */
+export const orderIdParamSchema = z.object({
+  orderId: z
+    .string()
+    .transform((value) => value.trim().toLowerCase().replace(/^0x/, ''))
+    .pipe(z.string().regex(/^[a-f0-9]{64}$/, 'orderId must be a 32-byte hex string')),
+});
+
+export type OrderIdParam = z.infer<typeof orderIdParamSchema>;
+
+/**
+ * Token transfer recorded for an order event
+ */
+export const orderTransferSchema = z.object({
+  account: z.string(),
+  tokenAddress: z.string(),
+  amount: z.string(),
+  amountUsd: z.string(),
+});
+
+export type OrderTransfer = z.infer<typeof orderTransferSchema>;
+
+/**
+ * Single lifecycle event of an order (one transaction)
+ */
+export const orderLifecycleEventSchema = z.object({
+  eventType: z.string(), // 'OrderCreated', 'OrderFulfilled', 'OrderCancelled', 'OrderClaimed', 'SentUnlock', 'ClaimedUnlock'
+  signature: z.string(),
+  slot: z.number().int().nonnegative(),
+  blockTime: z.string(),
+  programId: z.string(),
+  status: z.string(),
+  amountUsd: z.string(),
+  transfers: z.array(orderTransferSchema),
+});
+
+export type OrderLifecycleEvent = z.infer<typeof orderLifecycleEventSchema>;
+
+/**
+ * Order summary (current lifecycle state)
+ * Fields of the chain side not indexed on Solana are empty strings / null
+ */
+export const orderSummarySchema = z.object({
+  orderId: z.string(),
+  status: orderStatusSchema,
+  maker: z.string(),
+  taker: z.string(),
+  receiver: z.string(),
+  giveChainId: chainIdSchema,
+  takeChainId: chainIdSchema,
+  giveTokenAddress: z.string(),
+  takeTokenAddress: z.string(),
+  giveAmount: z.string(),
+  takeAmount: z.string(),
+  giveAmountUsd: z.string(),
+  takeAmountUsd: z.string(),
+  signatures: z.object({
+    create: z.string().nullable(),
+    fulfill: z.string().nullable(),
+    cancel: z.string().nullable(),
+  }),
+  createdSlot: z.number().int().positive().nullable(),
+  fulfilledSlot: z.number().int().positive().nullable(),
+  cancelledSlot: z.number().int().positive().nullable(),
+  timing: z.object({
+    createdAt: z.string().nullable(),
+    fulfilledAt: z.string().nullable(),
+    cancelledAt: z.string().nullable(),
+    unlockSentAt: z.string().nullable(),
+    unlockClaimedAt: z.string().nullable(),
+    cancelClaimedAt: z.string().nullable(),
+    fillDurationSeconds: z.number().nonnegative().nullable(), // createdAt -> fulfilledAt
+    settlementDurationSeconds: z.number().nonnegative().nullable(), // fulfilledAt -> unlockClaimedAt
+  }),
+  updatedAt: z.string(),
+});
+
+export type OrderSummary = z.infer<typeof orderSummarySchema>;
+
+/**
+ * Order detail (summary + all lifecycle events)
+ */
+export const orderDetailSchema = orderSummarySchema.extend({
+  events: z.array(orderLifecycleEventSchema),
+});
+
+export type OrderDetail = z.infer<typeof orderDetailSchema>;
@@ -52,3 +52,16 @@ export const tokenPairStatsSchema = z.object({
 });
 
 export type TokenPairStats = z.infer<typeof tokenPairStatsSchema>;
+
+/**
+ * Token metadata resolved for display (symbol / name / decimals of a mint)
+ */
+export const tokenMetadataSchema = tokenDtoSchema.pick({
+  address: true,
+  symbol: true,
+  name: true,
+  decimals: true,
+  logoUri: true,
+});
+
+export type TokenMetadataDto = z.infer<typeof tokenMetadataSchema>;
@@ -43,6 +43,72 @@ export const transactionFiltersSchema = z.object({
 
 export type TransactionFilters = z.infer<typeof transactionFiltersSchema>;
 
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+/**
+ * Solana transaction signature (base58, 64 bytes)
+ */
+export const solanaSignatureSchema = z
+  .string()
+  .min(64)
+  .max(88)
+  .regex(BASE58_PATTERN, 'Invalid transaction signature');
+
+/**
+ * Solana account address (base58, 32 bytes)
+ */
+export const solanaAddressSchema = z
+  .string()
+  .min(32)
+  .max(44)
+  .regex(BASE58_PATTERN, 'Invalid Solana address');
+
+/**
+ * Token transfer stored for a transaction
+ */
+export const transactionTransferSchema = z.object({
+  account: z.string(),
+  tokenAddress: z.string(),
+  amount: z.string(),
+  amountUsd: z.string(),
+  instructionType: z.string(), // 'send', 'receive' or 'unknown'
+});
+
+export type TransactionTransfer = z.infer<typeof transactionTransferSchema>;
+
+/**
+ * Indexed transaction: TransactionDto plus the DLN event and token transfers stored for it
+ * fee and instructions are not indexed ('0' and [])
+ */
+export const transactionRecordSchema = transactionDtoSchema.extend({
+  eventType: z.string(),
+  orderId: z.string(),
+  transfers: z.array(transactionTransferSchema),
+});
+
+export type TransactionRecord = z.infer<typeof transactionRecordSchema>;
+
+/**
+ * Cursor position for transaction pagination (block_time, signature)
+ */
+export const transactionCursorSchema = z.object({
+  blockTime: z.number().int().nonnegative(),
+  signature: solanaSignatureSchema,
+});
+
+export type TransactionCursor = z.infer<typeof transactionCursorSchema>;
+
+/**
+ * Account transaction history query
+ */
+export const accountTransactionsQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  programId: solanaAddressSchema.optional(),
+});
+
+export type AccountTransactionsQuery = z.infer<typeof accountTransactionsQuerySchema>;
+
 /**
  * Transaction statistics
  */
@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import { QueryBuilder, query, queries } from '../src/query-builder.js';
+
+describe('query', () => {
+  it('should build a select of all columns without clauses', () => {
+    const built = query('transactions').build();
+
+    expect(built.query).toBe('SELECT * FROM dln.transactions');
+    expect(built.query_params).toEqual({});
+  });
+
+  it('should build select, group by, order by, limit and offset in order', () => {
+    const built = query('transactions')
+      .select('program_id', 'count() AS tx_count')
+      .where('status', '=', 'success')
+      .groupBy('program_id')
+      .orderBy('tx_count', 'DESC')
+      .limit(10)
+      .offset(20)
+      .build();
+
+    expect(built.query).toBe(
+      'SELECT program_id, count() AS tx_count FROM dln.transactions' +
+        ' WHERE status = {p0:String} GROUP BY program_id ORDER BY tx_count DESC LIMIT 10 OFFSET 20'
+    );
+    expect(built.query_params).toEqual({ p0: 'success' });
+  });
+
+  it('should create a QueryBuilder instance', () => {
+    expect(query('orders')).toBeInstanceOf(QueryBuilder);
+  });
+});
+
+describe('QueryBuilder.where', () => {
+  it('should type placeholders from the column type', () => {
+    const built = query('transactions')
+      .where('signature', '=', 'sig')
+      .where('slot', '>=', 100)
+      .where('amount_usd', '>', 0)
+      .build();
+
+    expect(built.query).toBe(
+      'SELECT * FROM dln.transactions' +
+        ' WHERE signature = {p0:String} AND slot >= {p1:UInt64} AND amount_usd > {p2:Decimal64(8)}'
+    );
+    expect(built.query_params).toEqual({ p0: 'sig', p1: 100, p2: 0 });
+  });
+
+  it('should unwrap Nullable and LowCardinality column types', () => {
+    const built = query('orders')
+      .where('status', '=', 'fulfilled')
+      .where('created_time', '>=', new Date('2026-01-01T00:00:00Z'))
+      .build();
+
+    expect(built.query).toBe(
+      'SELECT * FROM dln.orders WHERE status = {p0:String} AND created_time >= {p1:DateTime}'
+    );
+  });
+
+  it('should send Date columns as YYYY-MM-DD', () => {
+    const built = query('daily_program_stats')
+      .where('date', '>=', new Date('2026-02-03T15:30:00Z'))
+      .build();
+
+    expect(built.query_params).toEqual({ p0: '2026-02-03' });
+  });
+
+  it('should send DateTime columns as unix seconds', () => {
+    const built = query('transactions')
+      .where('block_time', '<', new Date('2026-02-03T15:30:00.750Z'))
+      .build();
+
+    expect(built.query_params).toEqual({ p0: 1770132600 });
+  });
+
+  it('should send DateTime64 columns as unix seconds with milliseconds', () => {
+    const built = query('orders')
+      .where('updated_at', '>', new Date('2026-02-03T15:30:00.750Z'))
+      .build();
+
+    expect(built.query).toBe('SELECT * FROM dln.orders WHERE updated_at > {p0:DateTime64(3)}');
+    expect(built.query_params).toEqual({ p0: '1770132600.750' });
+  });
+
+  it('should pass date strings through unchanged', () => {
+    const built = query('daily_volume').where('date', '=', '2026-02-03').build();
+
+    expect(built.query_params).toEqual({ p0: '2026-02-03' });
+  });
+
+  it('should bind IN lists as typed arrays', () => {
+    const built = query('transactions')
+      .where('event_type', 'IN', ['OrderCreated', 'OrderFulfilled'])
+      .where('slot', 'NOT IN', [1, 2])
+      .build();
+
+    expect(built.query).toBe(
+      'SELECT * FROM dln.transactions' +
+        ' WHERE event_type IN {p0:Array(String)} AND slot NOT IN {p1:Array(UInt64)}'
+    );
+    expect(built.query_params).toEqual({ p0: ['OrderCreated', 'OrderFulfilled'], p1: [1, 2] });
+  });
+
+  it('should format dates inside IN lists', () => {
+    const built = query('daily_volume')
+      .where('date', 'IN', [new Date('2026-02-03T00:00:00Z'), '2026-02-04'])
+      .build();
+
+    expect(built.query).toBe('SELECT * FROM dln.daily_volume WHERE date IN {p0:Array(Date)}');
+    expect(built.query_params).toEqual({ p0: ['2026-02-03', '2026-02-04'] });
+  });
+
+  it('should never interpolate values into the query', () => {
+    const value = "x' OR 1=1 --";
+    const built = query('transactions').where('account', '=', value).build();
+
+    expect(built.query).not.toContain(value);
+    expect(built.query_params).toEqual({ p0: value });
+  });
+
+  it('should reject unknown columns', () => {
+    const builder = query('transactions') as unknown as QueryBuilder<'orders'>;
+
+    expect(() => builder.where('maker', '=', 'maker')).toThrow(
+      'Unknown column maker in table transactions'
+    );
+  });
+
+  it('should reject unknown operators', () => {
+    const builder = query('transactions') as unknown as {
+      where: (column: string, operator: string, value: unknown) => unknown;
+    };
+
+    expect(() => builder.where('slot', 'LIKE', 1)).toThrow('Invalid operator LIKE for column slot');
+  });
+
+  it('should reject list operators without an array', () => {
+    const builder = query('transactions') as unknown as {
+      where: (column: string, operator: string, value: unknown) => unknown;
+    };
+
+    expect(() => builder.where('slot', 'IN', 1)).toThrow('Operator IN requires an array of values');
+  });
+
+  it('should reject arrays for comparison operators', () => {
+    const builder = query('transactions') as unknown as {
+      where: (column: string, operator: string, value: unknown) => unknown;
+    };
+
+    expect(() => builder.where('slot', '=', [1, 2])).toThrow('Invalid operator = for column slot');
+  });
+});
+
+describe('QueryBuilder.whereRaw', () => {
+  it('should add the condition and its params', () => {
+    const built = query('transactions')
+      .where('program_id', '=', 'program')
+      .whereRaw('(block_time, signature) < (toDateTime({cursorTime:UInt32}), {cursorSignature:String})', {
+        cursorTime: 1770132600,
+        cursorSignature: 'sig',
+      })
+      .build();
+
+    expect(built.query).toBe(
+      'SELECT * FROM dln.transactions WHERE program_id = {p0:String}' +
+        ' AND (block_time, signature) < (toDateTime({cursorTime:UInt32}), {cursorSignature:String})'
+    );
+    expect(built.query_params).toEqual({ p0: 'program', cursorTime: 1770132600, cursorSignature: 'sig' });
+  });
+
+  it('should reject params already bound by where()', () => {
+    const builder = query('transactions').where('slot', '=', 1);
+
+    expect(() => builder.whereRaw('account = {p0:String}', { p0: 'account' })).toThrow(
+      'Duplicate query parameter p0'
+    );
+  });
+
+  it('should not let where() overwrite params bound by whereRaw()', () => {
+    const built = query('transactions')
+      .whereRaw('account IN ({p0:String}, {p1:String})', { p0: 'first', p1: 'second' })
+      .where('slot', '=', 1)
+      .build();
+
+    expect(built.query).toBe(
+      'SELECT * FROM dln.transactions' +
+        ' WHERE account IN ({p0:String}, {p1:String}) AND slot = {p2:UInt64}'
+    );
+    expect(built.query_params).toEqual({ p0: 'first', p1: 'second', p2: 1 });
+  });
+});
+
+describe('QueryBuilder.limit / offset', () => {
+  it('should accept zero', () => {
+    const built = query('transactions').limit(0).offset(0).build();
+
+    expect(built.query).toBe('SELECT * FROM dln.transactions LIMIT 0 OFFSET 0');
+  });
+
+  it.each([-1, 1.5, Number.NaN, Number.POSITIVE_INFINITY])('should reject limit %s', (value) => {
+    expect(() => query('transactions').limit(value)).toThrow(`Invalid limit: ${value}`);
+  });
+
+  it.each([-1, 2.5, Number.NaN])('should reject offset %s', (value) => {
+    expect(() => query('transactions').offset(value)).toThrow(`Invalid offset: ${value}`);
+  });
+});
+
+describe('QueryBuilder.build', () => {
+  it('should return a copy of the params', () => {
+    const builder = query('transactions').where('slot', '=', 1);
+    const built = builder.build();
+    built.query_params.p0 = 2;
+
+    expect(builder.build().query_params).toEqual({ p0: 1 });
+  });
+});
+
+describe('queries', () => {
+  it('should build the transaction by signature lookup', () => {
+    const built = queries.getTransactionBySignature('sig').build();
+
+    expect(built.query).toBe('SELECT * FROM dln.transactions WHERE signature = {p0:String} LIMIT 1');
+    expect(built.query_params).toEqual({ p0: 'sig' });
+  });
+
+  it('should bind the date range of daily program stats as dates', () => {
+    const built = queries
+      .getDailyProgramStats('program', new Date('2026-01-01T00:00:00Z'), new Date('2026-01-31T00:00:00Z'))
+      .build();
+
+    expect(built.query).toBe(
+      'SELECT * FROM dln.daily_program_stats' +
+        ' WHERE program_id = {p0:String} AND date >= {p1:Date} AND date <= {p2:Date} ORDER BY date ASC'
+    );
+    expect(built.query_params).toEqual({ p0: 'program', p1: '2026-01-01', p2: '2026-01-31' });
+  });
+});
@@ -1,13 +1,278 @@
 import type { ClickHouseClient } from '@clickhouse/client';
 import type { TableName, TableSchemas } from './schema.js';
 
+/**
+ * ClickHouse column types per table, used to type query parameters
+ * Must list every column of TableSchemas (checked at compile time)
+ */
+export const TABLE_COLUMN_TYPES: {
+  [T in TableName]: { [K in keyof TableSchemas[T]]: string };
+} = {
+  transactions: {
+    signature: 'String',
+    slot: 'UInt64',
+    block_time: 'DateTime',
+    program_id: 'String',
+    account: 'String',
+    token_address: 'String',
+    amount: 'String',
+    amount_usd: 'Decimal64(8)',
+    price_provider: 'LowCardinality(String)',
+    price_confidence: 'LowCardinality(String)',
+    status: 'String',
+    instruction_type: 'String',
+    event_type: 'String',
+    order_id: 'String',
+    give_chain_id: 'String',
+    take_chain_id: 'String',
+    fulfiller: 'String',
+    created_at: 'DateTime',
+    updated_at: 'DateTime',
+  },
+  orders: {
+    order_id: 'String',
+    status: 'LowCardinality(String)',
+    last_event_type: 'String',
+    maker: 'String',
+    taker: 'String',
+    receiver: 'String',
+    unlock_beneficiary: 'String',
+    cancel_beneficiary: 'String',
+    give_chain_id: 'String',
+    give_token_address: 'String',
+    give_amount: 'String',
+    give_amount_usd: 'Decimal64(8)',
+    take_chain_id: 'String',
+    take_token_address: 'String',
+    take_amount: 'String',
+    take_amount_usd: 'Decimal64(8)',
+    expiry_slot: 'UInt64',
+    affiliate_fee: 'String',
+    affiliate_fee_beneficiary: 'String',
+    affiliate_fee_usd: 'Decimal64(8)',
+    fix_fee: 'String',
+    fix_fee_usd: 'Decimal64(8)',
+    percent_fee: 'String',
+    percent_fee_usd: 'Decimal64(8)',
+    allowed_taker: 'String',
+    allowed_cancel_beneficiary: 'String',
+    create_signature: 'String',
+    fulfill_signature: 'String',
+    cancel_signature: 'String',
+    created_slot: 'UInt64',
+    fulfilled_slot: 'UInt64',
+    cancelled_slot: 'UInt64',
+    created_time: 'Nullable(DateTime)',
+    fulfilled_time: 'Nullable(DateTime)',
+    cancelled_time: 'Nullable(DateTime)',
+    unlock_sent_time: 'Nullable(DateTime)',
+    unlock_claimed_time: 'Nullable(DateTime)',
+    cancel_claimed_time: 'Nullable(DateTime)',
+    created_at: 'DateTime',
+    updated_at: 'DateTime64(3)',
+  },
+  token_prices: {
+    mint: 'String',
+    minute: 'DateTime',
+    usd_price: 'Decimal128(18)',
+    source: 'LowCardinality(String)',
+    updated_at: 'DateTime64(3)',
+  },
+  transaction_events: {
+    signature: 'String',
+    slot: 'UInt64',
+    block_time: 'DateTime',
+    program_id: 'String',
+    status: 'String',
+    event_type: 'String',
+    order_id: 'String',
+    updated_at: 'DateTime64(3)',
+  },
+  daily_program_stats: {
+    date: 'Date',
+    program_id: 'String',
+    tx_count: 'UInt64',
+    total_volume_usd: 'Decimal128(8)',
+    unique_accounts: 'UInt64',
+    success_count: 'UInt64',
+    failed_count: 'UInt64',
+  },
+  account_stats: {
+    date: 'Date',
+    account: 'String',
+    program_id: 'String',
+    tx_count: 'UInt64',
+    total_received_usd: 'Decimal128(8)',
+    unique_tokens: 'UInt64',
+  },
+  hourly_volume: {
+    hour: 'DateTime',
+    program_id: 'String',
+    event_type: 'String',
+    total_volume_usd: 'Decimal128(8)',
+    tx_count: 'UInt64',
+    avg_volume_usd: 'Float64',
+    min_volume_usd: 'Decimal64(8)',
+    max_volume_usd: 'Decimal64(8)',
+    unique_accounts: 'UInt64',
+    unique_tokens: 'UInt64',
+  },
+  daily_volume: {
+    date: 'Date',
+    program_id: 'String',
+    event_type: 'String',
+    total_volume_usd: 'Decimal128(8)',
+    tx_count: 'UInt64',
+    avg_volume_usd: 'Float64',
+    min_volume_usd: 'Decimal64(8)',
+    max_volume_usd: 'Decimal64(8)',
+    unique_accounts: 'UInt64',
+    unique_tokens: 'UInt64',
+    success_count: 'UInt64',
+    failed_count: 'UInt64',
+  },
+  hourly_token_volume: {
+    hour: 'DateTime',
+    token_address: 'String',
+    program_id: 'String',
+    total_volume_usd: 'Decimal128(8)',
+    tx_count: 'UInt64',
+    avg_volume_usd: 'Float64',
+    unique_accounts: 'UInt64',
+  },
+  daily_token_volume: {
+    date: 'Date',
+    token_address: 'String',
+    program_id: 'String',
+    total_volume_usd: 'Decimal128(8)',
+    tx_count: 'UInt64',
+    avg_volume_usd: 'Float64',
+    unique_accounts: 'UInt64',
+  },
+  daily_account_volume: {
+    date: 'Date',
+    account: 'String',
+    program_id: 'String',
+    total_volume_usd: 'Decimal128(8)',
+    tx_count: 'UInt64',
+    avg_volume_usd: 'Float64',
+    unique_tokens: 'UInt64',
+  },
+  daily_lifecycle_stats: {
+    date: 'Date',
+    program_id: 'String',
+    event_type: 'String',
+    unique_orders: 'AggregateFunction(uniq, String)',
+    tx_count: 'AggregateFunction(uniq, String)',
+  },
+  daily_chain_volume: {
+    date: 'Date',
+    give_chain_id: 'String',
+    take_chain_id: 'String',
+    program_id: 'String',
+    event_type: 'String',
+    total_volume_usd: 'AggregateFunction(sum, Decimal64(8))',
+    tx_count: 'AggregateFunction(uniq, String)',
+    unique_orders: 'AggregateFunction(uniq, String)',
+    unique_accounts: 'AggregateFunction(uniq, String)',
+    min_volume_usd: 'AggregateFunction(min, Decimal64(8))',
+    max_volume_usd: 'AggregateFunction(max, Decimal64(8))',
+  },
+  daily_solver_stats: {
+    date: 'Date',
+    fulfiller: 'String',
+    give_chain_id: 'String',
+    take_chain_id: 'String',
+    unique_orders: 'AggregateFunction(uniq, String)',
+    tx_count: 'AggregateFunction(uniq, String)',
+    total_volume_usd: 'AggregateFunction(sum, Decimal64(8))',
+  },
+  maker_first_seen: {
+    maker: 'String',
+    first_seen_date: 'AggregateFunction(min, Date)',
+    last_seen_date: 'AggregateFunction(max, Date)',
+    unique_orders: 'AggregateFunction(uniq, String)',
+  },
+  maker_weekly_activity: {
+    week: 'Date',
+    maker: 'String',
+    unique_orders: 'AggregateFunction(uniq, String)',
+  },
+};
+
+/**
+ * Comparison operators for single values
+ */
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * Operators taking a list of values
+ */
+export type ListOperator = 'IN' | 'NOT IN';
+
+const COMPARISON_OPERATORS: ReadonlySet<string> = new Set(['=', '!=', '<', '<=', '>', '>=']);
+const LIST_OPERATORS: ReadonlySet<string> = new Set(['IN', 'NOT IN']);
+
+/**
+ * Column name of a table
+ */
+export type ColumnName<T extends TableName> = keyof TableSchemas[T] & string;
+
+/**
+ * Value accepted for a column (Date columns also accept 'YYYY-MM-DD' / ClickHouse date strings)
+ */
+export type ColumnValue<T extends TableName, K extends ColumnName<T>> =
+  NonNullable<TableSchemas[T][K]> extends Date ? Date | string : NonNullable<TableSchemas[T][K]>;
+
+/**
+ * Query parameters bound to {name:Type} placeholders
+ */
+export type QueryParams = Record<string, unknown>;
+
+/**
+ * Built query with its parameters (pass both to ClickHouseClient.query)
+ */
+export interface BuiltQuery {
+  query: string;
+  query_params: QueryParams;
+}
+
+/**
+ * Parameter type for a column type (placeholders don't take Nullable / LowCardinality wrappers)
+ */
+function toParamType(columnType: string): string {
+  const wrapper = columnType.match(/^(?:Nullable|LowCardinality)\((.+)\)$/);
+  return wrapper?.[1] ? toParamType(wrapper[1]) : columnType;
+}
+
+/**
+ * Format a value for a parameter of the given type
+ * Dates are sent as 'YYYY-MM-DD' for Date and as unix timestamps for DateTime columns
+ */
+function toParamValue(paramType: string, value: unknown): unknown {
+  if (!(value instanceof Date)) {
+    return value;
+  }
+  if (paramType === 'Date') {
+    return value.toISOString().split('T')[0];
+  }
+  if (paramType.startsWith('DateTime64')) {
+    return (value.getTime() / 1000).toFixed(3);
+  }
+  return Math.floor(value.getTime() / 1000);
+}
+
 /**
  * Query builder for ClickHouse queries
+ * Values are never interpolated: where() binds them as {name:Type} parameters typed from the column.
+ * select / groupBy / orderBy take SQL fragments and must not contain user input
  */
 export class QueryBuilder<T extends TableName> {
   private tableName: T;
   private selectFields: string[] = ['*'];
   private whereConditions: string[] = [];
+  private params: QueryParams = {};
+  private paramCount = 0;
   private orderByFields: Array<{ field: string; direction: 'ASC' | 'DESC' }> = [];
   private limitValue?: number;
   private offsetValue?: number;
@@ -26,10 +291,54 @@ export class QueryBuilder<T extends TableName> {
   }
 
   /**
-   * Add WHERE condition
+   * Add WHERE condition on a column, the value is bound as a typed parameter
    */
-  where(condition: string): this {
+  where<K extends ColumnName<T>>(column: K, operator: ComparisonOperator, value: ColumnValue<T, K>): this;
+  where<K extends ColumnName<T>>(column: K, operator: ListOperator, values: ColumnValue<T, K>[]): this;
+  where<K extends ColumnName<T>>(
+    column: K,
+    operator: ComparisonOperator | ListOperator,
+    value: ColumnValue<T, K> | ColumnValue<T, K>[],
+  ): this {
+    const columnTypes: Record<string, string> = TABLE_COLUMN_TYPES[this.tableName];
+    const columnType = columnTypes[column];
+    if (!columnType) {
+      throw new Error(`Unknown column ${column} in table ${this.tableName}`);
+    }
+
+    const paramType = toParamType(columnType);
+    const name = this.nextParamName();
+
+    if (LIST_OPERATORS.has(operator)) {
+      if (!Array.isArray(value)) {
+        throw new Error(`Operator ${operator} requires an array of values`);
+      }
+      this.whereConditions.push(`${column} ${operator} {${name}:Array(${paramType})}`);
+      this.params[name] = value.map((item) => toParamValue(paramType, item));
+      return this;
+    }
+
+    if (!COMPARISON_OPERATORS.has(operator) || Array.isArray(value)) {
+      throw new Error(`Invalid operator ${operator} for column ${column}`);
+    }
+
+    this.whereConditions.push(`${column} ${operator} {${name}:${paramType}}`);
+    this.params[name] = toParamValue(paramType, value);
+    return this;
+  }
+
+  /**
+   * Add a WHERE expression that can't be expressed as column/operator/value
+   * Values must be passed in params and referenced as {name:Type} placeholders, never interpolated
+   */
+  whereRaw(condition: string, params: QueryParams = {}): this {
+    for (const name of Object.keys(params)) {
+      if (name in this.params) {
+        throw new Error(`Duplicate query parameter ${name}`);
+      }
+    }
     this.whereConditions.push(condition);
+    Object.assign(this.params, params);
     return this;
   }
 
@@ -53,7 +362,7 @@ export class QueryBuilder<T extends TableName> {
    * Add LIMIT clause
    */
   limit(limit: number): this {
-    this.limitValue = limit;
+    this.limitValue = this.assertNonNegativeInteger('limit', limit);
     return this;
   }
 
@@ -61,14 +370,14 @@ export class QueryBuilder<T extends TableName> {
    * Add OFFSET clause
    */
   offset(offset: number): this {
-    this.offsetValue = offset;
+    this.offsetValue = this.assertNonNegativeInteger('offset', offset);
     return this;
   }
 
   /**
-   * Build the SQL query
+   * Build the SQL query and its parameters
    */
-  build(): string {
+  build(): BuiltQuery {
     let query = `SELECT ${this.selectFields.join(', ')} FROM dln.${this.tableName}`;
 
     if (this.whereConditions.length > 0) {
@@ -94,16 +403,35 @@ export class QueryBuilder<T extends TableName> {
       query += ` OFFSET ${this.offsetValue}`;
     }
 
-    return query;
+    return { query, query_params: { ...this.params } };
   }
 
   /**
    * Execute the query
+   * Pass a row type when select() / groupBy() change the shape of the rows
+   */
+  async execute<R = TableSchemas[T]>(client: ClickHouseClient): Promise<R[]> {
+    const { query, query_params } = this.build();
+    const result = await client.query({ query, query_params, format: 'JSONEachRow' });
+    return (await result.json()) as R[];
+  }
+
+  /**
+   * Next generated parameter name, skipping names already bound by whereRaw()
    */
-  async execute(client: ClickHouseClient): Promise<TableSchemas[T][]> {
-    const query = this.build();
-    const result = await client.query({ query });
-    return (await result.json()) as TableSchemas[T][];
+  private nextParamName(): string {
+    let name: string;
+    do {
+      name = `p${this.paramCount++}`;
+    } while (name in this.params);
+    return name;
+  }
+
+  private assertNonNegativeInteger(name: string, value: number): number {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return value;
   }
 }
 
@@ -122,7 +450,7 @@ export const queries = {
    * Get transaction by signature
    */
   getTransactionBySignature(signature: string): QueryBuilder<'transactions'> {
-    return query('transactions').where(`signature = '${signature}'`).limit(1);
+    return query('transactions').where('signature', '=', signature).limit(1);
   },
 
   /**
@@ -130,7 +458,7 @@ export const queries = {
    */
   getTransactionsByAccount(account: string, limit: number = 100): QueryBuilder<'transactions'> {
     return query('transactions')
-      .where(`account = '${account}'`)
+      .where('account', '=', account)
       .orderBy('block_time', 'DESC')
       .limit(limit);
   },
@@ -140,7 +468,7 @@ export const queries = {
    */
   getTransactionsByProgram(programId: string, limit: number = 100): QueryBuilder<'transactions'> {
     return query('transactions')
-      .where(`program_id = '${programId}'`)
+      .where('program_id', '=', programId)
       .orderBy('block_time', 'DESC')
       .limit(limit);
   },
@@ -154,8 +482,8 @@ export const queries = {
     limit: number = 100,
   ): QueryBuilder<'transactions'> {
     return query('transactions')
-      .where(`account = '${account}'`)
-      .where(`program_id = '${programId}'`)
+      .where('account', '=', account)
+      .where('program_id', '=', programId)
       .orderBy('block_time', 'DESC')
       .limit(limit);
   },
@@ -176,9 +504,9 @@ export const queries = {
     endDate: Date,
   ): QueryBuilder<'daily_program_stats'> {
     return query('daily_program_stats')
-      .where(`program_id = '${programId}'`)
-      .where(`date >= '${startDate.toISOString().split('T')[0]}'`)
-      .where(`date <= '${endDate.toISOString().split('T')[0]}'`)
+      .where('program_id', '=', programId)
+      .where('date', '>=', startDate)
+      .where('date', '<=', endDate)
       .orderBy('date', 'ASC');
   },
 
@@ -192,10 +520,10 @@ export const queries = {
     endDate: Date,
   ): QueryBuilder<'account_stats'> {
     return query('account_stats')
-      .where(`account = '${account}'`)
-      .where(`program_id = '${programId}'`)
-      .where(`date >= '${startDate.toISOString().split('T')[0]}'`)
-      .where(`date <= '${endDate.toISOString().split('T')[0]}'`)
+      .where('account', '=', account)
+      .where('program_id', '=', programId)
+      .where('date', '>=', startDate)
+      .where('date', '<=', endDate)
       .orderBy('date', 'ASC');
   },
 };
@@ -3,6 +3,12 @@
  * Simplified structure with single transactions table
  */
 
+/**
+ * Confidence of the price a transaction row was priced with
+ * 'none' means unpriced (amount_usd is 0), '' predates price provenance
+ */
+export type PriceConfidence = 'high' | 'low' | 'none' | '';
+
 /**
  * Transactions table schema
  */
@@ -15,14 +21,91 @@ export interface TransactionsTable {
   token_address: string;
   amount: string;
   amount_usd: number;
+  price_provider: string;
+  price_confidence: PriceConfidence;
   status: 'success' | 'failed' | 'pending';
   instruction_type: string;
   event_type: string;
   order_id: string;
+  give_chain_id: string;
+  take_chain_id: string;
+  fulfiller: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Orders table schema (one row per order, latest updated_at wins)
+ */
+export interface OrdersTable {
+  order_id: string;
+  status: 'created' | 'fulfilled' | 'cancelled' | 'claimed';
+  last_event_type: string;
+  maker: string;
+  taker: string;
+  receiver: string;
+  unlock_beneficiary: string;
+  cancel_beneficiary: string;
+  give_chain_id: string;
+  give_token_address: string;
+  give_amount: string;
+  give_amount_usd: number;
+  take_chain_id: string;
+  take_token_address: string;
+  take_amount: string;
+  take_amount_usd: number;
+  expiry_slot: number;
+  affiliate_fee: string;
+  affiliate_fee_beneficiary: string;
+  affiliate_fee_usd: number;
+  fix_fee: string;
+  fix_fee_usd: number;
+  percent_fee: string;
+  percent_fee_usd: number;
+  allowed_taker: string;
+  allowed_cancel_beneficiary: string;
+  create_signature: string;
+  fulfill_signature: string;
+  cancel_signature: string;
+  created_slot: number;
+  fulfilled_slot: number;
+  cancelled_slot: number;
+  created_time: Date | null;
+  fulfilled_time: Date | null;
+  cancelled_time: Date | null;
+  unlock_sent_time: Date | null;
+  unlock_claimed_time: Date | null;
+  cancel_claimed_time: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Token prices table schema (one USD price per mint and minute, latest updated_at wins)
+ * usd_price is a Decimal128(18) string
+ */
+export interface TokenPricesTable {
+  mint: string;
+  minute: Date;
+  usd_price: string;
+  source: 'jupiter' | 'birdeye';
+  updated_at: Date;
+}
+
+/**
+ * Transaction events table schema (one row per signature, order and event type)
+ */
+export interface TransactionEventsTable {
+  signature: string;
+  slot: number;
+  block_time: Date;
+  program_id: string;
+  status: 'success' | 'failed' | 'pending';
+  event_type: string;
+  order_id: string;
+  updated_at: Date;
+}
+
 /**
  * Daily program statistics view schema
  */
@@ -121,11 +204,74 @@ export interface DailyAccountVolumeTable {
   unique_tokens: number;
 }
 
+/**
+ * Daily lifecycle stats view schema (AggregatingMergeTree, values after merge)
+ */
+export interface DailyLifecycleStatsTable {
+  date: Date;
+  program_id: string;
+  event_type: string;
+  unique_orders: number;
+  tx_count: number;
+}
+
+/**
+ * Daily chain volume view schema (AggregatingMergeTree, values after merge)
+ */
+export interface DailyChainVolumeTable {
+  date: Date;
+  give_chain_id: string;
+  take_chain_id: string;
+  program_id: string;
+  event_type: string;
+  total_volume_usd: number;
+  tx_count: number;
+  unique_orders: number;
+  unique_accounts: number;
+  min_volume_usd: number;
+  max_volume_usd: number;
+}
+
+/**
+ * Daily solver stats view schema (AggregatingMergeTree, values after merge)
+ */
+export interface DailySolverStatsTable {
+  date: Date;
+  fulfiller: string;
+  give_chain_id: string;
+  take_chain_id: string;
+  unique_orders: number;
+  tx_count: number;
+  total_volume_usd: number;
+}
+
+/**
+ * Maker first seen view schema (AggregatingMergeTree, values after merge)
+ */
+export interface MakerFirstSeenTable {
+  maker: string;
+  first_seen_date: Date;
+  last_seen_date: Date;
+  unique_orders: number;
+}
+
+/**
+ * Maker weekly activity view schema (AggregatingMergeTree, values after merge)
+ */
+export interface MakerWeeklyActivityTable {
+  week: Date;
+  maker: string;
+  unique_orders: number;
+}
+
 /**
  * All table types
  */
 export type TableSchemas = {
   transactions: TransactionsTable;
+  orders: OrdersTable;
+  token_prices: TokenPricesTable;
+  transaction_events: TransactionEventsTable;
   daily_program_stats: DailyProgramStatsTable;
   account_stats: AccountStatsTable;
   hourly_volume: HourlyVolumeTable;
@@ -133,6 +279,11 @@ export type TableSchemas = {
   hourly_token_volume: HourlyTokenVolumeTable;
   daily_token_volume: DailyTokenVolumeTable;
   daily_account_volume: DailyAccountVolumeTable;
+  daily_lifecycle_stats: DailyLifecycleStatsTable;
+  daily_chain_volume: DailyChainVolumeTable;
+  daily_solver_stats: DailySolverStatsTable;
+  maker_first_seen: MakerFirstSeenTable;
+  maker_weekly_activity: MakerWeeklyActivityTable;
 };
 
 /**
@@ -142,5 +293,56 @@ export type TableName = keyof TableSchemas;
 
 /**
  * Insert data type for transactions (without auto-generated fields)
+ * amount_usd is a decimal string so the exact value is stored
+ */
+export type TransactionInsert = Omit<TransactionsTable, 'created_at' | 'updated_at' | 'amount_usd'> & {
+  amount_usd: string;
+};
+
+/**
+ * Insert data type for transaction events
+ * block_time is a ClickHouse 'YYYY-MM-DD HH:mm:ss' string, updated_at is auto-generated
+ */
+export type TransactionEventInsert = Omit<TransactionEventsTable, 'block_time' | 'updated_at'> & {
+  block_time: string;
+};
+
+/**
+ * Lifecycle timestamp columns of the orders table
  */
-export type TransactionInsert = Omit<TransactionsTable, 'created_at' | 'updated_at'>;
+export type OrderTimeColumn =
+  | 'created_time'
+  | 'fulfilled_time'
+  | 'cancelled_time'
+  | 'unlock_sent_time'
+  | 'unlock_claimed_time'
+  | 'cancel_claimed_time';
+
+/**
+ * USD columns of the orders table
+ */
+export type OrderUsdColumn =
+  | 'give_amount_usd'
+  | 'take_amount_usd'
+  | 'affiliate_fee_usd'
+  | 'fix_fee_usd'
+  | 'percent_fee_usd';
+
+/**
+ * Insert data type for orders
+ * DateTime columns are ClickHouse 'YYYY-MM-DD HH:mm:ss' strings, USD columns are decimal strings,
+ * created_at is auto-generated
+ */
+export type OrderInsert = Omit<OrdersTable, OrderTimeColumn | OrderUsdColumn | 'created_at' | 'updated_at'> &
+  Record<OrderTimeColumn, string | null> &
+  Record<OrderUsdColumn, string> & {
+    updated_at: string;
+  };
+
+/**
+ * Insert data type for token prices
+ * minute is a ClickHouse 'YYYY-MM-DD HH:mm:ss' string, updated_at is auto-generated
+ */
+export type TokenPriceInsert = Omit<TokenPricesTable, 'minute' | 'updated_at'> & {
+  minute: string;
+};
@@ -14,10 +14,15 @@ export const TABLE_DEFINITIONS = {
       token_address String,
       amount String,
       amount_usd Decimal64(18, 8),
+      price_provider LowCardinality(String) DEFAULT '',
+      price_confidence LowCardinality(String) DEFAULT '',
       status String,
       instruction_type String,
       event_type String DEFAULT '',
       order_id String DEFAULT '',
+      give_chain_id String DEFAULT '',
+      take_chain_id String DEFAULT '',
+      fulfiller String DEFAULT '',
       created_at DateTime DEFAULT now(),
       updated_at DateTime DEFAULT now()
     )
@@ -28,6 +33,85 @@ export const TABLE_DEFINITIONS = {
     SETTINGS index_granularity = 8192;
   `,
 
+  orders: `
+    CREATE TABLE IF NOT EXISTS dln.orders (
+      order_id String,
+      status LowCardinality(String),
+      last_event_type String DEFAULT '',
+      maker String DEFAULT '',
+      taker String DEFAULT '',
+      receiver String DEFAULT '',
+      unlock_beneficiary String DEFAULT '',
+      cancel_beneficiary String DEFAULT '',
+      give_chain_id String DEFAULT '',
+      give_token_address String DEFAULT '',
+      give_amount String DEFAULT '',
+      give_amount_usd Decimal64(8) DEFAULT 0,
+      take_chain_id String DEFAULT '',
+      take_token_address String DEFAULT '',
+      take_amount String DEFAULT '',
+      take_amount_usd Decimal64(8) DEFAULT 0,
+      expiry_slot UInt64 DEFAULT 0,
+      affiliate_fee String DEFAULT '',
+      affiliate_fee_beneficiary String DEFAULT '',
+      affiliate_fee_usd Decimal64(8) DEFAULT 0,
+      fix_fee String DEFAULT '',
+      fix_fee_usd Decimal64(8) DEFAULT 0,
+      percent_fee String DEFAULT '',
+      percent_fee_usd Decimal64(8) DEFAULT 0,
+      allowed_taker String DEFAULT '',
+      allowed_cancel_beneficiary String DEFAULT '',
+      create_signature String DEFAULT '',
+      fulfill_signature String DEFAULT '',
+      cancel_signature String DEFAULT '',
+      created_slot UInt64 DEFAULT 0,
+      fulfilled_slot UInt64 DEFAULT 0,
+      cancelled_slot UInt64 DEFAULT 0,
+      created_time Nullable(DateTime),
+      fulfilled_time Nullable(DateTime),
+      cancelled_time Nullable(DateTime),
+      unlock_sent_time Nullable(DateTime),
+      unlock_claimed_time Nullable(DateTime),
+      cancel_claimed_time Nullable(DateTime),
+      created_at DateTime DEFAULT now(),
+      updated_at DateTime64(3) DEFAULT now64(3)
+    )
+    ENGINE = ReplacingMergeTree(updated_at)
+    ORDER BY order_id
+    SETTINGS index_granularity = 8192;
+  `,
+
+  token_prices: `
+    CREATE TABLE IF NOT EXISTS dln.token_prices (
+      mint String,
+      minute DateTime,
+      usd_price Decimal128(18),
+      source LowCardinality(String),
+      updated_at DateTime64(3) DEFAULT now64(3)
+    )
+    ENGINE = ReplacingMergeTree(updated_at)
+    PARTITION BY toYYYYMM(minute)
+    ORDER BY (mint, minute)
+    SETTINGS index_granularity = 8192;
+  `,
+
+  transaction_events: `
+    CREATE TABLE IF NOT EXISTS dln.transaction_events (
+      signature String,
+      slot UInt64,
+      block_time DateTime,
+      program_id String,
+      status String,
+      event_type String,
+      order_id String,
+      updated_at DateTime64(3) DEFAULT now64(3)
+    )
+    ENGINE = ReplacingMergeTree(updated_at)
+    PARTITION BY toYYYYMM(block_time)
+    ORDER BY (signature, order_id, event_type)
+    SETTINGS index_granularity = 8192;
+  `,
+
   daily_program_stats: `
     CREATE MATERIALIZED VIEW IF NOT EXISTS dln.daily_program_stats
     ENGINE = SummingMergeTree()
@@ -161,6 +245,94 @@ export const TABLE_DEFINITIONS = {
     WHERE amount_usd > 0 AND status = 'success'
     GROUP BY date, account, program_id;
   `,
+
+  daily_lifecycle_stats: `
+    CREATE MATERIALIZED VIEW IF NOT EXISTS dln.daily_lifecycle_stats
+    ENGINE = AggregatingMergeTree()
+    PARTITION BY toYYYYMM(date)
+    ORDER BY (date, program_id, event_type)
+    AS SELECT
+      toDate(block_time) AS date,
+      program_id,
+      event_type,
+      uniqState(order_id) AS unique_orders,
+      uniqState(signature) AS tx_count
+    FROM dln.transaction_events
+    WHERE status = 'success' AND event_type != '' AND order_id != ''
+    GROUP BY date, program_id, event_type;
+  `,
+
+  daily_chain_volume: `
+    CREATE MATERIALIZED VIEW IF NOT EXISTS dln.daily_chain_volume
+    ENGINE = AggregatingMergeTree()
+    PARTITION BY toYYYYMM(date)
+    ORDER BY (date, give_chain_id, take_chain_id, program_id, event_type)
+    AS SELECT
+      toDate(block_time) AS date,
+      give_chain_id,
+      take_chain_id,
+      program_id,
+      event_type,
+      sumState(amount_usd) AS total_volume_usd,
+      uniqState(signature) AS tx_count,
+      uniqState(order_id) AS unique_orders,
+      uniqState(account) AS unique_accounts,
+      minState(amount_usd) AS min_volume_usd,
+      maxState(amount_usd) AS max_volume_usd
+    FROM dln.transactions
+    WHERE amount_usd > 0
+      AND status = 'success'
+      AND (give_chain_id != '' OR take_chain_id != '')
+    GROUP BY date, give_chain_id, take_chain_id, program_id, event_type;
+  `,
+
+  daily_solver_stats: `
+    CREATE MATERIALIZED VIEW IF NOT EXISTS dln.daily_solver_stats
+    ENGINE = AggregatingMergeTree()
+    PARTITION BY toYYYYMM(date)
+    ORDER BY (date, fulfiller, give_chain_id, take_chain_id)
+    AS SELECT
+      toDate(block_time) AS date,
+      fulfiller,
+      give_chain_id,
+      take_chain_id,
+      uniqState(order_id) AS unique_orders,
+      uniqState(signature) AS tx_count,
+      sumState(amount_usd) AS total_volume_usd
+    FROM dln.transactions
+    WHERE event_type = 'OrderFulfilled'
+      AND fulfiller != ''
+      AND status = 'success'
+    GROUP BY date, fulfiller, give_chain_id, take_chain_id;
+  `,
+
+  maker_first_seen: `
+    CREATE MATERIALIZED VIEW IF NOT EXISTS dln.maker_first_seen
+    ENGINE = AggregatingMergeTree()
+    ORDER BY maker
+    AS SELECT
+      maker,
+      minState(toDate(assumeNotNull(created_time))) AS first_seen_date,
+      maxState(toDate(assumeNotNull(created_time))) AS last_seen_date,
+      uniqState(order_id) AS unique_orders
+    FROM dln.orders
+    WHERE maker != '' AND created_time IS NOT NULL
+    GROUP BY maker;
+  `,
+
+  maker_weekly_activity: `
+    CREATE MATERIALIZED VIEW IF NOT EXISTS dln.maker_weekly_activity
+    ENGINE = AggregatingMergeTree()
+    PARTITION BY toYYYYMM(week)
+    ORDER BY (week, maker)
+    AS SELECT
+      toStartOfWeek(toDate(assumeNotNull(created_time)), 1) AS week,
+      maker,
+      uniqState(order_id) AS unique_orders
+    FROM dln.orders
+    WHERE maker != '' AND created_time IS NOT NULL
+    GROUP BY week, maker;
+  `,
 };
 
 /**
@@ -175,14 +347,90 @@ export interface Transaction {
   token_address: string;
   amount: string;
   amount_usd: number;
+  price_provider: string;
+  price_confidence: string;
   status: 'success' | 'failed' | 'pending';
   instruction_type: string;
   event_type: string;
   order_id: string;
+  give_chain_id: string;
+  take_chain_id: string;
+  fulfiller: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * TypeScript interface for orders table
+ */
+export interface Order {
+  order_id: string;
+  status: 'created' | 'fulfilled' | 'cancelled' | 'claimed';
+  last_event_type: string;
+  maker: string;
+  taker: string;
+  receiver: string;
+  unlock_beneficiary: string;
+  cancel_beneficiary: string;
+  give_chain_id: string;
+  give_token_address: string;
+  give_amount: string;
+  give_amount_usd: number;
+  take_chain_id: string;
+  take_token_address: string;
+  take_amount: string;
+  take_amount_usd: number;
+  expiry_slot: number;
+  affiliate_fee: string;
+  affiliate_fee_beneficiary: string;
+  affiliate_fee_usd: number;
+  fix_fee: string;
+  fix_fee_usd: number;
+  percent_fee: string;
+  percent_fee_usd: number;
+  allowed_taker: string;
+  allowed_cancel_beneficiary: string;
+  create_signature: string;
+  fulfill_signature: string;
+  cancel_signature: string;
+  created_slot: number;
+  fulfilled_slot: number;
+  cancelled_slot: number;
+  created_time: Date | null;
+  fulfilled_time: Date | null;
+  cancelled_time: Date | null;
+  unlock_sent_time: Date | null;
+  unlock_claimed_time: Date | null;
+  cancel_claimed_time: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Interface for token prices (one USD price per mint and minute)
+ */
+export interface TokenPrice {
+  mint: string;
+  minute: Date;
+  usd_price: string;
+  source: string;
+  updated_at: Date;
+}
+
+/**
+ * Interface for transaction events (one row per signature, order and event type)
+ */
+export interface TransactionEvent {
+  signature: string;
+  slot: number;
+  block_time: Date;
+  program_id: string;
+  status: string;
+  event_type: string;
+  order_id: string;
+  updated_at: Date;
+}
+
 /**
  * Interface for daily program statistics
  */
@@ -281,6 +529,66 @@ export interface DailyAccountVolume {
   unique_tokens: number;
 }
 
+/**
+ * Interface for daily lifecycle stats (after uniqMerge)
+ */
+export interface DailyLifecycleStats {
+  date: Date;
+  program_id: string;
+  event_type: string;
+  unique_orders: number;
+  tx_count: number;
+}
+
+/**
+ * TypeScript interface for daily chain volume view (values after merge)
+ */
+export interface DailyChainVolume {
+  date: Date;
+  give_chain_id: string;
+  take_chain_id: string;
+  program_id: string;
+  event_type: string;
+  total_volume_usd: number;
+  tx_count: number;
+  unique_orders: number;
+  unique_accounts: number;
+  min_volume_usd: number;
+  max_volume_usd: number;
+}
+
+/**
+ * TypeScript interface for daily solver stats view (values after merge)
+ */
+export interface DailySolverStats {
+  date: Date;
+  fulfiller: string;
+  give_chain_id: string;
+  take_chain_id: string;
+  unique_orders: number;
+  tx_count: number;
+  total_volume_usd: number;
+}
+
+/**
+ * TypeScript interface for maker first seen view (values after merge)
+ */
+export interface MakerFirstSeen {
+  maker: string;
+  first_seen_date: Date;
+  last_seen_date: Date;
+  unique_orders: number;
+}
+
+/**
+ * TypeScript interface for maker weekly activity view (values after merge)
+ */
+export interface MakerWeeklyActivity {
+  week: Date;
+  maker: string;
+  unique_orders: number;
+}
+
 /**
  * Generate full schema SQL
  */
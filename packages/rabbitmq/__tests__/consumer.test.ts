@@ -0,0 +1,300 @@
+import { describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import type { Channel, ConsumeMessage } from 'amqplib';
+import { RabbitMQConsumer } from '../src/consumer.js';
+import type { QueueConfig } from '../src/types.js';
+
+const logger = pino({ level: 'silent' });
+
+const queueConfig: QueueConfig = {
+  queueName: 'tx.ingest',
+  dlqName: 'tx.ingest.dlq',
+  exchangeName: 'tx.exchange',
+  dlxName: 'tx.dlx',
+  retryDelay: 1000,
+  maxRetries: 3,
+};
+
+/**
+ * Channel stub recording consumers, acks and cancellations
+ */
+const createChannel = () => {
+  let consumers = 0;
+  const deliver: Array<(msg: ConsumeMessage | null) => Promise<void>> = [];
+
+  const channel = {
+    prefetch: vi.fn(async () => {}),
+    consume: vi.fn(async (_queue: string, onMessage: (msg: ConsumeMessage | null) => Promise<void>) => {
+      deliver.push(onMessage);
+      return { consumerTag: `ctag-${++consumers}` };
+    }),
+    cancel: vi.fn(async () => {}),
+    ack: vi.fn(),
+    nack: vi.fn(),
+    publish: vi.fn(() => true),
+    close: vi.fn(async () => {}),
+  };
+
+  return { channel, deliver };
+};
+
+const createMessage = (signature: string): ConsumeMessage =>
+  ({
+    content: Buffer.from(
+      JSON.stringify({
+        signature,
+        slot: 1,
+        source: 'realtime',
+        programId: 'src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4',
+        enqueuedAt: new Date().toISOString(),
+      })
+    ),
+    fields: { deliveryTag: 1, redelivered: false, exchange: '', routingKey: 'tx.ingest' },
+    properties: { headers: {} },
+  }) as unknown as ConsumeMessage;
+
+const createConsumer = () => {
+  const { channel, deliver } = createChannel();
+  const consumer = new RabbitMQConsumer(
+    channel as unknown as Channel,
+    queueConfig.queueName,
+    queueConfig,
+    logger
+  );
+  return { consumer, channel, deliver };
+};
+
+describe('RabbitMQConsumer pause/resume', () => {
+  it('should not be paused before consuming', async () => {
+    const { consumer, channel } = createConsumer();
+
+    expect(consumer.isPaused()).toBe(false);
+    await consumer.pause();
+    await consumer.resume();
+
+    expect(channel.cancel).not.toHaveBeenCalled();
+    expect(channel.consume).not.toHaveBeenCalled();
+  });
+
+  it('should cancel the consumer on pause and register it again on resume', async () => {
+    const { consumer, channel } = createConsumer();
+    await consumer.consume(async () => true, { prefetchCount: 5 });
+
+    expect(channel.prefetch).toHaveBeenCalledWith(5);
+    expect(channel.consume).toHaveBeenCalledTimes(1);
+
+    await consumer.pause();
+    expect(channel.cancel).toHaveBeenCalledWith('ctag-1');
+    expect(consumer.isPaused()).toBe(true);
+
+    await consumer.resume();
+    expect(channel.consume).toHaveBeenCalledTimes(2);
+    expect(channel.consume).toHaveBeenLastCalledWith(queueConfig.queueName, expect.any(Function), {
+      noAck: false,
+      exclusive: false,
+    });
+    expect(consumer.isPaused()).toBe(false);
+
+    // The new consumer tag is the one cancelled next
+    await consumer.pause();
+    expect(channel.cancel).toHaveBeenLastCalledWith('ctag-2');
+  });
+
+  it('should ignore repeated pause and resume calls', async () => {
+    const { consumer, channel } = createConsumer();
+    await consumer.consume(async () => true);
+
+    await consumer.pause();
+    await consumer.pause();
+    expect(channel.cancel).toHaveBeenCalledTimes(1);
+
+    await consumer.resume();
+    await consumer.resume();
+    expect(channel.consume).toHaveBeenCalledTimes(2);
+  });
+
+  it('should resume when resume() is called while the pause cancel is pending', async () => {
+    const { consumer, channel } = createConsumer();
+    await consumer.consume(async () => true);
+
+    let finishCancel!: () => void;
+    channel.cancel.mockImplementationOnce(
+      () =>
+        new Promise<void>((resolve) => {
+          finishCancel = resolve;
+        })
+    );
+
+    const paused = consumer.pause();
+    const resumed = consumer.resume();
+    await new Promise<void>((resolve) => setImmediate(resolve));
+    expect(channel.consume).toHaveBeenCalledTimes(1);
+
+    finishCancel();
+    await Promise.all([paused, resumed]);
+
+    expect(channel.consume).toHaveBeenCalledTimes(2);
+    expect(consumer.isPaused()).toBe(false);
+  });
+
+  it('should pause when pause() is called while the resume is pending', async () => {
+    const { consumer, channel } = createConsumer();
+    await consumer.consume(async () => true);
+    await consumer.pause();
+
+    let finishConsume!: () => void;
+    channel.consume.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finishConsume = () => resolve({ consumerTag: 'ctag-2' });
+        })
+    );
+
+    const resumed = consumer.resume();
+    const paused = consumer.pause();
+    await new Promise<void>((resolve) => setImmediate(resolve));
+    finishConsume();
+    await Promise.all([resumed, paused]);
+
+    expect(channel.cancel).toHaveBeenLastCalledWith('ctag-2');
+    expect(consumer.isPaused()).toBe(true);
+  });
+
+  it('should keep toggling after a failed cancel', async () => {
+    const { consumer, channel } = createConsumer();
+    await consumer.consume(async () => true);
+
+    channel.cancel.mockRejectedValueOnce(new Error('channel closed'));
+    await expect(consumer.pause()).rejects.toThrow('channel closed');
+
+    await consumer.pause();
+    expect(consumer.isPaused()).toBe(true);
+  });
+
+  it('should acknowledge messages delivered before the pause', async () => {
+    const { consumer, channel, deliver } = createConsumer();
+    let finish!: () => void;
+    const handled = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    await consumer.consume(async () => {
+      await handled;
+      return true;
+    });
+
+    const message = createMessage('sig-1');
+    const delivery = deliver[0](message);
+    await consumer.pause();
+    expect(channel.ack).not.toHaveBeenCalled();
+
+    finish();
+    await delivery;
+    expect(channel.ack).toHaveBeenCalledWith(message);
+  });
+
+  it('should not resume a stopped consumer', async () => {
+    const { consumer, channel } = createConsumer();
+    await consumer.consume(async () => true);
+
+    await consumer.stop();
+    expect(channel.cancel).toHaveBeenCalledWith('ctag-1');
+    expect(consumer.isPaused()).toBe(false);
+
+    await consumer.resume();
+    expect(channel.consume).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('RabbitMQConsumer events', () => {
+  /**
+   * Consume with a handler and deliver one message, returning the reported events
+   */
+  const deliverOne = async (
+    handler: () => Promise<boolean | void>,
+    message: ConsumeMessage,
+    onEvent: (event: string) => void = () => {}
+  ) => {
+    const { consumer, channel, deliver } = createConsumer();
+    const events: string[] = [];
+    await consumer.consume(handler, {
+      onEvent: (event) => {
+        events.push(event);
+        onEvent(event);
+      },
+    });
+
+    await deliver[0](message);
+    return { events, channel };
+  };
+
+  const withAttempt = (message: ConsumeMessage, attempt: number): ConsumeMessage =>
+    ({ ...message, properties: { headers: { attempt } } }) as unknown as ConsumeMessage;
+
+  it('should report handled messages as acked', async () => {
+    const message = createMessage('sig-1');
+    const { events, channel } = await deliverOne(async () => true, message);
+
+    expect(events).toEqual(['consumed', 'acked']);
+    expect(channel.ack).toHaveBeenCalledWith(message);
+  });
+
+  it('should report messages republished to the retry queue as retried', async () => {
+    const { events, channel } = await deliverOne(async () => false, createMessage('sig-1'));
+
+    expect(events).toEqual(['consumed', 'retried']);
+    expect(channel.publish).toHaveBeenCalledWith(
+      queueConfig.dlxName,
+      'retry.message',
+      expect.any(Buffer),
+      expect.objectContaining({ headers: expect.objectContaining({ attempt: 1 }) })
+    );
+  });
+
+  it('should report messages past their last retry as dead_lettered', async () => {
+    const exhausted = await deliverOne(
+      async () => true,
+      withAttempt(createMessage('sig-1'), queueConfig.maxRetries)
+    );
+    expect(exhausted.events).toEqual(['consumed', 'dead_lettered']);
+    expect(exhausted.channel.nack).toHaveBeenCalledWith(expect.anything(), false, false);
+
+    const lastAttempt = await deliverOne(
+      async () => false,
+      withAttempt(createMessage('sig-1'), queueConfig.maxRetries - 1)
+    );
+    expect(lastAttempt.events).toEqual(['consumed', 'dead_lettered']);
+    expect(lastAttempt.channel.publish).not.toHaveBeenCalled();
+  });
+
+  it('should report unparseable messages as dropped, not acked', async () => {
+    const invalid = {
+      ...createMessage('sig-1'),
+      content: Buffer.from('not json'),
+    } as unknown as ConsumeMessage;
+    const handler = vi.fn(async () => true);
+
+    const { events, channel } = await deliverOne(handler, invalid);
+
+    expect(events).toEqual(['consumed', 'dropped']);
+    expect(handler).not.toHaveBeenCalled();
+    expect(channel.ack).toHaveBeenCalledWith(invalid);
+    expect(channel.publish).not.toHaveBeenCalled();
+  });
+
+  it('should report messages whose handler threw as dropped', async () => {
+    const { events } = await deliverOne(async () => {
+      throw new Error('unexpected');
+    }, createMessage('sig-1'));
+
+    expect(events).toEqual(['consumed', 'dropped']);
+  });
+
+  it('should handle messages when the event listener throws', async () => {
+    const message = createMessage('sig-1');
+    const { channel } = await deliverOne(async () => true, message, () => {
+      throw new Error('metrics failed');
+    });
+
+    expect(channel.ack).toHaveBeenCalledWith(message);
+  });
+});
@@ -1,7 +1,7 @@
 import type { Channel, ConsumeMessage } from 'amqplib';
 import type { Logger } from 'pino';
 import { txIngestMessageSchema, type TxIngestMessage } from '@incur-data/dtos';
-import type { MessageHandler, MessageMetadata, ConsumerConfig, QueueConfig } from './types.js';
+import type { MessageHandler, MessageMetadata, ConsumerConfig, ConsumerEvent, QueueConfig } from './types.js';
 
 /**
  * Consumer class for receiving and processing messages from RabbitMQ
@@ -12,6 +12,10 @@ export class RabbitMQConsumer {
   private queueConfig: QueueConfig;
   private logger: Logger;
   private consumerTag?: string;
+  private handler?: MessageHandler<TxIngestMessage>;
+  private consumeOptions?: { noAck: boolean; exclusive: boolean };
+  private onEvent?: (event: ConsumerEvent) => void;
+  private toggling: Promise<void> = Promise.resolve();
 
   constructor(
     channel: Channel,
@@ -32,13 +36,33 @@ export class RabbitMQConsumer {
     handler: MessageHandler<TxIngestMessage>,
     config: ConsumerConfig = {}
   ): Promise<void> {
-    const { prefetchCount = 10, noAck = false, exclusive = false } = config;
+    const { prefetchCount = 10, noAck = false, exclusive = false, onEvent } = config;
+    this.onEvent = onEvent;
 
     // Set prefetch count to control concurrent processing
     await this.channel.prefetch(prefetchCount);
     this.logger.info({ prefetchCount }, 'Prefetch count set');
 
     // Start consuming
+    this.handler = handler;
+    this.consumeOptions = { noAck, exclusive };
+    await this.startConsuming();
+
+    this.logger.info(
+      {
+        queue: this.queueName,
+        consumerTag: this.consumerTag,
+        prefetch: prefetchCount,
+      },
+      'Consumer started'
+    );
+  }
+
+  /**
+   * Registers the consumer on the channel with the current handler
+   */
+  private async startConsuming(): Promise<void> {
+    const handler = this.handler!;
     const consumeResult = await this.channel.consume(
       this.queueName,
       async (msg) => {
@@ -46,18 +70,54 @@ export class RabbitMQConsumer {
 
         await this.handleMessage(msg, handler);
       },
-      { noAck, exclusive }
+      this.consumeOptions
     );
 
     this.consumerTag = consumeResult.consumerTag;
-    this.logger.info(
-      {
-        queue: this.queueName,
-        consumerTag: this.consumerTag,
-        prefetch: prefetchCount,
-      },
-      'Consumer started'
-    );
+  }
+
+  /**
+   * Pauses delivery of new messages (backpressure)
+   * Messages already delivered can still be acknowledged
+   */
+  pause(): Promise<void> {
+    return this.toggle(async () => {
+      if (!this.consumerTag) return;
+
+      await this.channel.cancel(this.consumerTag);
+      this.consumerTag = undefined;
+      this.logger.info('Consumer paused');
+    });
+  }
+
+  /**
+   * Resumes delivery after pause()
+   */
+  resume(): Promise<void> {
+    return this.toggle(async () => {
+      if (this.consumerTag || !this.handler) return;
+
+      await this.startConsuming();
+      this.logger.info({ consumerTag: this.consumerTag }, 'Consumer resumed');
+    });
+  }
+
+  /**
+   * Runs consumer registration changes one at a time, in call order, so each one sees
+   * the consumer tag left by the previous one (a resume() during the cancel of a pause()
+   * registers the consumer again once the cancel is done)
+   */
+  private toggle(change: () => Promise<void>): Promise<void> {
+    const run = this.toggling.then(change);
+    this.toggling = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Whether delivery is paused
+   */
+  isPaused(): boolean {
+    return !!this.handler && !this.consumerTag;
   }
 
   /**
@@ -68,6 +128,7 @@ export class RabbitMQConsumer {
     handler: MessageHandler<TxIngestMessage>
   ): Promise<void> {
    //  const startTime = Date.now();
+    this.emit('consumed');
 
     try {
       // Parse message
@@ -102,6 +163,7 @@ export class RabbitMQConsumer {
         
         // Send to DLQ by rejecting without requeue
         this.channel.nack(msg, false, false);
+        this.emit('dead_lettered');
         return;
       }
 
@@ -111,6 +173,7 @@ export class RabbitMQConsumer {
       // Acknowledge message if handler succeeds
       if (result !== false) {
         this.channel.ack(msg);
+        this.emit('acked');
         
        //  const duration = Date.now() - startTime;
         // this.logger.info(
@@ -160,6 +223,7 @@ export class RabbitMQConsumer {
 
       // Send to DLQ
       this.channel.nack(msg, false, false);
+      this.emit('dead_lettered');
       return;
     }
 
@@ -195,8 +259,21 @@ export class RabbitMQConsumer {
       );
     }
 
-    // Acknowledge original message (it's been republished to retry queue)
+    // Acknowledge original message (it's been republished to retry queue,
+    // or is dropped when it could not be parsed or the handler threw)
     this.channel.ack(msg);
+    this.emit(txMessage ? 'retried' : 'dropped');
+  }
+
+  /**
+   * Reports a message lifecycle event, a failing listener does not affect the message
+   */
+  private emit(event: ConsumerEvent): void {
+    try {
+      this.onEvent?.(event);
+    } catch (error) {
+      this.logger.warn({ event, error: (error as Error).message }, 'Consumer event listener failed');
+    }
   }
 
   /**
@@ -235,10 +312,16 @@ export class RabbitMQConsumer {
    * Stops consuming messages
    */
   async stop(): Promise<void> {
-    if (this.consumerTag) {
+    // A stopped consumer is not resumed
+    this.handler = undefined;
+
+    await this.toggle(async () => {
+      if (!this.consumerTag) return;
+
       await this.channel.cancel(this.consumerTag);
       this.logger.info({ consumerTag: this.consumerTag }, 'Consumer stopped');
-    }
+      this.consumerTag = undefined;
+    });
   }
 
   /**
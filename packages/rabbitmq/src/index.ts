@@ -9,6 +9,7 @@ export type {
   MessageHandler,
   MessageMetadata,
   ConsumerConfig,
+  ConsumerEvent,
   RabbitMQConfig,
 } from './types.js';
 
@@ -55,6 +55,14 @@ export interface MessageMetadata {
   attempt: number;
 }
 
+/**
+ * Message lifecycle events reported by the consumer
+ * consumed: delivered to the consumer, acked: handled and acknowledged,
+ * retried: republished to the retry queue, dead_lettered: rejected to the DLQ,
+ * dropped: acknowledged without a retry after failing to parse or throwing in the handler
+ */
+export type ConsumerEvent = 'consumed' | 'acked' | 'retried' | 'dead_lettered' | 'dropped';
+
 /**
  * Consumer configuration
  */
@@ -62,6 +70,7 @@ export interface ConsumerConfig {
   prefetchCount?: number;
   noAck?: boolean;
   exclusive?: boolean;
+  onEvent?: (event: ConsumerEvent) => void; // Called on each message lifecycle event (e.g. for metrics)
 }
 
 /**
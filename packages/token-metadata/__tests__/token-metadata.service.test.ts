@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import pino from 'pino';
+import axios, { type AxiosInstance } from 'axios';
+import type { RedisClientType } from 'redis';
+import { TokenMetadataService } from '../src/token-metadata.service.js';
+import type { JupiterTokenInfo, TokenMetadataConfig } from '../src/types.js';
+
+const logger = pino({ level: 'silent' });
+
+const config: TokenMetadataConfig = {
+  apiUrl: 'https://api.jup.ag',
+  tokensEndpoint: '/tokens/v2/search',
+  timeout: 1000,
+  rateLimit: 0,
+};
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+/**
+ * Redis stub keeping hashes and TTLs in memory, commands run through multi()
+ */
+const createRedis = (hashes: Record<string, Record<string, string>> = {}) => {
+  const ttls = new Map<string, number>();
+
+  const redis = {
+    multi: vi.fn(() => {
+      const commands: Array<() => unknown> = [];
+      const multi = {
+        hGetAll: (key: string) => {
+          commands.push(() => ({ ...hashes[key] }));
+          return multi;
+        },
+        hSet: (key: string, fields: Record<string, string>) => {
+          commands.push(() => {
+            hashes[key] = { ...hashes[key], ...fields };
+          });
+          return multi;
+        },
+        expire: (key: string, seconds: number) => {
+          commands.push(() => ttls.set(key, seconds));
+          return multi;
+        },
+        exec: async () => commands.map((command) => command()),
+      };
+      return multi;
+    }),
+  };
+
+  return { redis, hashes, ttls };
+};
+
+/**
+ * Service over a Redis stub and a Jupiter stub answering with `search`
+ */
+const createService = (
+  search: (mints: string[]) => JupiterTokenInfo[] = () => [],
+  hashes: Record<string, Record<string, string>> = {}
+) => {
+  const get = vi.fn(async (_url: string, { params }: { params: { query: string } }) => ({
+    data: search(params.query.split(',')),
+  }));
+  vi.spyOn(axios, 'create').mockReturnValue({ get } as unknown as AxiosInstance);
+
+  const { redis, ttls } = createRedis(hashes);
+  const service = new TokenMetadataService(config, redis as unknown as RedisClientType, logger);
+  return { service, get, redis, hashes, ttls };
+};
+
+const jupiterToken = (id: string, decimals = 5): JupiterTokenInfo => ({
+  id,
+  symbol: 'BONK',
+  name: 'Bonk',
+  decimals,
+  icon: 'https://example.com/bonk.png',
+});
+
+describe('TokenMetadataService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should cache fetched metadata as a hash per mint with a one hour TTL', async () => {
+    const { service, hashes, ttls } = createService((mints) => mints.map((mint) => jupiterToken(mint)));
+
+    const tokens = await service.getTokens([BONK]);
+
+    expect(tokens.get(BONK)).toEqual({
+      address: BONK,
+      symbol: 'BONK',
+      name: 'Bonk',
+      decimals: 5,
+      logoUri: 'https://example.com/bonk.png',
+    });
+    expect(hashes[`dln:cache:token:7565164:${BONK}`]).toEqual({
+      symbol: 'BONK',
+      name: 'Bonk',
+      decimals: '5',
+      logo_uri: 'https://example.com/bonk.png',
+    });
+    expect(ttls.get(`dln:cache:token:7565164:${BONK}`)).toBe(3600);
+  });
+
+  it('should serve cached mints without calling the API', async () => {
+    const { service, get, redis } = createService(undefined, {
+      [`dln:cache:token:7565164:${BONK}`]: { symbol: 'BONK', name: 'Bonk', decimals: '5', logo_uri: '' },
+    });
+
+    const tokens = await service.getTokens([BONK, BONK]);
+
+    expect(tokens.get(BONK)).toEqual({ address: BONK, symbol: 'BONK', name: 'Bonk', decimals: 5 });
+    expect(get).not.toHaveBeenCalled();
+    // Read only, nothing changed
+    expect(redis.multi).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore tokens the search returns for other mints', async () => {
+    const { service } = createService(() => [jupiterToken('BonkLookalike1111111111111111111111111111111')]);
+
+    const tokens = await service.getTokens([BONK]);
+
+    expect(tokens.size).toBe(0);
+  });
+
+  it('should fall back to known tokens when neither cached nor returned by the API', async () => {
+    const { service, get } = createService(() => {
+      throw new Error('503 Service Unavailable');
+    });
+
+    const tokens = await service.getTokens([SOL, USDC, BONK]);
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(tokens.get(SOL)).toMatchObject({ symbol: 'SOL', decimals: 9 });
+    expect(tokens.get(USDC)).toMatchObject({ symbol: 'USDC', decimals: 6 });
+    // No decimals known
+    expect(tokens.has(BONK)).toBe(false);
+  });
+
+  it('should prefer decimals observed in token balances and cache them', async () => {
+    const key = `dln:cache:token:7565164:${BONK}`;
+    const { service, get, hashes } = createService(undefined, {
+      [key]: { symbol: 'BONK', name: 'Bonk', decimals: '6', logo_uri: '' },
+    });
+
+    const tokens = await service.getTokens([BONK], new Map([[BONK, 5]]));
+
+    expect(tokens.get(BONK)).toMatchObject({ symbol: 'BONK', decimals: 5 });
+    expect(hashes[key].decimals).toBe('5');
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('should keep mints with observed decimals when the API has no metadata', async () => {
+    const { service } = createService();
+
+    const tokens = await service.getTokens([BONK], new Map([[BONK, 5]]));
+
+    expect(tokens.get(BONK)).toEqual({ address: BONK, symbol: '', name: '', decimals: 5, logoUri: undefined });
+  });
+
+  it('should search uncached mints in batches of 100', async () => {
+    const mints = Array.from({ length: 250 }, (_, index) => `mint${index.toString().padStart(40, '0')}`);
+    const { service, get } = createService((chunk) => chunk.map((mint) => jupiterToken(mint)));
+
+    const tokens = await service.getTokens(mints);
+
+    expect(get.mock.calls.map(([, { params }]) => params.query.split(',').length)).toEqual([100, 100, 50]);
+    expect(get).toHaveBeenCalledWith(config.tokensEndpoint, { params: { query: mints.slice(0, 100).join(',') } });
+    expect(tokens.size).toBe(250);
+  });
+
+  it('should only skip the mints of a failed batch', async () => {
+    const mints = Array.from({ length: 150 }, (_, index) => `mint${index.toString().padStart(40, '0')}`);
+    let calls = 0;
+    const { service } = createService((chunk) => {
+      if (calls++ === 0) {
+        throw new Error('429 Too Many Requests');
+      }
+      return chunk.map((mint) => jupiterToken(mint));
+    });
+
+    const tokens = await service.getTokens(mints);
+
+    expect(tokens.size).toBe(50);
+    expect(tokens.has(mints[0])).toBe(false);
+    expect(tokens.has(mints[149])).toBe(true);
+  });
+
+  it('should look metadata up without the cache when Redis fails', async () => {
+    const { service, redis } = createService((mints) => mints.map((mint) => jupiterToken(mint)));
+    redis.multi.mockImplementation(() => {
+      throw new Error('Redis connection lost');
+    });
+
+    const tokens = await service.getTokens([BONK]);
+
+    expect(tokens.get(BONK)).toMatchObject({ decimals: 5 });
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * Token metadata package exports
+ */
+
+// Types
+export type {
+  TokenMetadataConfig,
+  TokenMetadata,
+  JupiterTokenInfo,
+} from './types.js';
+
+// Service
+export { TokenMetadataService } from './token-metadata.service.js';
@@ -0,0 +1,242 @@
+/**
+ * Token Metadata Service
+ * Caches decimals, symbol, name and logo of Solana mints in Redis
+ * (dln:cache:token:{chain_id}:{address} hashes, see packages/config/redis-schema.md)
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import type { RedisClientType } from 'redis';
+import type { BaseLogger } from 'pino';
+import type { JupiterTokenInfo, TokenMetadata, TokenMetadataConfig } from './types.js';
+
+/**
+ * DLN chain id of Solana, the chain all indexed mints belong to
+ */
+const SOLANA_CHAIN_ID = '7565164';
+
+/**
+ * Token metadata cache TTL (redis-schema.md: 1 hour)
+ */
+const CACHE_TTL_SECONDS = 3600;
+
+/**
+ * Maximum number of mints per search request
+ */
+const MAX_MINTS_PER_REQUEST = 100;
+
+/**
+ * Mints resolved without an API call when they are neither cached nor returned by the API
+ */
+const KNOWN_TOKENS: Record<string, TokenMetadata> = {
+  So11111111111111111111111111111111111111112: {
+    address: 'So11111111111111111111111111111111111111112',
+    symbol: 'SOL',
+    name: 'Wrapped SOL',
+    decimals: 9,
+  },
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: {
+    address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6,
+  },
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: {
+    address: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+    symbol: 'USDT',
+    name: 'USDT',
+    decimals: 6,
+  },
+};
+
+/**
+ * Token Metadata Service
+ * Shared by the worker and the API so both read and write the same cache entries.
+ * Decimals seen in transaction token balances are authoritative,
+ * symbol, name and logo are looked up in the Jupiter Tokens API on cache misses
+ */
+export class TokenMetadataService {
+  private readonly axios: AxiosInstance;
+  private lastRequest: Promise<void> = Promise.resolve();
+
+  constructor(
+    private config: TokenMetadataConfig,
+    private redis: RedisClientType,
+    private logger: BaseLogger
+  ) {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (config.apiKey) {
+      headers['x-api-key'] = config.apiKey;
+    }
+
+    this.axios = axios.create({
+      baseURL: config.apiUrl,
+      timeout: config.timeout,
+      headers,
+    });
+  }
+
+  /**
+   * Get metadata of mints
+   * observedDecimals (from token balances) take precedence over cached and fetched decimals,
+   * mints without known decimals are missing from the result
+   */
+  async getTokens(
+    mints: string[],
+    observedDecimals: Map<string, number> = new Map()
+  ): Promise<Map<string, TokenMetadata>> {
+    const unique = [...new Set(mints.filter(Boolean))];
+    const tokens = new Map<string, TokenMetadata>();
+
+    if (unique.length === 0) {
+      return tokens;
+    }
+
+    const cached = await this.readCache(unique);
+    const uncached = unique.filter((mint) => !cached.has(mint));
+    const fetched = uncached.length > 0 ? await this.fetchTokens(uncached) : new Map<string, TokenMetadata>();
+    const toCache: TokenMetadata[] = [];
+
+    for (const mint of unique) {
+      const known = cached.get(mint) ?? fetched.get(mint) ?? KNOWN_TOKENS[mint];
+      const decimals = observedDecimals.get(mint) ?? known?.decimals;
+
+      if (decimals === undefined) {
+        continue;
+      }
+
+      const token: TokenMetadata = {
+        address: mint,
+        symbol: known?.symbol ?? '',
+        name: known?.name ?? '',
+        decimals,
+        logoUri: known?.logoUri,
+      };
+      tokens.set(mint, token);
+
+      if (!cached.has(mint) || cached.get(mint)?.decimals !== decimals) {
+        toCache.push(token);
+      }
+    }
+
+    await this.writeCache(toCache);
+
+    return tokens;
+  }
+
+  /**
+   * Read cached metadata, missing and unreadable entries are left out
+   */
+  private async readCache(mints: string[]): Promise<Map<string, TokenMetadata>> {
+    const tokens = new Map<string, TokenMetadata>();
+
+    try {
+      const multi = this.redis.multi();
+      for (const mint of mints) {
+        multi.hGetAll(this.getCacheKey(mint));
+      }
+      const results = (await multi.exec()) as unknown as Array<Record<string, string>>;
+
+      mints.forEach((mint, index) => {
+        const fields = results[index];
+        const decimals = Number(fields?.decimals);
+        if (fields?.decimals !== undefined && Number.isInteger(decimals)) {
+          tokens.set(mint, {
+            address: mint,
+            symbol: fields.symbol ?? '',
+            name: fields.name ?? '',
+            decimals,
+            logoUri: fields.logo_uri || undefined,
+          });
+        }
+      });
+    } catch (error) {
+      this.logger.warn({ error: (error as Error).message }, 'Failed to read token metadata cache');
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Cache metadata as hashes with TTL
+   */
+  private async writeCache(tokens: TokenMetadata[]): Promise<void> {
+    if (tokens.length === 0) {
+      return;
+    }
+
+    try {
+      const multi = this.redis.multi();
+      for (const token of tokens) {
+        const key = this.getCacheKey(token.address);
+        multi.hSet(key, {
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals.toString(),
+          logo_uri: token.logoUri ?? '',
+        });
+        multi.expire(key, CACHE_TTL_SECONDS);
+      }
+      await multi.exec();
+    } catch (error) {
+      this.logger.warn({ error: (error as Error).message }, 'Failed to write token metadata cache');
+    }
+  }
+
+  /**
+   * Fetch metadata from the Jupiter Tokens API
+   * Failures are logged, the affected mints are missing from the result
+   */
+  private async fetchTokens(mints: string[]): Promise<Map<string, TokenMetadata>> {
+    const tokens = new Map<string, TokenMetadata>();
+
+    for (let i = 0; i < mints.length; i += MAX_MINTS_PER_REQUEST) {
+      const chunk = mints.slice(i, i + MAX_MINTS_PER_REQUEST);
+
+      try {
+        await this.waitForRequestSlot();
+        const response = await this.axios.get<JupiterTokenInfo[]>(this.config.tokensEndpoint, {
+          params: { query: chunk.join(',') },
+        });
+
+        for (const info of response.data ?? []) {
+          // Search may also return tokens matching by symbol or name
+          if (!chunk.includes(info.id)) continue;
+
+          tokens.set(info.id, {
+            address: info.id,
+            symbol: info.symbol,
+            name: info.name,
+            decimals: info.decimals,
+            logoUri: info.icon ?? undefined,
+          });
+        }
+      } catch (error) {
+        this.logger.warn(
+          { error: (error as Error).message, count: chunk.length },
+          'Failed to fetch token metadata from Jupiter'
+        );
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Wait until rateLimit ms have passed since the previous request slot
+   * Slots are chained, so concurrent lookups are spaced as well
+   */
+  private waitForRequestSlot(): Promise<void> {
+    const slot = this.lastRequest;
+    this.lastRequest = slot.then(
+      () => new Promise((resolve) => setTimeout(resolve, this.config.rateLimit))
+    );
+    return slot;
+  }
+
+  /**
+   * Generate cache key for a mint
+   */
+  private getCacheKey(mint: string): string {
+    return `dln:cache:token:${SOLANA_CHAIN_ID}:${mint}`;
+  }
+}
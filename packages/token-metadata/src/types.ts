@@ -0,0 +1,32 @@
+/**
+ * Token metadata lookup configuration
+ */
+export interface TokenMetadataConfig {
+  apiUrl: string;
+  apiKey?: string;
+  tokensEndpoint: string;
+  timeout: number;
+  rateLimit: number; // Minimum delay between requests in ms (1 RPS = 1000ms, 0 = no limit)
+}
+
+/**
+ * Metadata of a Solana mint
+ */
+export interface TokenMetadata {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoUri?: string;
+}
+
+/**
+ * Token entry returned by the Jupiter Tokens API (only the fields used here)
+ */
+export interface JupiterTokenInfo {
+  id: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  icon?: string | null;
+}
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { customDlnParser, createCustomDlnParser } from '../src/custom-dln-parser.js';
+import { decodeInstructionData } from '../src/instruction-parser.js';
+import {
+  DlnDiscriminatorRegistry,
+  computeInstructionDiscriminator,
+  UNRECOGNIZED_INSTRUCTION,
+} from '../src/dln-discriminators.js';
+import { DLNInstructionType } from '../src/types.js';
+import type {
+  CreateOrderData,
+  FulfillOrderData,
+  CancelOrderData,
+  ClaimOrderData,
+  UnrecognizedInstructionData,
+} from '../src/types.js';
+import fixture from './fixtures/dln-instructions.json';
+
+const SRC_PROGRAM_ID = new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4');
+const DST_PROGRAM_ID = new PublicKey('dst5MGcFPoBeREFAA5E3tU5ij8m5uVYwkzkSAbsLbNo');
+const USDC_SOL = 'EPjFWdd5AufqSSqeM2qrxzRPZVy1vK1pPqqHiS5Ynyg';
+const USDC_ETH = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const EVM_ADDRESS = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+
+function buildInstruction(programId: PublicKey, hexData: string): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: new PublicKey(fixture.maker), isSigner: true, isWritable: true },
+      { pubkey: new PublicKey(USDC_SOL), isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from(hexData, 'hex'),
+  });
+}
+
+describe('customDlnParser', () => {
+  describe('createOrder', () => {
+    it('should decode order arguments', () => {
+      const parsed = customDlnParser(buildInstruction(SRC_PROGRAM_ID, fixture.instructions.createOrder));
+      const args = parsed.args as CreateOrderData;
+
+      expect(parsed.name).toBe('createOrder');
+      expect(args.giveAmount).toBe(1000000000n);
+      expect(args.takeAmount).toBe(998500000n);
+      expect(args.giveChainId).toBe(7565164);
+      expect(args.takeChainId).toBe(1);
+      expect(args.takeTokenAddress).toBe(USDC_ETH);
+      expect(args.receiver).toBe(EVM_ADDRESS);
+      expect(args.orderAuthorityAddress).toBe(EVM_ADDRESS);
+      expect(args.givePatchAuthority.toBase58()).toBe(fixture.maker);
+      expect(args.allowedTaker).toBeUndefined();
+      expect(args.affiliateFee).toBeUndefined();
+      expect(args.referralCode).toBeUndefined();
+    });
+
+    it('should name accounts by position', () => {
+      const parsed = customDlnParser(buildInstruction(SRC_PROGRAM_ID, fixture.instructions.createOrder));
+
+      expect(parsed.accounts[0]?.name).toBe('maker');
+      expect(parsed.accounts[1]?.name).toBe('giveToken');
+    });
+  });
+
+  describe('createOrderWithNonce', () => {
+    it('should decode order arguments with optional fields, nonce and affiliate fee', () => {
+      const parsed = customDlnParser(
+        buildInstruction(SRC_PROGRAM_ID, fixture.instructions.createOrderWithNonce),
+      );
+      const args = parsed.args as CreateOrderData;
+
+      expect(parsed.name).toBe('createOrderWithNonce');
+      expect(args.giveAmount).toBe(1000000000n);
+      expect(args.takeChainId).toBe(1);
+      expect(args.allowedTaker).toBe(EVM_ADDRESS);
+      expect(args.affiliateFee).toBe(1500000n);
+      expect(args.affiliateFeeBeneficiary?.toBase58()).toBe(fixture.maker);
+      expect(args.referralCode).toBe(7);
+      expect(args.nonce).toBe(1704067200000n);
+      expect(args.metadata).toBeUndefined();
+    });
+  });
+
+  describe('fulfillOrder', () => {
+    it('should decode the order and derive amounts and chains from it', () => {
+      const parsed = customDlnParser(buildInstruction(DST_PROGRAM_ID, fixture.instructions.fulfillOrder));
+      const args = parsed.args as FulfillOrderData;
+
+      expect(parsed.name).toBe('fulfillOrder');
+      expect(args.orderId).toBe(fixture.orderId);
+      expect(args.giveAmount).toBe(2500000000n);
+      expect(args.takeAmount).toBe(2497000000n);
+      expect(args.giveChainId).toBe(1);
+      expect(args.takeChainId).toBe(7565164);
+      expect(args.orderBeneficiary).toBe(fixture.maker);
+      expect(args.unlockAuthority?.toBase58()).toBe(fixture.maker);
+      expect(args.order.makerOrderNonce).toBe(42n);
+      expect(args.order.maker).toBe(EVM_ADDRESS);
+      expect(args.order.give.tokenAddress).toBe(USDC_ETH);
+      expect(args.order.take.tokenAddress).toBe(USDC_SOL);
+      expect(args.order.allowedTaker).toBeUndefined();
+    });
+  });
+
+  describe('cancelOrder', () => {
+    it('should decode order id, beneficiary and execution fee', () => {
+      const parsed = customDlnParser(buildInstruction(DST_PROGRAM_ID, fixture.instructions.cancelOrder));
+      const args = parsed.args as CancelOrderData;
+
+      expect(parsed.name).toBe('cancelOrder');
+      expect(args.orderId).toBe(fixture.orderId);
+      expect(args.beneficiary).toBe(EVM_ADDRESS);
+      expect(args.executionFee).toBe(5000n);
+      expect(args.order.give.amount).toBe(2500000000n);
+    });
+  });
+
+  describe('claimOrder', () => {
+    it('should decode order id', () => {
+      const parsed = customDlnParser(buildInstruction(SRC_PROGRAM_ID, fixture.instructions.claimOrder));
+      const args = parsed.args as ClaimOrderData;
+
+      expect(parsed.name).toBe('claimOrder');
+      expect(args.orderId).toBe(fixture.orderId);
+    });
+  });
+
+  describe('unrecognized instructions', () => {
+    it('should report unknown discriminators instead of throwing', () => {
+      const parsed = customDlnParser(buildInstruction(SRC_PROGRAM_ID, 'ffffffffffffffff0102'));
+      const args = parsed.args as UnrecognizedInstructionData;
+
+      expect(parsed.name).toBe(UNRECOGNIZED_INSTRUCTION);
+      expect(args.discriminator).toBe('ffffffffffffffff');
+      expect(args.data).toBe('0102');
+      expect(parsed.accounts[0]?.name).toBe('account0');
+    });
+
+    it('should report data shorter than a discriminator as unrecognized', () => {
+      const parsed = customDlnParser(buildInstruction(SRC_PROGRAM_ID, '00'));
+
+      expect(parsed.name).toBe(UNRECOGNIZED_INSTRUCTION);
+    });
+
+    it('should not identify instructions by their first byte', () => {
+      const legacy = '00' + fixture.instructions.createOrder.slice(16);
+      const parsed = customDlnParser(buildInstruction(SRC_PROGRAM_ID, legacy));
+
+      expect(parsed.name).toBe(UNRECOGNIZED_INSTRUCTION);
+    });
+
+    it('should throw on truncated arguments of a known instruction', () => {
+      const truncated = fixture.instructions.createOrder.slice(0, 40);
+      expect(() => customDlnParser(buildInstruction(SRC_PROGRAM_ID, truncated))).toThrow();
+    });
+  });
+});
+
+describe('DlnDiscriminatorRegistry', () => {
+  it('should compute discriminators from snake_case instruction names', () => {
+    expect(computeInstructionDiscriminator('createOrder')).toEqual(
+      computeInstructionDiscriminator('create_order'),
+    );
+    expect(computeInstructionDiscriminator('fulfillOrder').toString('hex')).toBe(
+      fixture.instructions.fulfillOrder.slice(0, 16),
+    );
+  });
+
+  it('should override discriminators from IDL', () => {
+    const discriminator = [1, 2, 3, 4, 5, 6, 7, 8];
+    const registry = new DlnDiscriminatorRegistry({
+      version: '0.1.0',
+      name: 'dln_source',
+      instructions: [{ name: 'claimOrder', accounts: [], args: [], discriminator }],
+    } as any);
+    const parser = createCustomDlnParser(registry);
+    const args = fixture.instructions.claimOrder.slice(16);
+
+    const overridden = parser(buildInstruction(SRC_PROGRAM_ID, '0102030405060708' + args));
+    expect(overridden.name).toBe('claimOrder');
+    expect((overridden.args as ClaimOrderData).orderId).toBe(fixture.orderId);
+
+    // Computed discriminator is replaced by the IDL one
+    const computed = parser(buildInstruction(SRC_PROGRAM_ID, fixture.instructions.claimOrder));
+    expect(computed.name).toBe(UNRECOGNIZED_INSTRUCTION);
+  });
+
+  it('should reject discriminators of invalid length', () => {
+    const registry = new DlnDiscriminatorRegistry();
+    expect(() =>
+      registry.register(
+        { type: DLNInstructionType.ClaimOrder, name: 'claimOrder', decode: () => ({}) },
+        Uint8Array.from([1, 2, 3]),
+      ),
+    ).toThrow('Invalid discriminator length');
+  });
+});
+
+describe('decodeInstructionData', () => {
+  it('should decode arguments following the discriminator', () => {
+    const decoded = decodeInstructionData(Buffer.from(fixture.instructions.claimOrder, 'hex'));
+
+    expect(decoded.type).toBe(DLNInstructionType.ClaimOrder);
+    expect((decoded.args as ClaimOrderData).orderId).toBe(fixture.orderId);
+  });
+
+  it('should return unrecognized type for unknown discriminators', () => {
+    const decoded = decodeInstructionData(Buffer.from('0000000000000000', 'hex'));
+
+    expect(decoded.type).toBe(DLNInstructionType.Unrecognized);
+  });
+});
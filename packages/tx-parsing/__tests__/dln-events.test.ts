@@ -0,0 +1,274 @@
+import { describe, it, expect } from 'vitest';
+import { PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import {
+  decodeDlnEvent,
+  decodeDlnEventsFromLogs,
+  computeEventDiscriminator,
+} from '../src/dln-events.js';
+import { DlnEventParser, extractOrderIdFromLogs } from '../src/dln-event-parser.js';
+import {
+  DlnAnchorEventName,
+  DlnEventType,
+  type CreatedOrderEvent,
+  type OrderCreatedData,
+  type OrderFulfilledData,
+  type OrderCancelledData,
+  type OrderClaimedData,
+  type OrderUnlockData,
+} from '../src/types.js';
+import createdOrderTx from './fixtures/anchor-created-order-tx.json';
+import fulfilledTx from './fixtures/anchor-fulfilled-tx.json';
+
+const SRC_PROGRAM_ID = 'src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4';
+const DST_PROGRAM_ID = 'dst5MGcFPoBeREFAA5E3tU5ij8m5uVYwkzkSAbsLbNo';
+const CREATED_ORDER_ID = '3f1e0ab1c4d9e2f7a8b6c5d4e3f2a1b0c9d8e7f6a5b4c3d2e1f0a9b8c7d6e5f4';
+const FULFILLED_ORDER_ID = 'abcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890';
+const MAKER = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const TAKER = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+/**
+ * JSON fixtures hold addresses as strings, getParsedTransaction returns PublicKeys
+ */
+function hydrate(fixture: any): ParsedTransactionWithMeta {
+  const message = fixture.transaction.message;
+  return {
+    ...fixture,
+    transaction: {
+      ...fixture.transaction,
+      message: {
+        ...message,
+        accountKeys: message.accountKeys.map((key: any) => ({ ...key, pubkey: new PublicKey(key.pubkey) })),
+        instructions: message.instructions.map((ix: any) => ({
+          ...ix,
+          programId: new PublicKey(ix.programId),
+          accounts: ix.accounts.map((account: string) => new PublicKey(account)),
+        })),
+      },
+    },
+  } as ParsedTransactionWithMeta;
+}
+
+describe('decodeDlnEvent', () => {
+  it('should compute Anchor event discriminators', () => {
+    expect(computeEventDiscriminator('CreatedOrderId')).toHaveLength(8);
+    expect(computeEventDiscriminator('Fulfilled')).not.toEqual(computeEventDiscriminator('SentUnlock'));
+  });
+
+  it('should decode CreatedOrderId payload', () => {
+    const payload = Buffer.concat([
+      computeEventDiscriminator('CreatedOrderId'),
+      Buffer.from(CREATED_ORDER_ID, 'hex'),
+    ]);
+
+    expect(decodeDlnEvent(payload)).toEqual({
+      name: DlnAnchorEventName.CreatedOrderId,
+      orderId: CREATED_ORDER_ID,
+    });
+  });
+
+  it('should return null for unknown discriminators', () => {
+    const payload = Buffer.concat([Buffer.alloc(8, 0xff), Buffer.from(CREATED_ORDER_ID, 'hex')]);
+    expect(decodeDlnEvent(payload)).toBeNull();
+  });
+
+  it('should return null for truncated payloads', () => {
+    const payload = Buffer.concat([computeEventDiscriminator('Fulfilled'), Buffer.alloc(16)]);
+    expect(decodeDlnEvent(payload)).toBeNull();
+  });
+});
+
+describe('decodeDlnEventsFromLogs', () => {
+  it('should decode the full CreatedOrder payload', () => {
+    const events = decodeDlnEventsFromLogs(createdOrderTx.meta.logMessages);
+
+    expect(events.map((event) => event.name)).toEqual([
+      DlnAnchorEventName.CreatedOrder,
+      DlnAnchorEventName.CreatedOrderId,
+    ]);
+
+    const created = events[0] as CreatedOrderEvent;
+    expect(created.programId).toBe(SRC_PROGRAM_ID);
+    expect(created.fixFee).toBe(15000000n);
+    expect(created.percentFee).toBe(400000n);
+    expect(created.order.maker).toBe(MAKER);
+    expect(created.order.give.chainId).toBe(7565164);
+    expect(created.order.give.amount).toBe(1000000000n);
+    expect(created.order.take.chainId).toBe(1);
+    expect(created.order.take.tokenAddress).toBe('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48');
+    expect(created.order.allowedTaker).toBe('0x8ba1f109551bd432803012645ac136ddd64dba72');
+  });
+
+  it('should attribute events to the emitting program', () => {
+    const all = decodeDlnEventsFromLogs(fulfilledTx.meta.logMessages);
+    const dlnOnly = decodeDlnEventsFromLogs(fulfilledTx.meta.logMessages, [DST_PROGRAM_ID]);
+
+    expect(all).toHaveLength(2);
+    expect(dlnOnly).toHaveLength(1);
+    expect(dlnOnly[0]).toMatchObject({
+      name: DlnAnchorEventName.Fulfilled,
+      programId: DST_PROGRAM_ID,
+      orderId: FULFILLED_ORDER_ID,
+      taker: TAKER,
+    });
+  });
+
+  it('should return empty array for logs without program data', () => {
+    expect(decodeDlnEventsFromLogs(['Program log: Instruction: CreateOrder'])).toEqual([]);
+  });
+});
+
+describe('extractOrderIdFromLogs with Anchor events', () => {
+  it('should extract orderId from a decoded event', () => {
+    expect(extractOrderIdFromLogs(createdOrderTx.meta.logMessages)).toBe(CREATED_ORDER_ID);
+  });
+
+  it('should ignore program data that is not a DLN event', () => {
+    const logs = [`Program data: ${Buffer.alloc(40, 0xab).toString('base64')}`];
+    expect(extractOrderIdFromLogs(logs)).toBeNull();
+  });
+});
+
+describe('DlnEventParser with Anchor events', () => {
+  const parser = new DlnEventParser([SRC_PROGRAM_ID, DST_PROGRAM_ID]);
+
+  it('should build OrderCreated from CreatedOrder and CreatedOrderId events', () => {
+    const events = parser.parseTransaction('sig1', hydrate(createdOrderTx));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]?.eventType).toBe(DlnEventType.OrderCreated);
+    expect(events[0]?.orderId).toBe(CREATED_ORDER_ID);
+
+    const data = events[0]?.data as OrderCreatedData;
+    expect(data.maker).toBe(MAKER);
+    expect(data.giveChainId).toBe('7565164');
+    expect(data.takeChainId).toBe('1');
+    expect(data.giveTokenAddress).toBe('EPjFWdd5AufqSSqeM2qrxzRPZVy1vK1pPqqHiS5Ynyg');
+    expect(data.giveAmount).toBe('1000000000');
+    expect(data.takeAmount).toBe('998500000');
+    // Affiliate fee is only known from the instruction arguments
+    expect(data.affiliateFee).toBe('1500000');
+    expect(data.affiliateFeeBeneficiary).toBe(MAKER);
+    // Protocol fees are only known from the event
+    expect(data.fixFee).toBe('15000000');
+    expect(data.percentFee).toBe('400000');
+  });
+
+  it('should build OrderFulfilled from Fulfilled event and instruction data', () => {
+    const events = parser.parseTransaction('sig2', hydrate(fulfilledTx));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]?.eventType).toBe(DlnEventType.OrderFulfilled);
+    expect(events[0]?.orderId).toBe(FULFILLED_ORDER_ID);
+
+    const data = events[0]?.data as OrderFulfilledData;
+    expect(data.fulfiller).toBe(TAKER);
+    expect(data.giveAmount).toBe('2500000000');
+    expect(data.takeAmount).toBe('2497000000');
+  });
+
+  it('should fall back to decoded events when instructions cannot be parsed', () => {
+    const tx = hydrate(fulfilledTx);
+    (tx.transaction.message.instructions[0] as any).data = '1111';
+
+    const events = parser.parseTransaction('sig3', tx);
+
+    expect(events).toHaveLength(1);
+    expect((events[0]?.data as OrderFulfilledData).fulfiller).toBe(TAKER);
+    expect((events[0]?.data as OrderFulfilledData).takeAmount).toBe('0');
+  });
+});
+
+describe('DlnEventParser lifecycle events', () => {
+  const parser = new DlnEventParser([SRC_PROGRAM_ID, DST_PROGRAM_ID]);
+  const EVM_BENEFICIARY = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+
+  function eventLog(name: string, ...fields: Buffer[]): string {
+    return `Program data: ${Buffer.concat([computeEventDiscriminator(name), ...fields]).toString('base64')}`;
+  }
+
+  function vec(bytes: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(bytes.length);
+    return Buffer.concat([length, bytes]);
+  }
+
+  function buildTx(programId: string, logs: string[]): ParsedTransactionWithMeta {
+    return {
+      slot: 234600000,
+      blockTime: 1704072000,
+      meta: { err: null, fee: 5000, logMessages: [`Program ${programId} invoke [1]`, ...logs, `Program ${programId} success`] },
+      transaction: {
+        message: {
+          accountKeys: [{ pubkey: new PublicKey(TAKER), signer: true, writable: true }],
+          instructions: [],
+          recentBlockhash: 'Hx9H7xRWkTG3vAJhvCkJDqAhU8SGyxfqVFdUvNPMvKNr',
+        },
+        signatures: ['sig'],
+      },
+    } as unknown as ParsedTransactionWithMeta;
+  }
+
+  it('should emit a single OrderCancelled for SentOrderCancel and OrderCancelled events', () => {
+    const orderId = Buffer.from(FULFILLED_ORDER_ID, 'hex');
+    const events = parser.parseTransaction(
+      'sig-cancel',
+      buildTx(DST_PROGRAM_ID, [
+        'Program log: Instruction: CancelOrder',
+        eventLog('OrderCancelled', orderId),
+        eventLog('SentOrderCancel', orderId, vec(Buffer.from(EVM_BENEFICIARY.slice(2), 'hex'))),
+      ]),
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]?.eventType).toBe(DlnEventType.OrderCancelled);
+    expect(events[0]?.orderId).toBe(FULFILLED_ORDER_ID);
+    const data = events[0]?.data as OrderCancelledData;
+    expect(data.canceller).toBe(TAKER);
+    expect(data.beneficiary).toBe(EVM_BENEFICIARY);
+  });
+
+  it('should emit SentUnlock with its beneficiary', () => {
+    const events = parser.parseTransaction(
+      'sig-unlock',
+      buildTx(DST_PROGRAM_ID, [
+        'Program log: Instruction: SendUnlock',
+        eventLog('SentUnlock', Buffer.from(FULFILLED_ORDER_ID, 'hex'), vec(new PublicKey(TAKER).toBuffer())),
+      ]),
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]?.eventType).toBe(DlnEventType.SentUnlock);
+    expect((events[0]?.data as OrderUnlockData).beneficiary).toBe(TAKER);
+  });
+
+  it('should emit ClaimedUnlock and OrderClaimed from source program events', () => {
+    const unlock = parser.parseTransaction(
+      'sig-claim-unlock',
+      buildTx(SRC_PROGRAM_ID, [
+        eventLog('ClaimedUnlock', Buffer.from(CREATED_ORDER_ID, 'hex'), new PublicKey(TAKER).toBuffer()),
+      ]),
+    );
+    const claimed = parser.parseTransaction(
+      'sig-claim-cancel',
+      buildTx(SRC_PROGRAM_ID, [
+        eventLog('ClaimedOrderCancel', Buffer.from(CREATED_ORDER_ID, 'hex'), new PublicKey(MAKER).toBuffer()),
+      ]),
+    );
+
+    expect(unlock[0]?.eventType).toBe(DlnEventType.ClaimedUnlock);
+    expect((unlock[0]?.data as OrderUnlockData).beneficiary).toBe(TAKER);
+    expect(claimed[0]?.eventType).toBe(DlnEventType.OrderClaimed);
+    expect((claimed[0]?.data as OrderClaimedData).beneficiary).toBe(MAKER);
+  });
+
+  it('should detect lifecycle events from instruction logs when no event is emitted', () => {
+    const logs = [
+      'Program log: Instruction: ClaimOrderCancel',
+      `Program log: OrderId: 0x${CREATED_ORDER_ID}`,
+    ];
+    const events = parser.parseTransaction('sig-logs', buildTx(SRC_PROGRAM_ID, logs));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]?.eventType).toBe(DlnEventType.OrderClaimed);
+  });
+});
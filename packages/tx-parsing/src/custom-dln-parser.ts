@@ -2,123 +2,63 @@ import { TransactionInstruction } from '@solana/web3.js';
 import { ParsedInstruction } from '@debridge-finance/solana-transaction-parser';
 import type { Idl } from '@coral-xyz/anchor';
 import { DLNInstructionType } from './types.js';
+import {
+  DlnDiscriminatorRegistry,
+  defaultDiscriminatorRegistry,
+} from './dln-discriminators.js';
 
 /**
- * Custom parser for DLN program instructions
- * Parses DLN instructions based on the first byte of instruction data
- * 
- * DLN Instruction types (first byte):
- * - 0: CreateOrder
- * - 1: FulfillOrder
- * - 2: CancelOrder
- * - 3: ClaimOrder
+ * Create a parser for DLN program instructions
+ * Instructions are identified by their 8-byte Anchor discriminator using the given registry,
+ * arguments following the discriminator are Borsh-decoded (see dln-layouts.ts)
+ *
+ * Unknown discriminators are returned with name 'unrecognized' and raw data as args
  */
-export function customDlnParser(
-  instruction: TransactionInstruction
-): ParsedInstruction<Idl, string> {
-  const instructionType = instruction.data[0] as DLNInstructionType;
-  let name: string;
-  let args: unknown;
-  let accounts: any[];
+export function createCustomDlnParser(
+  registry: DlnDiscriminatorRegistry = defaultDiscriminatorRegistry,
+): (instruction: TransactionInstruction) => ParsedInstruction<Idl, string> {
+  return (instruction) => {
+    const decoded = registry.decode(instruction.data);
+    const getAccountName = getAccountNameResolver(decoded.type);
 
-  switch (instructionType) {
-    case DLNInstructionType.CreateOrder:
-      name = 'createOrder';
-      // Parse CreateOrder instruction data
-      // Note: This is a simplified version - actual parsing would require
-      // knowledge of the exact Borsh layout of CreateOrder instruction
-      args = parseCreateOrderArgs(instruction.data);
-      accounts = instruction.keys.map((key, index) => ({
-        name: getCreateOrderAccountName(index),
-        pubkey: key.pubkey,
-        isSigner: key.isSigner,
-        isWritable: key.isWritable,
-      }));
-      break;
-
-    case DLNInstructionType.CreateOrderWithNonce:
-      name = 'createOrderWithNonce';
-      // Parse CreateOrderWithNonce instruction data
-      // Similar to CreateOrder but includes nonce field
-      args = parseCreateOrderArgs(instruction.data);
-      accounts = instruction.keys.map((key, index) => ({
-        name: getCreateOrderAccountName(index),
-        pubkey: key.pubkey,
-        isSigner: key.isSigner,
-        isWritable: key.isWritable,
-      }));
-      break;
-
-    case DLNInstructionType.FulfillOrder:
-      name = 'fulfillOrder';
-      // Parse FulfillOrder instruction data
-      args = parseFulfillOrderArgs(instruction.data);
-      accounts = instruction.keys.map((key, index) => ({
-        name: getFulfillOrderAccountName(index),
-        pubkey: key.pubkey,
-        isSigner: key.isSigner,
-        isWritable: key.isWritable,
-      }));
-      break;
-
-    case DLNInstructionType.CancelOrder:
-      name = 'cancelOrder';
-      args = {};
-      accounts = instruction.keys.map((key, index) => ({
-        name: getCancelOrderAccountName(index),
-        pubkey: key.pubkey,
-        isSigner: key.isSigner,
-        isWritable: key.isWritable,
-      }));
-      break;
-
-    case DLNInstructionType.ClaimOrder:
-      name = 'claimOrder';
-      args = {};
-      accounts = instruction.keys.map((key, index) => ({
-        name: getClaimOrderAccountName(index),
-        pubkey: key.pubkey,
-        isSigner: key.isSigner,
-        isWritable: key.isWritable,
-      }));
-      break;
-
-    default:
-      throw new Error(`Unknown DLN instruction type: ${instructionType}`);
-  }
+    const accounts = instruction.keys.map((key, index) => ({
+      name: getAccountName(index),
+      pubkey: key.pubkey,
+      isSigner: key.isSigner,
+      isWritable: key.isWritable,
+    }));
 
-  return {
-    programId: instruction.programId,
-    accounts,
-    args,
-    name,
+    return {
+      programId: instruction.programId,
+      accounts,
+      args: decoded.args,
+      name: decoded.name,
+    };
   };
 }
 
 /**
- * Parse CreateOrder instruction arguments
- * This is a placeholder - actual implementation would require Borsh deserialization
+ * Custom parser for DLN program instructions using the default discriminator registry
  */
-function parseCreateOrderArgs(_data: Buffer): unknown {
-  // Skip first byte (instruction discriminator)
-  // TODO: Implement actual Borsh deserialization based on DLN program IDL
-  return {
-    // Placeholder - actual parsing would extract:
-    // giveChainId, takeChainId, giveAmount, takeAmount, etc.
-  };
-}
+export const customDlnParser = createCustomDlnParser();
 
 /**
- * Parse FulfillOrder instruction arguments
- * This is a placeholder - actual implementation would require Borsh deserialization
+ * Get account name resolver for an instruction type
  */
-function parseFulfillOrderArgs(_data: Buffer): unknown {
-  // Skip first byte (instruction discriminator)
-  // TODO: Implement actual Borsh deserialization based on DLN program IDL
-  return {
-    // Placeholder - actual parsing would extract:
-    // giveAmount, takeAmount, etc.
-  };
+function getAccountNameResolver(type: DLNInstructionType): (index: number) => string {
+  switch (type) {
+    case DLNInstructionType.CreateOrder:
+    case DLNInstructionType.CreateOrderWithNonce:
+      return getCreateOrderAccountName;
+    case DLNInstructionType.FulfillOrder:
+      return getFulfillOrderAccountName;
+    case DLNInstructionType.CancelOrder:
+      return getCancelOrderAccountName;
+    case DLNInstructionType.ClaimOrder:
+      return getClaimOrderAccountName;
+    default:
+      return (index) => `account${index}`;
+  }
 }
 
 /**
@@ -0,0 +1,182 @@
+import { createHash } from 'crypto';
+import type { Idl } from '@coral-xyz/anchor';
+import { DLNInstructionType, type UnrecognizedInstructionData } from './types.js';
+import {
+  decodeCreateOrderArgs,
+  decodeCreateOrderWithNonceArgs,
+  decodeFulfillOrderArgs,
+  decodeCancelOrderArgs,
+  decodeClaimOrderArgs,
+} from './dln-layouts.js';
+
+/**
+ * Anchor instruction discriminators are the first 8 bytes of sha256("global:<snake_case_name>")
+ */
+export const DISCRIMINATOR_LENGTH = 8;
+
+/**
+ * Instruction name reported for unregistered discriminators
+ */
+export const UNRECOGNIZED_INSTRUCTION = 'unrecognized';
+
+/**
+ * Decoder for a single DLN instruction
+ */
+export interface DlnInstructionDecoder {
+  type: DLNInstructionType;
+  name: string;
+  decode: (args: Buffer) => unknown;
+}
+
+/**
+ * Result of decoding instruction data with a registry
+ */
+export type DecodedDlnInstruction =
+  | {
+      type: Exclude<DLNInstructionType, DLNInstructionType.Unrecognized>;
+      name: string;
+      args: unknown;
+    }
+  | {
+      type: DLNInstructionType.Unrecognized;
+      name: typeof UNRECOGNIZED_INSTRUCTION;
+      args: UnrecognizedInstructionData;
+    };
+
+/**
+ * Convert camelCase instruction name to snake_case (Anchor naming)
+ */
+export function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/-/g, '_')
+    .toLowerCase();
+}
+
+/**
+ * Compute the Anchor discriminator for an instruction name
+ */
+export function computeInstructionDiscriminator(name: string): Buffer {
+  return createHash('sha256')
+    .update(`global:${toSnakeCase(name)}`)
+    .digest()
+    .subarray(0, DISCRIMINATOR_LENGTH);
+}
+
+const DEFAULT_DECODERS: DlnInstructionDecoder[] = [
+  { type: DLNInstructionType.CreateOrder, name: 'createOrder', decode: decodeCreateOrderArgs },
+  {
+    type: DLNInstructionType.CreateOrderWithNonce,
+    name: 'createOrderWithNonce',
+    decode: decodeCreateOrderWithNonceArgs,
+  },
+  { type: DLNInstructionType.FulfillOrder, name: 'fulfillOrder', decode: decodeFulfillOrderArgs },
+  { type: DLNInstructionType.CancelOrder, name: 'cancelOrder', decode: decodeCancelOrderArgs },
+  { type: DLNInstructionType.ClaimOrder, name: 'claimOrder', decode: decodeClaimOrderArgs },
+];
+
+/**
+ * Registry mapping Anchor discriminators to DLN instruction decoders
+ * Discriminators are computed from instruction names and can be overridden from an IDL
+ */
+export class DlnDiscriminatorRegistry {
+  private readonly decoders = new Map<string, DlnInstructionDecoder>();
+  private readonly discriminatorsByName = new Map<string, string>();
+
+  constructor(idl?: Idl) {
+    for (const decoder of DEFAULT_DECODERS) {
+      this.register(decoder);
+    }
+
+    if (idl) {
+      this.applyIdl(idl);
+    }
+  }
+
+  /**
+   * Register a decoder, replacing any previous discriminator for the same instruction name
+   */
+  register(
+    decoder: DlnInstructionDecoder,
+    discriminator: Uint8Array = computeInstructionDiscriminator(decoder.name),
+  ): void {
+    if (discriminator.length !== DISCRIMINATOR_LENGTH) {
+      throw new Error(
+        `Invalid discriminator length for ${decoder.name}: ${discriminator.length}`,
+      );
+    }
+
+    const key = toSnakeCase(decoder.name);
+    const previous = this.discriminatorsByName.get(key);
+    if (previous) {
+      this.decoders.delete(previous);
+    }
+
+    const hex = Buffer.from(discriminator).toString('hex');
+    this.decoders.set(hex, decoder);
+    this.discriminatorsByName.set(key, hex);
+  }
+
+  /**
+   * Override discriminators of known instructions from an IDL
+   * Uses explicit `discriminator` bytes when present (Anchor >= 0.30), otherwise the IDL name
+   */
+  applyIdl(idl: Idl): void {
+    for (const instruction of idl.instructions ?? []) {
+      const decoder = DEFAULT_DECODERS.find(
+        (d) => toSnakeCase(d.name) === toSnakeCase(instruction.name),
+      );
+      if (!decoder) {
+        continue;
+      }
+
+      const explicit = (instruction as { discriminator?: number[] }).discriminator;
+      this.register(
+        decoder,
+        explicit ? Uint8Array.from(explicit) : computeInstructionDiscriminator(instruction.name),
+      );
+    }
+  }
+
+  /**
+   * Find the decoder for instruction data (discriminator followed by arguments)
+   */
+  lookup(data: Uint8Array): DlnInstructionDecoder | undefined {
+    if (data.length < DISCRIMINATOR_LENGTH) {
+      return undefined;
+    }
+    const hex = Buffer.from(data.subarray(0, DISCRIMINATOR_LENGTH)).toString('hex');
+    return this.decoders.get(hex);
+  }
+
+  /**
+   * Decode instruction data
+   * Unknown discriminators yield an unrecognized result instead of throwing
+   */
+  decode(data: Uint8Array): DecodedDlnInstruction {
+    const buffer = Buffer.from(data);
+    const decoder = this.lookup(buffer);
+
+    if (!decoder || decoder.type === DLNInstructionType.Unrecognized) {
+      return {
+        type: DLNInstructionType.Unrecognized,
+        name: UNRECOGNIZED_INSTRUCTION,
+        args: {
+          discriminator: buffer.subarray(0, DISCRIMINATOR_LENGTH).toString('hex'),
+          data: buffer.subarray(DISCRIMINATOR_LENGTH).toString('hex'),
+        },
+      };
+    }
+
+    return {
+      type: decoder.type,
+      name: decoder.name,
+      args: decoder.decode(buffer.subarray(DISCRIMINATOR_LENGTH)),
+    };
+  }
+}
+
+/**
+ * Registry with discriminators computed from the built-in instruction names
+ */
+export const defaultDiscriminatorRegistry = new DlnDiscriminatorRegistry();
@@ -3,15 +3,102 @@ import { SolanaParser, ParsedInstruction } from '@debridge-finance/solana-transa
 import type { Idl } from '@coral-xyz/anchor';
 import {
   DlnEventType,
+  DlnAnchorEventName,
   type ParsedDlnEvent,
   type OrderCreatedData,
   type OrderFulfilledData,
+  type OrderCancelledData,
+  type OrderClaimedData,
+  type OrderUnlockData,
+  type DecodedDlnEvent,
+  type CreatedOrderIdEvent,
 } from './types.js';
-import { customDlnParser } from './custom-dln-parser.js';
+import { createCustomDlnParser } from './custom-dln-parser.js';
+import { DlnDiscriminatorRegistry, defaultDiscriminatorRegistry } from './dln-discriminators.js';
+import { decodeDlnEvent, decodeDlnEventsFromLogs, getEventOrderId } from './dln-events.js';
 
 // Re-export types for convenience
 export { DlnEventType } from './types.js';
-export type { ParsedDlnEvent, OrderCreatedData, OrderFulfilledData } from './types.js';
+export type {
+  ParsedDlnEvent,
+  OrderCreatedData,
+  OrderFulfilledData,
+  OrderCancelledData,
+  OrderClaimedData,
+  OrderUnlockData,
+} from './types.js';
+
+/**
+ * Instruction name fragments (lowercase, without underscores) per event type
+ */
+const INSTRUCTION_NAME_PATTERNS: Array<[DlnEventType, string[]]> = [
+  [DlnEventType.OrderCreated, ['createorder']],
+  [DlnEventType.OrderFulfilled, ['fulfillorder']],
+  [DlnEventType.OrderCancelled, ['cancelorder']],
+  [DlnEventType.OrderClaimed, ['claimorder']],
+  [DlnEventType.SentUnlock, ['sendunlock', 'sendbatchunlock']],
+  [DlnEventType.ClaimedUnlock, ['claimunlock', 'claimbatchunlock']],
+];
+
+/**
+ * Log message fragments (lowercase) per event type
+ * Checked in order, more specific patterns come first
+ */
+const LOG_EVENT_PATTERNS: Array<[DlnEventType, string[]]> = [
+  [
+    DlnEventType.OrderCreated,
+    [
+      'order created',
+      'ordercreated',
+      'instruction: createorder',
+      'instruction:createorder',
+    ],
+  ],
+  [
+    DlnEventType.OrderFulfilled,
+    [
+      'order fulfilled',
+      'orderfulfilled',
+      'instruction: fulfillorder',
+      'instruction:fulfillorder',
+    ],
+  ],
+  [
+    DlnEventType.OrderCancelled,
+    [
+      'order cancelled',
+      'instruction: cancelorder',
+      'instruction:cancelorder',
+    ],
+  ],
+  [
+    DlnEventType.OrderClaimed,
+    [
+      'instruction: claimordercancel',
+      'instruction:claimordercancel',
+      'instruction: claimorder',
+      'instruction:claimorder',
+    ],
+  ],
+  [
+    DlnEventType.SentUnlock,
+    [
+      'instruction: sendunlock',
+      'instruction:sendunlock',
+      'instruction: sendbatchunlock',
+      'instruction:sendbatchunlock',
+    ],
+  ],
+  [
+    DlnEventType.ClaimedUnlock,
+    [
+      'instruction: claimunlock',
+      'instruction:claimunlock',
+      'instruction: claimbatchunlock',
+      'instruction:claimbatchunlock',
+    ],
+  ],
+];
 
 /**
  * Extract orderId from transaction log messages
@@ -44,24 +131,14 @@ export function extractOrderIdFromLogs(logMessages: string[]): string | null {
       }
     }
 
-    // Try to extract from Program data (base64 encoded event data)
+    // Try to extract from Program data (base64 encoded Anchor event)
     // Format: "Program data: <base64>"
     if (logMessage.startsWith('Program data:')) {
-      try {
-        const base64Data = logMessage.substring('Program data:'.length).trim();
-        // Decode base64 to get raw bytes
-        const buffer = Buffer.from(base64Data, 'base64');
-
-        // For CreateOrderWithNonce events, the event data structure includes orderId
-        // Try to extract orderId from the decoded data
-        // The orderId is typically 32 bytes and appears after the discriminator
-        const orderId = extractOrderIdFromProgramData(buffer);
-        if (orderId) {
-          return orderId;
-        }
-      } catch (error) {
-        // Skip invalid base64 or parsing errors
-        continue;
+      const base64Data = logMessage.substring('Program data:'.length).trim();
+      const event = decodeDlnEvent(Buffer.from(base64Data, 'base64'));
+      const orderId = event ? getEventOrderId(event) : undefined;
+      if (orderId) {
+        return orderId;
       }
     }
   }
@@ -69,39 +146,6 @@ export function extractOrderIdFromLogs(logMessages: string[]): string | null {
   return null;
 }
 
-/**
- * Extract orderId from Program data buffer
- * Attempts to find a 32-byte orderId in the event data
- */
-function extractOrderIdFromProgramData(buffer: Buffer): string | null {
-  // DLN events typically have:
-  // - 8 bytes: discriminator
-  // - 32 bytes: orderId
-  // We look for patterns that could be orderIds
-
-  // Skip if buffer is too small
-  if (buffer.length < 40) {
-    return null;
-  }
-
-  // Try to extract orderId starting from byte 8 (after discriminator)
-  // OrderId is 32 bytes
-  const orderIdBuffer = buffer.slice(8, 40);
-
-  // Convert to hex string
-  const orderIdHex = orderIdBuffer.toString('hex');
-
-  // Check if it looks like a valid orderId (not all zeros, not all FFs)
-  const allZeros = orderIdHex === '0'.repeat(64);
-  const allFFs = orderIdHex === 'f'.repeat(64);
-
-  if (!allZeros && !allFFs && orderIdHex.length === 64) {
-    return orderIdHex;
-  }
-
-  return null;
-}
-
 /**
  * DLN Event Parser class using @debridge-finance/solana-transaction-parser
  */
@@ -125,6 +169,9 @@ export class DlnEventParser {
 
     // Add custom DLN parser for each programId
     // This allows us to parse DLN instructions even without IDL
+    // IDL discriminators (when provided) override the ones computed from instruction names
+    const registry = idl ? new DlnDiscriminatorRegistry(idl) : defaultDiscriminatorRegistry;
+    const customDlnParser = createCustomDlnParser(registry);
     for (const pid of this.programIds) {
       try {
         this.parser.addParser(new PublicKey(pid), customDlnParser);
@@ -151,9 +198,12 @@ export class DlnEventParser {
       return events;
     }
 
-    // Extract orderId from log messages
+    // Decode Anchor events emitted by DLN programs, they take precedence over log scanning
     const logMessages = tx.meta.logMessages || [];
-    const orderId = extractOrderIdFromLogs(logMessages);
+    const anchorEvents = decodeDlnEventsFromLogs(logMessages, this.programIds);
+
+    // Extract orderId from decoded events or log messages
+    const orderId = anchorEvents.map(getEventOrderId).find(Boolean) ?? extractOrderIdFromLogs(logMessages);
 
     // Discard event if orderId is missing
     if (!orderId) {
@@ -211,7 +261,7 @@ export class DlnEventParser {
             }
 
             // Custom parser (customDlnParser) should have set instruction.name to:
-            // 'createOrder', 'fulfillOrder', 'cancelOrder', or 'claimOrder'
+            // 'createOrder', 'createOrderWithNonce', 'fulfillOrder', 'cancelOrder', or 'claimOrder'
             // This will be used by detectEventType to identify the event type
             const event = this.parseInstruction(
               instruction,
@@ -233,6 +283,22 @@ export class DlnEventParser {
         }
       }
 
+      // Prefer events built from decoded Anchor events, enriched with instruction data
+      if (anchorEvents.length > 0) {
+        const decodedEvents = this.createEventsFromAnchorEvents(
+          anchorEvents,
+          events,
+          orderId,
+          signature,
+          tx.slot,
+          tx.blockTime,
+          this.getFeePayer(tx),
+        );
+        if (decodedEvents.length > 0) {
+          return decodedEvents;
+        }
+      }
+
       // Fallback: if no events found from parsed instructions, try to detect from log messages
       // This handles cases where instructions can't be parsed but logs contain instruction info
       // This is critical because parseTransactionParsedData may not use custom parser for already-parsed instructions
@@ -288,31 +354,42 @@ export class DlnEventParser {
 
     // Parse based on event type
     try {
-      if (eventType === DlnEventType.OrderCreated) {
-        const data = this.parseOrderCreatedData(instruction);
-        if (!data) return null;
-
-        return {
-          eventType,
-          orderId,
-          signature,
-          slot,
-          blockTime,
-          data,
-        };
-      } else if (eventType === DlnEventType.OrderFulfilled) {
-        const data = this.parseOrderFulfilledData(instruction);
-        if (!data) return null;
-
-        return {
-          eventType,
-          orderId,
-          signature,
-          slot,
-          blockTime,
-          data,
-        };
+      let data: ParsedDlnEvent['data'] | null = null;
+
+      switch (eventType) {
+        case DlnEventType.OrderCreated:
+          data = this.parseOrderCreatedData(instruction);
+          break;
+        case DlnEventType.OrderFulfilled:
+          data = this.parseOrderFulfilledData(instruction);
+          break;
+        case DlnEventType.OrderCancelled:
+          data = this.parseOrderCancelledData(instruction);
+          break;
+        case DlnEventType.OrderClaimed:
+          data = this.parseOrderClaimedData(instruction);
+          break;
+        case DlnEventType.SentUnlock:
+        case DlnEventType.ClaimedUnlock: {
+          // Unlock instructions are not decoded, the initiator is the only known party
+          const initiator = this.extractAccount(instruction.accounts || [], 0) || '';
+          data = { initiator, beneficiary: '' };
+          break;
+        }
+        default:
+          return null;
       }
+
+      if (!data) return null;
+
+      return {
+        eventType,
+        orderId,
+        signature,
+        slot,
+        blockTime,
+        data,
+      };
     } catch (error) {
       console.error('Failed to parse instruction data:', error);
     }
@@ -328,53 +405,29 @@ export class DlnEventParser {
     // Custom parser returns: 'createOrder', 'createOrderWithNonce', 'fulfillOrder', 'cancelOrder', 'claimOrder'
     // IDL parser might return: 'createOrder', 'create_order', 'fulfillOrder', 'fulfill_order', etc.
     const instructionName = instruction.name || '';
-    const nameLower = instructionName.toLowerCase();
-
-    // Match various naming conventions
-    if (
-      nameLower === 'createorder' ||
-      nameLower === 'create_order' ||
-      nameLower === 'createorderwithnonce' ||
-      nameLower === 'create_order_with_nonce' ||
-      nameLower.includes('createorder') ||
-      nameLower.includes('create_order')
-    ) {
-      return DlnEventType.OrderCreated;
-    }
+    const nameLower = instructionName.toLowerCase().replace(/_/g, '');
 
-    if (
-      nameLower === 'fulfillorder' ||
-      nameLower === 'fulfill_order' ||
-      nameLower.includes('fulfillorder') ||
-      nameLower.includes('fulfill_order')
-    ) {
-      return DlnEventType.OrderFulfilled;
+    for (const [eventType, names] of INSTRUCTION_NAME_PATTERNS) {
+      if (names.some((name) => nameLower.includes(name))) {
+        return eventType;
+      }
     }
 
     // Check log messages as fallback
+    return this.detectEventTypeFromLogs(logMessages);
+  }
+
+  /**
+   * Detect event type from log messages only (fallback when instructions can't be parsed)
+   */
+  private detectEventTypeFromLogs(logMessages: string[]): DlnEventType | null {
     for (const log of logMessages) {
       const lowerLog = log.toLowerCase();
 
-      // Check for CreateOrder patterns (including createOrderWithNonce)
-      if (
-        lowerLog.includes('order created') ||
-        lowerLog.includes('ordercreated') ||
-        lowerLog.includes('instruction: createorder') ||
-        lowerLog.includes('instruction:createorder') ||
-        lowerLog.includes('instruction: createorderwithnonce') ||
-        lowerLog.includes('instruction:createorderwithnonce')
-      ) {
-        return DlnEventType.OrderCreated;
-      }
-      
-      // Check for FulfillOrder patterns
-      if (
-        lowerLog.includes('order fulfilled') || 
-        lowerLog.includes('orderfulfilled') ||
-        lowerLog.includes('instruction: fulfillorder') ||
-        lowerLog.includes('instruction:fulfillorder')
-      ) {
-        return DlnEventType.OrderFulfilled;
+      for (const [eventType, patterns] of LOG_EVENT_PATTERNS) {
+        if (patterns.some((pattern) => lowerLog.includes(pattern))) {
+          return eventType;
+        }
       }
     }
 
@@ -382,36 +435,128 @@ export class DlnEventParser {
   }
 
   /**
-   * Detect event type from log messages only (fallback when instructions can't be parsed)
+   * Create events from decoded Anchor events
+   * Instruction events of the same type fill in fields the Anchor event does not carry
    */
-  private detectEventTypeFromLogs(logMessages: string[]): DlnEventType | null {
-    for (const log of logMessages) {
-      const lowerLog = log.toLowerCase();
-
-      // Check for CreateOrder patterns (including createOrderWithNonce)
-      if (
-        lowerLog.includes('order created') ||
-        lowerLog.includes('ordercreated') ||
-        lowerLog.includes('instruction: createorder') ||
-        lowerLog.includes('instruction:createorder') ||
-        lowerLog.includes('instruction: createorderwithnonce') ||
-        lowerLog.includes('instruction:createorderwithnonce')
-      ) {
-        return DlnEventType.OrderCreated;
+  private createEventsFromAnchorEvents(
+    anchorEvents: DecodedDlnEvent[],
+    instructionEvents: ParsedDlnEvent[],
+    orderId: string,
+    signature: string,
+    slot: number,
+    blockTime: number,
+    feePayer: string,
+  ): ParsedDlnEvent[] {
+    const events: ParsedDlnEvent[] = [];
+    const seen = new Map<string, ParsedDlnEvent>();
+    const createdOrderId = anchorEvents.find(
+      (event): event is CreatedOrderIdEvent => event.name === DlnAnchorEventName.CreatedOrderId,
+    );
+    const findInstructionData = <T extends ParsedDlnEvent['data']>(eventType: DlnEventType) =>
+      instructionEvents.find((event) => event.eventType === eventType)?.data as T | undefined;
+
+    const push = (eventType: DlnEventType, eventOrderId: string, data: ParsedDlnEvent['data']) => {
+      // SentOrderCancel and OrderCancelled can both be emitted for one cancellation,
+      // merge them into one event filling fields the first one did not carry
+      const key = `${eventType}:${eventOrderId}`;
+      const existing = seen.get(key);
+      if (existing) {
+        const merged = existing.data as unknown as Record<string, unknown>;
+        for (const [field, value] of Object.entries(data)) {
+          if (value && (!merged[field] || merged[field] === '0')) {
+            merged[field] = value;
+          }
+        }
+        return;
       }
-      
-      // Check for FulfillOrder patterns
-      if (
-        lowerLog.includes('order fulfilled') || 
-        lowerLog.includes('orderfulfilled') ||
-        lowerLog.includes('instruction: fulfillorder') ||
-        lowerLog.includes('instruction:fulfillorder')
-      ) {
-        return DlnEventType.OrderFulfilled;
+      const event = { eventType, orderId: eventOrderId, signature, slot, blockTime, data };
+      seen.set(key, event);
+      events.push(event);
+    };
+
+    for (const anchorEvent of anchorEvents) {
+      switch (anchorEvent.name) {
+        case DlnAnchorEventName.CreatedOrder: {
+          const { order } = anchorEvent;
+          const instructionData = findInstructionData<OrderCreatedData>(DlnEventType.OrderCreated);
+
+          push(DlnEventType.OrderCreated, createdOrderId?.orderId ?? orderId, {
+            ...instructionData,
+            maker: order.maker,
+            giveChainId: String(order.give.chainId),
+            takeChainId: String(order.take.chainId),
+            giveTokenAddress: order.give.tokenAddress,
+            takeTokenAddress: order.take.tokenAddress,
+            giveAmount: order.give.amount.toString(),
+            takeAmount: order.take.amount.toString(),
+            receiver: order.receiver,
+            allowedTaker: order.allowedTaker,
+            allowedCancelBeneficiary: order.allowedCancelBeneficiary,
+            // Protocol fees are only known from the event
+            fixFee: anchorEvent.fixFee.toString(),
+            percentFee: anchorEvent.percentFee.toString(),
+          });
+          break;
+        }
+
+        case DlnAnchorEventName.Fulfilled: {
+          const instructionData = findInstructionData<OrderFulfilledData>(DlnEventType.OrderFulfilled);
+
+          push(DlnEventType.OrderFulfilled, anchorEvent.orderId, {
+            giveAmount: instructionData?.giveAmount ?? '0',
+            takeAmount: instructionData?.takeAmount ?? '0',
+            orderBeneficiary: instructionData?.orderBeneficiary ?? '',
+            unlockBeneficiary: instructionData?.unlockBeneficiary || anchorEvent.taker,
+            fulfiller: anchorEvent.taker,
+          });
+          break;
+        }
+
+        case DlnAnchorEventName.OrderCancelled:
+        case DlnAnchorEventName.SentOrderCancel: {
+          const instructionData = findInstructionData<OrderCancelledData>(DlnEventType.OrderCancelled);
+          const beneficiary = 'beneficiary' in anchorEvent ? anchorEvent.beneficiary : undefined;
+
+          push(DlnEventType.OrderCancelled, anchorEvent.orderId, {
+            canceller: instructionData?.canceller || feePayer,
+            beneficiary: beneficiary ?? instructionData?.beneficiary ?? '',
+            giveAmount: instructionData?.giveAmount ?? '0',
+            takeAmount: instructionData?.takeAmount ?? '0',
+            executionFee: instructionData?.executionFee ?? '0',
+          });
+          break;
+        }
+
+        case DlnAnchorEventName.ClaimedOrderCancel: {
+          const instructionData = findInstructionData<OrderClaimedData>(DlnEventType.OrderClaimed);
+
+          push(DlnEventType.OrderClaimed, anchorEvent.orderId, {
+            claimer: instructionData?.claimer || feePayer,
+            beneficiary: anchorEvent.beneficiary,
+          });
+          break;
+        }
+
+        case DlnAnchorEventName.SentUnlock:
+          push(DlnEventType.SentUnlock, anchorEvent.orderId, {
+            initiator: feePayer,
+            beneficiary: anchorEvent.beneficiary,
+          });
+          break;
+
+        case DlnAnchorEventName.ClaimedUnlock:
+          push(DlnEventType.ClaimedUnlock, anchorEvent.orderId, {
+            initiator: feePayer,
+            beneficiary: anchorEvent.beneficiary,
+          });
+          break;
+
+        default:
+          break;
       }
     }
 
-    return null;
+    return events;
   }
 
   /**
@@ -425,44 +570,59 @@ export class DlnEventParser {
     blockTime: number,
   ): ParsedDlnEvent | null {
     try {
-      if (eventType === DlnEventType.OrderCreated) {
-        // Create minimal OrderCreated data from logs
-        const data: OrderCreatedData = {
-          maker: '',
-          giveChainId: '',
-          takeChainId: '',
-          giveTokenAddress: '',
-          takeTokenAddress: '',
-          giveAmount: '0',
-          takeAmount: '0',
-          receiver: '',
-        };
-        return {
-          eventType,
-          orderId,
-          signature,
-          slot,
-          blockTime,
-          data,
-        };
-      } else if (eventType === DlnEventType.OrderFulfilled) {
-        // Create minimal OrderFulfilled data from logs
-        const data: OrderFulfilledData = {
-          fulfiller: '',
-          giveAmount: '0',
-          takeAmount: '0',
-          orderBeneficiary: '',
-          unlockBeneficiary: '',
-        };
-        return {
-          eventType,
-          orderId,
-          signature,
-          slot,
-          blockTime,
-          data,
-        };
+      let data: ParsedDlnEvent['data'];
+
+      // Create minimal event data from logs
+      switch (eventType) {
+        case DlnEventType.OrderCreated:
+          data = {
+            maker: '',
+            giveChainId: '',
+            takeChainId: '',
+            giveTokenAddress: '',
+            takeTokenAddress: '',
+            giveAmount: '0',
+            takeAmount: '0',
+            receiver: '',
+          } satisfies OrderCreatedData;
+          break;
+        case DlnEventType.OrderFulfilled:
+          data = {
+            fulfiller: '',
+            giveAmount: '0',
+            takeAmount: '0',
+            orderBeneficiary: '',
+            unlockBeneficiary: '',
+          } satisfies OrderFulfilledData;
+          break;
+        case DlnEventType.OrderCancelled:
+          data = {
+            canceller: '',
+            beneficiary: '',
+            giveAmount: '0',
+            takeAmount: '0',
+            executionFee: '0',
+          } satisfies OrderCancelledData;
+          break;
+        case DlnEventType.OrderClaimed:
+          data = { claimer: '', beneficiary: '' } satisfies OrderClaimedData;
+          break;
+        case DlnEventType.SentUnlock:
+        case DlnEventType.ClaimedUnlock:
+          data = { initiator: '', beneficiary: '' } satisfies OrderUnlockData;
+          break;
+        default:
+          return null;
       }
+
+      return {
+        eventType,
+        orderId,
+        signature,
+        slot,
+        blockTime,
+        data,
+      };
     } catch (error) {
       console.error('Failed to create event from logs:', error);
     }
@@ -478,20 +638,21 @@ export class DlnEventParser {
       const args = (instruction.args || {}) as any;
       const accounts = instruction.accounts || [];
 
-      // Extract data from instruction arguments
+      // Extract data from instruction arguments (see CreateOrderData)
       return {
         maker: this.extractAccount(accounts, 'maker') || this.extractAccount(accounts, 0) || '',
-        giveChainId: String(args.giveChainId || args.give_chain_id || ''),
-        takeChainId: String(args.takeChainId || args.take_chain_id || ''),
+        giveChainId: this.stringifyArg(args.giveChainId ?? args.give_chain_id, ''),
+        takeChainId: this.stringifyArg(args.takeChainId ?? args.take_chain_id, ''),
         giveTokenAddress: this.extractAccount(accounts, 'giveToken') || this.extractAccount(accounts, 'give_token') || '',
-        takeTokenAddress: this.extractAccount(accounts, 'takeToken') || this.extractAccount(accounts, 'take_token') || '',
-        giveAmount: String(args.giveAmount || args.give_amount || '0'),
-        takeAmount: String(args.takeAmount || args.take_amount || '0'),
-        receiver: this.extractAccount(accounts, 'receiver') || '',
+        takeTokenAddress: args.takeTokenAddress || this.extractAccount(accounts, 'takeToken') || this.extractAccount(accounts, 'take_token') || '',
+        giveAmount: this.stringifyArg(args.giveAmount ?? args.give_amount, '0'),
+        takeAmount: this.stringifyArg(args.takeAmount ?? args.take_amount, '0'),
+        receiver: args.receiver || this.extractAccount(accounts, 'receiver') || '',
         expirySlot: args.expirySlot || args.expiry_slot,
-        affiliateFee: args.affiliateFee ? String(args.affiliateFee) : undefined,
-        allowedTaker: this.extractAccount(accounts, 'allowedTaker') || this.extractAccount(accounts, 'allowed_taker'),
-        allowedCancelBeneficiary: this.extractAccount(accounts, 'allowedCancelBeneficiary') || this.extractAccount(accounts, 'allowed_cancel_beneficiary'),
+        affiliateFee: args.affiliateFee !== undefined ? String(args.affiliateFee) : undefined,
+        affiliateFeeBeneficiary: args.affiliateFeeBeneficiary?.toBase58?.(),
+        allowedTaker: args.allowedTaker || this.extractAccount(accounts, 'allowedTaker') || this.extractAccount(accounts, 'allowed_taker'),
+        allowedCancelBeneficiary: args.allowedCancelBeneficiary?.toBase58?.() || this.extractAccount(accounts, 'allowedCancelBeneficiary') || this.extractAccount(accounts, 'allowed_cancel_beneficiary'),
       };
     } catch (error) {
       console.error('Failed to parse OrderCreated data:', error);
@@ -506,13 +667,15 @@ export class DlnEventParser {
     try {
       const args = (instruction.args || {}) as any;
       const accounts = instruction.accounts || [];
+      const fulfiller = this.extractAccount(accounts, 'fulfiller') || this.extractAccount(accounts, 0) || '';
 
       return {
-        fulfiller: this.extractAccount(accounts, 'fulfiller') || this.extractAccount(accounts, 0) || '',
-        giveAmount: String(args.giveAmount || args.give_amount || '0'),
-        takeAmount: String(args.takeAmount || args.take_amount || '0'),
-        orderBeneficiary: this.extractAccount(accounts, 'orderBeneficiary') || this.extractAccount(accounts, 'order_beneficiary') || '',
-        unlockBeneficiary: this.extractAccount(accounts, 'unlockBeneficiary') || this.extractAccount(accounts, 'unlock_beneficiary') || '',
+        fulfiller,
+        giveAmount: this.stringifyArg(args.giveAmount ?? args.give_amount, '0'),
+        takeAmount: this.stringifyArg(args.takeAmount ?? args.take_amount, '0'),
+        orderBeneficiary: args.orderBeneficiary || this.extractAccount(accounts, 'orderBeneficiary') || this.extractAccount(accounts, 'order_beneficiary') || '',
+        // Unlock authority defaults to the fulfiller when not set explicitly
+        unlockBeneficiary: args.unlockAuthority?.toBase58?.() || this.extractAccount(accounts, 'unlockBeneficiary') || this.extractAccount(accounts, 'unlock_beneficiary') || fulfiller,
       };
     } catch (error) {
       console.error('Failed to parse OrderFulfilled data:', error);
@@ -520,6 +683,54 @@ export class DlnEventParser {
     }
   }
 
+  /**
+   * Parse OrderCancelled instruction data
+   */
+  private parseOrderCancelledData(instruction: ParsedInstruction<Idl, string>): OrderCancelledData | null {
+    try {
+      const args = (instruction.args || {}) as any;
+      const accounts = instruction.accounts || [];
+
+      return {
+        canceller: this.extractAccount(accounts, 0) || '',
+        beneficiary: args.beneficiary || this.extractAccount(accounts, 'beneficiary') || '',
+        giveAmount: this.stringifyArg(args.order?.give?.amount, '0'),
+        takeAmount: this.stringifyArg(args.order?.take?.amount, '0'),
+        executionFee: this.stringifyArg(args.executionFee, '0'),
+      };
+    } catch (error) {
+      console.error('Failed to parse OrderCancelled data:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Parse OrderClaimed instruction data
+   */
+  private parseOrderClaimedData(instruction: ParsedInstruction<Idl, string>): OrderClaimedData | null {
+    const claimer = this.extractAccount(instruction.accounts || [], 0) || '';
+    return { claimer, beneficiary: claimer };
+  }
+
+  /**
+   * Get the fee payer (first account key) of a transaction
+   */
+  private getFeePayer(tx: ParsedTransactionWithMeta): string {
+    const feePayer = tx.transaction?.message?.accountKeys?.[0]?.pubkey as unknown;
+    if (!feePayer) return '';
+    return typeof feePayer === 'string' ? feePayer : (feePayer as PublicKey).toBase58();
+  }
+
+  /**
+   * Stringify a decoded argument (number, bigint or BN), using fallback when missing
+   */
+  private stringifyArg(value: unknown, fallback: string): string {
+    if (value === undefined || value === null || value === '') {
+      return fallback;
+    }
+    return String(value);
+  }
+
   /**
    * Extract account address from accounts array
    */
@@ -0,0 +1,188 @@
+import { createHash } from 'crypto';
+import type { PublicKey } from '@solana/web3.js';
+import { struct, u8, u64, array, vecU8, publicKey } from '@coral-xyz/borsh';
+import { DlnAnchorEventName, type DecodedDlnEvent } from './types.js';
+import { DISCRIMINATOR_LENGTH } from './dln-discriminators.js';
+import { orderLayout, decodeOrder, formatOrderId, formatChainAddress } from './dln-layouts.js';
+
+const PROGRAM_DATA_PREFIX = 'Program data:';
+const INVOKE_PATTERN = /^Program (\S+) invoke \[\d+\]$/;
+const EXIT_PATTERN = /^Program (\S+) (?:success|failed)/;
+
+/**
+ * Compute the Anchor discriminator for an event name: sha256("event:<Name>")[0..8]
+ */
+export function computeEventDiscriminator(name: string): Buffer {
+  return createHash('sha256')
+    .update(`event:${name}`)
+    .digest()
+    .subarray(0, DISCRIMINATOR_LENGTH);
+}
+
+interface EventDecoder {
+  name: DlnAnchorEventName;
+  decode: (data: Buffer) => DecodedDlnEvent;
+}
+
+const orderIdLayout = struct([array(u8(), 32, 'orderId')]);
+
+const EVENT_DECODERS: EventDecoder[] = [
+  {
+    name: DlnAnchorEventName.CreatedOrder,
+    decode: (data) => {
+      const raw = struct([orderLayout('order'), u64('fixFee'), u64('percentFee')]).decode(data);
+      return {
+        name: DlnAnchorEventName.CreatedOrder,
+        order: decodeOrder(raw.order),
+        fixFee: BigInt(raw.fixFee.toString()),
+        percentFee: BigInt(raw.percentFee.toString()),
+      };
+    },
+  },
+  {
+    name: DlnAnchorEventName.CreatedOrderId,
+    decode: (data) => ({
+      name: DlnAnchorEventName.CreatedOrderId,
+      orderId: formatOrderId(orderIdLayout.decode(data).orderId),
+    }),
+  },
+  {
+    name: DlnAnchorEventName.Fulfilled,
+    decode: (data) => {
+      const raw = struct([array(u8(), 32, 'orderId'), publicKey('taker')]).decode(data);
+      return {
+        name: DlnAnchorEventName.Fulfilled,
+        orderId: formatOrderId(raw.orderId),
+        taker: (raw.taker as PublicKey).toBase58(),
+      };
+    },
+  },
+  {
+    name: DlnAnchorEventName.SentUnlock,
+    decode: (data) => {
+      const raw = struct([array(u8(), 32, 'orderId'), vecU8('beneficiary')]).decode(data);
+      return {
+        name: DlnAnchorEventName.SentUnlock,
+        orderId: formatOrderId(raw.orderId),
+        beneficiary: formatChainAddress(raw.beneficiary),
+      };
+    },
+  },
+  {
+    name: DlnAnchorEventName.SentOrderCancel,
+    decode: (data) => {
+      const raw = struct([array(u8(), 32, 'orderId'), vecU8('beneficiary')]).decode(data);
+      return {
+        name: DlnAnchorEventName.SentOrderCancel,
+        orderId: formatOrderId(raw.orderId),
+        beneficiary: formatChainAddress(raw.beneficiary),
+      };
+    },
+  },
+  {
+    name: DlnAnchorEventName.OrderCancelled,
+    decode: (data) => ({
+      name: DlnAnchorEventName.OrderCancelled,
+      orderId: formatOrderId(orderIdLayout.decode(data).orderId),
+    }),
+  },
+  {
+    name: DlnAnchorEventName.ClaimedUnlock,
+    decode: (data) => {
+      const raw = struct([array(u8(), 32, 'orderId'), publicKey('beneficiary')]).decode(data);
+      return {
+        name: DlnAnchorEventName.ClaimedUnlock,
+        orderId: formatOrderId(raw.orderId),
+        beneficiary: (raw.beneficiary as PublicKey).toBase58(),
+      };
+    },
+  },
+  {
+    name: DlnAnchorEventName.ClaimedOrderCancel,
+    decode: (data) => {
+      const raw = struct([array(u8(), 32, 'orderId'), publicKey('beneficiary')]).decode(data);
+      return {
+        name: DlnAnchorEventName.ClaimedOrderCancel,
+        orderId: formatOrderId(raw.orderId),
+        beneficiary: (raw.beneficiary as PublicKey).toBase58(),
+      };
+    },
+  },
+];
+
+const EVENT_DECODERS_BY_DISCRIMINATOR = new Map<string, EventDecoder>(
+  EVENT_DECODERS.map((decoder) => [computeEventDiscriminator(decoder.name).toString('hex'), decoder]),
+);
+
+/**
+ * Decode a single Anchor event payload (discriminator followed by Borsh-encoded fields)
+ * Returns null for unknown discriminators or malformed payloads
+ */
+export function decodeDlnEvent(data: Buffer): DecodedDlnEvent | null {
+  if (data.length < DISCRIMINATOR_LENGTH) {
+    return null;
+  }
+
+  const discriminator = data.subarray(0, DISCRIMINATOR_LENGTH).toString('hex');
+  const decoder = EVENT_DECODERS_BY_DISCRIMINATOR.get(discriminator);
+  if (!decoder) {
+    return null;
+  }
+
+  try {
+    return decoder.decode(data.subarray(DISCRIMINATOR_LENGTH));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode DLN Anchor events from transaction log messages
+ * Tracks the invocation stack to attribute each "Program data:" log to its emitting program,
+ * when programIds is given only events emitted by those programs are returned
+ */
+export function decodeDlnEventsFromLogs(
+  logMessages: string[],
+  programIds?: Iterable<string>,
+): DecodedDlnEvent[] {
+  const allowed = programIds ? new Set(programIds) : null;
+  const stack: string[] = [];
+  const events: DecodedDlnEvent[] = [];
+
+  for (const logMessage of logMessages) {
+    const invoke = logMessage.match(INVOKE_PATTERN);
+    if (invoke?.[1]) {
+      stack.push(invoke[1]);
+      continue;
+    }
+
+    if (EXIT_PATTERN.test(logMessage)) {
+      stack.pop();
+      continue;
+    }
+
+    if (!logMessage.startsWith(PROGRAM_DATA_PREFIX)) {
+      continue;
+    }
+
+    const programId = stack[stack.length - 1];
+    if (allowed && (!programId || !allowed.has(programId))) {
+      continue;
+    }
+
+    const base64Data = logMessage.substring(PROGRAM_DATA_PREFIX.length).trim();
+    const event = decodeDlnEvent(Buffer.from(base64Data, 'base64'));
+    if (event) {
+      events.push({ ...event, programId });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Get the order id carried by an event (CreatedOrder does not carry one)
+ */
+export function getEventOrderId(event: DecodedDlnEvent): string | undefined {
+  return 'orderId' in event ? event.orderId : undefined;
+}
@@ -0,0 +1,265 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  struct,
+  u8,
+  u32,
+  u64,
+  array,
+  vecU8,
+  option,
+  publicKey,
+} from '@coral-xyz/borsh';
+import type {
+  CreateOrderData,
+  FulfillOrderData,
+  CancelOrderData,
+  ClaimOrderData,
+  DlnOffer,
+  DlnOrder,
+} from './types.js';
+
+/**
+ * DLN chain id of Solana (as used by deBridge)
+ */
+export const SOLANA_CHAIN_ID = 7565164;
+
+/**
+ * Offer layout: 32-byte big-endian chain id, token address bytes, 32-byte big-endian amount
+ */
+const offerLayout = (property?: string) =>
+  struct(
+    [
+      array(u8(), 32, 'chainId'),
+      vecU8('tokenAddress'),
+      array(u8(), 32, 'amount'),
+    ],
+    property,
+  );
+
+/**
+ * CreateOrderArgs layout (DLN source program)
+ */
+const createOrderArgsLayout = (property?: string) =>
+  struct(
+    [
+      u64('giveOriginalAmount'),
+      offerLayout('take'),
+      vecU8('receiverDst'),
+      option(vecU8(), 'externalCall'),
+      publicKey('givePatchAuthoritySrc'),
+      option(publicKey(), 'allowedCancelBeneficiarySrc'),
+      vecU8('orderAuthorityAddressDst'),
+      option(vecU8(), 'allowedTakerDst'),
+    ],
+    property,
+  );
+
+/**
+ * AffiliateFee layout
+ */
+const affiliateFeeLayout = (property?: string) =>
+  struct([publicKey('beneficiary'), u64('amount')], property);
+
+/**
+ * Order layout (as passed to DLN destination program instructions and emitted in events)
+ */
+export const orderLayout = (property?: string) =>
+  struct(
+    [
+      u64('makerOrderNonce'),
+      vecU8('makerSrc'),
+      offerLayout('give'),
+      offerLayout('take'),
+      vecU8('receiverDst'),
+      vecU8('givePatchAuthoritySrc'),
+      vecU8('orderAuthorityAddressDst'),
+      option(vecU8(), 'allowedTakerDst'),
+      option(vecU8(), 'allowedCancelBeneficiarySrc'),
+      option(struct([array(u8(), 32, 'externalCallShortcut')]), 'externalCall'),
+    ],
+    property,
+  );
+
+/**
+ * Instruction argument layouts (data after the instruction discriminator)
+ */
+export const createOrderLayout = struct([
+  createOrderArgsLayout('orderArgs'),
+  option(affiliateFeeLayout(), 'affiliateFee'),
+  option(u32(), 'referralCode'),
+]);
+
+export const createOrderWithNonceLayout = struct([
+  createOrderArgsLayout('orderArgs'),
+  option(affiliateFeeLayout(), 'affiliateFee'),
+  option(u32(), 'referralCode'),
+  u64('nonce'),
+  option(vecU8(), 'metadata'),
+]);
+
+export const fulfillOrderLayout = struct([
+  orderLayout('unvalidatedOrder'),
+  array(u8(), 32, 'orderId'),
+  option(publicKey(), 'unlockAuthority'),
+]);
+
+export const cancelOrderLayout = struct([
+  orderLayout('unvalidatedOrder'),
+  array(u8(), 32, 'orderId'),
+  vecU8('cancelBeneficiary'),
+  u64('executionFee'),
+]);
+
+export const claimOrderLayout = struct([array(u8(), 32, 'orderId')]);
+
+/**
+ * Convert big-endian bytes to bigint
+ */
+export function bytesToBigInt(bytes: ArrayLike<number>): bigint {
+  const hex = Buffer.from(bytes as Uint8Array).toString('hex');
+  return hex.length > 0 ? BigInt(`0x${hex}`) : 0n;
+}
+
+/**
+ * Convert a 32-byte big-endian chain id to number
+ */
+export function bytesToChainId(bytes: ArrayLike<number>): number {
+  const value = bytesToBigInt(bytes);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error(`Chain id out of range: ${value}`);
+  }
+  return Number(value);
+}
+
+/**
+ * Format a 32-byte order id as lowercase hex (no 0x prefix)
+ */
+export function formatOrderId(bytes: ArrayLike<number>): string {
+  return Buffer.from(bytes as Uint8Array).toString('hex');
+}
+
+/**
+ * Format a cross-chain address
+ * 32-byte addresses are Solana public keys (base58), anything else is hex (EVM)
+ */
+export function formatChainAddress(bytes: ArrayLike<number>): string {
+  const buffer = Buffer.from(bytes as Uint8Array);
+  if (buffer.length === 32) {
+    return new PublicKey(buffer).toBase58();
+  }
+  return `0x${buffer.toString('hex')}`;
+}
+
+function decodeOffer(raw: any): DlnOffer {
+  return {
+    chainId: bytesToChainId(raw.chainId),
+    tokenAddress: formatChainAddress(raw.tokenAddress),
+    amount: bytesToBigInt(raw.amount),
+  };
+}
+
+/**
+ * Decode a raw Order struct
+ */
+export function decodeOrder(raw: any): DlnOrder {
+  return {
+    makerOrderNonce: BigInt(raw.makerOrderNonce.toString()),
+    maker: formatChainAddress(raw.makerSrc),
+    give: decodeOffer(raw.give),
+    take: decodeOffer(raw.take),
+    receiver: formatChainAddress(raw.receiverDst),
+    givePatchAuthority: formatChainAddress(raw.givePatchAuthoritySrc),
+    orderAuthorityAddress: formatChainAddress(raw.orderAuthorityAddressDst),
+    allowedTaker: raw.allowedTakerDst ? formatChainAddress(raw.allowedTakerDst) : undefined,
+    allowedCancelBeneficiary: raw.allowedCancelBeneficiarySrc
+      ? formatChainAddress(raw.allowedCancelBeneficiarySrc)
+      : undefined,
+    externalCallShortcut: raw.externalCall
+      ? Buffer.from(raw.externalCall.externalCallShortcut).toString('hex')
+      : undefined,
+  };
+}
+
+function toCreateOrderData(raw: any): CreateOrderData {
+  const args = raw.orderArgs;
+  const take = decodeOffer(args.take);
+
+  return {
+    giveAmount: BigInt(args.giveOriginalAmount.toString()),
+    takeAmount: take.amount,
+    giveChainId: SOLANA_CHAIN_ID,
+    takeChainId: take.chainId,
+    takeTokenAddress: take.tokenAddress,
+    receiver: formatChainAddress(args.receiverDst),
+    givePatchAuthority: args.givePatchAuthoritySrc as PublicKey,
+    orderAuthorityAddress: formatChainAddress(args.orderAuthorityAddressDst),
+    allowedTaker: args.allowedTakerDst ? formatChainAddress(args.allowedTakerDst) : undefined,
+    allowedCancelBeneficiary: args.allowedCancelBeneficiarySrc ?? undefined,
+    externalCall: args.externalCall ? Buffer.from(args.externalCall).toString('hex') : undefined,
+    affiliateFee: raw.affiliateFee ? BigInt(raw.affiliateFee.amount.toString()) : undefined,
+    affiliateFeeBeneficiary: raw.affiliateFee?.beneficiary ?? undefined,
+    referralCode: raw.referralCode ?? undefined,
+  };
+}
+
+/**
+ * Decode createOrder arguments
+ */
+export function decodeCreateOrderArgs(data: Buffer): CreateOrderData {
+  return toCreateOrderData(createOrderLayout.decode(data));
+}
+
+/**
+ * Decode createOrderWithNonce arguments
+ */
+export function decodeCreateOrderWithNonceArgs(data: Buffer): CreateOrderData {
+  const raw = createOrderWithNonceLayout.decode(data);
+  return {
+    ...toCreateOrderData(raw),
+    nonce: BigInt(raw.nonce.toString()),
+    metadata: raw.metadata ? Buffer.from(raw.metadata).toString('hex') : undefined,
+  };
+}
+
+/**
+ * Decode fulfillOrder arguments
+ */
+export function decodeFulfillOrderArgs(data: Buffer): FulfillOrderData {
+  const raw = fulfillOrderLayout.decode(data);
+  const order = decodeOrder(raw.unvalidatedOrder);
+
+  return {
+    orderId: formatOrderId(raw.orderId),
+    order,
+    giveAmount: order.give.amount,
+    takeAmount: order.take.amount,
+    giveChainId: order.give.chainId,
+    takeChainId: order.take.chainId,
+    orderBeneficiary: order.receiver,
+    unlockAuthority: raw.unlockAuthority ?? undefined,
+  };
+}
+
+/**
+ * Decode cancelOrder arguments
+ */
+export function decodeCancelOrderArgs(data: Buffer): CancelOrderData {
+  const raw = cancelOrderLayout.decode(data);
+
+  return {
+    orderId: formatOrderId(raw.orderId),
+    order: decodeOrder(raw.unvalidatedOrder),
+    beneficiary: formatChainAddress(raw.cancelBeneficiary),
+    executionFee: BigInt(raw.executionFee.toString()),
+  };
+}
+
+/**
+ * Decode claimOrder arguments
+ */
+export function decodeClaimOrderArgs(data: Buffer): ClaimOrderData {
+  const raw = claimOrderLayout.decode(data);
+  return {
+    orderId: formatOrderId(raw.orderId),
+  };
+}
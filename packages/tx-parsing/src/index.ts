@@ -13,6 +13,9 @@ export {
   DLNInstructionType,
   DlnEventType,
   type ParsedDLNInstruction,
+  type UnrecognizedInstructionData,
+  type DlnOffer,
+  type DlnOrder,
   type CreateOrderData,
   type FulfillOrderData,
   type CancelOrderData,
@@ -22,6 +25,19 @@ export {
   type ParsedDlnEvent,
   type OrderCreatedData,
   type OrderFulfilledData,
+  type OrderCancelledData,
+  type OrderClaimedData,
+  type OrderUnlockData,
+  DlnAnchorEventName,
+  type DecodedDlnEvent,
+  type CreatedOrderEvent,
+  type CreatedOrderIdEvent,
+  type FulfilledEvent,
+  type SentUnlockEvent,
+  type SentOrderCancelEvent,
+  type OrderCancelledEvent,
+  type ClaimedUnlockEvent,
+  type ClaimedOrderCancelEvent,
 } from './types.js';
 
 // DLN Event Parser
@@ -31,8 +47,42 @@ export {
   extractOrderIdFromLogs,
 } from './dln-event-parser.js';
 
+// Anchor event decoding
+export {
+  decodeDlnEvent,
+  decodeDlnEventsFromLogs,
+  computeEventDiscriminator,
+  getEventOrderId,
+} from './dln-events.js';
+
 // Custom DLN Parser
-export { customDlnParser } from './custom-dln-parser.js';
+export { customDlnParser, createCustomDlnParser } from './custom-dln-parser.js';
+
+// Anchor discriminator registry
+export {
+  DlnDiscriminatorRegistry,
+  defaultDiscriminatorRegistry,
+  computeInstructionDiscriminator,
+  DISCRIMINATOR_LENGTH,
+  UNRECOGNIZED_INSTRUCTION,
+  type DlnInstructionDecoder,
+  type DecodedDlnInstruction,
+} from './dln-discriminators.js';
+
+// DLN Borsh layouts
+export {
+  SOLANA_CHAIN_ID,
+  decodeCreateOrderArgs,
+  decodeCreateOrderWithNonceArgs,
+  decodeFulfillOrderArgs,
+  decodeCancelOrderArgs,
+  decodeClaimOrderArgs,
+  decodeOrder,
+  bytesToBigInt,
+  bytesToChainId,
+  formatOrderId,
+  formatChainAddress,
+} from './dln-layouts.js';
 
 // Instruction Parser
 export {
@@ -1,5 +1,11 @@
 import { PublicKey } from '@solana/web3.js';
-import type { ParsedDLNInstruction, DLNInstructionType } from './types.js';
+import { utils } from '@coral-xyz/anchor';
+import type { ParsedDLNInstruction } from './types.js';
+import {
+  DlnDiscriminatorRegistry,
+  defaultDiscriminatorRegistry,
+  type DecodedDlnInstruction,
+} from './dln-discriminators.js';
 
 /**
  * Parse a DLN instruction
@@ -7,6 +13,7 @@ import type { ParsedDLNInstruction, DLNInstructionType } from './types.js';
 export function parseInstruction(
   instruction: any,
   programId: PublicKey,
+  registry: DlnDiscriminatorRegistry = defaultDiscriminatorRegistry,
 ): ParsedDLNInstruction | null {
   // Check if instruction is for our program
   const instructionProgramId =
@@ -18,31 +25,36 @@ export function parseInstruction(
     return null;
   }
 
-  // Parse instruction data
-  // Note: This is a simplified version. In production, you'd use Borsh
-  // deserialization based on the actual DLN program's instruction layout
-  const data = instruction.data;
-  if (!data) {
+  if (!instruction.data) {
     return null;
   }
 
-  // Extract instruction type (first byte)
-  const instructionType = data[0] as DLNInstructionType;
+  // Instruction data is base58 encoded in parsed transactions
+  const data: Buffer =
+    typeof instruction.data === 'string'
+      ? Buffer.from(utils.bytes.bs58.decode(instruction.data))
+      : Buffer.from(instruction.data);
+
+  if (data.length === 0) {
+    return null;
+  }
+
+  const decoded = decodeInstructionData(data, registry);
 
-  // Parse based on instruction type
-  // This is a stub - implement actual parsing based on DLN program schema
   return {
-    type: instructionType,
-    data: {}, // TODO: Implement actual data parsing
+    type: decoded.type,
+    data: decoded.args,
     accounts: instruction.accounts || [],
   };
 }
 
 /**
- * Decode instruction data using Borsh
- * TODO: Implement based on actual DLN program IDL
+ * Decode instruction data (Anchor discriminator followed by Borsh-encoded arguments)
+ * Unknown discriminators are returned as DLNInstructionType.Unrecognized
  */
-export function decodeInstructionData(_data: Buffer, _instructionType: DLNInstructionType): unknown {
-  // Implement Borsh deserialization here
-  return {};
+export function decodeInstructionData(
+  data: Buffer,
+  registry: DlnDiscriminatorRegistry = defaultDiscriminatorRegistry,
+): DecodedDlnInstruction {
+  return registry.decode(data);
 }
@@ -2,10 +2,12 @@ import { Connection, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.j
 import type { TransactionDto, OrderDto } from '@incur-data/dtos';
 import { parseInstruction } from './instruction-parser.js';
 import { parseAccounts } from './account-parser.js';
-import type {
-  ParsedTransaction,
-  ParserConfig,
-  CreateOrderData,
+import { extractOrderIdFromLogs } from './dln-event-parser.js';
+import {
+  DLNInstructionType,
+  type ParsedTransaction,
+  type ParserConfig,
+  type CreateOrderData,
 } from './types.js';
 
 /**
@@ -70,6 +72,8 @@ export class TransactionParser {
     // Parse instructions
     const parsedInstructions = [];
     const orders: OrderDto[] = [];
+    // Order id is derived on-chain, so it is only available from logs
+    const orderId = extractOrderIdFromLogs(tx.meta.logMessages ?? []);
 
     if (tx.transaction.message.instructions) {
       for (const instruction of tx.transaction.message.instructions) {
@@ -79,10 +83,12 @@ export class TransactionParser {
             parsedInstructions.push(parsed);
 
             // Extract order data if it's a CreateOrder instruction
-            if (parsed.type === 0) {
-              // DLNInstructionType.CreateOrder
+            const isCreateOrder =
+              parsed.type === DLNInstructionType.CreateOrder ||
+              parsed.type === DLNInstructionType.CreateOrderWithNonce;
+            if (isCreateOrder && orderId) {
               const orderData = parsed.data as CreateOrderData;
-              const order = this.createOrderDto(signature, tx, orderData);
+              const order = this.createOrderDto(signature, tx, orderId, parsed.accounts, orderData);
               orders.push(order);
             }
           }
@@ -101,28 +107,32 @@ export class TransactionParser {
 
   /**
    * Create an OrderDto from CreateOrder instruction data
+   * Maker and give token are taken from the instruction accounts
    */
   private createOrderDto(
     signature: string,
     tx: ParsedTransactionWithMeta,
+    orderId: string,
+    accounts: PublicKey[],
     data: CreateOrderData,
   ): OrderDto {
     return {
-      orderId: data.orderId,
+      orderId,
       signature,
-      maker: data.receiver.toBase58(),
+      maker: accounts[0]?.toBase58() ?? '',
       giveChainId: `chain-${data.giveChainId}`,
       takeChainId: `chain-${data.takeChainId}`,
-      giveTokenAddress: data.giveTokenMint.toBase58(),
-      takeTokenAddress: data.takeTokenMint.toBase58(),
+      giveTokenAddress: accounts[1]?.toBase58() ?? '',
+      takeTokenAddress: data.takeTokenAddress,
       giveAmount: data.giveAmount.toString(),
       takeAmount: data.takeAmount.toString(),
       status: 'created',
       createdSlot: tx.slot,
-      expirySlot: data.expirySlot,
       affiliateFee: data.affiliateFee?.toString(),
-      allowedTaker: data.allowedTaker?.toBase58(),
+      affiliateFeeBeneficiary: data.affiliateFeeBeneficiary?.toBase58(),
+      allowedTaker: data.allowedTaker,
       allowedCancelBeneficiary: data.allowedCancelBeneficiary?.toBase58(),
+      externalCall: data.externalCall,
       createdAt: new Date(tx.blockTime! * 1000),
     };
   }
@@ -3,6 +3,7 @@ import { OrderDto, TransactionDto } from '@incur-data/dtos';
 
 /**
  * DLN Instruction types
+ * Identified on-chain by Anchor discriminators (see dln-discriminators.ts)
  */
 export enum DLNInstructionType {
   CreateOrder = 0,
@@ -10,6 +11,7 @@ export enum DLNInstructionType {
   CancelOrder = 2,
   ClaimOrder = 3,
   CreateOrderWithNonce = 4,
+  Unrecognized = -1,
 }
 
 /**
@@ -21,22 +23,60 @@ export interface ParsedDLNInstruction {
   accounts: PublicKey[];
 }
 
+/**
+ * Data of an instruction whose discriminator is not registered
+ */
+export interface UnrecognizedInstructionData {
+  discriminator: string;
+  data: string;
+}
+
+/**
+ * Cross-chain offer (one side of a DLN order)
+ */
+export interface DlnOffer {
+  chainId: number;
+  tokenAddress: string;
+  amount: bigint;
+}
+
+/**
+ * DLN order as passed to destination program instructions
+ */
+export interface DlnOrder {
+  makerOrderNonce: bigint;
+  maker: string;
+  give: DlnOffer;
+  take: DlnOffer;
+  receiver: string;
+  givePatchAuthority: string;
+  orderAuthorityAddress: string;
+  allowedTaker?: string;
+  allowedCancelBeneficiary?: string;
+  externalCallShortcut?: string;
+}
+
 /**
  * Create Order instruction data
+ * The order id is not part of the arguments, it is derived on-chain
  */
 export interface CreateOrderData {
-  orderId: string;
   giveAmount: bigint;
   takeAmount: bigint;
-  giveTokenMint: PublicKey;
-  takeTokenMint: PublicKey;
   giveChainId: number;
   takeChainId: number;
-  receiver: PublicKey;
-  affiliateFee?: bigint;
-  allowedTaker?: PublicKey;
+  takeTokenAddress: string;
+  receiver: string;
+  givePatchAuthority: PublicKey;
+  orderAuthorityAddress: string;
+  allowedTaker?: string;
   allowedCancelBeneficiary?: PublicKey;
-  expirySlot?: number;
+  externalCall?: string;
+  affiliateFee?: bigint;
+  affiliateFeeBeneficiary?: PublicKey;
+  referralCode?: number;
+  nonce?: bigint;
+  metadata?: string;
 }
 
 /**
@@ -44,10 +84,13 @@ export interface CreateOrderData {
  */
 export interface FulfillOrderData {
   orderId: string;
+  order: DlnOrder;
   giveAmount: bigint;
   takeAmount: bigint;
-  orderBeneficiary: PublicKey;
-  unlockBeneficiary: PublicKey;
+  giveChainId: number;
+  takeChainId: number;
+  orderBeneficiary: string;
+  unlockAuthority?: PublicKey;
 }
 
 /**
@@ -55,7 +98,9 @@ export interface FulfillOrderData {
  */
 export interface CancelOrderData {
   orderId: string;
-  beneficiary: PublicKey;
+  order: DlnOrder;
+  beneficiary: string;
+  executionFee: bigint;
 }
 
 /**
@@ -88,6 +133,10 @@ export interface ParserConfig {
 export enum DlnEventType {
   OrderCreated = 'createOrderWithNonce',
   OrderFulfilled = 'OrderFulfilled',
+  OrderCancelled = 'OrderCancelled',
+  OrderClaimed = 'OrderClaimed',
+  SentUnlock = 'SentUnlock',
+  ClaimedUnlock = 'ClaimedUnlock',
   Unknown = 'Unknown',
 }
 
@@ -100,11 +149,12 @@ export interface ParsedDlnEvent {
   signature: string;
   slot: number;
   blockTime: number;
-  data: OrderCreatedData | OrderFulfilledData;
+  data: OrderCreatedData | OrderFulfilledData | OrderCancelledData | OrderClaimedData | OrderUnlockData;
 }
 
 /**
  * OrderCreated event data
+ * affiliateFee and percentFee are in give token base units, fixFee in lamports
  */
 export interface OrderCreatedData {
   maker: string;
@@ -117,6 +167,9 @@ export interface OrderCreatedData {
   receiver: string;
   expirySlot?: number;
   affiliateFee?: string;
+  affiliateFeeBeneficiary?: string;
+  fixFee?: string;
+  percentFee?: string;
   allowedTaker?: string;
   allowedCancelBeneficiary?: string;
 }
@@ -131,3 +184,138 @@ export interface OrderFulfilledData {
   orderBeneficiary: string;
   unlockBeneficiary: string;
 }
+
+/**
+ * OrderCancelled event data (order cancelled on the destination chain)
+ */
+export interface OrderCancelledData {
+  canceller: string;
+  beneficiary: string;
+  giveAmount: string;
+  takeAmount: string;
+  executionFee: string;
+}
+
+/**
+ * OrderClaimed event data (maker claimed the refund of a cancelled order on the source chain)
+ */
+export interface OrderClaimedData {
+  claimer: string;
+  beneficiary: string;
+}
+
+/**
+ * SentUnlock / ClaimedUnlock event data
+ * SentUnlock is emitted on the destination chain, ClaimedUnlock when the taker receives give funds
+ */
+export interface OrderUnlockData {
+  initiator: string;
+  beneficiary: string;
+}
+
+/**
+ * Anchor events emitted by DLN programs (via "Program data:" logs)
+ */
+export enum DlnAnchorEventName {
+  CreatedOrder = 'CreatedOrder',
+  CreatedOrderId = 'CreatedOrderId',
+  Fulfilled = 'Fulfilled',
+  SentUnlock = 'SentUnlock',
+  SentOrderCancel = 'SentOrderCancel',
+  OrderCancelled = 'OrderCancelled',
+  ClaimedUnlock = 'ClaimedUnlock',
+  ClaimedOrderCancel = 'ClaimedOrderCancel',
+}
+
+/**
+ * CreatedOrder event (source program)
+ * Does not carry the order id, it is emitted separately in CreatedOrderId
+ */
+export interface CreatedOrderEvent {
+  name: DlnAnchorEventName.CreatedOrder;
+  programId?: string;
+  order: DlnOrder;
+  fixFee: bigint;
+  percentFee: bigint;
+}
+
+/**
+ * CreatedOrderId event (source program)
+ */
+export interface CreatedOrderIdEvent {
+  name: DlnAnchorEventName.CreatedOrderId;
+  programId?: string;
+  orderId: string;
+}
+
+/**
+ * Fulfilled event (destination program)
+ */
+export interface FulfilledEvent {
+  name: DlnAnchorEventName.Fulfilled;
+  programId?: string;
+  orderId: string;
+  taker: string;
+}
+
+/**
+ * SentUnlock event (destination program)
+ */
+export interface SentUnlockEvent {
+  name: DlnAnchorEventName.SentUnlock;
+  programId?: string;
+  orderId: string;
+  beneficiary: string;
+}
+
+/**
+ * SentOrderCancel event (destination program)
+ */
+export interface SentOrderCancelEvent {
+  name: DlnAnchorEventName.SentOrderCancel;
+  programId?: string;
+  orderId: string;
+  beneficiary: string;
+}
+
+/**
+ * OrderCancelled event (destination program)
+ */
+export interface OrderCancelledEvent {
+  name: DlnAnchorEventName.OrderCancelled;
+  programId?: string;
+  orderId: string;
+}
+
+/**
+ * ClaimedUnlock event (source program)
+ */
+export interface ClaimedUnlockEvent {
+  name: DlnAnchorEventName.ClaimedUnlock;
+  programId?: string;
+  orderId: string;
+  beneficiary: string;
+}
+
+/**
+ * ClaimedOrderCancel event (source program)
+ */
+export interface ClaimedOrderCancelEvent {
+  name: DlnAnchorEventName.ClaimedOrderCancel;
+  programId?: string;
+  orderId: string;
+  beneficiary: string;
+}
+
+/**
+ * Decoded DLN Anchor event
+ */
+export type DecodedDlnEvent =
+  | CreatedOrderEvent
+  | CreatedOrderIdEvent
+  | FulfilledEvent
+  | SentUnlockEvent
+  | SentOrderCancelEvent
+  | OrderCancelledEvent
+  | ClaimedUnlockEvent
+  | ClaimedOrderCancelEvent;